@@ -34,6 +34,13 @@ export const UNIFI_ENDPOINTS = {
   CLIENT_DETAILS: '/proxy/network/api/s/{site}/stat/user/{id}',
   CLIENT_BLOCK: '/proxy/network/api/s/{site}/cmd/stamgr/block-sta',
   CLIENT_UNBLOCK: '/proxy/network/api/s/{site}/cmd/stamgr/unblock-sta',
+  USERS: '/proxy/network/api/s/{site}/rest/user',
+  USER_DETAILS: '/proxy/network/api/s/{site}/rest/user/{id}',
+  
+  // Guest Hotspot
+  VOUCHERS: '/proxy/network/api/s/{site}/stat/voucher',
+  HOTSPOT_CMD: '/proxy/network/api/s/{site}/cmd/hotspot',
+  GUESTS: '/proxy/network/api/s/{site}/stat/guest',
   
   // Legacy Firewall (pre-9.0)
   FIREWALL_RULES: '/proxy/network/api/s/{site}/rest/firewallrule',
@@ -46,14 +53,20 @@ export const UNIFI_ENDPOINTS = {
   FIREWALL_ZONE_POLICIES: '/proxy/network/api/s/{site}/rest/firewallzonepolicy',
   FIREWALL_ZONE_POLICY_DETAILS: '/proxy/network/api/s/{site}/rest/firewallzonepolicy/{id}',
   SIMPLE_APP_BLOCK: '/proxy/network/api/s/{site}/rest/simpleappblock',
+  SIMPLE_APP_BLOCK_DETAILS: '/proxy/network/api/s/{site}/rest/simpleappblock/{id}',
+  DPI_APPS: '/proxy/network/v2/api/site/{site}/dpi/apps',
+  DPI_CATEGORIES: '/proxy/network/v2/api/site/{site}/dpi/categories',
   
   // Network Management
   NETWORKS: '/proxy/network/api/s/{site}/rest/networkconf',
   NETWORK_DETAILS: '/proxy/network/api/s/{site}/rest/networkconf/{id}',
+  PORT_PROFILES: '/proxy/network/api/s/{site}/rest/portconf',
   
   // User Groups and IP Groups
   USER_GROUPS: '/proxy/network/api/s/{site}/rest/usergroup',
+  USER_GROUP_DETAILS: '/proxy/network/api/s/{site}/rest/usergroup/{id}',
   IP_GROUPS: '/proxy/network/api/s/{site}/rest/firewallgroup',
+  IP_GROUP_DETAILS: '/proxy/network/api/s/{site}/rest/firewallgroup/{id}',
   
   // Statistics and Monitoring
   SITE_STATS: '/proxy/network/api/s/{site}/stat/sites',
@@ -70,10 +83,14 @@ export const UNIFI_ENDPOINTS = {
   
   // Port Forwarding and Routing
   PORT_FORWARDS: '/proxy/network/api/s/{site}/rest/portforward',
+  PORT_FORWARD_DETAILS: '/proxy/network/api/s/{site}/rest/portforward/{id}',
   ROUTING: '/proxy/network/api/s/{site}/rest/routing',
+  ROUTING_DETAILS: '/proxy/network/api/s/{site}/rest/routing/{id}',
   
   // WiFi and Radio Management
   WLAN_CONF: '/proxy/network/api/s/{site}/rest/wlanconf',
+  WLAN_DETAILS: '/proxy/network/api/s/{site}/rest/wlanconf/{id}',
+  AP_GROUPS: '/proxy/network/v2/api/site/{site}/apgroups',
   RADIO_STATS: '/proxy/network/api/s/{site}/stat/device-radio',
   
   // Backup and Restore
@@ -81,7 +98,8 @@ export const UNIFI_ENDPOINTS = {
   RESTORE: '/proxy/network/api/s/{site}/cmd/restore',
   
   // Dynamic DNS
-  DYNAMIC_DNS: '/proxy/network/api/s/{site}/rest/dynamicdns'
+  DYNAMIC_DNS: '/proxy/network/api/s/{site}/rest/dynamicdns',
+  DYNAMIC_DNS_DETAILS: '/proxy/network/api/s/{site}/rest/dynamicdns/{id}'
 } as const;
 
 // ================================
@@ -124,6 +142,40 @@ export const ZONE_DESCRIPTIONS = {
   [PREDEFINED_ZONES.DMZ]: 'Demilitarized zone networks'
 } as const;
 
+// Built-in default actions between predefined zones (source -> destination).
+// Pairs not listed, including custom zones, default to block.
+export const ZONE_DEFAULT_ACTIONS: Record<string, Record<string, 'allow' | 'deny'>> = {
+  [PREDEFINED_ZONES.INTERNAL]: {
+    [PREDEFINED_ZONES.INTERNAL]: 'allow',
+    [PREDEFINED_ZONES.EXTERNAL]: 'allow',
+    [PREDEFINED_ZONES.GATEWAY]: 'allow',
+    [PREDEFINED_ZONES.VPN]: 'allow',
+    [PREDEFINED_ZONES.HOTSPOT]: 'allow',
+    [PREDEFINED_ZONES.DMZ]: 'allow'
+  },
+  [PREDEFINED_ZONES.GATEWAY]: {
+    [PREDEFINED_ZONES.INTERNAL]: 'allow',
+    [PREDEFINED_ZONES.EXTERNAL]: 'allow',
+    [PREDEFINED_ZONES.VPN]: 'allow',
+    [PREDEFINED_ZONES.HOTSPOT]: 'allow',
+    [PREDEFINED_ZONES.DMZ]: 'allow'
+  },
+  [PREDEFINED_ZONES.VPN]: {
+    [PREDEFINED_ZONES.INTERNAL]: 'allow',
+    [PREDEFINED_ZONES.EXTERNAL]: 'allow',
+    [PREDEFINED_ZONES.GATEWAY]: 'allow',
+    [PREDEFINED_ZONES.VPN]: 'allow'
+  },
+  [PREDEFINED_ZONES.HOTSPOT]: {
+    [PREDEFINED_ZONES.EXTERNAL]: 'allow',
+    [PREDEFINED_ZONES.GATEWAY]: 'allow'
+  },
+  [PREDEFINED_ZONES.DMZ]: {
+    [PREDEFINED_ZONES.EXTERNAL]: 'allow',
+    [PREDEFINED_ZONES.DMZ]: 'allow'
+  }
+};
+
 // ================================
 // Network Types and Purposes
 // ================================
@@ -214,15 +266,20 @@ export const COMMON_PORTS = {
   DNS: '53',
   DHCP_SERVER: '67',
   DHCP_CLIENT: '68',
+  NTP: '123',
   POP3: '110',
   IMAP: '143',
   SNMP: '161',
   LDAP: '389',
   LDAPS: '636',
+  SMB: '445',
+  MSSQL: '1433',
+  RDP: '3389',
   MYSQL: '3306',
   POSTGRESQL: '5432',
   REDIS: '6379',
-  MONGODB: '27017'
+  MONGODB: '27017',
+  PLEX: '32400'
 } as const;
 
 export const COMMON_PORT_RANGES = {
@@ -235,6 +292,21 @@ export const COMMON_PORT_RANGES = {
   SIP: '5060-5061'
 } as const;
 
+// Services from COMMON_PORTS that should not be reachable from the Internet
+export const SENSITIVE_PORTS = [
+  'SSH',
+  'TELNET',
+  'SMB',
+  'RDP',
+  'SNMP',
+  'LDAP',
+  'MSSQL',
+  'MYSQL',
+  'POSTGRESQL',
+  'REDIS',
+  'MONGODB'
+] as const satisfies ReadonlyArray<keyof typeof COMMON_PORTS>;
+
 // ================================
 // Application Categories
 // ================================
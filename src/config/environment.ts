@@ -1,4 +1,6 @@
 import { config as loadDotenv } from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
 import { z } from 'zod';
 import { ConfigurationError } from '../utils/errors.js';
 import { ServerConfigSchema } from '../server/types.js';
@@ -14,6 +16,11 @@ import { UniFiConfigSchema } from '../unifi/types.js';
 // Load environment variables from .env file
 loadDotenv();
 
+// Package root (this file lives in src/config or dist/config), so data files
+// do not depend on the working directory the MCP client starts us from
+const PACKAGE_ROOT = fileURLToPath(new URL('../../', import.meta.url));
+const DEFAULT_JOB_STORE_PATH = path.join(PACKAGE_ROOT, 'data', 'jobs.json');
+
 // ================================
 // Configuration Schemas
 // ================================
@@ -47,7 +54,8 @@ const SecurityConfigSchema = z.object({
   allowInsecureConnections: z.boolean().default(true),
   apiKeyRotationDays: z.number().min(1).max(365).default(90),
   sessionTimeoutMinutes: z.number().min(5).max(1440).default(60),
-  maxFailedAttempts: z.number().min(1).max(100).default(5)
+  maxFailedAttempts: z.number().min(1).max(100).default(5),
+  voucherExportToken: z.string().min(16).optional()
 });
 
 const FeatureFlagsSchema = z.object({
@@ -83,6 +91,16 @@ const MonitoringConfigSchema = z.object({
   }).default({})
 });
 
+const JobsConfigSchema = z.object({
+  storePath: z.string().min(1).default(DEFAULT_JOB_STORE_PATH),
+  pollIntervalMs: z.number().min(1000).max(300000).default(15000),
+  maxAttempts: z.number().min(0).max(1000).default(0)
+});
+
+const TemplatesConfigSchema = z.object({
+  directory: z.string().min(1).optional()
+});
+
 // ================================
 // Main Configuration Schema
 // ================================
@@ -124,7 +142,13 @@ const EnvironmentConfigSchema = z.object({
   performance: PerformanceConfigSchema,
   
   // Monitoring Settings
-  monitoring: MonitoringConfigSchema
+  monitoring: MonitoringConfigSchema,
+
+  // Scheduled Jobs
+  jobs: JobsConfigSchema,
+
+  // Firewall Rule Templates
+  templates: TemplatesConfigSchema
 });
 
 export type EnvironmentConfig = z.infer<typeof EnvironmentConfigSchema>;
@@ -237,7 +261,8 @@ class ConfigurationBuilder {
         allowInsecureConnections: this.parseBoolean(env.SECURITY_ALLOW_INSECURE, true),
         apiKeyRotationDays: this.parseNumber(env.SECURITY_API_KEY_ROTATION_DAYS, 90),
         sessionTimeoutMinutes: this.parseNumber(env.SECURITY_SESSION_TIMEOUT, 60),
-        maxFailedAttempts: this.parseNumber(env.SECURITY_MAX_FAILED_ATTEMPTS, 5)
+        maxFailedAttempts: this.parseNumber(env.SECURITY_MAX_FAILED_ATTEMPTS, 5),
+        voucherExportToken: env.VOUCHER_EXPORT_TOKEN || undefined
       },
       
       features: {
@@ -271,6 +296,16 @@ class ConfigurationBuilder {
           memoryUsage: this.parseNumber(env.MONITORING_MEMORY_THRESHOLD, 0.8),
           diskUsage: this.parseNumber(env.MONITORING_DISK_THRESHOLD, 0.9)
         }
+      },
+
+      jobs: {
+        storePath: this.resolvePackagePath(env.JOB_STORE_PATH, DEFAULT_JOB_STORE_PATH),
+        pollIntervalMs: this.parseNumber(env.JOB_POLL_INTERVAL_MS, 15000),
+        maxAttempts: this.parseNumber(env.JOB_MAX_ATTEMPTS, 0)
+      },
+
+      templates: {
+        directory: env.FIREWALL_TEMPLATE_DIR || undefined
       }
     };
   }
@@ -323,6 +358,13 @@ class ConfigurationBuilder {
     }
   }
 
+  /**
+   * Resolve a configured file path, relative paths against the package root
+   */
+  private resolvePackagePath(value: string | undefined, defaultValue: string): string {
+    return value ? path.resolve(PACKAGE_ROOT, value) : defaultValue;
+  }
+
   /**
    * Parse boolean from string
    */
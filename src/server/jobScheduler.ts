@@ -0,0 +1,337 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { ErrorCode } from './types.js';
+import { config } from '../config/environment.js';
+import { createComponentLogger } from '../utils/logger.js';
+import { UniFiMCPError, ResourceNotFoundError, ResourceConflictError } from '../utils/errors.js';
+
+/**
+ * Scheduled Job System
+ *
+ * Persists one-off jobs (such as expiring a temporary firewall rule) to a
+ * local JSON file and runs them once they fall due. Jobs survive server
+ * restarts: overdue jobs are picked up on the first poll after start-up.
+ */
+
+const TERMINAL_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ScheduledJob {
+  id: string;
+  type: string;
+  targetId: string;
+  targetName: string;
+  description: string;
+  payload: Record<string, any>;
+  runAt: string;
+  createdAt: string;
+  status: JobStatus;
+  attempts: number;
+  /** Earliest time a failed job is retried (exponential backoff) */
+  nextAttemptAt?: string | undefined;
+  lastError?: string;
+  result?: string;
+  finishedAt?: string;
+}
+
+export type NewJob = Pick<ScheduledJob, 'type' | 'targetId' | 'targetName' | 'description' | 'runAt'> & {
+  payload?: Record<string, any>;
+};
+
+/**
+ * Runs a due job and returns a short description of what it did
+ */
+export type JobHandler = (job: ScheduledJob) => Promise<string>;
+
+// ================================
+// Job Store
+// ================================
+
+export class JobStore {
+  private jobs: ScheduledJob[] | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private logger = createComponentLogger('job-store');
+
+  constructor(private readonly filePath: string) {}
+
+  async list(): Promise<ScheduledJob[]> {
+    return this.exclusive(async () => (await this.load()).map(job => ({ ...job })));
+  }
+
+  async add(job: NewJob): Promise<ScheduledJob> {
+    return this.exclusive(async () => {
+      const jobs = await this.load();
+      const created: ScheduledJob = {
+        id: randomUUID(),
+        payload: {},
+        ...job,
+        createdAt: new Date().toISOString(),
+        status: 'pending',
+        attempts: 0
+      };
+      jobs.push(created);
+      await this.save();
+      return { ...created };
+    });
+  }
+
+  async update(id: string, changes: Partial<Omit<ScheduledJob, 'id'>>): Promise<ScheduledJob> {
+    return this.exclusive(async () => {
+      const job = this.find(await this.load(), id);
+      Object.assign(job, changes);
+      await this.save();
+      return { ...job };
+    });
+  }
+
+  /**
+   * Mark a pending job as running so it can no longer be cancelled.
+   * Returns null when the job was cancelled or claimed in the meantime.
+   */
+  async claim(id: string): Promise<ScheduledJob | null> {
+    return this.exclusive(async () => {
+      const job = this.find(await this.load(), id);
+      if (job.status !== 'pending') {
+        return null;
+      }
+      job.status = 'running';
+      await this.save();
+      return { ...job };
+    });
+  }
+
+  /**
+   * Return jobs left running by a stopped server to the queue
+   */
+  async requeueRunning(): Promise<number> {
+    return this.exclusive(async () => {
+      const running = (await this.load()).filter(job => job.status === 'running');
+      if (running.length === 0) {
+        return 0;
+      }
+      running.forEach(job => { job.status = 'pending'; });
+      await this.save();
+      return running.length;
+    });
+  }
+
+  async cancel(id: string): Promise<ScheduledJob> {
+    return this.exclusive(async () => {
+      const job = this.find(await this.load(), id);
+      if (job.status !== 'pending') {
+        throw new ResourceConflictError(`Job '${id}' is already ${job.status}`, id, { status: job.status });
+      }
+      job.status = 'cancelled';
+      job.finishedAt = new Date().toISOString();
+      await this.save();
+      return { ...job };
+    });
+  }
+
+  /**
+   * Pending jobs whose run time (or retry time) has passed, oldest first
+   */
+  async due(now: Date = new Date()): Promise<ScheduledJob[]> {
+    const jobs = await this.list();
+    return jobs
+      .filter(job => job.status === 'pending' && Date.parse(job.nextAttemptAt ?? job.runAt) <= now.getTime())
+      .sort((a, b) => Date.parse(a.runAt) - Date.parse(b.runAt));
+  }
+
+  private find(jobs: ScheduledJob[], id: string): ScheduledJob {
+    const job = jobs.find(j => j.id === id);
+    if (!job) {
+      throw new ResourceNotFoundError('Scheduled job', id);
+    }
+    return job;
+  }
+
+  /**
+   * Serialize access so a load/modify/save cycle never interleaves with another
+   */
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async load(): Promise<ScheduledJob[]> {
+    if (this.jobs) {
+      return this.jobs;
+    }
+
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      if (!Array.isArray(parsed?.jobs)) {
+        throw new Error('missing jobs array');
+      }
+      this.jobs = parsed.jobs as ScheduledJob[];
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'ENOENT') {
+        throw new UniFiMCPError(
+          `Job store '${this.filePath}' could not be read: ${(error as Error).message}`,
+          ErrorCode.JOB_STORE_ERROR
+        );
+      }
+      this.jobs = [];
+    }
+
+    this.logger.debug('Job store loaded', { path: this.filePath, jobs: this.jobs.length });
+    return this.jobs;
+  }
+
+  /**
+   * Write the store atomically, dropping finished jobs past their retention
+   */
+  private async save(): Promise<void> {
+    const cutoff = Date.now() - TERMINAL_RETENTION_MS;
+    this.jobs = (this.jobs ?? []).filter(job =>
+      job.status === 'pending' || job.status === 'running' || !job.finishedAt || Date.parse(job.finishedAt) >= cutoff
+    );
+
+    const temporary = `${this.filePath}.${process.pid}.tmp`;
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(temporary, JSON.stringify({ version: 1, jobs: this.jobs }, null, 2));
+      await fs.rename(temporary, this.filePath);
+    } catch (error) {
+      throw new UniFiMCPError(
+        `Job store '${this.filePath}' could not be written: ${(error as Error).message}`,
+        ErrorCode.JOB_STORE_ERROR
+      );
+    }
+  }
+}
+
+// ================================
+// Job Scheduler
+// ================================
+
+export class JobScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+  private logger = createComponentLogger('job-scheduler');
+
+  constructor(
+    private readonly store: JobStore,
+    private readonly handlers: Record<string, JobHandler>,
+    private readonly options: { intervalMs: number; maxAttempts: number }
+  ) {}
+
+  /**
+   * Start polling; the first poll runs immediately to catch up on jobs
+   * that fell due while the server was down
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    // Jobs interrupted by a previous shutdown are run again; handlers treat
+    // an already-applied undo as done
+    const recovered = this.store.requeueRunning()
+      .then(count => {
+        if (count > 0) this.logger.warn('Requeued interrupted scheduled jobs', { count });
+      })
+      .catch(error => this.logger.error('Failed to requeue interrupted scheduled jobs', error));
+
+    const poll = () => {
+      recovered
+        .then(() => this.runDueJobs())
+        .catch(error => this.logger.error('Scheduled job poll failed', error));
+    };
+
+    this.timer = setInterval(poll, this.options.intervalMs);
+    this.timer.unref?.();
+    poll();
+
+    this.logger.info('Job scheduler started', { intervalMs: this.options.intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run every due job once. Each job is claimed first, so a job cancelled
+   * while earlier jobs were running is skipped. A failed job goes back to
+   * pending and is retried with exponential backoff until it reaches the
+   * attempt limit; a limit of 0 retries until the job is cancelled.
+   */
+  async runDueJobs(now: Date = new Date()): Promise<ScheduledJob[]> {
+    if (this.running) {
+      return [];
+    }
+
+    this.running = true;
+    try {
+      const finished: ScheduledJob[] = [];
+      for (const due of await this.store.due(now)) {
+        const job = await this.store.claim(due.id);
+        if (job) {
+          finished.push(await this.runJob(job, now));
+        }
+      }
+      return finished;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async runJob(job: ScheduledJob, now: Date): Promise<ScheduledJob> {
+    const attempts = job.attempts + 1;
+    const handler = this.handlers[job.type];
+
+    try {
+      if (!handler) {
+        throw new UniFiMCPError(`No handler for job type '${job.type}'`, ErrorCode.JOB_EXECUTION_FAILED);
+      }
+
+      const result = await handler(job);
+      this.logger.info('Scheduled job completed', { id: job.id, type: job.type, result });
+
+      return await this.store.update(job.id, {
+        status: 'completed',
+        attempts,
+        nextAttemptAt: undefined,
+        result,
+        finishedAt: new Date().toISOString()
+      });
+    } catch (error) {
+      const { maxAttempts } = this.options;
+      const giveUp = !handler || (maxAttempts > 0 && attempts >= maxAttempts);
+      const nextAttemptAt = giveUp ? undefined : new Date(now.getTime() + this.retryDelay(attempts)).toISOString();
+      this.logger.error(`Scheduled job ${giveUp ? 'failed' : 'will be retried'}`, error, {
+        id: job.id,
+        type: job.type,
+        attempts,
+        nextAttemptAt
+      });
+
+      return this.store.update(job.id, {
+        attempts,
+        nextAttemptAt,
+        lastError: (error as Error).message,
+        ...(giveUp
+          ? { status: 'failed' as const, finishedAt: new Date().toISOString() }
+          : { status: 'pending' as const })
+      });
+    }
+  }
+
+  /**
+   * Delay before the next attempt: the poll interval, doubled per failed
+   * attempt and capped
+   */
+  private retryDelay(attempts: number): number {
+    return Math.min(this.options.intervalMs * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+  }
+}
+
+export const jobStore = new JobStore(config.jobs.storePath);
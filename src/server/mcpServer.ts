@@ -3,6 +3,7 @@ import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprot
 import { UniFiClient, createUniFiClient } from '../unifi/client.js';
 import { VersionDetector } from '../unifi/versionDetector.js';
 import { ToolRegistry } from './toolRegistry.js';
+import { JobScheduler, jobStore } from './jobScheduler.js';
 import { createComponentLogger } from '../utils/logger.js';
 import { config, ConfigUtils } from '../config/environment.js';
 import { UniFiMCPError, errorManager } from '../utils/errors.js';
@@ -12,11 +13,15 @@ import { ErrorCode } from './types.js';
 import { registerConnectionTools } from '../tools/connection/index.js';
 import { registerDeviceTools } from '../tools/devices/index.js';
 import { registerClientTools } from '../tools/clients/index.js';
+import { registerHotspotTools } from '../tools/hotspot/index.js';
 import { registerLegacyFirewallTools } from '../tools/firewall/legacy.js';
 import { registerZBFTools } from '../tools/firewall/zbf.js';
+import { registerFirewallAnalysisTools } from '../tools/firewall/analysis.js';
 import { registerNetworkTools } from '../tools/networks/index.js';
+import { registerGroupTools } from '../tools/groups/index.js';
 import { registerMonitoringTools } from '../tools/monitoring/index.js';
 import { registerAutomationTools } from '../tools/automation/index.js';
+import { createExpiryHandlers } from '../tools/firewall/expiry.js';
 
 /**
  * UniFi Network MCP Server
@@ -33,6 +38,7 @@ export class UniFiMCPServer {
   private logger = createComponentLogger('mcp-server');
   private isInitialized = false;
   private healthCheckInterval: ReturnType<typeof setInterval> | null = null;
+  private jobScheduler: JobScheduler;
 
   constructor(server: Server) {
     this.server = server;
@@ -59,6 +65,12 @@ export class UniFiMCPServer {
 
     // Initialize tool registry
     this.toolRegistry = new ToolRegistry(this.unifiClient, this.versionDetector);
+
+    // Initialize scheduler for expiring firewall changes
+    this.jobScheduler = new JobScheduler(jobStore, createExpiryHandlers(this.unifiClient), {
+      intervalMs: config.jobs.pollIntervalMs,
+      maxAttempts: config.jobs.maxAttempts
+    });
   }
 
   // ================================
@@ -86,6 +98,9 @@ export class UniFiMCPServer {
         this.startHealthMonitoring();
       }
 
+      // Run scheduled jobs, including any that fell due while stopped
+      this.jobScheduler.start();
+
       this.isInitialized = true;
       
       this.logger.info('UniFi MCP Server initialized successfully', {
@@ -190,9 +205,11 @@ export class UniFiMCPServer {
       // Register device and client management tools (always available)
       await registerDeviceTools(this.toolRegistry, this.unifiClient);
       await registerClientTools(this.toolRegistry, this.unifiClient);
+      await registerHotspotTools(this.toolRegistry, this.unifiClient);
 
       // Register network management tools (always available)
       await registerNetworkTools(this.toolRegistry, this.unifiClient);
+      await registerGroupTools(this.toolRegistry, this.unifiClient, this.versionDetector);
 
       // Register firewall tools based on feature flags and capabilities
       if (config.features.enableLegacyFirewall) {
@@ -203,6 +220,10 @@ export class UniFiMCPServer {
         await registerZBFTools(this.toolRegistry, this.unifiClient, this.versionDetector);
       }
 
+      if (config.features.enableLegacyFirewall || config.features.enableZBFTools) {
+        await registerFirewallAnalysisTools(this.toolRegistry, this.unifiClient, this.versionDetector);
+      }
+
       // Register monitoring tools if enabled
       if (config.features.enableMonitoring) {
         await registerMonitoringTools(this.toolRegistry, this.unifiClient);
@@ -402,6 +423,9 @@ export class UniFiMCPServer {
         this.healthCheckInterval = null;
       }
 
+      // Stop scheduled jobs
+      this.jobScheduler.stop();
+
       // Disconnect from UniFi
       if (this.unifiClient.isConnected()) {
         await this.unifiClient.disconnect();
@@ -193,7 +193,47 @@ export enum ErrorCode {
   KICK_FAILED = 'KICK_FAILED',
   RESTART_FAILED = 'RESTART_FAILED',
   ADOPTION_FAILED = 'ADOPTION_FAILED',
-  UPGRADE_FAILED = 'UPGRADE_FAILED'
+  UPGRADE_FAILED = 'UPGRADE_FAILED',
+  NETWORK_CREATION_FAILED = 'NETWORK_CREATION_FAILED',
+  NETWORK_UPDATE_FAILED = 'NETWORK_UPDATE_FAILED',
+  NETWORK_DELETION_FAILED = 'NETWORK_DELETION_FAILED',
+  CLIENT_UPDATE_FAILED = 'CLIENT_UPDATE_FAILED',
+  WLAN_CREATION_FAILED = 'WLAN_CREATION_FAILED',
+  WLAN_UPDATE_FAILED = 'WLAN_UPDATE_FAILED',
+  WLAN_DELETION_FAILED = 'WLAN_DELETION_FAILED',
+  VOUCHER_CREATION_FAILED = 'VOUCHER_CREATION_FAILED',
+  VOUCHER_REVOKE_FAILED = 'VOUCHER_REVOKE_FAILED',
+  PORT_FORWARD_CREATION_FAILED = 'PORT_FORWARD_CREATION_FAILED',
+  PORT_FORWARD_UPDATE_FAILED = 'PORT_FORWARD_UPDATE_FAILED',
+  PORT_FORWARD_DELETION_FAILED = 'PORT_FORWARD_DELETION_FAILED',
+  ROUTE_CREATION_FAILED = 'ROUTE_CREATION_FAILED',
+  ROUTE_UPDATE_FAILED = 'ROUTE_UPDATE_FAILED',
+  ROUTE_DELETION_FAILED = 'ROUTE_DELETION_FAILED',
+  DDNS_CREATION_FAILED = 'DDNS_CREATION_FAILED',
+  DDNS_UPDATE_FAILED = 'DDNS_UPDATE_FAILED',
+  DDNS_DELETION_FAILED = 'DDNS_DELETION_FAILED',
+  USER_GROUP_CREATION_FAILED = 'USER_GROUP_CREATION_FAILED',
+  USER_GROUP_UPDATE_FAILED = 'USER_GROUP_UPDATE_FAILED',
+  USER_GROUP_DELETION_FAILED = 'USER_GROUP_DELETION_FAILED',
+  ZONE_CREATION_FAILED = 'ZONE_CREATION_FAILED',
+  ZONE_UPDATE_FAILED = 'ZONE_UPDATE_FAILED',
+  ZONE_DELETION_FAILED = 'ZONE_DELETION_FAILED',
+  ZONE_POLICY_CREATION_FAILED = 'ZONE_POLICY_CREATION_FAILED',
+  ZONE_POLICY_UPDATE_FAILED = 'ZONE_POLICY_UPDATE_FAILED',
+  ZONE_POLICY_DELETION_FAILED = 'ZONE_POLICY_DELETION_FAILED',
+  APP_BLOCK_CREATION_FAILED = 'APP_BLOCK_CREATION_FAILED',
+  APP_BLOCK_UPDATE_FAILED = 'APP_BLOCK_UPDATE_FAILED',
+  APP_BLOCK_DELETION_FAILED = 'APP_BLOCK_DELETION_FAILED',
+  APP_NOT_FOUND = 'APP_NOT_FOUND',
+  IP_GROUP_CREATION_FAILED = 'IP_GROUP_CREATION_FAILED',
+  IP_GROUP_UPDATE_FAILED = 'IP_GROUP_UPDATE_FAILED',
+  IP_GROUP_DELETION_FAILED = 'IP_GROUP_DELETION_FAILED',
+  JOB_STORE_ERROR = 'JOB_STORE_ERROR',
+  JOB_SCHEDULE_FAILED = 'JOB_SCHEDULE_FAILED',
+  JOB_EXECUTION_FAILED = 'JOB_EXECUTION_FAILED',
+  LOCKOUT_GUARD_PRECHECK_FAILED = 'LOCKOUT_GUARD_PRECHECK_FAILED',
+  LOCKOUT_GUARD_ROLLED_BACK = 'LOCKOUT_GUARD_ROLLED_BACK',
+  LOCKOUT_GUARD_ROLLBACK_FAILED = 'LOCKOUT_GUARD_ROLLBACK_FAILED'
 }
 
 
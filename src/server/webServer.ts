@@ -1,6 +1,8 @@
+import { createHash, timingSafeEqual } from 'crypto';
 import express, { Request, Response, NextFunction } from 'express';
 import { UniFiMCPServer } from './mcpServer.js';
 import { createComponentLogger } from '../utils/logger.js';
+import { UniFiMCPError } from '../utils/errors.js';
 import { config } from '../config/environment.js';
 
 /**
@@ -30,8 +32,12 @@ export class UniFiWebServer {
     this.app.use(express.json());
     this.app.use(express.urlencoded({ extended: true }));
     
-    // CORS middleware
+    // CORS middleware; voucher exports carry live codes and are never shared cross-origin
     this.app.use((req: Request, res: Response, next: NextFunction) => {
+      if (req.path.startsWith('/hotspot/')) {
+        next();
+        return;
+      }
       res.header('Access-Control-Allow-Origin', '*');
       res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
       res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
@@ -122,12 +128,109 @@ export class UniFiWebServer {
       }
     });
 
+    // Hotspot voucher exports for the front desk (token and localhost only)
+    const voucherAccess = this.requireVoucherExportAccess.bind(this);
+
+    this.app.get('/hotspot/vouchers.csv', voucherAccess, (req: Request, res: Response) => {
+      this.sendVoucherExport(req, res, 'csv');
+    });
+
+    this.app.get('/hotspot/vouchers/print', voucherAccess, (req: Request, res: Response) => {
+      this.sendVoucherExport(req, res, 'html');
+    });
+
     // Root redirect
     this.app.get('/', (_req: Request, res: Response) => {
       res.redirect('/unifi-network/docs');
     });
   }
 
+  /**
+   * Voucher exports are disabled unless VOUCHER_EXPORT_TOKEN is set, are
+   * only answered on the loopback interface, and need the token as a
+   * Bearer header or "token" query parameter
+   */
+  private requireVoucherExportAccess(req: Request, res: Response, next: NextFunction): void {
+    const expected = config.security.voucherExportToken;
+    if (!expected) {
+      res.status(404).json({
+        error: 'Voucher export is disabled',
+        message: 'Set VOUCHER_EXPORT_TOKEN to enable voucher downloads'
+      });
+      return;
+    }
+
+    const remote = req.socket.remoteAddress ?? '';
+    if (!['127.0.0.1', '::1', '::ffff:127.0.0.1'].includes(remote)) {
+      logger.warn('Refused voucher export from non-local address', { remote });
+      res.status(403).json({ error: 'Voucher export is only available from localhost' });
+      return;
+    }
+
+    const header = req.headers.authorization;
+    const supplied = header?.startsWith('Bearer ')
+      ? header.slice('Bearer '.length)
+      : typeof req.query.token === 'string' ? req.query.token : '';
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+
+    if (!supplied || !timingSafeEqual(digest(supplied), digest(expected))) {
+      res.status(401).json({ error: 'Invalid or missing voucher export token' });
+      return;
+    }
+
+    res.setHeader('Cache-Control', 'no-store');
+    next();
+  }
+
+  private async sendVoucherExport(req: Request, res: Response, format: 'csv' | 'html'): Promise<void> {
+    try {
+      const params: Record<string, any> = { format };
+      if (req.query.createTime !== undefined) {
+        const createTime = Number(req.query.createTime);
+        if (typeof req.query.createTime !== 'string' || !Number.isInteger(createTime) || createTime <= 0) {
+          res.status(400).json({
+            error: 'Invalid createTime',
+            message: 'createTime must be the positive integer batch time returned by unifi_create_vouchers'
+          });
+          return;
+        }
+        params.createTime = createTime;
+      }
+      if (req.query.includeUsed === 'true') {
+        params.includeUsed = true;
+      }
+      if (typeof req.query.ssid === 'string') {
+        params.ssid = req.query.ssid;
+      }
+      if (typeof req.query.title === 'string') {
+        params.title = req.query.title;
+      }
+
+      const result = await this.mcpServer['toolRegistry'].executeTool('unifi_export_vouchers', params);
+
+      if (!result.success) {
+        res.status(500).json({
+          error: 'Failed to export vouchers',
+          message: result.error?.message
+        });
+        return;
+      }
+
+      res.setHeader('Content-Type', `${result.data.contentType}; charset=utf-8`);
+      if (format === 'csv') {
+        const suffix = params.createTime !== undefined ? `-${params.createTime}` : '';
+        res.setHeader('Content-Disposition', `attachment; filename="vouchers${suffix}.csv"`);
+      }
+      res.send(result.data.content);
+    } catch (error) {
+      logger.error('Failed to export vouchers', error);
+      res.status(error instanceof UniFiMCPError && error.statusCode ? error.statusCode : 500).json({
+        error: 'Failed to export vouchers',
+        message: (error as Error).message
+      });
+    }
+  }
+
   private async generateOpenApiSpec(): Promise<any> {
     try {
       const tools = await this.mcpServer['toolRegistry'].getToolsForMCP();
@@ -329,6 +432,7 @@ to establish a connection before using other functionality.
       { name: 'Connection', description: 'Connection and authentication tools' },
       { name: 'Devices', description: 'UniFi device management' },
       { name: 'Clients', description: 'Client device management' },
+      { name: 'Hotspot', description: 'Guest vouchers and authorizations' },
       { name: 'Networks', description: 'Network configuration' },
       { name: 'Firewall', description: 'Firewall rule management' },
       { name: 'Monitoring', description: 'System monitoring and metrics' },
@@ -341,6 +445,8 @@ to establish a connection before using other functionality.
       return 'Connection';
     } else if (toolName.includes('device')) {
       return 'Devices';
+    } else if (toolName.includes('voucher') || toolName.includes('guest')) {
+      return 'Hotspot';
     } else if (toolName.includes('client')) {
       return 'Clients';
     } else if (toolName.includes('network')) {
@@ -0,0 +1,152 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { JobStore, JobScheduler, JobHandler } from '../../../server/jobScheduler.js';
+
+async function tempStorePath(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'unifi-jobs-'));
+  return path.join(dir, 'nested', 'jobs.json');
+}
+
+const job = (runAt: string, name = 'Vendor access') => ({
+  type: 'firewall-rule.delete',
+  targetId: `rule-${name}`,
+  targetName: name,
+  description: `Delete '${name}'`,
+  runAt
+});
+
+describe('Scheduled Jobs', () => {
+  it('should persist pending jobs across store instances', async () => {
+    const filePath = await tempStorePath();
+    const created = await new JobStore(filePath).add(job('2030-01-01T00:00:00.000Z'));
+
+    const reopened = await new JobStore(filePath).list();
+    expect(reopened).toEqual([expect.objectContaining({
+      id: created.id,
+      status: 'pending',
+      attempts: 0,
+      payload: {}
+    })]);
+  });
+
+  it('should run overdue jobs in order and leave future jobs pending', async () => {
+    const store = new JobStore(await tempStorePath());
+    await store.add(job('2025-01-01T12:00:00.000Z', 'Later'));
+    await store.add(job('2025-01-01T10:00:00.000Z', 'Earlier'));
+    await store.add(job('2025-01-02T00:00:00.000Z', 'Tomorrow'));
+
+    const ran: string[] = [];
+    const handler: JobHandler = async (j) => {
+      ran.push(j.targetName);
+      return `deleted ${j.targetName}`;
+    };
+    const scheduler = new JobScheduler(store, { 'firewall-rule.delete': handler }, { intervalMs: 1000, maxAttempts: 3 });
+
+    const finished = await scheduler.runDueJobs(new Date('2025-01-01T13:00:00.000Z'));
+    expect(ran).toEqual(['Earlier', 'Later']);
+    expect(finished.map(j => [j.status, j.result])).toEqual([
+      ['completed', 'deleted Earlier'],
+      ['completed', 'deleted Later']
+    ]);
+    expect((await store.list()).filter(j => j.status === 'pending').map(j => j.targetName)).toEqual(['Tomorrow']);
+  });
+
+  it('should retry failed jobs with backoff until the attempt limit', async () => {
+    const store = new JobStore(await tempStorePath());
+    await store.add(job('2025-01-01T00:00:00.000Z'));
+    const failing: JobHandler = async () => {
+      throw new Error('controller unreachable');
+    };
+    const scheduler = new JobScheduler(store, { 'firewall-rule.delete': failing }, { intervalMs: 1000, maxAttempts: 3 });
+    const at = (seconds: number) => new Date(Date.parse('2025-01-01T01:00:00.000Z') + seconds * 1000);
+
+    expect(await scheduler.runDueJobs(at(0))).toEqual([expect.objectContaining({
+      status: 'pending',
+      attempts: 1,
+      nextAttemptAt: at(1).toISOString(),
+      lastError: 'controller unreachable'
+    })]);
+    expect(await scheduler.runDueJobs(at(0))).toEqual([]);
+    expect(await scheduler.runDueJobs(at(1))).toEqual([expect.objectContaining({ attempts: 2, nextAttemptAt: at(3).toISOString() })]);
+    expect(await scheduler.runDueJobs(at(2))).toEqual([]);
+    expect(await scheduler.runDueJobs(at(3))).toEqual([expect.objectContaining({ status: 'failed', attempts: 3 })]);
+    expect(await scheduler.runDueJobs(at(3600))).toEqual([]);
+  });
+
+  it('should keep retrying without an attempt limit and cap the backoff', async () => {
+    const store = new JobStore(await tempStorePath());
+    await store.add(job('2025-01-01T00:00:00.000Z'));
+    let calls = 0;
+    const recovering: JobHandler = async () => {
+      if (++calls < 20) throw new Error('controller unreachable');
+      return 'deleted';
+    };
+    const scheduler = new JobScheduler(store, { 'firewall-rule.delete': recovering }, { intervalMs: 15000, maxAttempts: 0 });
+
+    let now = new Date('2025-01-01T00:00:00.000Z');
+    let last = (await scheduler.runDueJobs(now))[0];
+    while (last.status === 'pending') {
+      expect(Date.parse(last.nextAttemptAt!) - now.getTime()).toBeLessThanOrEqual(60 * 60 * 1000);
+      now = new Date(last.nextAttemptAt!);
+      last = (await scheduler.runDueJobs(now))[0];
+    }
+
+    expect(last).toMatchObject({ status: 'completed', attempts: 20, result: 'deleted' });
+    expect(last.nextAttemptAt).toBeUndefined();
+  });
+
+  it('should cancel only pending jobs', async () => {
+    const store = new JobStore(await tempStorePath());
+    const created = await store.add(job('2025-01-01T00:00:00.000Z'));
+
+    expect((await store.cancel(created.id)).status).toBe('cancelled');
+    await expect(store.cancel(created.id)).rejects.toThrow('already cancelled');
+    await expect(store.cancel('missing')).rejects.toThrow("'missing' not found");
+    expect(await store.due(new Date('2025-02-01T00:00:00.000Z'))).toEqual([]);
+  });
+
+  it('should skip jobs cancelled while earlier jobs run and refuse to cancel a running job', async () => {
+    const store = new JobStore(await tempStorePath());
+    await store.add(job('2025-01-01T10:00:00.000Z', 'First'));
+    const second = await store.add(job('2025-01-01T11:00:00.000Z', 'Second'));
+
+    const ran: string[] = [];
+    let cancelError: Error | undefined;
+    const handler: JobHandler = async (j) => {
+      ran.push(j.targetName);
+      if (j.targetName === 'First') {
+        await store.cancel(second.id);
+        cancelError = await store.cancel(j.id).then(() => undefined, error => error);
+      }
+      return 'done';
+    };
+    const scheduler = new JobScheduler(store, { 'firewall-rule.delete': handler }, { intervalMs: 1000, maxAttempts: 3 });
+
+    await scheduler.runDueJobs(new Date('2025-01-01T12:00:00.000Z'));
+    expect(ran).toEqual(['First']);
+    expect(cancelError?.message).toContain('already running');
+    expect((await store.list()).map(j => [j.targetName, j.status])).toEqual([
+      ['First', 'completed'],
+      ['Second', 'cancelled']
+    ]);
+  });
+
+  it('should requeue jobs left running by a stopped server', async () => {
+    const filePath = await tempStorePath();
+    const created = await new JobStore(filePath).add(job('2025-01-01T00:00:00.000Z'));
+    await new JobStore(filePath).claim(created.id);
+
+    const store = new JobStore(filePath);
+    expect(await store.requeueRunning()).toBe(1);
+    expect((await store.due(new Date('2025-01-02T00:00:00.000Z'))).map(j => j.id)).toEqual([created.id]);
+  });
+
+  it('should refuse to start from a corrupt store file', async () => {
+    const filePath = await tempStorePath();
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, '{ not json');
+
+    await expect(new JobStore(filePath).list()).rejects.toThrow('could not be read');
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  aliasChanges,
+  parseAliasMappings,
+  resolveClientMac,
+  setClientAliasesTool
+} from '../../../tools/clients/aliases.js';
+
+function fakeClient(users: any[]) {
+  const saved: Array<{ method: string; endpoint: string; body: any }> = [];
+  return {
+    saved,
+    get: async (endpoint: string) => {
+      if (endpoint.includes('/rest/user')) return { data: users };
+      if (endpoint.endsWith('/stat/user/client-42')) return { data: [{ mac: 'AA:BB:CC:00:00:42' }] };
+      return { data: [] };
+    },
+    put: async (endpoint: string, body: any) => {
+      saved.push({ method: 'put', endpoint, body });
+      return { data: [body] };
+    },
+    post: async (endpoint: string, body: any) => {
+      saved.push({ method: 'post', endpoint, body });
+      return { data: [body] };
+    }
+  };
+}
+
+describe('Client alias helpers', () => {
+  it('should only change fields that differ and clear with empty values', () => {
+    const existing = { name: 'TV', note: 'old', noted: true, fingerprint_override: true, dev_id_override: 12 };
+
+    expect(aliasChanges(existing, { name: 'TV', note: '', deviceId: 12 })).toEqual({ note: '', noted: false });
+    expect(aliasChanges(existing, { deviceId: null })).toEqual({ fingerprint_override: false });
+    expect(aliasChanges(undefined, { name: ' Printer ', deviceId: 7 })).toEqual({
+      name: 'Printer',
+      fingerprint_override: true,
+      dev_id_override: 7
+    });
+  });
+
+  it('should parse CSV with or without a header and JSON mappings', () => {
+    expect(parseAliasMappings('MAC,Alias,Note\r\naa:bb:cc:00:00:01,"Kitchen, Speaker",\n\naa:bb:cc:00:00:02,,"says ""hi"""')).toEqual([
+      { mac: 'aa:bb:cc:00:00:01', name: 'Kitchen, Speaker' },
+      { mac: 'aa:bb:cc:00:00:02', note: 'says "hi"' }
+    ]);
+    expect(parseAliasMappings('aa:bb:cc:00:00:03,Printer,2nd floor')).toEqual([
+      { mac: 'aa:bb:cc:00:00:03', name: 'Printer', note: '2nd floor' }
+    ]);
+    expect(parseAliasMappings('{"aa:bb:cc:00:00:04": "NAS", "aa:bb:cc:00:00:05": {"note": "x"}}')).toEqual([
+      { mac: 'aa:bb:cc:00:00:04', name: 'NAS' },
+      { mac: 'aa:bb:cc:00:00:05', note: 'x' }
+    ]);
+    expect(() => parseAliasMappings('mac,colour\naa:bb:cc:00:00:01,red')).toThrow('colour');
+  });
+
+  it('should resolve MACs, user IDs and client detail identifiers', async () => {
+    const users = [{ _id: 'u1', mac: 'AA:BB:CC:00:00:01' }];
+    const client = fakeClient(users) as any;
+
+    expect(await resolveClientMac(client, users, 'AA-BB-CC-00-00-09')).toBe('aa:bb:cc:00:00:09');
+    expect(await resolveClientMac(client, users, 'u1')).toBe('aa:bb:cc:00:00:01');
+    expect(await resolveClientMac(client, users, 'client-42')).toBe('aa:bb:cc:00:00:42');
+    await expect(resolveClientMac(client, users, 'missing')).rejects.toThrow('missing');
+  });
+
+  it('should update, skip and create user objects in bulk', async () => {
+    const client = fakeClient([
+      { _id: 'u1', mac: 'aa:bb:cc:00:00:01', name: 'Kitchen Speaker' },
+      { _id: 'u2', mac: 'aa:bb:cc:00:00:02', hostname: 'android-8a3f' }
+    ]);
+
+    const result = await setClientAliasesTool.handler({
+      _client: client,
+      mappings: [
+        { mac: 'aa:bb:cc:00:00:01', name: 'Kitchen Speaker' },
+        { mac: 'AA:BB:CC:00:00:02', name: 'Pixel' },
+        { mac: 'aa:bb:cc:00:00:03', name: 'New Camera' }
+      ]
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data.unchanged).toEqual(['aa:bb:cc:00:00:01']);
+    expect(result.data.updated.map((u: any) => u.name)).toEqual(['Pixel', 'New Camera']);
+    expect(client.saved.map(s => s.method)).toEqual(['put', 'post']);
+    expect(client.saved[1].body).toEqual({ mac: 'aa:bb:cc:00:00:03', name: 'New Camera' });
+    expect(result.warnings).toHaveLength(1);
+
+    const duplicate = await setClientAliasesTool.handler({
+      _client: client,
+      mappings: 'aa:bb:cc:00:00:01,A\naa:bb:cc:00:00:01,B'
+    });
+    expect(duplicate.success).toBe(false);
+  });
+
+  it('should reject a MAC listed twice before saving anything', async () => {
+    const client = fakeClient([]);
+
+    const csv = await setClientAliasesTool.handler({
+      _client: client,
+      mappings: 'aa:bb:cc:00:00:09,Camera\nAA-BB-CC-00-00-09,,Garage'
+    });
+    const json = await setClientAliasesTool.handler({
+      _client: client,
+      mappings: { 'aa:bb:cc:00:00:09': 'Camera', 'AA:BB:CC:00:00:09': { note: 'Garage' } }
+    });
+
+    for (const result of [csv, json]) {
+      expect(result.success).toBe(false);
+      expect(result.error!.message).toContain('aa:bb:cc:00:00:09 appears more than once');
+    }
+    expect(client.saved).toHaveLength(0);
+  });
+});
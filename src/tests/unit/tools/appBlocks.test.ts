@@ -0,0 +1,67 @@
+import {
+  matchCatalogEntry,
+  scoreCatalogName,
+  mapSimpleAppBlock,
+  toRawSimpleAppBlock
+} from '../../../tools/firewall/appBlocks.js';
+
+const apps = [
+  { id: 1, name: 'TikTok', categoryId: 24 },
+  { id: 2, name: 'TikTok Live', categoryId: 4 },
+  { id: 3, name: 'YouTube', categoryId: 4 },
+  { id: 4, name: 'YouTube Kids', categoryId: 4 },
+  { id: 5, name: 'Fortnite', categoryId: 8 },
+  { id: 6, name: 'Netflix', categoryId: 4 }
+];
+
+describe('DPI catalog matching', () => {
+  it('should prefer exact, then prefix, then substring matches', () => {
+    expect(scoreCatalogName('tiktok', 'TikTok')).toBe(1);
+    expect(scoreCatalogName('tik', 'TikTok')).toBeGreaterThan(scoreCatalogName('tube', 'YouTube'));
+    expect(scoreCatalogName('tube', 'YouTube')).toBeGreaterThan(scoreCatalogName('tiktock', 'TikTok'));
+  });
+
+  it('should resolve names, typos and IDs', () => {
+    expect(matchCatalogEntry('Tik Tok', apps).match?.id).toBe(1);
+    expect(matchCatalogEntry('tiktock', apps).match?.id).toBe(1);
+    expect(matchCatalogEntry('netflx', apps).match?.id).toBe(6);
+    expect(matchCatalogEntry('6', apps).match?.name).toBe('Netflix');
+  });
+
+  it('should not pick an app for one- or two-letter queries', () => {
+    expect(matchCatalogEntry('f', apps)).toEqual({ candidates: [apps[4], apps[5]] });
+    expect(matchCatalogEntry('yo', apps)).toEqual({ candidates: [apps[2], apps[3]] });
+    expect(matchCatalogEntry('you', apps).match?.id).toBe(3);
+  });
+
+  it('should report unknown names without a match', () => {
+    const result = matchCatalogEntry('Minecraft', apps);
+    expect(result.match).toBeUndefined();
+    expect(result.candidates).toEqual([]);
+  });
+});
+
+describe('Simple app block mapping', () => {
+  it('should round-trip a scheduled client block', () => {
+    const block = {
+      name: 'No TikTok at night',
+      enabled: true,
+      targetType: 'clients' as const,
+      clientMacs: ['aa:bb:cc:dd:ee:ff'],
+      networkIds: [],
+      groupIds: [],
+      appIds: [1],
+      categoryIds: [],
+      schedule: { mode: 'daily' as const, startTime: '21:00', endTime: '07:00' }
+    };
+    const raw = toRawSimpleAppBlock(block);
+
+    expect(raw).toMatchObject({
+      target_type: 'CLIENT',
+      client_macs: ['aa:bb:cc:dd:ee:ff'],
+      app_ids: [1],
+      schedule: { mode: 'EVERY_DAY', time_range_start: '21:00', time_range_end: '07:00' }
+    });
+    expect(mapSimpleAppBlock({ _id: 'b1', ...raw })).toEqual({ id: 'b1', ...block });
+  });
+});
@@ -0,0 +1,30 @@
+import { compareDDNS, isNonPublicAddress, mapDDNSEntry } from '../../../tools/networks/ddns.js';
+
+const entry = mapDDNSEntry({
+  _id: 'd1',
+  service: 'cloudflare',
+  host_name: 'home.example.com',
+  login: 'admin@example.com',
+  x_password: 'token',
+  interface: 'wan'
+});
+
+describe('Dynamic DNS status', () => {
+  it('should map entries without the password', () => {
+    expect(entry.hasPassword).toBe(true);
+    expect(JSON.stringify(entry)).not.toContain('token');
+  });
+
+  it('should report in-sync, stale and unresolved records', () => {
+    expect(compareDDNS(entry, '203.0.113.10', ['203.0.113.10']).status).toBe('in_sync');
+    expect(compareDDNS(entry, '203.0.113.10', ['198.51.100.7']).status).toBe('stale');
+    expect(compareDDNS(entry, '203.0.113.10', [], 'ENOTFOUND').status).toBe('unresolved');
+    expect(compareDDNS(entry, null, ['198.51.100.7']).status).toBe('unknown_wan_ip');
+  });
+
+  it('should recognise private and carrier-grade NAT addresses', () => {
+    expect(isNonPublicAddress('100.72.1.1')).toBe(true);
+    expect(isNonPublicAddress('192.168.1.1')).toBe(true);
+    expect(isNonPublicAddress('203.0.113.10')).toBe(false);
+  });
+});
@@ -0,0 +1,179 @@
+import {
+  parseFirewallDocument,
+  planFirewallDocument,
+  ruleSpecToRaw,
+  policySpecToZonePolicy,
+  LiveFirewallState
+} from '../../../tools/firewall/document.js';
+import { toRawZonePolicy } from '../../../tools/firewall/mapping.js';
+import { NetworkPurpose } from '../../../unifi/types.js';
+
+const YAML_DOCUMENT = `
+groups:
+  - name: Web
+    type: port-group
+    members: ["443", "80"]
+  - name: Servers
+    type: address-group
+    members: [10.0.5.0/24]
+rules:
+  - name: Allow web to servers
+    ruleSet: LAN_IN
+    index: 2000
+    action: allow
+    protocol: tcp
+    source: { network: LAN }
+    destination: { groups: [Servers, Web] }
+  - name: Block IoT
+    ruleSet: LAN_IN
+    index: 2010
+    action: drop
+    source: { network: IoT }
+policies:
+  - name: Allow DNS out
+    sourceZone: internal
+    targetZone: External
+    priority: 2000
+    action: allow
+    protocol: udp
+    destination: { ports: ["53"] }
+`;
+
+function emptyState(): LiveFirewallState {
+  return {
+    groups: [],
+    rules: [],
+    policies: [],
+    zones: [
+      { _id: 'z-int', name: 'Internal', zone_key: 'internal' },
+      { _id: 'z-ext', name: 'External', zone_key: 'external' }
+    ],
+    networks: [
+      { id: 'n-lan', name: 'LAN', purpose: NetworkPurpose.CORPORATE, subnet: '192.168.1.0/24', gateway: '192.168.1.1' },
+      { id: 'n-iot', name: 'IoT', purpose: NetworkPurpose.CORPORATE, subnet: '192.168.20.0/24', gateway: '192.168.20.1' }
+    ] as any[]
+  };
+}
+
+/**
+ * Build the live state a successful apply would leave behind
+ */
+function appliedState(state: LiveFirewallState, plan: ReturnType<typeof planFirewallDocument>): LiveFirewallState {
+  const next = { ...state, groups: [...state.groups], rules: [...state.rules], policies: [...state.policies] };
+  const groupId = (name: string) => next.groups.find(g => g.name === name)._id;
+  const names = {
+    networkId: (ref: string) => next.networks.find(n => n.name === ref)!.id,
+    zoneId: (ref: string) => next.zones.find(z => z.name === ref)._id
+  };
+
+  plan.changes.forEach((change, index) => {
+    const id = change.id ?? `new-${index}`;
+    if (change.kind === 'group') {
+      next.groups.push({ _id: id, name: change.name, group_type: change.groupType, group_members: change.desired!.members });
+    } else if (change.kind === 'rule') {
+      next.rules.push({ _id: id, ...ruleSpecToRaw(change.name, change.desired!, groupId, names) });
+    } else {
+      next.policies.push({ _id: id, ...toRawZonePolicy(policySpecToZonePolicy(change.name, change.desired!, groupId, names)) });
+    }
+  });
+  return next;
+}
+
+describe('Firewall Documents', () => {
+  it('should plan creates in dependency order and be idempotent once applied', async () => {
+    const document = await parseFirewallDocument(YAML_DOCUMENT);
+    const state = emptyState();
+    const plan = planFirewallDocument(document, state);
+
+    expect(plan.changes.map(c => `${c.action} ${c.kind} ${c.name}`)).toEqual([
+      'create group Servers',
+      'create group Web',
+      'create rule Allow web to servers',
+      'create rule Block IoT',
+      'create policy Allow DNS out'
+    ]);
+
+    const again = planFirewallDocument(document, appliedState(state, plan));
+    expect(again.changes).toEqual([]);
+    expect(again.unchanged).toHaveLength(5);
+  });
+
+  it('should report field-level updates and keep the plan ID stable', async () => {
+    const document = await parseFirewallDocument(YAML_DOCUMENT);
+    const state = appliedState(emptyState(), planFirewallDocument(document, emptyState()));
+    state.rules[1] = { ...state.rules[1], rule_index: 2500, enabled: false };
+
+    const plan = planFirewallDocument(document, state);
+    expect(plan.changes).toEqual([expect.objectContaining({
+      action: 'update',
+      kind: 'rule',
+      name: 'Block IoT',
+      fields: [
+        { field: 'enabled', from: false, to: true },
+        { field: 'index', from: 2500, to: 2010 }
+      ]
+    })]);
+    expect(planFirewallDocument(document, state).planId).toBe(plan.planId);
+  });
+
+  it('should delete only within declared sections when pruning', async () => {
+    const state = emptyState();
+    state.rules.push({ _id: 'r-old', name: 'Old rule', ruleset: 'WAN_IN', rule_index: 2000 });
+    state.groups.push({ _id: 'g-old', name: 'Old group', group_type: 'address-group', group_members: ['10.9.9.9'] });
+    const document = await parseFirewallDocument(JSON.stringify({ rules: [] }));
+
+    expect(planFirewallDocument(document, state).changes).toEqual([]);
+    expect(planFirewallDocument(document, state).unmanaged.map(o => o.name)).toEqual(['Old group', 'Old rule']);
+    expect(planFirewallDocument(document, state, true).changes).toEqual([
+      { action: 'delete', kind: 'rule', name: 'Old rule', id: 'r-old' }
+    ]);
+  });
+
+  it('should delete a renamed rule before its replacement takes the same index', async () => {
+    const state = emptyState();
+    state.rules.push({ _id: 'r-old', name: 'Block IoT old', ruleset: 'LAN_IN', rule_index: 2000, action: 'drop', protocol: 'all' });
+    const document = await parseFirewallDocument(
+      'rules: [{ name: Block IoT, ruleSet: LAN_IN, index: 2000, action: drop, source: { network: IoT } }]'
+    );
+
+    expect(planFirewallDocument(document, state, true).changes.map(c => `${c.action} ${c.kind} ${c.name}`)).toEqual([
+      'delete rule Block IoT old',
+      'create rule Block IoT'
+    ]);
+    expect(() => planFirewallDocument(document, state)).toThrow("'Block IoT old' is not in the document");
+  });
+
+  it('should sequence index swaps without two rules sharing an index', async () => {
+    const document = await parseFirewallDocument(YAML_DOCUMENT);
+    const state = appliedState(emptyState(), planFirewallDocument(document, emptyState()));
+    const swapped = await parseFirewallDocument(YAML_DOCUMENT
+      .replace('index: 2000', 'index: 2010')
+      .replace('index: 2010\n    action: drop', 'index: 2000\n    action: drop'));
+
+    const steps = planFirewallDocument(swapped, state).changes.map(c => [c.name, c.desired!.index]);
+    expect(steps).toEqual([
+      ['Allow web to servers', 2011],
+      ['Block IoT', 2000],
+      ['Allow web to servers', 2010]
+    ]);
+  });
+
+  it('should refuse to prune a group that is still used', async () => {
+    const state = emptyState();
+    state.groups.push({ _id: 'g-old', name: 'Old group', group_type: 'address-group', group_members: ['10.9.9.9'] });
+    state.rules.push({ _id: 'r-1', name: 'Uses group', ruleset: 'LAN_IN', src_firewallgroup_ids: ['g-old'] });
+    const document = await parseFirewallDocument('groups: []');
+
+    expect(() => planFirewallDocument(document, state, true)).toThrow('still used by: Uses group');
+  });
+
+  it('should reject invalid documents and unknown references', async () => {
+    await expect(parseFirewallDocument('rules: [')).rejects.toThrow('not valid YAML or JSON');
+    await expect(parseFirewallDocument('rules: [{ name: x }]')).rejects.toThrow();
+
+    const document = await parseFirewallDocument(
+      'rules: [{ name: A, ruleSet: LAN_IN, index: 2000, action: drop, destination: { groups: [Missing] } }]'
+    );
+    expect(() => planFirewallDocument(document, emptyState())).toThrow("Group 'Missing'");
+  });
+});
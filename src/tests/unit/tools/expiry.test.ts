@@ -0,0 +1,50 @@
+import { describeJob, resolveExpiry } from '../../../tools/firewall/expiry.js';
+import { parseDuration } from '../../../utils/helpers.js';
+
+const now = new Date('2025-06-01T12:00:00.000Z');
+
+describe('Firewall Expiry', () => {
+  it('should parse compact durations', () => {
+    expect(parseDuration('90s')).toBe(90000);
+    expect(parseDuration('1h30m')).toBe(5400000);
+    expect(parseDuration('2d')).toBe(172800000);
+    expect(parseDuration('')).toBe(null);
+    expect(parseDuration('1x')).toBe(null);
+  });
+
+  it('should resolve expiresIn and expiresAt relative to now', () => {
+    expect(resolveExpiry({}, now)).toBeUndefined();
+    expect(resolveExpiry({ expiresIn: '1h' }, now)!.toISOString()).toBe('2025-06-01T13:00:00.000Z');
+    expect(resolveExpiry({ expiresAt: '2025-06-01T18:00:00+02:00' }, now)!.toISOString()).toBe('2025-06-01T16:00:00.000Z');
+  });
+
+  it('should reject ambiguous, past or distant expiries', () => {
+    expect(() => resolveExpiry({ expiresIn: '1h', expiresAt: '2025-06-02T00:00:00Z' }, now)).toThrow('not both');
+    expect(() => resolveExpiry({ expiresIn: '0m' }, now)).toThrow("Invalid duration '0m'");
+    expect(() => resolveExpiry({ expiresAt: 'tomorrow' }, now)).toThrow('Invalid timestamp');
+    expect(() => resolveExpiry({ expiresAt: '2025-06-01T11:00:00Z' }, now)).toThrow('must be in the future');
+    expect(() => resolveExpiry({ expiresIn: '31d' }, now)).toThrow('more than 30 days');
+  });
+
+  it('should describe retrying and permanently failed expirations', () => {
+    const job = {
+      id: 'j1',
+      type: 'firewall-rule.delete',
+      targetId: 'r1',
+      targetName: 'Vendor access',
+      description: "Delete 'Vendor access'",
+      payload: {},
+      runAt: '2025-06-01T11:00:00.000Z',
+      createdAt: '2025-06-01T10:00:00.000Z',
+      attempts: 3,
+      lastError: 'controller unreachable'
+    };
+
+    expect(describeJob({ ...job, status: 'pending', nextAttemptAt: '2025-06-01T12:02:00.000Z' }, now)).toMatchObject({
+      dueIn: '2.0m',
+      retrying: true,
+      lastError: 'controller unreachable'
+    });
+    expect(describeJob({ ...job, status: 'failed', finishedAt: '2025-06-01T11:30:00.000Z' }, now)).toMatchObject({ stillInPlace: true });
+  });
+});
@@ -0,0 +1,40 @@
+import { patchMembers, findGroupReferences, mapIPGroup } from '../../../tools/groups/index.js';
+import { firewallGroupMemberIssue, CreateIPGroupParamsSchema } from '../../../utils/validators.js';
+
+describe('Firewall group members', () => {
+  it('should validate members for each group type', () => {
+    expect(firewallGroupMemberIssue('address-group', '192.168.1.0/24')).toBeUndefined();
+    expect(firewallGroupMemberIssue('address-group', '10.0.0.10-10.0.0.20')).toBeUndefined();
+    expect(firewallGroupMemberIssue('address-group', '2001:db8::1')).toBeDefined();
+    expect(firewallGroupMemberIssue('ipv6-address-group', '2001:db8::/32')).toBeUndefined();
+    expect(firewallGroupMemberIssue('ipv6-address-group', '192.168.1.1')).toBeDefined();
+    expect(firewallGroupMemberIssue('port-group', '8000-8080')).toBeUndefined();
+    expect(firewallGroupMemberIssue('port-group', '70000')).toBeDefined();
+
+    const result = CreateIPGroupParamsSchema.safeParse({ name: 'Web', type: 'port-group', members: ['80', 'https'] });
+    expect(result.success).toBe(false);
+  });
+
+  it('should patch membership without duplicating members', () => {
+    const patch = patchMembers(['10.0.0.1', '10.0.0.2'], ['10.0.0.2', '10.0.0.3'], ['10.0.0.1', '10.0.0.9']);
+
+    expect(patch.members).toEqual(['10.0.0.2', '10.0.0.3']);
+    expect(patch.added).toEqual(['10.0.0.3']);
+    expect(patch.removed).toEqual(['10.0.0.1']);
+    expect(patch.unchanged).toEqual(['10.0.0.9', '10.0.0.2']);
+  });
+
+  it('should find legacy rules and zone policies that reference a group', () => {
+    const references = findGroupReferences(
+      'g1',
+      [{ _id: 'r1', name: 'Block', src_firewallgroup_ids: [], dst_firewallgroup_ids: ['g1'] }],
+      [{ _id: 'p1', name: 'Allow web', source: { zone_id: 'z1' }, destination: { zone_id: 'z2', port_group_id: 'g1' } }]
+    );
+
+    expect(references).toEqual([
+      { type: 'firewall-rule', id: 'r1', name: 'Block', side: 'destination' },
+      { type: 'zone-policy', id: 'p1', name: 'Allow web', side: 'destination' }
+    ]);
+    expect(mapIPGroup({ _id: 'g1', name: 'Web', group_type: 'port-group', group_members: ['80'] }).members).toEqual(['80']);
+  });
+});
@@ -0,0 +1,103 @@
+import { planRevert, applyRevert, withLockoutGuard, FirewallSnapshot } from '../../../tools/firewall/guard.js';
+import { MCPTool, ToolCategory } from '../../../server/types.js';
+
+const rule = (id: string, name: string, ruleIndex: number, extra: Record<string, any> = {}) => ({
+  _id: id, name, ruleset: 'WAN_LOCAL', rule_index: ruleIndex, enabled: true, ...extra
+});
+
+/**
+ * Minimal client that records requests and hands out new IDs on create
+ */
+function recordingClient() {
+  const requests: string[] = [];
+  let next = 0;
+  return {
+    requests,
+    client: {
+      post: async (endpoint: string, body: any) => {
+        requests.push(`POST ${endpoint.split('/').pop()} ${JSON.stringify(body)}`);
+        return { data: [{ ...body, _id: `new-${++next}` }], meta: { rc: 'ok' } };
+      },
+      put: async (endpoint: string, body: any) => {
+        requests.push(`PUT ${endpoint.split('/rest/').pop()} ${body.rule_index ?? ''}`.trim());
+        return { data: [body], meta: { rc: 'ok' } };
+      },
+      delete: async (endpoint: string) => {
+        requests.push(`DELETE ${endpoint.split('/rest/').pop()}`);
+        return { data: [], meta: { rc: 'ok' } };
+      },
+      healthCheck: async () => ({ status: 'unhealthy', details: { connected: false, authenticated: false } })
+    } as any
+  };
+}
+
+describe('Anti-Lockout Guard', () => {
+  it('should plan nothing when the snapshot is unchanged', () => {
+    const snapshot: FirewallSnapshot = { rules: [rule('a', 'A', 2000)] };
+    expect(planRevert(snapshot, { rules: [rule('a', 'A', 2000)] })).toEqual([]);
+  });
+
+  it('should delete created objects, restore modified ones and recreate deleted ones', () => {
+    const before: FirewallSnapshot = {
+      groups: [{ _id: 'g1', name: 'Admins', group_type: 'address-group', group_members: ['10.0.0.5'] }],
+      rules: [rule('a', 'Allow SSH', 2000, { src_firewallgroup_ids: ['g1'] }), rule('b', 'Allow VPN', 2010)]
+    };
+    const after: FirewallSnapshot = {
+      groups: [],
+      rules: [rule('b', 'Allow VPN', 2010, { enabled: false }), rule('c', 'Block all', 2020)]
+    };
+
+    expect(planRevert(before, after).map(step => `${step.action} ${step.collection} ${step.name}`)).toEqual([
+      'delete rules Block all',
+      'create groups Admins',
+      'update rules Allow VPN',
+      'create rules Allow SSH'
+    ]);
+  });
+
+  it('should move swapped rule indexes back without collisions', () => {
+    const before: FirewallSnapshot = { rules: [rule('a', 'A', 2000), rule('b', 'B', 2010)] };
+    const after: FirewallSnapshot = { rules: [rule('a', 'A', 2010), rule('b', 'B', 2000)] };
+    const steps = planRevert(before, after);
+
+    expect(steps.filter(step => step.action === 'move').map(step => step.body!.rule_index)).toHaveLength(3);
+    expect(steps.filter(step => step.action === 'update').map(step => step.body!.rule_index)).toEqual([2000, 2010]);
+  });
+
+  it('should point recreated dependents at recreated groups', async () => {
+    const before: FirewallSnapshot = {
+      groups: [{ _id: 'g1', name: 'Admins', group_members: [] }],
+      rules: [rule('a', 'Allow SSH', 2000, { src_firewallgroup_ids: ['g1'] })]
+    };
+    const { client, requests } = recordingClient();
+
+    expect(await applyRevert(client, planRevert(before, { groups: [], rules: [] }))).toBe(2);
+    expect(requests[0]).toContain('POST firewallgroup');
+    expect(requests[1]).toContain('"src_firewallgroup_ids":["new-1"]');
+  });
+
+  it('should pass through without a guard and refuse to apply when checks already fail', async () => {
+    let calls = 0;
+    const tool: MCPTool = {
+      name: 'unifi_toggle_firewall_rule',
+      description: 'Toggle',
+      category: ToolCategory.FIREWALL_LEGACY,
+      requiresConnection: true,
+      inputSchema: { type: 'object', properties: { ruleId: { type: 'string' } } },
+      handler: async () => {
+        calls++;
+        return { success: true, data: {} };
+      }
+    };
+    const guarded = withLockoutGuard(tool);
+    const { client } = recordingClient();
+    const versionDetector = { detectCapabilities: async () => ({ supportsLegacyFirewall: true, supportsZBF: false }) };
+
+    expect(Object.keys(guarded.inputSchema.properties!)).toEqual(['ruleId', 'guard']);
+    expect((await guarded.handler({ ruleId: 'a' })).success).toBe(true);
+
+    const result = await guarded.handler({ ruleId: 'a', guard: {}, _client: client, _versionDetector: versionDetector });
+    expect(result.error!.code).toBe('LOCKOUT_GUARD_PRECHECK_FAILED');
+    expect(calls).toBe(1);
+  });
+});
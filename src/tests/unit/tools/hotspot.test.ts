@@ -0,0 +1,50 @@
+import { mapVoucher, formatVoucherCode } from '../../../tools/hotspot/mapping.js';
+import { vouchersToCSV, vouchersToHTML, formatDuration } from '../../../tools/hotspot/export.js';
+
+const rawVoucher = {
+  _id: 'v1',
+  code: '1234567890',
+  create_time: 1700000000,
+  duration: 1440,
+  quota: 1,
+  used: 0,
+  status: 'VALID_ONE',
+  qos_rate_max_down: 10000,
+  note: 'Room 12, "late checkout"'
+};
+
+describe('Hotspot vouchers', () => {
+  it('should map and format voucher records', () => {
+    const voucher = mapVoucher(rawVoucher);
+
+    expect(voucher.code).toBe('12345-67890');
+    expect(voucher.createTime.toISOString()).toBe('2023-11-14T22:13:20.000Z');
+    expect(voucher.downloadLimitKbps).toBe(10000);
+    expect(voucher.uploadLimitKbps).toBeUndefined();
+    expect(formatVoucherCode('ABC')).toBe('ABC');
+  });
+
+  it('should describe durations', () => {
+    expect(formatDuration(45)).toBe('45 minutes');
+    expect(formatDuration(1440)).toBe('1 day');
+    expect(formatDuration(1440 + 360 + 5)).toBe('1 day 6 hours');
+  });
+
+  it('should export CSV with quoted fields', () => {
+    const csv = vouchersToCSV([mapVoucher(rawVoucher)]);
+    const lines = csv.trim().split('\r\n');
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0].startsWith('code,duration_minutes')).toBe(true);
+    expect(lines[1]).toContain('"Room 12, ""late checkout"""');
+  });
+
+  it('should export an escaped printable HTML sheet', () => {
+    const html = vouchersToHTML([mapVoucher({ ...rawVoucher, note: '<b>VIP</b>' })], { ssid: 'Guest' });
+
+    expect(html).toContain('12345-67890');
+    expect(html).toContain('Network: Guest');
+    expect(html).toContain('&lt;b&gt;VIP&lt;/b&gt;');
+    expect(html).not.toContain('<b>VIP</b>');
+  });
+});
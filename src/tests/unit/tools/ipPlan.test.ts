@@ -0,0 +1,75 @@
+import { analyzeIPPlan, suggestFreeSubnets } from '../../../tools/networks/ipPlan.js';
+import { DetailedNetwork, NetworkPurpose } from '../../../unifi/types.js';
+
+const network = (overrides: Partial<DetailedNetwork>): DetailedNetwork => ({
+  id: 'net-default',
+  name: 'Default',
+  purpose: NetworkPurpose.CORPORATE,
+  subnet: '192.168.1.0/24',
+  gateway: '192.168.1.1',
+  dhcpEnabled: true,
+  dhcpRange: { start: '192.168.1.6', end: '192.168.1.254' },
+  enabled: true,
+  isNat: true,
+  ...overrides
+});
+
+describe('IP plan analysis', () => {
+  it('should flag overlapping subnets and reused VLANs', () => {
+    const networks = [
+      network({ id: 'a', name: 'LAN', vlanId: 10 }),
+      network({ id: 'b', name: 'IoT', vlanId: 10, subnet: '192.168.0.0/23', gateway: '192.168.0.1', dhcpEnabled: false })
+    ];
+
+    const { findings } = analyzeIPPlan(networks, [], [], { utilizationThreshold: 80 });
+    const types = findings.map(f => f.type);
+
+    expect(types).toContain('subnet_overlap');
+    expect(types).toContain('vlan_reuse');
+  });
+
+  it('should flag gateway and reservation collisions with the DHCP pool', () => {
+    const networks = [
+      network({ id: 'a', gateway: '192.168.1.10' })
+    ];
+    const reservations = [{ mac: '00:11:22:33:44:55', ip: '192.168.1.50', networkId: 'a' }];
+
+    const { findings } = analyzeIPPlan(networks, reservations, [], { utilizationThreshold: 80 });
+    const types = findings.map(f => f.type);
+
+    expect(types).toContain('dhcp_gateway_collision');
+    expect(types).toContain('dhcp_reservation_collision');
+  });
+
+  it('should report pool utilization above the threshold', () => {
+    const networks = [
+      network({ id: 'a', dhcpRange: { start: '192.168.1.100', end: '192.168.1.103' } })
+    ];
+    const leases = ['100', '101', '102', '103'].map((octet, i) => ({
+      mac: `00:00:00:00:00:0${i}`,
+      ip: `192.168.1.${octet}`,
+      networkId: 'a'
+    }));
+
+    const { findings, utilization } = analyzeIPPlan(networks, [], leases, { utilizationThreshold: 80 });
+
+    expect(utilization[0].utilizationPercent).toBe(100);
+    expect(findings.find(f => f.type === 'dhcp_pool_exhaustion')?.severity).toBe('critical');
+  });
+});
+
+describe('Free subnet suggestions', () => {
+  it('should skip subnets already in use', () => {
+    const suggestions = suggestFreeSubnets('10.0.0.0/16', 24, ['10.0.0.0/24', '10.0.1.0/24'], 2);
+    expect(suggestions).toEqual(['10.0.2.0/24', '10.0.3.0/24']);
+  });
+
+  it('should keep alignment after a larger used block', () => {
+    const suggestions = suggestFreeSubnets('10.0.0.0/16', 22, ['10.0.0.0/24'], 1);
+    expect(suggestions).toEqual(['10.0.4.0/22']);
+  });
+
+  it('should reject a prefix shorter than the supernet', () => {
+    expect(() => suggestFreeSubnets('10.0.0.0/16', 12, [])).toThrow();
+  });
+});
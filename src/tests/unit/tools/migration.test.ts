@@ -0,0 +1,113 @@
+import { planMigration, MigrationInput } from '../../../tools/firewall/migration.js';
+import { FirewallAction, ZonePolicy } from '../../../unifi/types.js';
+
+const zones = [
+  { _id: 'z-int', name: 'Internal', zone_key: 'internal', network_ids: ['n-lan', 'n-iot'] },
+  { _id: 'z-ext', name: 'External', zone_key: 'external', network_ids: ['n-wan'] },
+  { _id: 'z-gw', name: 'Gateway', zone_key: 'gateway', network_ids: [] },
+  { _id: 'z-hs', name: 'Hotspot', zone_key: 'hotspot', network_ids: ['n-guest'] }
+];
+
+const networks: any[] = [
+  { id: 'n-lan', subnet: '192.168.1.0/24', gateway: '192.168.1.1' },
+  { id: 'n-iot', subnet: '192.168.20.0/24', gateway: '192.168.20.1' },
+  { id: 'n-guest', subnet: '10.0.50.0/24', gateway: '10.0.50.1' }
+];
+
+const rule = (overrides: Record<string, any>) => ({
+  _id: 'r',
+  name: 'Rule',
+  enabled: true,
+  action: 'drop',
+  protocol: 'all',
+  ruleset: 'LAN_IN',
+  rule_index: 2000,
+  src_firewallgroup_ids: [],
+  dst_firewallgroup_ids: [],
+  ...overrides
+});
+
+const plan = (rules: any[], extra: Partial<MigrationInput> = {}) =>
+  planMigration({ rules, groups: [], zones, networks, existingPolicies: [], ...extra });
+
+describe('Legacy firewall migration planner', () => {
+  it('should map rule sets and local addresses to zones', () => {
+    const result = plan([
+      rule({ _id: 'r1', name: 'Allow HA', action: 'accept', ruleset: 'WAN_IN', protocol: 'tcp', dst_address: '192.168.1.10', dst_port: '8123' }),
+      rule({ _id: 'r2', name: 'Guest DNS', ruleset: 'GUEST_LOCAL', protocol: 'udp', dst_port: '53' })
+    ]);
+
+    expect(result.rules.map(r => r.status)).toEqual(['translated', 'translated']);
+    expect(result.policies[0].policy).toMatchObject({
+      sourceZone: 'z-ext',
+      targetZone: 'z-int',
+      action: FirewallAction.ALLOW,
+      destination: { ips: ['192.168.1.10'], ports: ['8123'] },
+      priority: 10
+    });
+    expect(result.policies.map(p => p.policy.ipVersion)).toEqual(['ipv4', 'ipv4']);
+    expect(result.policies[1].policy).toMatchObject({ sourceZone: 'z-hs', targetZone: 'z-gw', action: FirewallAction.DENY });
+  });
+
+  it('should merge consecutive rules that only differ in source networks', () => {
+    const result = plan([
+      rule({ _id: 'r1', name: 'LAN to DNS', src_networkconf_id: 'n-lan', src_networkconf_type: 'NETv4', dst_address: '8.8.8.8' }),
+      rule({ _id: 'r2', name: 'IoT to DNS', src_networkconf_id: 'n-iot', src_networkconf_type: 'NETv4', dst_address: '8.8.8.8', rule_index: 2001 })
+    ]);
+
+    expect(result.policies).toHaveLength(1);
+    expect(result.policies[0].policy.source?.networkIds).toEqual(['n-lan', 'n-iot']);
+    expect(result.policies[0].fromRules).toEqual(['r1', 'r2']);
+    expect(result.rules[1].status).toBe('merged');
+  });
+
+  it('should report untranslatable rules with a reason', () => {
+    const result = plan([
+      rule({ _id: 'r1', src_mac_address: 'aa:bb:cc:dd:ee:ff' }),
+      rule({ _id: 'r2', ruleset: 'LAN_IN', src_networkconf_id: 'n-iot', src_networkconf_type: 'NETv4', dst_address: '192.168.1.0/24' }),
+      rule({ _id: 'r3', protocol: 'gre' })
+    ]);
+
+    expect(result.policies).toHaveLength(0);
+    expect(result.rules.every(r => r.status === 'untranslatable' && r.reason)).toBe(true);
+  });
+
+  it('should map address ranges to zones and report unparsable addresses', () => {
+    const result = plan([
+      rule({ _id: 'r1', name: 'Allow cameras', action: 'accept', ruleset: 'WAN_IN', dst_address: '192.168.1.10-192.168.1.20' }),
+      rule({ _id: 'r2', name: 'Allow NAS', action: 'accept', ruleset: 'WAN_IN', dst_address: 'fd00::10', rule_index: 2001 })
+    ]);
+
+    expect(result.rules.map(r => r.status)).toEqual(['translated', 'untranslatable']);
+    expect(result.policies[0].policy).toMatchObject({
+      sourceZone: 'z-ext',
+      targetZone: 'z-int',
+      destination: { ips: ['192.168.1.10-192.168.1.20'] }
+    });
+    expect(result.rules[1].reason).toContain("'fd00::10' is not an IPv4 address");
+  });
+
+  it('should continue after existing policies and recognise earlier runs', () => {
+    const existing = (overrides: Partial<ZonePolicy>): ZonePolicy => ({
+      id: 'p1',
+      name: 'Other',
+      sourceZone: 'z-ext',
+      targetZone: 'z-gw',
+      action: FirewallAction.DENY,
+      protocol: 'all',
+      ipVersion: 'both',
+      logging: false,
+      enabled: true,
+      predefined: false,
+      priority: 40,
+      ...overrides
+    });
+    const result = plan(
+      [rule({ _id: 'r1', name: 'Block SSH', ruleset: 'WAN_LOCAL', protocol: 'tcp', dst_port: '22' })],
+      { existingPolicies: [existing({}), existing({ id: 'p2', name: 'Block SSH', priority: 50 })] }
+    );
+
+    expect(result.policies[0].policy.priority).toBe(60);
+    expect(result.policies[0].existingPolicyId).toBe('p2');
+  });
+});
@@ -0,0 +1,100 @@
+import { deleteNetworkTool, getNetworksTool, updateNetworkTool } from '../../../tools/networks/index.js';
+
+const iot = {
+  _id: 'n-iot', name: 'IoT', purpose: 'corporate', vlan_enabled: true, vlan: 20,
+  ip_subnet: '192.168.20.1/24', dhcpd_enabled: true, dhcpd_start: '192.168.20.6', dhcpd_stop: '192.168.20.254'
+};
+
+function fakeClient(collections: Record<string, any[] | Error>) {
+  const calls: Array<{ method: string; endpoint: string; body?: any }> = [];
+  return {
+    calls,
+    get: async (endpoint: string) => {
+      calls.push({ method: 'get', endpoint });
+      if (endpoint.endsWith('/networkconf/n-iot')) return { data: [iot] };
+      const name = endpoint.split('/').pop()!;
+      const collection = collections[name] ?? [];
+      if (collection instanceof Error) throw collection;
+      return { data: collection };
+    },
+    put: async (endpoint: string, body: any) => {
+      calls.push({ method: 'put', endpoint, body });
+      return { data: [body] };
+    },
+    delete: async (endpoint: string) => {
+      calls.push({ method: 'delete', endpoint });
+      return { meta: { rc: 'ok' }, data: [] };
+    }
+  };
+}
+
+describe('Network tools', () => {
+  it('should list networks and report a malformed subnet as a warning', async () => {
+    const client = fakeClient({
+      networkconf: [iot, { _id: 'n-bad', name: 'Broken', purpose: 'corporate', ip_subnet: '192.168.300.1/24' }]
+    });
+
+    const result = await getNetworksTool.handler({ _client: client });
+
+    expect(result.success).toBe(true);
+    expect(result.data.networks.map((n: any) => [n.name, n.subnet])).toEqual([
+      ['IoT', '192.168.20.0/24'],
+      ['Broken', '']
+    ]);
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings![0]).toContain("Network 'Broken' has an invalid subnet '192.168.300.1/24'");
+  });
+
+  it('should refuse to delete a network that rules, WLANs or port profiles still use', async () => {
+    const client = fakeClient({
+      firewallrule: [{ _id: 'r1', name: 'Block IoT', dst_networkconf_id: 'n-iot' }],
+      wlanconf: [{ _id: 'w1', name: 'IoT WiFi', networkconf_id: 'n-iot' }, { _id: 'w2', name: 'Main', networkconf_id: 'n-lan' }],
+      portconf: [{ _id: 'p1', name: 'Trunk', native_networkconf_id: 'n-lan', tagged_networkconf_ids: ['n-iot'] }]
+    });
+
+    const result = await deleteNetworkTool.handler({ _client: client, networkId: 'n-iot' });
+
+    expect(result.success).toBe(false);
+    expect(result.error!.code).toBe('RESOURCE_CONFLICT');
+    expect(result.error!.details.references.map((r: any) => [r.type, r.id, r.field])).toEqual([
+      ['firewall_rule', 'r1', 'dst_networkconf_id'],
+      ['wlan', 'w1', 'networkconf_id'],
+      ['port_profile', 'p1', 'tagged_networkconf_ids']
+    ]);
+    expect(client.calls.some(c => c.method === 'delete')).toBe(false);
+  });
+
+  it('should only delete unverified networks when forced', async () => {
+    const unreachable = () => fakeClient({ portconf: new Error('timeout') });
+
+    const refused = await deleteNetworkTool.handler({ _client: unreachable(), networkId: 'n-iot' });
+    expect(refused.success).toBe(false);
+    expect(refused.error!.message).toContain('port_profile');
+
+    const client = unreachable();
+    const forced = await deleteNetworkTool.handler({ _client: client, networkId: 'n-iot', force: true });
+    expect(forced.success).toBe(true);
+    expect(forced.warnings).toContain('References from port_profile were not verified');
+    expect(client.calls.filter(c => c.method === 'delete')).toHaveLength(1);
+
+    const invalid = await deleteNetworkTool.handler({ _client: client, networkId: '' });
+    expect(invalid.success).toBe(false);
+    expect(invalid.error!.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should keep the address layout on a partial update', async () => {
+    const client = fakeClient({});
+
+    const result = await updateNetworkTool.handler({ _client: client, networkId: 'n-iot', name: 'Sensors' });
+
+    expect(result.success).toBe(true);
+    expect(client.calls.filter(c => c.method === 'put')).toEqual([{
+      method: 'put',
+      endpoint: expect.stringContaining('/networkconf/n-iot'),
+      body: { ...iot, name: 'Sensors' }
+    }]);
+    expect(result.data.network).toMatchObject({ name: 'Sensors', subnet: '192.168.20.0/24', vlanId: 20 });
+    expect(result.data.updatedFields).toEqual(['name']);
+    expect(result.warnings).toBeUndefined();
+  });
+});
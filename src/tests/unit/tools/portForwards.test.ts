@@ -0,0 +1,49 @@
+import {
+  parsePortRange,
+  findSensitiveServices,
+  exposureWarnings,
+  mapPortForward
+} from '../../../tools/networks/portForwards.js';
+
+describe('Port forward helpers', () => {
+  it('should parse single ports and ranges', () => {
+    expect(parsePortRange('443')).toEqual({ start: 443, end: 443 });
+    expect(parsePortRange('8000-8010')).toEqual({ start: 8000, end: 8010 });
+    expect(parsePortRange(22)).toEqual({ start: 22, end: 22 });
+  });
+
+  it('should find sensitive services inside port ranges', () => {
+    const services = findSensitiveServices(['3300-3400', '22']).map(s => s.service);
+
+    expect(services).toEqual(expect.arrayContaining(['MYSQL', 'RDP', 'SSH']));
+    expect(findSensitiveServices(['443', '8080-8090'])).toEqual([]);
+  });
+
+  it('should warn when a forward reaches a sensitive internal port', () => {
+    const warnings = exposureWarnings({ externalPort: '2222', internalPort: '22', sourceRestriction: 'any' });
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toContain('SSH');
+    expect(warnings[0]).toContain('entire Internet');
+  });
+
+  it('should map portforward records and resolve their target', () => {
+    const targets = new Map([
+      ['192.168.1.20', { ip: '192.168.1.20', mac: 'aa:bb:cc:dd:ee:ff', name: 'NAS', online: true, fixedIp: true }]
+    ]);
+    const forward = mapPortForward({
+      _id: 'pf1',
+      name: 'NAS HTTPS',
+      enabled: true,
+      proto: 'tcp',
+      dst_port: '8443',
+      fwd: '192.168.1.20',
+      fwd_port: '443',
+      src: 'any'
+    }, targets);
+
+    expect(forward.internalPort).toBe('443');
+    expect(forward.sourceRestriction).toBe('any');
+    expect(forward.target?.name).toBe('NAS');
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  resolveEndpoint,
+  simulateReachability,
+  scheduleActive,
+  matchPort,
+  matchAddress,
+  TrafficQuery
+} from '../../../tools/firewall/reachability.js';
+import { mapFirewallRule } from '../../../tools/firewall/mapping.js';
+import { FirewallAction, NetworkPurpose, ZonePolicy } from '../../../unifi/types.js';
+
+const networks: any[] = [
+  { id: 'n-lan', name: 'LAN', purpose: NetworkPurpose.CORPORATE, subnet: '192.168.1.0/24', gateway: '192.168.1.1' },
+  { id: 'n-iot', name: 'IoT', purpose: NetworkPurpose.CORPORATE, subnet: '192.168.20.0/24', gateway: '192.168.20.1' },
+  { id: 'n-guest', name: 'Guest', purpose: NetworkPurpose.GUEST, subnet: '10.0.50.0/24', gateway: '10.0.50.1' }
+];
+const zones = [
+  { _id: 'z-int', name: 'Internal', zone_key: 'internal', network_ids: ['n-lan'] },
+  { _id: 'z-ext', name: 'External', zone_key: 'external', network_ids: [] },
+  { _id: 'z-gw', name: 'Gateway', zone_key: 'gateway', network_ids: [] },
+  { _id: 'z-iot', name: 'iot', network_ids: ['n-iot'] }
+];
+const stations = [{ mac: 'aa:bb:cc:00:00:01', ip: '192.168.20.50', hostname: 'printer', network_id: 'n-iot' }];
+const groups = [
+  { _id: 'g-ports', group_type: 'port-group', group_members: ['9100', '631'] },
+  { _id: 'g-lan', group_type: 'address-group', group_members: ['192.168.1.0/24'] }
+];
+const context = { networks, zones, stations, users: [] };
+
+const query = (source: string, destination: string, port?: number): TrafficQuery => ({
+  source: resolveEndpoint(source, context),
+  destination: resolveEndpoint(destination, context),
+  protocol: 'tcp',
+  port,
+  at: new Date(2025, 0, 6, 12, 0)
+});
+
+const legacyRule = (overrides: Record<string, any>) => mapFirewallRule({
+  _id: 'r', name: 'Rule', enabled: true, action: 'drop', protocol: 'all', ruleset: 'LAN_IN', rule_index: 2000,
+  src_firewallgroup_ids: [], dst_firewallgroup_ids: [], ...overrides
+});
+
+describe('Reachability simulator', () => {
+  it('should resolve clients, addresses, networks and keywords', () => {
+    expect(resolveEndpoint('printer', context)).toMatchObject({ cidr: '192.168.20.50/32', networkId: 'n-iot', zoneId: 'z-iot' });
+    expect(resolveEndpoint('8.8.8.8', context)).toMatchObject({ external: true, zoneId: 'z-ext' });
+    expect(resolveEndpoint('192.168.1.1', context)).toMatchObject({ gateway: true });
+    expect(resolveEndpoint('Guest', context)).toMatchObject({ guest: true, cidr: '10.0.50.0/24' });
+  });
+
+  it('should pick the first legacy rule by rule_index and honour groups', () => {
+    const rules = [
+      legacyRule({ _id: 'r2', name: 'Block LAN to IoT', rule_index: 2010, dst_networkconf_id: 'n-iot', dst_networkconf_type: 'NETv4' }),
+      legacyRule({
+        _id: 'r1', name: 'Allow printing', action: 'accept', protocol: 'tcp', rule_index: 2000,
+        src_firewallgroup_ids: ['g-lan'], dst_firewallgroup_ids: ['g-ports'], dst_address: '192.168.20.50'
+      })
+    ];
+    const firewall = { model: 'legacy' as const, config: { rules, groups, networks } };
+
+    expect(simulateReachability(query('192.168.1.10', 'printer', 9100), firewall)).toMatchObject({
+      verdict: 'allow',
+      decidedBy: { type: 'default', stage: 'LAN_OUT' },
+      path: [{ id: 'r1', result: 'match' }]
+    });
+    expect(simulateReachability(query('192.168.1.10', 'printer', 22), firewall)).toMatchObject({
+      verdict: 'deny',
+      decidedBy: { type: 'legacy-rule', id: 'r2', stage: 'LAN_IN' }
+    });
+    expect(simulateReachability(query('8.8.8.8', 'printer', 9100), firewall).decidedBy).toMatchObject({ type: 'default', stage: 'WAN_IN' });
+  });
+
+  it('should evaluate zone policies by priority and fall back to the zone default', () => {
+    const policy = (overrides: Partial<ZonePolicy>): ZonePolicy => ({
+      id: 'p', sourceZone: 'z-int', targetZone: 'z-iot', action: FirewallAction.ALLOW, protocol: 'tcp', ipVersion: 'both',
+      logging: false, enabled: true, predefined: false, priority: 10, ...overrides
+    });
+    const firewall = {
+      model: 'zbf' as const,
+      config: {
+        zones,
+        groups,
+        policies: [
+          policy({ id: 'p2', name: 'Block all', protocol: 'all', action: FirewallAction.DENY, priority: 20 }),
+          policy({ id: 'p1', name: 'Printing', destination: { portGroupId: 'g-ports' } })
+        ]
+      }
+    };
+
+    expect(simulateReachability(query('LAN', 'printer', 631), firewall).decidedBy).toMatchObject({ id: 'p1' });
+    expect(simulateReachability(query('LAN', 'printer', 22), firewall)).toMatchObject({ verdict: 'deny', decidedBy: { id: 'p2' } });
+    expect(simulateReachability(query('printer', 'LAN', 22), firewall)).toMatchObject({ verdict: 'deny', decidedBy: { type: 'default' } });
+    expect(simulateReachability(query('printer', '192.168.20.60', 22), firewall).decidedBy.type).toBe('no-firewall');
+  });
+
+  it('should match address ranges in rules and groups', () => {
+    const rangeGroups = [...groups, { _id: 'g-range', group_type: 'address-group', group_members: ['192.168.1.100-192.168.1.120'] }];
+    const rules = [
+      legacyRule({ _id: 'r1', name: 'Block range', rule_index: 2000, src_address: '192.168.1.10-192.168.1.20' }),
+      legacyRule({ _id: 'r2', name: 'Block group', rule_index: 2010, src_firewallgroup_ids: ['g-range'] })
+    ];
+    const firewall = { model: 'legacy' as const, config: { rules, groups: rangeGroups, networks } };
+
+    expect(simulateReachability(query('192.168.1.15', 'printer', 22), firewall)).toMatchObject({
+      verdict: 'deny',
+      decidedBy: { type: 'legacy-rule', id: 'r1' }
+    });
+    expect(simulateReachability(query('192.168.1.110', 'printer', 22), firewall).decidedBy).toMatchObject({ id: 'r2' });
+    expect(simulateReachability(query('192.168.1.30', 'printer', 22), firewall).verdict).toBe('allow');
+    expect(matchAddress('192.168.1.10-192.168.1.20', resolveEndpoint('LAN', context))).toBe('partial');
+    expect(matchAddress('fe80::1', resolveEndpoint('LAN', context))).toBe('no');
+  });
+
+  it('should match ports and overnight schedules', () => {
+    expect(matchPort('80,8000-8080', 8008)).toBe('yes');
+    expect(matchPort('80', undefined)).toBe('partial');
+    const overnight = { mode: 'weekly' as const, days: ['monday'], startTime: '21:00', endTime: '07:00' };
+    expect(scheduleActive(overnight, new Date(2025, 0, 7, 6, 0))).toBe(true);
+    expect(scheduleActive(overnight, new Date(2025, 0, 6, 6, 0))).toBe(false);
+  });
+});
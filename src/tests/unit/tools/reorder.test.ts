@@ -0,0 +1,64 @@
+import { planReorder, planMoveSequence, RulePosition } from '../../../tools/firewall/reorder.js';
+
+const rules: RulePosition[] = [
+  { id: 'a', name: 'Allow DNS', ruleIndex: 2000 },
+  { id: 'b', name: 'Block IoT', ruleIndex: 2001 },
+  { id: 'c', name: 'Allow printer', ruleIndex: 2002 }
+];
+
+/**
+ * Replay moves and fail on any index collision
+ */
+function replay(start: RulePosition[], steps: ReturnType<typeof planMoveSequence>): Map<string, number> {
+  const positions = new Map(start.map(rule => [rule.id, rule.ruleIndex]));
+  for (const step of steps) {
+    const holder = Array.from(positions.entries()).find(([id, index]) => id !== step.id && index === step.to);
+    expect(holder).toBeUndefined();
+    positions.set(step.id, step.to);
+  }
+  return positions;
+}
+
+describe('Legacy Firewall Rule Reordering', () => {
+  it('should renumber in the desired order with gaps', () => {
+    const plan = planReorder(rules, ['c', 'Allow DNS', 'b'], 2000, 10);
+
+    expect(plan.before.map(r => r.id)).toEqual(['a', 'b', 'c']);
+    expect(plan.after).toEqual([
+      { id: 'c', name: 'Allow printer', ruleIndex: 2000 },
+      { id: 'a', name: 'Allow DNS', ruleIndex: 2010 },
+      { id: 'b', name: 'Block IoT', ruleIndex: 2020 }
+    ]);
+    expect(replay(rules, plan.steps)).toEqual(new Map([['a', 2010], ['b', 2020], ['c', 2000]]));
+  });
+
+  it('should break cycles with a temporary index and never collide', () => {
+    const swapped: RulePosition[] = [
+      { id: 'a', name: 'A', ruleIndex: 2000 },
+      { id: 'b', name: 'B', ruleIndex: 2010 }
+    ];
+    const plan = planReorder(swapped, ['b', 'a'], 2000, 10);
+
+    expect(plan.steps).toHaveLength(3);
+    expect(plan.steps[0].temporary).toBe(true);
+    expect(replay(swapped, plan.steps)).toEqual(new Map([['a', 2010], ['b', 2000]]));
+  });
+
+  it('should resume from a partially applied plan', () => {
+    const interrupted: RulePosition[] = [
+      { id: 'a', name: 'A', ruleIndex: 2011 },
+      { id: 'b', name: 'B', ruleIndex: 2000 }
+    ];
+    const plan = planReorder(interrupted, ['b', 'a'], 2000, 10);
+
+    expect(plan.steps).toEqual([{ id: 'a', name: 'A', from: 2011, to: 2010, temporary: false }]);
+    expect(planReorder(plan.after, ['b', 'a'], 2000, 10).steps).toEqual([]);
+  });
+
+  it('should reject incomplete, duplicate or out-of-range orders', () => {
+    expect(() => planReorder(rules, ['a', 'b'], 2000, 10)).toThrow('missing: Allow printer (c)');
+    expect(() => planReorder(rules, ['a', 'a', 'b', 'c'], 2000, 10)).toThrow('more than once');
+    expect(() => planReorder(rules, ['a', 'b', 'x'], 2000, 10)).toThrow("'x' is not in this rule set");
+    expect(() => planReorder(rules, ['a', 'b', 'c'], 9990, 10)).toThrow('exceed');
+  });
+});
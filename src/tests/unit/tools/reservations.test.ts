@@ -0,0 +1,71 @@
+import { getFixedIPsTool, setFixedIPTool } from '../../../tools/clients/reservations.js';
+
+const networks = [
+  {
+    _id: 'n-lan', name: 'LAN', purpose: 'corporate', ip_subnet: '192.168.1.1/24',
+    dhcpd_enabled: true, dhcpd_start: '192.168.1.100', dhcpd_stop: '192.168.1.200'
+  },
+  { _id: 'n-iot', name: 'IoT', purpose: 'corporate', ip_subnet: '192.168.20.1/24', dhcpd_enabled: false }
+];
+
+function fakeClient(users: any[]) {
+  const saved: Array<{ method: string; body: any }> = [];
+  return {
+    saved,
+    get: async (endpoint: string) => ({ data: endpoint.includes('networkconf') ? networks : users }),
+    put: async (_endpoint: string, body: any) => {
+      saved.push({ method: 'put', body });
+      return { data: [body] };
+    },
+    post: async (_endpoint: string, body: any) => {
+      saved.push({ method: 'post', body });
+      return { data: [body] };
+    }
+  };
+}
+
+describe('Fixed-IP reservations', () => {
+  it('should list reservations by address and skip malformed fixed IPs', async () => {
+    const client = fakeClient([
+      { _id: 'u1', mac: 'aa:bb:cc:00:00:01', name: 'NAS', use_fixedip: true, fixed_ip: '192.168.1.150', network_id: 'n-lan' },
+      { _id: 'u2', mac: 'aa:bb:cc:00:00:02', hostname: 'camera', use_fixedip: true, fixed_ip: '192.168.20.10' },
+      { _id: 'u3', mac: 'aa:bb:cc:00:00:03', name: 'Broken', use_fixedip: true, fixed_ip: 'fd00::3' },
+      { _id: 'u4', mac: 'aa:bb:cc:00:00:04', name: 'Dynamic', use_fixedip: false, fixed_ip: '192.168.1.5' }
+    ]);
+
+    const result = await getFixedIPsTool.handler({ _client: client });
+
+    expect(result.success).toBe(true);
+    expect(result.data.reservations.map((r: any) => [r.name, r.networkName, r.inDhcpRange])).toEqual([
+      ['NAS', 'LAN', true],
+      ['camera', 'IoT', false]
+    ]);
+    expect(result.data.summary).toEqual({ total: 2, insideDhcpRange: 1, byNetwork: { LAN: 1, IoT: 1 } });
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings![0]).toContain('fd00::3');
+  });
+
+  it('should refuse an address reserved for another client', async () => {
+    const client = fakeClient([
+      { _id: 'u1', mac: 'aa:bb:cc:00:00:01', name: 'NAS', use_fixedip: true, fixed_ip: '192.168.1.50' },
+      { _id: 'u2', mac: 'aa:bb:cc:00:00:02', name: 'Printer' }
+    ]);
+
+    const result = await setFixedIPTool.handler({ _client: client, clientId: 'aa:bb:cc:00:00:02', ip: '192.168.1.50' });
+
+    expect(result.success).toBe(false);
+    expect(result.error!.message).toContain('already reserved for NAS');
+    expect(client.saved).toHaveLength(0);
+  });
+
+  it('should warn when the reservation is inside the DHCP pool', async () => {
+    const client = fakeClient([{ _id: 'u2', mac: 'aa:bb:cc:00:00:02', name: 'Printer' }]);
+
+    const result = await setFixedIPTool.handler({ _client: client, clientId: 'AA:BB:CC:00:00:02', ip: '192.168.1.120' });
+
+    expect(result.success).toBe(true);
+    expect(client.saved[0]).toMatchObject({ method: 'put', body: { use_fixedip: true, fixed_ip: '192.168.1.120', network_id: 'n-lan' } });
+    expect(result.data.reservation.inDhcpRange).toBe(true);
+    expect(result.warnings![0]).toContain('inside the dynamic DHCP range 192.168.1.100-192.168.1.200');
+  });
+});
@@ -0,0 +1,85 @@
+import { auditStaticRoutes, checkStaticRoute, mapStaticRoute } from '../../../tools/networks/routes.js';
+import { DetailedNetwork, NetworkPurpose, StaticRoute } from '../../../unifi/types.js';
+
+const networks: DetailedNetwork[] = [
+  {
+    id: 'net-lan',
+    name: 'LAN',
+    purpose: NetworkPurpose.CORPORATE,
+    subnet: '192.168.1.0/24',
+    gateway: '192.168.1.1',
+    dhcpEnabled: true,
+    enabled: true,
+    isNat: true
+  }
+];
+
+const route = (overrides: Partial<StaticRoute>): StaticRoute => ({
+  id: 'r1',
+  name: 'Lab',
+  enabled: true,
+  type: 'nexthop-route',
+  destination: '10.20.0.0/16',
+  nextHop: '192.168.1.254',
+  distance: 1,
+  ...overrides
+});
+
+describe('Static route checks', () => {
+  it('should accept a route through a local next hop', () => {
+    expect(checkStaticRoute(route({}), networks)).toEqual([]);
+  });
+
+  it('should reject destinations that shadow a local network', () => {
+    const issues = checkStaticRoute(route({ destination: '192.168.1.128/25' }), networks);
+
+    expect(issues.some(i => i.severity === 'error' && i.message.includes('shadows'))).toBe(true);
+  });
+
+  it('should only warn for broader destinations containing a local network', () => {
+    const issues = checkStaticRoute(route({ destination: '192.168.0.0/16' }), networks);
+
+    expect(issues.map(i => i.severity)).toEqual(['warning']);
+  });
+
+  it('should flag unreachable next hops and unknown interfaces', () => {
+    expect(checkStaticRoute(route({ nextHop: '172.16.0.1' }), networks)[0].severity).toBe('warning');
+    expect(
+      checkStaticRoute(route({ type: 'interface-route', interface: 'missing' }), networks)[0].severity
+    ).toBe('error');
+  });
+
+  it('should skip IPv6 and missing destinations instead of throwing', () => {
+    const audited = auditStaticRoutes([
+      route({ destination: '2001:db8::/32', nextHop: 'fe80::1' }),
+      route({ id: 'r2', name: 'Broken', destination: '' }),
+      route({ id: 'r3', name: 'Lab v4' })
+    ], networks);
+
+    expect(audited[0].issues.map(i => i.severity)).toEqual(['info', 'info']);
+    expect(audited[0].issues[0].message).toContain('not checked');
+    expect(audited[1].issues.map(i => i.severity)).toEqual(['error']);
+    expect(audited[2].issues).toEqual([]);
+  });
+
+  it('should flag duplicate enabled routes', () => {
+    const audited = auditStaticRoutes([route({}), route({ id: 'r2', name: 'Lab copy' })], networks);
+
+    expect(audited[0].issues[0].message).toContain('Lab copy');
+  });
+
+  it('should map routing records', () => {
+    const mapped = mapStaticRoute({
+      _id: 'r3',
+      name: 'VPN',
+      type: 'static-route',
+      'static-route_type': 'interface-route',
+      'static-route_network': '10.8.0.0/24',
+      'static-route_interface': 'net-lan',
+      'static-route_distance': '5'
+    }, networks);
+
+    expect(mapped.interfaceName).toBe('LAN');
+    expect(mapped.distance).toBe(5);
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  addressSet,
+  portSet,
+  setContains,
+  setsOverlap,
+  legacyEntries,
+  zonePolicyEntries,
+  analyzeEntries,
+  objectIdTimestamp
+} from '../../../tools/firewall/ruleAnalysis.js';
+import { mapFirewallRule, mapZonePolicy } from '../../../tools/firewall/mapping.js';
+import { NetworkPurpose } from '../../../unifi/types.js';
+
+const networks: any[] = [
+  { id: 'n-lan', name: 'LAN', purpose: NetworkPurpose.CORPORATE, subnet: '192.168.1.0/24', gateway: '192.168.1.1' },
+  { id: 'n-iot', name: 'IoT', purpose: NetworkPurpose.CORPORATE, subnet: '192.168.20.0/24', gateway: '192.168.20.1' }
+];
+const groups = [
+  { _id: 'g-web', name: 'Web', group_type: 'port-group', group_members: ['80', '443'] },
+  { _id: 'g-servers', name: 'Servers', group_type: 'address-group', group_members: ['10.0.5.0/24'] }
+];
+
+const rule = (overrides: Record<string, any>) => mapFirewallRule({
+  name: 'Rule', enabled: true, action: 'drop', protocol: 'all', ruleset: 'LAN_IN', rule_index: 2000,
+  src_firewallgroup_ids: [], dst_firewallgroup_ids: [], ...overrides
+});
+
+const analyze = (rules: any[], now = new Date('2025-06-01T00:00:00Z')) =>
+  analyzeEntries(legacyEntries(rules.map(rule), groups, networks), 90, now);
+
+describe('Firewall Rule Analysis', () => {
+  describe('sets', () => {
+    it('should compare CIDRs, ranges and ports', () => {
+      expect(setContains(addressSet(['10.0.0.0/8']), addressSet(['10.0.5.0/24']))).toBe(true);
+      expect(setContains(addressSet(['10.0.5.0/24']), addressSet(['10.0.0.0/8']))).toBe(false);
+      expect(setContains(addressSet(['10.0.0.0/25', '10.0.0.128/25']), addressSet(['10.0.0.10-10.0.0.200']))).toBe(true);
+      expect(setContains(portSet(['1-1024']), portSet(['80,443']))).toBe(true);
+      expect(setsOverlap(portSet(['8000-8080']), portSet(['8080,9000']))).toBe(true);
+      expect(setsOverlap(portSet(['22']), portSet(['23']))).toBe(false);
+    });
+  });
+
+  describe('analyzeEntries', () => {
+    it('should report a rule covered by an earlier broader rule', () => {
+      const findings = analyze([
+        { _id: 'a', name: 'Block IoT', rule_index: 2000, src_networkconf_id: 'n-iot', src_networkconf_type: 'NETv4' },
+        { _id: 'b', name: 'Allow printer', action: 'accept', protocol: 'tcp', rule_index: 2010, src_address: '192.168.20.50', dst_port: '9100' }
+      ]);
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0]).toMatchObject({ kind: 'shadowed', rule: { id: 'b' }, other: { id: 'a' } });
+      expect(findings[0].explanation).toContain('IoT (192.168.20.0/24) ⊇ 192.168.20.50');
+      expect(findings[0].recommendation).toContain('Move');
+    });
+
+    it('should report duplicates, including port groups equal to inline ports', () => {
+      const findings = analyze([
+        { _id: 'a', name: 'Web 1', action: 'accept', protocol: 'tcp', rule_index: 2000, dst_firewallgroup_ids: ['g-web'] },
+        { _id: 'b', name: 'Web 2', action: 'accept', protocol: 'tcp', rule_index: 2010, dst_port: '443,80' }
+      ]);
+
+      expect(findings).toEqual([expect.objectContaining({ kind: 'duplicate', rule: expect.objectContaining({ id: 'b' }) })]);
+    });
+
+    it('should report overlapping rules with different actions', () => {
+      const findings = analyze([
+        { _id: 'a', name: 'Allow servers', action: 'accept', rule_index: 2000, dst_firewallgroup_ids: ['g-servers'] },
+        { _id: 'b', name: 'Block 10/16 from LAN', rule_index: 2010, src_networkconf_id: 'n-lan', src_networkconf_type: 'NETv4', dst_address: '10.0.0.0/16' }
+      ]);
+
+      expect(findings).toEqual([expect.objectContaining({ kind: 'conflict', other: expect.objectContaining({ id: 'a' }) })]);
+    });
+
+    it('should not compare rules from different rule sets or with differing states', () => {
+      expect(analyze([
+        { _id: 'a', name: 'A', ruleset: 'LAN_IN' },
+        { _id: 'b', name: 'B', ruleset: 'WAN_IN' },
+        { _id: 'c', name: 'C', ruleset: 'LAN_IN', rule_index: 2010, action: 'accept', state_established: true }
+      ])).toEqual([expect.objectContaining({ kind: 'shadowed', rule: expect.objectContaining({ id: 'c' }) })]);
+
+      expect(analyze([
+        { _id: 'a', name: 'A', state_established: true },
+        { _id: 'b', name: 'B', rule_index: 2010, action: 'accept', state_new: true }
+      ])).toEqual([]);
+    });
+
+    it('should report disabled rules older than the threshold using the ID timestamp', () => {
+      const oldId = Math.floor(Date.parse('2024-01-01T00:00:00Z') / 1000).toString(16) + '0000000000000000';
+      const recentId = Math.floor(Date.parse('2025-05-20T00:00:00Z') / 1000).toString(16) + '0000000000000000';
+
+      expect(objectIdTimestamp(oldId)?.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+      expect(analyze([
+        { _id: oldId, name: 'Old', enabled: false },
+        { _id: recentId, name: 'Recent', enabled: false }
+      ])).toEqual([expect.objectContaining({ kind: 'stale-disabled', rule: expect.objectContaining({ name: 'Old' }) })]);
+    });
+
+    it('should analyze custom zone policies per zone pair in priority order', () => {
+      const zones = [{ _id: 'z-int', name: 'Internal' }, { _id: 'z-ext', name: 'External' }];
+      const policies = [
+        { _id: 'p1', name: 'Block all out', action: 'BLOCK', source: { zone_id: 'z-int' }, destination: { zone_id: 'z-ext' }, index: 10000 },
+        { _id: 'p2', name: 'Allow DNS', action: 'ALLOW', protocol: 'udp', source: { zone_id: 'z-int' }, destination: { zone_id: 'z-ext', port_matching_type: 'SPECIFIC', port: '53' }, index: 10010 }
+      ].map(mapZonePolicy);
+
+      const findings = analyzeEntries(zonePolicyEntries(policies, zones, groups, networks), 90);
+      expect(findings).toEqual([expect.objectContaining({ kind: 'shadowed', scope: 'Internal → External' })]);
+    });
+  });
+});
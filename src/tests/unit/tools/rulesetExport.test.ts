@@ -0,0 +1,86 @@
+import {
+  buildSets,
+  renderIpset,
+  renderIptablesSave,
+  renderNftables,
+  ExportInput
+} from '../../../tools/firewall/rulesetExport.js';
+import { mapFirewallRule } from '../../../tools/firewall/mapping.js';
+import { NetworkPurpose } from '../../../unifi/types.js';
+
+const groups = [
+  { _id: 'g2', name: 'Web Ports', group_type: 'port-group', group_members: ['443', '80'] },
+  { _id: 'g1', name: 'Servers', group_type: 'address-group', group_members: ['10.0.5.0/24'] },
+  { _id: 'g3', name: 'Servers', group_type: 'ipv6-address-group', group_members: ['fd00::/64'] }
+];
+
+const rule = (overrides: Record<string, any>) => mapFirewallRule({
+  name: 'Rule', enabled: true, action: 'drop', protocol: 'all', ruleset: 'LAN_IN', rule_index: 2000,
+  src_firewallgroup_ids: [], dst_firewallgroup_ids: [], ...overrides
+});
+
+const input: ExportInput = {
+  groups,
+  networks: [
+    { id: 'n-iot', name: 'IoT', purpose: NetworkPurpose.CORPORATE, subnet: '192.168.20.1/24', gateway: '192.168.20.1' }
+  ] as any[],
+  rules: [
+    rule({ _id: 'r3', name: 'Old', enabled: false, rule_index: 2020 }),
+    rule({
+      _id: 'r1', name: 'Allow web', action: 'accept', protocol: 'tcp', rule_index: 2000,
+      src_networkconf_id: 'n-iot', src_networkconf_type: 'NETv4',
+      dst_firewallgroup_ids: ['g2', 'g1'], state_new: true, state_established: true
+    }),
+    rule({ _id: 'r4', name: 'Block SSH', ruleset: 'WAN_IN', protocol: 'tcp_udp', dst_port: '22,2222', logging: true })
+  ]
+};
+
+describe('Firewall Ruleset Export', () => {
+  it('should name sets deterministically and uniquely', () => {
+    expect(buildSets(groups).map(set => set.name)).toEqual(['Servers', 'Servers_g3', 'Web_Ports']);
+    expect(renderIpset(buildSets(groups))).toBe([
+      'create Servers hash:net family inet',
+      'add Servers 10.0.5.0/24',
+      'create Servers_g3 hash:net family inet6',
+      'add Servers_g3 fd00::/64',
+      'create Web_Ports bitmap:port range 0-65535',
+      'add Web_Ports 443',
+      'add Web_Ports 80',
+      ''
+    ].join('\n'));
+  });
+
+  it('should render iptables-save chains in rule set and rule_index order', () => {
+    const output = renderIptablesSave(input);
+
+    expect(output).toBe([
+      '# Legacy firewall rule sets exported from UniFi',
+      '*filter',
+      ':WAN_IN - [0:0]',
+      ':LAN_IN - [0:0]',
+      '# WAN_IN',
+      '-A WAN_IN -p tcp -m multiport --dports 22,2222 -m comment --comment "Block SSH [2000]" -j LOG --log-prefix "[WAN_IN-2000-D] "',
+      '-A WAN_IN -p tcp -m multiport --dports 22,2222 -m comment --comment "Block SSH [2000]" -j DROP',
+      '-A WAN_IN -p udp -m multiport --dports 22,2222 -m comment --comment "Block SSH [2000]" -j LOG --log-prefix "[WAN_IN-2000-D] "',
+      '-A WAN_IN -p udp -m multiport --dports 22,2222 -m comment --comment "Block SSH [2000]" -j DROP',
+      '-A WAN_IN -m comment --comment "default" -j DROP',
+      '# LAN_IN',
+      '-A LAN_IN -p tcp -s 192.168.20.0/24 -m set --match-set Servers dst -m set --match-set Web_Ports dst -m conntrack --ctstate NEW,ESTABLISHED -m comment --comment "Allow web [2000]" -j ACCEPT',
+      '# disabled: -A LAN_IN -m comment --comment "Old [2020]" -j DROP',
+      '-A LAN_IN -m comment --comment "default" -j RETURN',
+      'COMMIT',
+      ''
+    ].join('\n'));
+    expect(renderIptablesSave({ ...input, rules: [...input.rules].reverse() })).toBe(output);
+  });
+
+  it('should render an equivalent nft ruleset with sets', () => {
+    const output = renderNftables(input);
+
+    expect(output).toContain('  set Web_Ports {\n    comment "Web Ports"\n    type inet_service\n    flags interval\n    elements = { 443, 80 }\n  }');
+    expect(output).toContain('    meta l4proto { tcp, udp } th dport { 22, 2222 } counter log prefix "[WAN_IN-2000] " drop comment "Block SSH [2000]"');
+    expect(output).toContain('    ip saddr 192.168.20.0/24 ip daddr @Servers tcp dport @Web_Ports ct state { new, established } counter accept comment "Allow web [2000]"');
+    expect(output).toContain('    # disabled: counter drop comment "Old [2020]"');
+    expect(output).toContain('    return comment "default"');
+  });
+});
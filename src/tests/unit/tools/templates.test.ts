@@ -0,0 +1,118 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  BUILT_IN_TEMPLATES,
+  loadTemplates,
+  renderTemplate,
+  FirewallTemplate
+} from '../../../tools/firewall/templates.js';
+import { LiveFirewallState, planFirewallDocument } from '../../../tools/firewall/document.js';
+import { NetworkPurpose } from '../../../unifi/types.js';
+
+function liveState(): LiveFirewallState {
+  return {
+    groups: [],
+    rules: [
+      { _id: 'r1', name: 'Existing', ruleset: 'LAN_IN', rule_index: 2000 }
+    ],
+    policies: [],
+    zones: [
+      { _id: 'z-int', name: 'Internal', zone_key: 'internal', network_ids: ['n-lan'] },
+      { _id: 'z-iot', name: 'IoT Zone', zone_key: '', network_ids: ['n-iot'] },
+      { _id: 'z-gw', name: 'Gateway', zone_key: 'gateway', network_ids: [] },
+      { _id: 'z-ext', name: 'External', zone_key: 'external', network_ids: [] }
+    ],
+    networks: [
+      { id: 'n-lan', name: 'LAN', purpose: NetworkPurpose.CORPORATE, subnet: '192.168.1.1/24', gateway: '192.168.1.1' },
+      { id: 'n-iot', name: 'IoT', purpose: NetworkPurpose.CORPORATE, subnet: '192.168.20.1/24', gateway: '192.168.20.1' }
+    ] as any[]
+  };
+}
+
+const builtIn = (name: string) => BUILT_IN_TEMPLATES.find(t => t.name === name)!;
+
+describe('Firewall Templates', () => {
+  it('should render legacy rules with resolved networks and free indexes', async () => {
+    const document = await renderTemplate(builtIn('isolate-network'), 'legacy', { source: 'iot', target: 'n-lan' }, liveState());
+
+    expect(document.rules).toHaveLength(2);
+    expect(document.rules![0]).toMatchObject({
+      name: 'Isolate IoT from LAN: allow established',
+      ruleSet: 'LAN_IN',
+      index: 2001,
+      source: { network: 'IoT' },
+      destination: { network: 'LAN' },
+      states: ['established', 'related']
+    });
+    expect(document.rules![1]).toMatchObject({ action: 'drop', index: 2002 });
+  });
+
+  it('should render zone policies using network zones and common ports', async () => {
+    const state = liveState();
+    const document = await renderTemplate(builtIn('gateway-dns-ntp-only'), 'zbf', { network: 'IoT' }, state);
+
+    expect(document.policies!.map(p => [p.sourceZone, p.targetZone, p.priority])).toEqual([
+      ['IoT Zone', 'gateway', 2000],
+      ['IoT Zone', 'gateway', 2001],
+      ['IoT Zone', 'gateway', 2002],
+      ['IoT Zone', 'gateway', 2003]
+    ]);
+    expect(document.policies![1].destination).toEqual({ ports: ['123'] });
+
+    const plan = planFirewallDocument(document, state);
+    expect(plan.changes.filter(c => c.action === 'create')).toHaveLength(4);
+  });
+
+  it('should apply parameter defaults and validate parameter values', async () => {
+    const template = builtIn('allow-plex-from-wan');
+    const document = await renderTemplate(template, 'legacy', { server: '192.168.1.50' }, liveState());
+
+    expect(document.rules![0].destination).toMatchObject({ address: '192.168.1.50', port: '32400' });
+    await expect(renderTemplate(template, 'legacy', { server: 'plex.local' }, liveState())).rejects.toThrow('IP address');
+    await expect(renderTemplate(template, 'legacy', { server: '192.168.1.50', extra: 'x' }, liveState())).rejects.toThrow('no parameter');
+    await expect(renderTemplate(builtIn('isolate-network'), 'legacy', { source: 'Guest', target: 'LAN' }, liveState())).rejects.toThrow('Guest');
+  });
+
+  it('should reject unknown placeholders and missing variants', async () => {
+    const template: FirewallTemplate = {
+      name: 'broken',
+      description: 'Uses an unknown placeholder',
+      parameters: [],
+      legacy: { rules: [{ name: 'Bad {{nope}}', ruleSet: 'LAN_IN', action: 'drop' }] }
+    };
+
+    await expect(renderTemplate(template, 'legacy', {}, liveState())).rejects.toThrow('{{nope}}');
+    await expect(renderTemplate(template, 'zbf', {}, liveState())).rejects.toThrow('no zone-based variant');
+  });
+
+  it('should load user templates from a directory and report invalid files', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'unifi-templates-'));
+    try {
+      await fs.writeFile(path.join(directory, 'ssh.yaml'), [
+        'name: allow-ssh',
+        'description: Allow SSH to a server',
+        'parameters:',
+        '  - { name: server, type: address }',
+        'legacy:',
+        '  rules:',
+        '    - { name: "SSH {{server}}", ruleSet: LAN_IN, action: allow, protocol: tcp, destination: { address: "{{server}}", port: "{{ports.SSH}}" } }'
+      ].join('\n'));
+      await fs.writeFile(path.join(directory, 'broken.json'), '{ "name": "Bad Name" }');
+      await fs.writeFile(path.join(directory, 'notes.txt'), 'ignored');
+
+      const { templates, errors } = await loadTemplates(directory);
+      const loaded = templates.find(t => t.template.name === 'allow-ssh')!;
+
+      expect(loaded.source).toBe(path.join(directory, 'ssh.yaml'));
+      expect(templates).toHaveLength(BUILT_IN_TEMPLATES.length + 1);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].file).toBe(path.join(directory, 'broken.json'));
+
+      const document = await renderTemplate(loaded.template, 'legacy', { server: '10.0.0.5' }, liveState());
+      expect(document.rules![0].destination).toMatchObject({ address: '10.0.0.5', port: '22' });
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,53 @@
+import {
+  mapUserGroup,
+  matchesNamePattern,
+  selectClients,
+  GroupCandidate
+} from '../../../tools/clients/userGroups.js';
+
+const candidates: GroupCandidate[] = [
+  { mac: 'aa:bb:cc:00:00:01', name: 'Living Room Chromecast', hostname: 'chromecast-1', vendor: 'Google', networkId: 'net-iot', connected: true },
+  { mac: 'aa:bb:cc:00:00:02', name: 'chromecast-2', vendor: 'Google', groupId: 'g-slow', connected: false },
+  { mac: 'aa:bb:cc:00:00:03', name: 'Laptop', hostname: 'laptop', vendor: 'Apple', networkId: 'net-lan', connected: true }
+];
+
+describe('User group helpers', () => {
+  it('should map unlimited rates to null', () => {
+    const group = mapUserGroup({ _id: 'g1', name: 'Default', attr_hidden_id: 'Default', qos_rate_max_down: -1, qos_rate_max_up: 2000 }, 4);
+
+    expect(group).toEqual({
+      id: 'g1',
+      name: 'Default',
+      downloadLimitKbps: null,
+      uploadLimitKbps: 2000,
+      isDefault: true,
+      clientCount: 4
+    });
+  });
+
+  it('should match wildcard patterns against alias and hostname', () => {
+    expect(matchesNamePattern('chromecast*', candidates[0])).toBe(true);
+    expect(matchesNamePattern('*ROOM*', candidates[0])).toBe(true);
+    expect(matchesNamePattern('chromecast?', candidates[2])).toBe(false);
+  });
+
+  it('should select clients by MAC and hostname and report misses', () => {
+    const result = selectClients(candidates, {
+      macs: ['AA-BB-CC-00-00-03', 'aa:bb:cc:99:99:99'],
+      hostnames: ['CHROMECAST-1']
+    });
+
+    expect(result.selected.map(c => c.mac)).toEqual(['aa:bb:cc:00:00:03', 'aa:bb:cc:00:00:01']);
+    expect(result.notFound).toEqual(['aa:bb:cc:99:99:99']);
+  });
+
+  it('should apply every filter criterion and treat unassigned clients as default', () => {
+    expect(
+      selectClients(candidates, { filter: { vendor: 'google', connectedOnly: true } }).selected.map(c => c.mac)
+    ).toEqual(['aa:bb:cc:00:00:01']);
+
+    expect(
+      selectClients(candidates, { filter: { currentGroupId: 'g-default' } }, 'g-default').selected.map(c => c.mac)
+    ).toEqual(['aa:bb:cc:00:00:01', 'aa:bb:cc:00:00:03']);
+  });
+});
@@ -0,0 +1,52 @@
+import { generatePassphrase, buildWlanSchedule, mapWlanConf } from '../../../tools/networks/wlans.js';
+
+describe('WLAN helpers', () => {
+  it('should generate passphrases of the requested length with mixed character classes', () => {
+    const passphrase = generatePassphrase(32);
+
+    expect(passphrase).toHaveLength(32);
+    expect(passphrase).toMatch(/[A-Z]/);
+    expect(passphrase).toMatch(/[a-z]/);
+    expect(passphrase).toMatch(/[0-9]/);
+    expect(passphrase).not.toMatch(/[01IOl]/);
+    expect(generatePassphrase(32)).not.toBe(passphrase);
+  });
+
+  it('should convert schedules into durations, wrapping past midnight', () => {
+    const schedule = buildWlanSchedule([
+      { days: ['monday', 'friday'], startTime: '08:30', endTime: '17:00' },
+      { days: ['saturday'], startTime: '22:00', endTime: '02:00' }
+    ]);
+
+    expect(schedule[0]).toEqual({
+      start_days_of_week: ['mon', 'fri'],
+      start_hour: 8,
+      start_minute: 30,
+      duration_minutes: 510
+    });
+    expect(schedule[1].duration_minutes).toBe(240);
+  });
+
+  it('should map wlanconf records without exposing the passphrase', () => {
+    const wlan = mapWlanConf({
+      _id: 'wlan-1',
+      name: 'Guest',
+      security: 'wpapsk',
+      wpa3_support: true,
+      wpa3_transition: true,
+      x_passphrase: 'secret-passphrase',
+      networkconf_id: 'net-guest',
+      is_guest: true,
+      l2_isolation: true,
+      schedule_enabled: true,
+      schedule_with_duration: [
+        { start_days_of_week: ['sun'], start_hour: 22, start_minute: 0, duration_minutes: 240 }
+      ]
+    });
+
+    expect(wlan.security).toBe('wpa2-wpa3');
+    expect(wlan.clientIsolation).toBe(true);
+    expect(wlan.schedule).toEqual([{ days: ['sunday'], startTime: '22:00', endTime: '02:00' }]);
+    expect(JSON.stringify(wlan)).not.toContain('secret-passphrase');
+  });
+});
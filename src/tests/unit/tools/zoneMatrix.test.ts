@@ -0,0 +1,65 @@
+import { buildZoneMatrix, renderZoneMatrixMarkdown, builtinDefaultAction } from '../../../tools/firewall/zoneMatrix.js';
+import { FirewallAction, ZonePolicy } from '../../../unifi/types.js';
+
+const zones = [
+  { _id: 'z-int', name: 'Internal', zone_key: 'internal' },
+  { _id: 'z-ext', name: 'External', zone_key: 'external' },
+  { _id: 'z-iot', name: 'iot_zone' }
+];
+
+const policy = (overrides: Partial<ZonePolicy>): ZonePolicy => ({
+  id: 'p',
+  sourceZone: 'z-iot',
+  targetZone: 'z-int',
+  action: FirewallAction.DENY,
+  protocol: 'all',
+  ipVersion: 'both',
+  logging: false,
+  enabled: true,
+  predefined: false,
+  priority: 1,
+  ...overrides
+});
+
+describe('Zone policy matrix', () => {
+  it('should fall back to built-in defaults', () => {
+    expect(builtinDefaultAction(zones[0], zones[1])).toBe('allow');
+    expect(builtinDefaultAction(zones[1], zones[0])).toBe('deny');
+    expect(builtinDefaultAction(zones[2], zones[1])).toBe('allow');
+    expect(builtinDefaultAction(zones[2], zones[0])).toBe('deny');
+  });
+
+  it('should summarise explicit policies per cell', () => {
+    const matrix = buildZoneMatrix(zones, [
+      policy({ id: 'p1', name: 'Allow HA', sourceZone: 'z-ext', protocol: 'tcp', action: FirewallAction.ALLOW, destination: { ports: ['8123'] } }),
+      policy({ id: 'p2', name: 'Old rule', sourceZone: 'z-ext', enabled: false })
+    ]);
+    const cell = matrix.cells.External.Internal;
+
+    expect(matrix.zones).toEqual(['Internal', 'External', 'iot_zone']);
+    expect(cell).toEqual({
+      defaultAction: 'deny',
+      defaultSource: 'builtin',
+      policyCount: 1,
+      disabledPolicyCount: 1,
+      firstPolicies: ['Allow HA'],
+      effective: 'custom'
+    });
+  });
+
+  it('should prefer predefined catch-all policies as the default', () => {
+    const matrix = buildZoneMatrix(zones, [
+      policy({ id: 'p3', name: 'Allow All', sourceZone: 'z-int', targetZone: 'z-iot', action: FirewallAction.ALLOW, predefined: true, priority: 9999 })
+    ]);
+
+    expect(matrix.cells.Internal.iot_zone.defaultSource).toBe('predefined-policy');
+    expect(matrix.policies.Internal.iot_zone).toBe('allow');
+  });
+
+  it('should render a Markdown table', () => {
+    const markdown = renderZoneMatrixMarkdown(buildZoneMatrix(zones, [policy({ name: 'Block IoT' })]));
+
+    expect(markdown.split('\n')[0]).toBe('| Source \\ Destination | Internal | External | iot_zone |');
+    expect(markdown).toContain('| **iot_zone** | deny, 1 policy: Block IoT | allow | allow |');
+  });
+});
@@ -0,0 +1,105 @@
+import { mapZonePolicy, toRawZonePolicy } from '../../../tools/firewall/mapping.js';
+import { checkZonePolicy, updateZonePolicyTool } from '../../../tools/firewall/zonePolicies.js';
+import { FirewallAction, ZonePolicy } from '../../../unifi/types.js';
+
+const policy: ZonePolicy = {
+  id: 'p1',
+  name: 'IoT to NAS',
+  sourceZone: 'z-iot',
+  targetZone: 'z-int',
+  action: FirewallAction.ALLOW,
+  protocol: 'tcp',
+  ipVersion: 'both',
+  destination: { ipGroupId: 'g-nas', ports: ['445'] },
+  schedule: { mode: 'weekly', days: ['monday', 'friday'], startTime: '08:00', endTime: '17:00' },
+  connectionStates: ['new', 'established'],
+  logging: true,
+  enabled: true,
+  predefined: false,
+  priority: 10
+};
+
+describe('Zone policy mapping', () => {
+  it('should convert policies to the controller format', () => {
+    const raw = toRawZonePolicy(policy);
+
+    expect(raw.action).toBe('ALLOW');
+    expect(raw.index).toBe(10);
+    expect(raw.connection_state_type).toBe('CUSTOM');
+    expect(raw.schedule).toEqual({
+      mode: 'EVERY_WEEK',
+      repeat_on_days: ['mon', 'fri'],
+      time_all_day: false,
+      time_range_start: '08:00',
+      time_range_end: '17:00'
+    });
+    expect(raw.destination).toMatchObject({
+      zone_id: 'z-int',
+      matching_target: 'IP',
+      matching_target_type: 'OBJECT',
+      ip_group_id: 'g-nas',
+      port_matching_type: 'SPECIFIC',
+      port: '445'
+    });
+  });
+
+  it('should round-trip through the raw format', () => {
+    expect(mapZonePolicy({ _id: 'p1', ...toRawZonePolicy(policy) })).toEqual(policy);
+  });
+
+  it('should map block actions and respond-only state matching', () => {
+    const mapped = mapZonePolicy({
+      _id: 'p2',
+      action: 'BLOCK',
+      connection_state_type: 'RESPOND_ONLY',
+      source: { zone_id: 'z-ext', matching_target: 'ANY' },
+      destination: { zone_id: 'z-int', matching_target: 'NETWORK', network_ids: ['net-lan'] }
+    });
+
+    expect(mapped.action).toBe(FirewallAction.DENY);
+    expect(mapped.connectionStates).toEqual(['established', 'related']);
+    expect(mapped.destination).toEqual({ networkIds: ['net-lan'] });
+    expect(mapped.schedule).toBeUndefined();
+  });
+
+  it('should reject port matching without a port protocol', () => {
+    const problems = checkZonePolicy({ ...policy, protocol: 'all', targetZone: 'z-iot' });
+
+    expect(problems).toHaveLength(2);
+    expect(problems[1]).toContain('tcp, udp or tcp_udp');
+  });
+
+  it('should keep the destination address when only ports are updated', async () => {
+    const saved: any[] = [];
+    const rawPolicy = {
+      _id: 'p3',
+      name: 'Web to server',
+      action: 'ALLOW',
+      protocol: 'tcp',
+      source: { zone_id: 'z-iot', matching_target: 'ANY' },
+      destination: { zone_id: 'z-int', matching_target: 'IP', matching_target_type: 'SPECIFIC', ips: ['192.168.1.10'], port_matching_type: 'SPECIFIC', port: '80' }
+    };
+    const client = {
+      get: async (endpoint: string) => ({
+        data: endpoint.endsWith('firewallzonepolicy') ? [rawPolicy]
+          : [{ _id: 'z-iot', name: 'IoT' }, { _id: 'z-int', name: 'Internal' }]
+      }),
+      put: async (_endpoint: string, body: any) => {
+        saved.push(body);
+        return { data: [body] };
+      }
+    };
+    const versionDetector = { validateFeature: async () => undefined };
+
+    const result = await updateZonePolicyTool.handler({
+      policyId: 'p3',
+      ports: ['443'],
+      _client: client,
+      _versionDetector: versionDetector
+    });
+
+    expect(result.success).toBe(true);
+    expect(saved[0].destination).toMatchObject({ zone_id: 'z-int', matching_target: 'IP', ips: ['192.168.1.10'], port: '443' });
+    expect(result.data.policy.destination).toEqual({ ips: ['192.168.1.10'], ports: ['443'] });
+  });
+});
@@ -0,0 +1,81 @@
+import {
+  mapFirewallZone,
+  findRawZone,
+  checkZoneMembership,
+  isPredefinedZone
+} from '../../../tools/firewall/mapping.js';
+import { DetailedNetwork, NetworkPurpose } from '../../../unifi/types.js';
+
+const networks: DetailedNetwork[] = [
+  {
+    id: 'net-lan',
+    name: 'LAN',
+    purpose: NetworkPurpose.CORPORATE,
+    subnet: '192.168.1.0/24',
+    gateway: '192.168.1.1',
+    dhcpEnabled: true,
+    enabled: true,
+    isNat: true
+  },
+  {
+    id: 'net-iot',
+    name: 'IoT',
+    purpose: NetworkPurpose.CORPORATE,
+    vlanId: 30,
+    subnet: '192.168.30.0/24',
+    gateway: '192.168.30.1',
+    dhcpEnabled: true,
+    enabled: true,
+    isNat: true
+  },
+  {
+    id: 'net-wan',
+    name: 'Primary WAN',
+    purpose: NetworkPurpose.WAN,
+    wanNetworkgroup: 'WAN',
+    subnet: '',
+    gateway: '',
+    dhcpEnabled: false,
+    enabled: true,
+    isNat: true
+  }
+];
+
+const rawZones = [
+  { _id: 'z-int', name: 'Internal', zone_key: 'internal', network_ids: ['net-lan'] },
+  { _id: 'z-ext', name: 'External', zone_key: 'external', network_ids: ['net-wan'] },
+  { _id: 'z-iot', name: 'iot_zone', network_ids: ['net-iot'] }
+];
+
+describe('Firewall zone mapping', () => {
+  it('should derive interfaces and descriptions for member networks', () => {
+    const internal = mapFirewallZone(rawZones[0], networks);
+    const iot = mapFirewallZone(rawZones[2], networks);
+
+    expect(internal.predefined).toBe(true);
+    expect(internal.description).toBe('Internal trusted networks');
+    expect(internal.interfaces).toEqual(['br0']);
+    expect(iot.predefined).toBe(false);
+    expect(iot.interfaces).toEqual(['br30']);
+    expect(mapFirewallZone(rawZones[1], networks).interfaces).toEqual(['wan']);
+  });
+
+  it('should resolve zones by ID, name or key', () => {
+    expect(findRawZone(rawZones, 'z-iot').name).toBe('iot_zone');
+    expect(findRawZone(rawZones, 'IOT_ZONE')._id).toBe('z-iot');
+    expect(findRawZone(rawZones, 'external')._id).toBe('z-ext');
+    expect(() => findRawZone(rawZones, 'dmz')).toThrow();
+  });
+
+  it('should protect predefined zones', () => {
+    expect(isPredefinedZone(rawZones[0])).toBe(true);
+    expect(isPredefinedZone(rawZones[2])).toBe(false);
+  });
+
+  it('should keep WAN networks in the external zone only', () => {
+    expect(checkZoneMembership(rawZones[2], networks[2])).toContain('external zone');
+    expect(checkZoneMembership(rawZones[1], networks[0])).toContain('Only WAN');
+    expect(checkZoneMembership({ zone_key: 'gateway' }, networks[0])).toContain('gateway');
+    expect(checkZoneMembership(rawZones[2], networks[0])).toBeNull();
+  });
+});
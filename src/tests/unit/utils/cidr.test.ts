@@ -0,0 +1,59 @@
+import {
+  ipToNumber,
+  numberToIp,
+  parseCIDR,
+  normalizeCIDR,
+  cidrContainsIP,
+  cidrContains,
+  cidrsOverlap,
+  ipInRange,
+  rangeSize
+} from '../../../utils/cidr.js';
+
+describe('CIDR utilities', () => {
+  describe('Address conversion', () => {
+    it('should round-trip IPv4 addresses', () => {
+      expect(ipToNumber('0.0.0.0')).toBe(0);
+      expect(ipToNumber('255.255.255.255')).toBe(0xffffffff);
+      expect(numberToIp(ipToNumber('192.168.10.1'))).toBe('192.168.10.1');
+    });
+
+    it('should reject invalid addresses', () => {
+      expect(() => ipToNumber('256.1.1.1')).toThrow();
+      expect(() => ipToNumber('10.0.0')).toThrow();
+    });
+  });
+
+  describe('CIDR parsing', () => {
+    it('should clear host bits', () => {
+      const parsed = parseCIDR('192.168.1.1/24');
+      expect(parsed.network).toBe('192.168.1.0');
+      expect(parsed.size).toBe(256);
+      expect(normalizeCIDR('10.1.2.3/8')).toBe('10.0.0.0/8');
+    });
+
+    it('should treat bare addresses as /32', () => {
+      expect(parseCIDR('10.0.0.5').prefix).toBe(32);
+    });
+  });
+
+  describe('Containment and overlap', () => {
+    it('should detect containment', () => {
+      expect(cidrContainsIP('10.0.0.0/24', '10.0.0.200')).toBe(true);
+      expect(cidrContainsIP('10.0.0.0/24', '10.0.1.1')).toBe(false);
+      expect(cidrContains('10.0.0.0/16', '10.0.5.0/24')).toBe(true);
+      expect(cidrContains('10.0.5.0/24', '10.0.0.0/16')).toBe(false);
+    });
+
+    it('should detect overlapping blocks', () => {
+      expect(cidrsOverlap('192.168.0.0/23', '192.168.1.0/24')).toBe(true);
+      expect(cidrsOverlap('192.168.0.0/24', '192.168.1.0/24')).toBe(false);
+    });
+
+    it('should handle inclusive ranges', () => {
+      expect(ipInRange('10.0.0.100', '10.0.0.6', '10.0.0.254')).toBe(true);
+      expect(ipInRange('10.0.0.1', '10.0.0.6', '10.0.0.254')).toBe(false);
+      expect(rangeSize('10.0.0.6', '10.0.0.254')).toBe(249);
+    });
+  });
+});
@@ -0,0 +1,469 @@
+import { MCPTool, ToolCategory, ToolResult, ErrorCode } from '../../server/types.js';
+import { UniFiClient } from '../../unifi/client.js';
+import { ValidationService, MACAddressSchema, normalizeMAC } from '../../utils/validators.js';
+import { createToolLogger } from '../../utils/logger.js';
+import { UniFiMCPError, ResourceNotFoundError, ValidationError } from '../../utils/errors.js';
+import { UNIFI_ENDPOINTS } from '../../config/constants.js';
+import { fetchUsers, findUserByMac, saveUser } from './users.js';
+
+/**
+ * Client Alias Tools
+ *
+ * Tools for naming clients: the alias, note and device type/icon
+ * override stored on their rest/user objects, one at a time or in bulk
+ * from a CSV or JSON mapping.
+ */
+
+const logger = createToolLogger('client-alias-tools');
+
+export interface AliasFields {
+  name?: string | undefined;
+  note?: string | undefined;
+  deviceId?: number | null | undefined;
+}
+
+export type AliasEntry = AliasFields & { mac: string };
+
+/**
+ * Describe the alias fields of a client's user object
+ */
+function describeAlias(user: any, mac: string) {
+  return {
+    mac: user?.mac ?? mac,
+    name: user?.name || undefined,
+    hostname: user?.hostname || undefined,
+    note: user?.note || undefined,
+    deviceId: user?.fingerprint_override ? user.dev_id_override : undefined
+  };
+}
+
+/**
+ * The user object fields to change, leaving out those that already hold
+ * the requested value. An empty name or note clears it; a null deviceId
+ * drops the device type override.
+ */
+export function aliasChanges(existing: any | undefined, fields: AliasFields): Record<string, any> {
+  const changes: Record<string, any> = {};
+
+  if (fields.name !== undefined && (existing?.name ?? '') !== fields.name.trim()) {
+    changes.name = fields.name.trim();
+  }
+
+  if (fields.note !== undefined && (existing?.note ?? '') !== fields.note) {
+    changes.note = fields.note;
+    changes.noted = fields.note !== '';
+  }
+
+  if (fields.deviceId === null && existing?.fingerprint_override) {
+    changes.fingerprint_override = false;
+  } else if (typeof fields.deviceId === 'number' &&
+      !(existing?.fingerprint_override && existing.dev_id_override === fields.deviceId)) {
+    changes.fingerprint_override = true;
+    changes.dev_id_override = fields.deviceId;
+  }
+
+  return changes;
+}
+
+/**
+ * Resolve a client identifier to its MAC address. Accepts a MAC, a user
+ * object ID, or anything the client details endpoint resolves.
+ */
+export async function resolveClientMac(client: UniFiClient, users: any[], clientId: string): Promise<string> {
+  if (MACAddressSchema.safeParse(clientId).success) {
+    return normalizeMAC(clientId);
+  }
+
+  const user = users.find(u => u._id === clientId);
+  if (user?.mac) {
+    return normalizeMAC(user.mac);
+  }
+
+  const response = await client.get(UNIFI_ENDPOINTS.CLIENT_DETAILS.replace('{id}', clientId));
+  const mac = Array.isArray(response.data) ? response.data[0]?.mac : undefined;
+  if (typeof mac !== 'string') {
+    throw new ResourceNotFoundError('Client', clientId);
+  }
+
+  return normalizeMAC(mac);
+}
+
+// ================================
+// Mapping Parsing
+// ================================
+
+/**
+ * Split CSV text into rows of fields, honouring quoted fields
+ */
+function parseCSVRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new ValidationError('Unterminated quoted field in CSV', 'mappings');
+  }
+
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+const CSV_COLUMNS: Record<string, keyof AliasEntry> = {
+  mac: 'mac',
+  name: 'name',
+  alias: 'name',
+  note: 'note',
+  deviceid: 'deviceId',
+  device_id: 'deviceId'
+};
+
+/**
+ * Parse CSV with a header row (mac, name/alias, note, deviceId), or
+ * without one as mac,name,note. Empty cells leave the field unchanged.
+ */
+function parseAliasCSV(text: string): Array<Record<string, any>> {
+  const rows = parseCSVRows(text);
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const hasHeader = header.includes('mac');
+  const columns = hasHeader ? header.map(cell => CSV_COLUMNS[cell]) : ['mac', 'name', 'note'] as Array<keyof AliasEntry>;
+
+  if (hasHeader) {
+    const unknown = header.filter(cell => !CSV_COLUMNS[cell]);
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown CSV column(s): ${unknown.join(', ')}`, 'mappings', unknown);
+    }
+  }
+
+  return rows.slice(hasHeader ? 1 : 0).map(row => {
+    const entry: Record<string, any> = {};
+    row.forEach((cell, index) => {
+      const column = columns[index];
+      const value = cell.trim();
+      if (!column || value === '') return;
+      entry[column] = column === 'deviceId' ? Number(value) : value;
+    });
+    return entry;
+  });
+}
+
+/**
+ * Turn a JSON mapping into entries. Accepts an array of entries, or an
+ * object keyed by MAC whose values are a name or an object of fields.
+ */
+function parseAliasJSON(value: unknown): Array<Record<string, any>> {
+  if (Array.isArray(value)) {
+    return value;
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.entries(value).map(([mac, fields]) =>
+      typeof fields === 'string' ? { mac, name: fields } : { mac, ...(fields as Record<string, any>) }
+    );
+  }
+
+  throw new ValidationError('JSON mappings must be an array or an object keyed by MAC address', 'mappings');
+}
+
+/**
+ * Parse bulk alias mappings given as CSV text, JSON text or already
+ * parsed JSON
+ */
+export function parseAliasMappings(mappings: unknown, format: 'auto' | 'csv' | 'json' = 'auto'): Array<Record<string, any>> {
+  if (typeof mappings !== 'string') {
+    return parseAliasJSON(mappings);
+  }
+
+  const text = mappings.trim();
+  const isJSON = format === 'json' || (format === 'auto' && (text.startsWith('{') || text.startsWith('[')));
+
+  if (!isJSON) {
+    return parseAliasCSV(text);
+  }
+
+  try {
+    return parseAliasJSON(JSON.parse(text));
+  } catch (error) {
+    if (error instanceof ValidationError) throw error;
+    throw new ValidationError(`Invalid JSON mappings: ${(error as Error).message}`, 'mappings');
+  }
+}
+
+// ================================
+// Set Client Alias Tool
+// ================================
+
+const setClientAliasTool: MCPTool = {
+  name: 'unifi_set_client_alias',
+  description: "Set a client's alias, note and device type/icon override",
+  category: ToolCategory.CLIENTS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      clientId: {
+        type: 'string',
+        description: 'Client MAC address or ID (as accepted by unifi_get_client_details)',
+        minLength: 1
+      },
+      name: {
+        type: 'string',
+        description: 'Alias shown instead of the hostname; empty string clears it',
+        maxLength: 128
+      },
+      note: {
+        type: 'string',
+        description: 'Free-text note; empty string clears it',
+        maxLength: 1024
+      },
+      deviceId: {
+        type: ['integer', 'null'],
+        description: 'Fingerprint device ID to show as the device type and icon (as picked in the UniFi UI); null restores the detected type',
+        minimum: 0
+      }
+    },
+    required: ['clientId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const validatedParams = await ValidationService.validateSetClientAliasParams(params);
+      const { clientId } = validatedParams;
+
+      logger.info('Setting client alias', { clientId });
+
+      const users = await fetchUsers(client);
+      const mac = await resolveClientMac(client, users, clientId);
+      const existing = findUserByMac(users, mac);
+      const changes = aliasChanges(existing, validatedParams);
+
+      if (Object.keys(changes).length === 0) {
+        return {
+          success: true,
+          data: {
+            client: describeAlias(existing, mac),
+            changed: false,
+            message: 'Client already has these values'
+          },
+          metadata: {
+            executionTime: 0,
+            timestamp: new Date()
+          }
+        };
+      }
+
+      const updatedUser = await saveUser(client, existing, mac, changes);
+
+      return {
+        success: true,
+        data: {
+          client: describeAlias(updatedUser, mac),
+          previous: describeAlias(existing, mac),
+          changed: true,
+          message: `Client ${updatedUser.name || updatedUser.hostname || mac} updated`
+        },
+        ...(!existing && {
+          warnings: [`${mac} has not been seen by the controller yet; its settings apply once it connects`]
+        }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to set client alias', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'CLIENT_ALIAS_SET_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Set Client Aliases Tool
+// ================================
+
+const setClientAliasesTool: MCPTool = {
+  name: 'unifi_set_client_aliases',
+  description: 'Name many clients at once from a CSV or JSON mapping of MAC address to alias, note and device type',
+  category: ToolCategory.CLIENTS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      mappings: {
+        type: ['string', 'array', 'object'],
+        description: 'CSV text with columns mac,name,note[,deviceId] (header optional), JSON text, an array of {mac, name, note, deviceId}, or an object mapping MAC to a name or to {name, note, deviceId}'
+      },
+      format: {
+        type: 'string',
+        enum: ['auto', 'csv', 'json'],
+        description: 'Format of text mappings; auto detects JSON by its leading bracket',
+        default: 'auto'
+      },
+      dryRun: {
+        type: 'boolean',
+        description: 'Report what would change without changing anything',
+        default: false
+      }
+    },
+    required: ['mappings'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const { entries, dryRun } = await ValidationService.validateSetClientAliasesParams({
+        entries: parseAliasMappings(params.mappings, params.format),
+        ...(params.dryRun !== undefined && { dryRun: params.dryRun })
+      });
+
+      logger.info('Setting client aliases', { entries: entries.length, dryRun });
+
+      const users = await fetchUsers(client);
+
+      const updated: Array<ReturnType<typeof describeAlias> & { changes: string[]; unknownClient?: boolean }> = [];
+      const unchanged: string[] = [];
+      const failed: Array<{ mac: string; error: string }> = [];
+
+      for (const entry of entries) {
+        const mac = normalizeMAC(entry.mac);
+        const existing = findUserByMac(users, mac);
+        const changes = aliasChanges(existing, entry);
+
+        if (Object.keys(changes).length === 0) {
+          unchanged.push(mac);
+          continue;
+        }
+
+        const result = {
+          ...describeAlias({ ...existing, ...changes, mac }, mac),
+          changes: Object.keys(changes),
+          ...(!existing && { unknownClient: true })
+        };
+
+        if (dryRun) {
+          updated.push(result);
+          continue;
+        }
+
+        try {
+          const saved = await saveUser(client, existing, mac, changes);
+          // Keep the snapshot current so later lookups never work from stale data
+          if (existing) {
+            users[users.indexOf(existing)] = saved;
+          } else {
+            users.push(saved);
+          }
+          updated.push(result);
+        } catch (error) {
+          logger.warn(`Could not update client ${mac}`, error as any);
+          failed.push({ mac, error: (error as Error).message });
+        }
+      }
+
+      const unknownClients = updated.filter(u => u.unknownClient).map(u => u.mac);
+      const warnings: string[] = [];
+      if (unknownClients.length > 0) {
+        warnings.push(`Not seen by the controller yet, settings apply once they connect: ${unknownClients.join(', ')}`);
+      }
+
+      return {
+        success: failed.length === 0,
+        data: {
+          dryRun,
+          updated,
+          unchanged,
+          failed,
+          summary: {
+            total: entries.length,
+            updated: updated.length,
+            unchanged: unchanged.length,
+            failed: failed.length
+          },
+          message: dryRun
+            ? `${updated.length} client(s) would be updated`
+            : `${updated.length} client(s) updated`
+        },
+        ...(failed.length > 0 && {
+          error: {
+            code: ErrorCode.CLIENT_UPDATE_FAILED,
+            message: `${failed.length} of ${entries.length} client(s) could not be updated`
+          }
+        }),
+        ...(warnings.length > 0 && { warnings }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to set client aliases', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'CLIENT_ALIASES_SET_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+export {
+  setClientAliasTool,
+  setClientAliasesTool
+};
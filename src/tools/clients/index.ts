@@ -6,6 +6,15 @@ import { ValidationService } from '../../utils/validators.js';
 import { createToolLogger } from '../../utils/logger.js';
 import { UniFiMCPError, ResourceNotFoundError } from '../../utils/errors.js';
 import { UNIFI_ENDPOINTS } from '../../config/constants.js';
+import { getFixedIPsTool, setFixedIPTool, clearFixedIPTool } from './reservations.js';
+import { setClientAliasTool, setClientAliasesTool } from './aliases.js';
+import {
+  getUserGroupsTool,
+  createUserGroupTool,
+  updateUserGroupTool,
+  deleteUserGroupTool,
+  assignUserGroupTool
+} from './userGroups.js';
 
 /**
  * Client Management Tools
@@ -617,7 +626,17 @@ export async function registerClientTools(
     getClientDetailsTool,
     blockClientTool,
     unblockClientTool,
-    reconnectClientTool
+    reconnectClientTool,
+    setClientAliasTool,
+    setClientAliasesTool,
+    getFixedIPsTool,
+    setFixedIPTool,
+    clearFixedIPTool,
+    getUserGroupsTool,
+    createUserGroupTool,
+    updateUserGroupTool,
+    deleteUserGroupTool,
+    assignUserGroupTool
   ].map(tool => ({
     ...tool,
     handler: async (params: any) => {
@@ -0,0 +1,373 @@
+import { MCPTool, ToolCategory, ToolResult } from '../../server/types.js';
+import { UniFiClient } from '../../unifi/client.js';
+import { DetailedNetwork } from '../../unifi/types.js';
+import { ValidationService, MACAddressSchema } from '../../utils/validators.js';
+import { createToolLogger } from '../../utils/logger.js';
+import {
+  UniFiMCPError,
+  ResourceNotFoundError,
+  ResourceConflictError,
+  ValidationError
+} from '../../utils/errors.js';
+import { parseCIDR, ipToNumber, cidrContainsIP, ipInRange, isIPv4 } from '../../utils/cidr.js';
+import { fetchNetworks } from '../networks/mapping.js';
+import { fetchUsers, findUserByMac, saveUser } from './users.js';
+
+/**
+ * DHCP Static Reservation Tools
+ *
+ * Tools for listing, setting and clearing fixed-IP reservations stored on
+ * client user objects (use_fixedip / fixed_ip / network_id).
+ */
+
+const logger = createToolLogger('reservation-tools');
+
+/**
+ * Describe a reservation against the network it belongs to
+ */
+function describeReservation(user: any, networks: DetailedNetwork[]) {
+  const network = networks.find(n => n.id === user.network_id) ??
+    networks.find(n => n.subnet && cidrContainsIP(n.subnet, user.fixed_ip));
+
+  return {
+    userId: user._id,
+    mac: user.mac,
+    name: user.name || user.hostname || 'Unknown Client',
+    ip: user.fixed_ip,
+    networkId: network?.id ?? user.network_id,
+    networkName: network?.name,
+    inDhcpRange: Boolean(
+      network?.dhcpEnabled && network.dhcpRange &&
+      ipInRange(user.fixed_ip, network.dhcpRange.start, network.dhcpRange.end)
+    )
+  };
+}
+
+// ================================
+// Get Fixed IPs Tool
+// ================================
+
+const getFixedIPsTool: MCPTool = {
+  name: 'unifi_get_fixed_ips',
+  description: 'List DHCP fixed-IP reservations on client user objects',
+  category: ToolCategory.CLIENTS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      networkId: {
+        type: 'string',
+        description: 'Filter by network ID'
+      },
+      clientId: {
+        type: 'string',
+        description: 'Filter by client MAC address'
+      }
+    },
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const { networkId, clientId } = params;
+
+      logger.info('Retrieving fixed-IP reservations', { networkId, clientId });
+
+      const [users, networks] = await Promise.all([fetchUsers(client), fetchNetworks(client)]);
+
+      // Malformed or non-IPv4 fixed IPs are skipped rather than failing the listing
+      const reserved = users.filter(user => user.use_fixedip && user.fixed_ip);
+      const skipped = reserved.filter(user => !isIPv4(user.fixed_ip));
+      let reservations = reserved
+        .filter(user => isIPv4(user.fixed_ip))
+        .map(user => describeReservation(user, networks));
+
+      if (networkId) {
+        reservations = reservations.filter(r => r.networkId === networkId);
+      }
+
+      if (clientId) {
+        const match = findUserByMac(users, clientId);
+        reservations = reservations.filter(r => r.userId === match?._id);
+      }
+
+      reservations.sort((a, b) => ipToNumber(a.ip) - ipToNumber(b.ip));
+
+      const summary = {
+        total: reservations.length,
+        insideDhcpRange: reservations.filter(r => r.inDhcpRange).length,
+        byNetwork: reservations.reduce((acc, r) => {
+          const key = r.networkName || r.networkId || 'unknown';
+          acc[key] = (acc[key] || 0) + 1;
+          return acc;
+        }, {} as Record<string, number>)
+      };
+
+      return {
+        success: true,
+        data: {
+          reservations,
+          summary
+        },
+        ...(skipped.length > 0 && {
+          warnings: skipped.map(user =>
+            `Skipped reservation '${user.fixed_ip}' of ${user.name || user.hostname || user.mac}: not an IPv4 address`
+          )
+        }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to retrieve fixed-IP reservations', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'FIXED_IP_FETCH_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Set Fixed IP Tool
+// ================================
+
+const setFixedIPTool: MCPTool = {
+  name: 'unifi_set_fixed_ip',
+  description: 'Reserve a fixed IP address for a client',
+  category: ToolCategory.CLIENTS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      clientId: {
+        type: 'string',
+        description: 'Client MAC address',
+        minLength: 1
+      },
+      ip: {
+        type: 'string',
+        description: 'IPv4 address to reserve'
+      },
+      networkId: {
+        type: 'string',
+        description: 'Network ID (defaults to the network whose subnet contains the IP)'
+      },
+      name: {
+        type: 'string',
+        description: 'Optional client alias to set at the same time',
+        maxLength: 128
+      }
+    },
+    required: ['clientId', 'ip'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const validatedParams = await ValidationService.validateSetFixedIPParams(params);
+      const { clientId, ip } = validatedParams;
+
+      logger.info('Setting fixed-IP reservation', { clientId, ip, networkId: validatedParams.networkId });
+
+      const [users, networks] = await Promise.all([fetchUsers(client), fetchNetworks(client)]);
+
+      // Resolve the target network
+      const network = validatedParams.networkId
+        ? networks.find(n => n.id === validatedParams.networkId)
+        : networks.find(n => n.subnet && cidrContainsIP(n.subnet, ip));
+
+      if (!network) {
+        if (validatedParams.networkId) {
+          throw new ResourceNotFoundError('Network', validatedParams.networkId);
+        }
+        throw new ValidationError(`No configured network contains ${ip}`, 'ip', ip);
+      }
+
+      if (!network.subnet || !cidrContainsIP(network.subnet, ip)) {
+        throw new ValidationError(
+          `${ip} is outside subnet ${network.subnet || 'unknown'} of network '${network.name}'`,
+          'ip',
+          ip
+        );
+      }
+
+      const block = parseCIDR(network.subnet);
+      const ipNum = ipToNumber(ip);
+      if (ipNum === block.start || ipNum === block.end || ip === network.gateway) {
+        throw new ValidationError(
+          `${ip} is the network, broadcast or gateway address of '${network.name}'`,
+          'ip',
+          ip
+        );
+      }
+
+      // Refuse addresses already reserved by another client
+      const existing = findUserByMac(users, clientId);
+      const holder = users.find(user =>
+        user.use_fixedip && user.fixed_ip === ip && user._id !== existing?._id
+      );
+      if (holder) {
+        throw new ResourceConflictError(
+          `${ip} is already reserved for ${holder.name || holder.hostname || holder.mac}`,
+          holder._id,
+          { mac: holder.mac }
+        );
+      }
+
+      const previous = existing?.use_fixedip ? existing.fixed_ip : null;
+      const updatedUser = await saveUser(client, existing, clientId, {
+        use_fixedip: true,
+        fixed_ip: ip,
+        network_id: network.id,
+        ...(validatedParams.name && { name: validatedParams.name })
+      });
+
+      const warnings: string[] = [];
+      if (network.dhcpEnabled && network.dhcpRange &&
+          ipInRange(ip, network.dhcpRange.start, network.dhcpRange.end)) {
+        warnings.push(
+          `${ip} is inside the dynamic DHCP range ${network.dhcpRange.start}-${network.dhcpRange.end} of '${network.name}'`
+        );
+      }
+      warnings.push('The client picks up the new address on its next DHCP renewal');
+
+      return {
+        success: true,
+        data: {
+          reservation: describeReservation(updatedUser, networks),
+          previousIp: previous,
+          message: `Reserved ${ip} for ${updatedUser.name || updatedUser.hostname || clientId}`
+        },
+        warnings,
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to set fixed-IP reservation', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'FIXED_IP_SET_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Clear Fixed IP Tool
+// ================================
+
+const clearFixedIPTool: MCPTool = {
+  name: 'unifi_clear_fixed_ip',
+  description: 'Remove the fixed-IP reservation from a client',
+  category: ToolCategory.CLIENTS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      clientId: {
+        type: 'string',
+        description: 'Client MAC address',
+        minLength: 1
+      }
+    },
+    required: ['clientId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const clientId = await ValidationService.validate(MACAddressSchema, params.clientId, 'clientId');
+
+      logger.info('Clearing fixed-IP reservation', { clientId });
+
+      const users = await fetchUsers(client);
+      const existing = findUserByMac(users, clientId);
+
+      if (!existing) {
+        throw new ResourceNotFoundError('Client', clientId);
+      }
+
+      if (!existing.use_fixedip) {
+        return {
+          success: true,
+          data: {
+            clientId,
+            clientName: existing.name || existing.hostname || 'Unknown Client',
+            message: 'Client has no fixed-IP reservation',
+            changed: false
+          },
+          metadata: {
+            executionTime: 0,
+            timestamp: new Date()
+          }
+        };
+      }
+
+      const updatedUser = await saveUser(client, existing, clientId, { use_fixedip: false });
+
+      return {
+        success: true,
+        data: {
+          clientId,
+          clientName: updatedUser.name || updatedUser.hostname || 'Unknown Client',
+          releasedIp: existing.fixed_ip,
+          changed: true,
+          message: `Fixed-IP reservation ${existing.fixed_ip} removed`
+        },
+        warnings: [
+          'The client keeps its current lease until the next DHCP renewal'
+        ],
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to clear fixed-IP reservation', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'FIXED_IP_CLEAR_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+export {
+  getFixedIPsTool,
+  setFixedIPTool,
+  clearFixedIPTool
+};
@@ -0,0 +1,786 @@
+import { MCPTool, ToolCategory, ToolResult, ErrorCode } from '../../server/types.js';
+import { UniFiClient } from '../../unifi/client.js';
+import { UserGroup, UserGroupAssignment } from '../../unifi/types.js';
+import { ValidationService, normalizeMAC } from '../../utils/validators.js';
+import { createToolLogger } from '../../utils/logger.js';
+import {
+  UniFiMCPError,
+  ResourceNotFoundError,
+  ResourceConflictError
+} from '../../utils/errors.js';
+import { UNIFI_ENDPOINTS } from '../../config/constants.js';
+import { fetchUsers, findUserByMac, saveUser } from './users.js';
+
+/**
+ * User Group Tools
+ *
+ * Tools for managing user groups (per-client bandwidth profiles backed by
+ * qos_rate_max_down / qos_rate_max_up) and assigning clients to them.
+ */
+
+const logger = createToolLogger('user-group-tools');
+
+/**
+ * A known client, merged from its user object and its live station entry
+ */
+export interface GroupCandidate {
+  mac: string;
+  name: string;
+  hostname?: string;
+  vendor?: string;
+  networkId?: string;
+  groupId?: string;
+  connected: boolean;
+}
+
+export interface ClientSelectors {
+  macs?: string[] | undefined;
+  hostnames?: string[] | undefined;
+  filter?: {
+    namePattern?: string | undefined;
+    networkId?: string | undefined;
+    currentGroupId?: string | undefined;
+    vendor?: string | undefined;
+    connectedOnly?: boolean | undefined;
+  } | undefined;
+}
+
+/**
+ * Convert a controller rate (-1 or missing means unlimited) to a limit
+ */
+function toLimit(rate: unknown): number | null {
+  const value = Number(rate);
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * Map a raw usergroup record to a UserGroup
+ */
+export function mapUserGroup(raw: any, clientCount = 0): UserGroup {
+  return {
+    id: raw._id,
+    name: raw.name,
+    downloadLimitKbps: toLimit(raw.qos_rate_max_down),
+    uploadLimitKbps: toLimit(raw.qos_rate_max_up),
+    isDefault: raw.attr_hidden_id === 'Default',
+    clientCount
+  };
+}
+
+/**
+ * Resolve the group a client effectively belongs to; clients without a
+ * usergroup_id fall back to the default group
+ */
+function effectiveGroupId(groupId: string | undefined, defaultGroupId: string | undefined): string | undefined {
+  return groupId || defaultGroupId;
+}
+
+/**
+ * Match a client name or hostname against a case-insensitive wildcard
+ * pattern supporting '*' and '?'
+ */
+export function matchesNamePattern(pattern: string, candidate: GroupCandidate): boolean {
+  const regex = new RegExp(
+    '^' + pattern
+      .split('')
+      .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+      .join('') + '$',
+    'i'
+  );
+
+  return regex.test(candidate.name) || (candidate.hostname !== undefined && regex.test(candidate.hostname));
+}
+
+/**
+ * Select clients by MAC address, hostname and/or filter. Identifiers that
+ * matched nothing are returned in notFound.
+ */
+export function selectClients(
+  candidates: GroupCandidate[],
+  selectors: ClientSelectors,
+  defaultGroupId?: string
+): { selected: GroupCandidate[]; notFound: string[]; ambiguous: Record<string, string[]> } {
+  const selected = new Map<string, GroupCandidate>();
+  const notFound: string[] = [];
+  const ambiguous: Record<string, string[]> = {};
+
+  for (const mac of selectors.macs ?? []) {
+    const target = normalizeMAC(mac);
+    const match = candidates.find(c => c.mac === target);
+    if (match) {
+      selected.set(match.mac, match);
+    } else {
+      notFound.push(mac);
+    }
+  }
+
+  for (const hostname of selectors.hostnames ?? []) {
+    const target = hostname.toLowerCase();
+    const matches = candidates.filter(c =>
+      c.name.toLowerCase() === target || c.hostname?.toLowerCase() === target
+    );
+    if (matches.length === 0) {
+      notFound.push(hostname);
+    }
+    if (matches.length > 1) {
+      ambiguous[hostname] = matches.map(c => c.mac);
+    }
+    matches.forEach(c => selected.set(c.mac, c));
+  }
+
+  const filter = selectors.filter;
+  if (filter) {
+    candidates
+      .filter(c => !filter.namePattern || matchesNamePattern(filter.namePattern, c))
+      .filter(c => !filter.networkId || c.networkId === filter.networkId)
+      .filter(c => !filter.currentGroupId ||
+        effectiveGroupId(c.groupId, defaultGroupId) === filter.currentGroupId)
+      .filter(c => !filter.vendor || (c.vendor ?? '').toLowerCase().includes(filter.vendor.toLowerCase()))
+      .filter(c => !filter.connectedOnly || c.connected)
+      .forEach(c => selected.set(c.mac, c));
+  }
+
+  return { selected: Array.from(selected.values()), notFound, ambiguous };
+}
+
+/**
+ * Fetch the raw usergroup records
+ */
+export async function fetchRawUserGroups(client: UniFiClient): Promise<any[]> {
+  const response = await client.get(UNIFI_ENDPOINTS.USER_GROUPS);
+
+  if (!response.data || !Array.isArray(response.data)) {
+    throw new UniFiMCPError('Invalid user group data received', ErrorCode.INVALID_DATA);
+  }
+
+  return response.data;
+}
+
+/**
+ * Find a raw usergroup record by ID or throw
+ */
+function findRawUserGroup(rawGroups: any[], groupId: string): any {
+  const raw = rawGroups.find(group => group._id === groupId);
+  if (!raw) {
+    throw new ResourceNotFoundError('User group', groupId);
+  }
+  return raw;
+}
+
+/**
+ * Count clients per group, counting unassigned clients against the default group
+ */
+function countClientsByGroup(users: any[], defaultGroupId: string | undefined): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const user of users) {
+    const groupId = effectiveGroupId(user.usergroup_id, defaultGroupId);
+    if (groupId) {
+      counts.set(groupId, (counts.get(groupId) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Build the list of known clients from user objects and live stations
+ */
+export async function fetchCandidates(client: UniFiClient): Promise<{ users: any[]; candidates: GroupCandidate[] }> {
+  const [users, stations] = await Promise.all([
+    fetchUsers(client),
+    client.get(UNIFI_ENDPOINTS.CLIENTS)
+  ]);
+
+  const candidates = new Map<string, GroupCandidate>();
+  for (const user of users) {
+    if (typeof user.mac !== 'string') continue;
+    const mac = normalizeMAC(user.mac);
+    candidates.set(mac, {
+      mac,
+      name: user.name || user.hostname || mac,
+      ...(user.hostname && { hostname: user.hostname }),
+      ...(user.oui && { vendor: user.oui }),
+      ...(user.usergroup_id && { groupId: user.usergroup_id }),
+      connected: false
+    });
+  }
+
+  for (const station of (Array.isArray(stations.data) ? stations.data : []) as any[]) {
+    if (typeof station.mac !== 'string') continue;
+    const mac = normalizeMAC(station.mac);
+    const known = candidates.get(mac);
+    candidates.set(mac, {
+      mac,
+      name: known?.name ?? (station.name || station.hostname || mac),
+      ...((station.hostname || known?.hostname) && { hostname: station.hostname || known?.hostname }),
+      ...((station.oui || known?.vendor) && { vendor: station.oui || known?.vendor }),
+      ...(station.network_id && { networkId: station.network_id }),
+      ...((known?.groupId || station.usergroup_id) && { groupId: known?.groupId || station.usergroup_id }),
+      connected: true
+    });
+  }
+
+  return { users, candidates: Array.from(candidates.values()) };
+}
+
+/**
+ * Refuse a group name that is already used by another group
+ */
+function assertUniqueGroupName(rawGroups: any[], name: string, excludeId?: string): void {
+  const conflict = rawGroups.find(group =>
+    group._id !== excludeId && String(group.name).toLowerCase() === name.toLowerCase()
+  );
+  if (conflict) {
+    throw new ResourceConflictError(`A user group named '${name}' already exists`, conflict._id);
+  }
+}
+
+// ================================
+// Get User Groups Tool
+// ================================
+
+const getUserGroupsTool: MCPTool = {
+  name: 'unifi_get_user_groups',
+  description: 'List user groups (bandwidth profiles) with their rate limits and client counts',
+  category: ToolCategory.CLIENTS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      includeClients: {
+        type: 'boolean',
+        description: 'Include the clients assigned to each group',
+        default: false
+      }
+    },
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const { includeClients = false } = params;
+
+      logger.info('Retrieving user groups', { includeClients });
+
+      const [rawGroups, users] = await Promise.all([fetchRawUserGroups(client), fetchUsers(client)]);
+      const defaultGroupId = rawGroups.find(group => group.attr_hidden_id === 'Default')?._id;
+      const counts = countClientsByGroup(users, defaultGroupId);
+
+      const groups = rawGroups.map(raw => {
+        const group = mapUserGroup(raw, counts.get(raw._id) ?? 0);
+        if (!includeClients) return group;
+
+        return {
+          ...group,
+          clients: users
+            .filter(user => effectiveGroupId(user.usergroup_id, defaultGroupId) === raw._id)
+            .map(user => ({ mac: user.mac, name: user.name || user.hostname || 'Unknown Client' }))
+        };
+      });
+
+      return {
+        success: true,
+        data: {
+          groups,
+          summary: {
+            total: groups.length,
+            limited: groups.filter(g => g.downloadLimitKbps !== null || g.uploadLimitKbps !== null).length,
+            knownClients: users.length
+          }
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to retrieve user groups', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'USER_GROUP_FETCH_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Create User Group Tool
+// ================================
+
+const createUserGroupTool: MCPTool = {
+  name: 'unifi_create_user_group',
+  description: 'Create a user group (bandwidth profile) with optional download/upload limits',
+  category: ToolCategory.CLIENTS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Group name',
+        minLength: 1,
+        maxLength: 64
+      },
+      downloadLimitKbps: {
+        type: 'number',
+        description: 'Download limit in Kbps (-1 for unlimited)',
+        default: -1
+      },
+      uploadLimitKbps: {
+        type: 'number',
+        description: 'Upload limit in Kbps (-1 for unlimited)',
+        default: -1
+      }
+    },
+    required: ['name'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const validatedParams = await ValidationService.validateCreateUserGroupParams(params);
+
+      logger.info('Creating user group', validatedParams);
+
+      assertUniqueGroupName(await fetchRawUserGroups(client), validatedParams.name);
+
+      const response = await client.post(UNIFI_ENDPOINTS.USER_GROUPS, {
+        name: validatedParams.name,
+        qos_rate_max_down: validatedParams.downloadLimitKbps,
+        qos_rate_max_up: validatedParams.uploadLimitKbps
+      });
+
+      if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+        throw new UniFiMCPError('Failed to create user group', ErrorCode.USER_GROUP_CREATION_FAILED);
+      }
+
+      const group = mapUserGroup(response.data[0]);
+
+      return {
+        success: true,
+        data: {
+          group,
+          message: `User group '${group.name}' created successfully`
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to create user group', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'USER_GROUP_CREATE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Update User Group Tool
+// ================================
+
+const updateUserGroupTool: MCPTool = {
+  name: 'unifi_update_user_group',
+  description: 'Rename a user group or change its download/upload limits',
+  category: ToolCategory.CLIENTS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      groupId: {
+        type: 'string',
+        description: 'User group ID to update',
+        minLength: 1
+      },
+      name: {
+        type: 'string',
+        description: 'New group name',
+        minLength: 1,
+        maxLength: 64
+      },
+      downloadLimitKbps: {
+        type: 'number',
+        description: 'Download limit in Kbps (-1 for unlimited)'
+      },
+      uploadLimitKbps: {
+        type: 'number',
+        description: 'Upload limit in Kbps (-1 for unlimited)'
+      }
+    },
+    required: ['groupId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const validatedParams = await ValidationService.validateUpdateUserGroupParams(params);
+      const { groupId } = validatedParams;
+
+      logger.info('Updating user group', validatedParams);
+
+      const rawGroups = await fetchRawUserGroups(client);
+      const existing = findRawUserGroup(rawGroups, groupId);
+
+      if (validatedParams.name !== undefined) {
+        assertUniqueGroupName(rawGroups, validatedParams.name, groupId);
+      }
+
+      const response = await client.put(UNIFI_ENDPOINTS.USER_GROUP_DETAILS.replace('{id}', groupId), {
+        ...existing,
+        ...(validatedParams.name !== undefined && { name: validatedParams.name }),
+        ...(validatedParams.downloadLimitKbps !== undefined && { qos_rate_max_down: validatedParams.downloadLimitKbps }),
+        ...(validatedParams.uploadLimitKbps !== undefined && { qos_rate_max_up: validatedParams.uploadLimitKbps })
+      });
+
+      if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+        throw new UniFiMCPError('Failed to update user group', ErrorCode.USER_GROUP_UPDATE_FAILED);
+      }
+
+      const before = mapUserGroup(existing);
+      const group = mapUserGroup(response.data[0]);
+
+      return {
+        success: true,
+        data: {
+          group,
+          previous: {
+            name: before.name,
+            downloadLimitKbps: before.downloadLimitKbps,
+            uploadLimitKbps: before.uploadLimitKbps
+          },
+          message: `User group '${group.name}' updated successfully`
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to update user group', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'USER_GROUP_UPDATE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Delete User Group Tool
+// ================================
+
+const deleteUserGroupTool: MCPTool = {
+  name: 'unifi_delete_user_group',
+  description: 'Delete a user group that has no clients or SSIDs assigned to it',
+  category: ToolCategory.CLIENTS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      groupId: {
+        type: 'string',
+        description: 'User group ID to delete',
+        minLength: 1
+      }
+    },
+    required: ['groupId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const { groupId } = params;
+
+      logger.info('Deleting user group', { groupId });
+
+      const [rawGroups, users, wlans] = await Promise.all([
+        fetchRawUserGroups(client),
+        fetchUsers(client),
+        client.get(UNIFI_ENDPOINTS.WLAN_CONF)
+      ]);
+      const group = mapUserGroup(findRawUserGroup(rawGroups, groupId));
+
+      if (group.isDefault) {
+        throw new ResourceConflictError('The default user group cannot be deleted', groupId);
+      }
+
+      const assignedClients = users.filter(user => user.usergroup_id === groupId);
+      const assignedWlans = ((wlans.data || []) as any[]).filter(wlan => wlan.usergroup_id === groupId);
+
+      if (assignedClients.length > 0 || assignedWlans.length > 0) {
+        throw new ResourceConflictError(
+          `User group '${group.name}' is still assigned to ${assignedClients.length} client(s) and ${assignedWlans.length} SSID(s)`,
+          groupId,
+          {
+            clients: assignedClients.map(user => user.mac),
+            wlans: assignedWlans.map(wlan => wlan.name)
+          }
+        );
+      }
+
+      const response = await client.delete(UNIFI_ENDPOINTS.USER_GROUP_DETAILS.replace('{id}', groupId));
+
+      if (response.meta.rc !== 'ok') {
+        throw new UniFiMCPError(`Failed to delete user group: ${response.meta.msg}`, ErrorCode.USER_GROUP_DELETION_FAILED);
+      }
+
+      return {
+        success: true,
+        data: {
+          deletedGroup: {
+            id: group.id,
+            name: group.name
+          },
+          message: `User group '${group.name}' deleted successfully`
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete user group', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'USER_GROUP_DELETE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Assign User Group Tool
+// ================================
+
+const assignUserGroupTool: MCPTool = {
+  name: 'unifi_assign_user_group',
+  description: 'Move one or many clients (by MAC address, hostname or filter) into a user group and report which clients moved',
+  category: ToolCategory.CLIENTS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      groupId: {
+        type: 'string',
+        description: 'Target user group ID',
+        minLength: 1
+      },
+      macs: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Client MAC addresses',
+        maxItems: 500
+      },
+      hostnames: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Client aliases or hostnames (case-insensitive exact match)',
+        maxItems: 500
+      },
+      filter: {
+        type: 'object',
+        description: 'Select every known client matching all given criteria',
+        properties: {
+          namePattern: {
+            type: 'string',
+            description: "Wildcard pattern on alias or hostname, e.g. 'chromecast*'"
+          },
+          networkId: {
+            type: 'string',
+            description: 'Only clients currently connected to this network'
+          },
+          currentGroupId: {
+            type: 'string',
+            description: 'Only clients currently in this user group'
+          },
+          vendor: {
+            type: 'string',
+            description: 'Substring of the OUI vendor name'
+          },
+          connectedOnly: {
+            type: 'boolean',
+            description: 'Only clients that are currently connected'
+          }
+        },
+        additionalProperties: false
+      },
+      dryRun: {
+        type: 'boolean',
+        description: 'Report which clients would move without changing anything',
+        default: false
+      }
+    },
+    required: ['groupId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const validatedParams = await ValidationService.validateAssignUserGroupParams(params);
+      const { groupId, dryRun } = validatedParams;
+
+      logger.info('Assigning clients to user group', {
+        groupId,
+        macs: validatedParams.macs?.length ?? 0,
+        hostnames: validatedParams.hostnames?.length ?? 0,
+        filter: validatedParams.filter,
+        dryRun
+      });
+
+      const [rawGroups, { users, candidates }] = await Promise.all([
+        fetchRawUserGroups(client),
+        fetchCandidates(client)
+      ]);
+      const target = mapUserGroup(findRawUserGroup(rawGroups, groupId));
+      const groupNames = new Map(rawGroups.map(group => [group._id, group.name as string]));
+      const defaultGroupId = rawGroups.find(group => group.attr_hidden_id === 'Default')?._id;
+
+      const { selected, notFound, ambiguous } = selectClients(candidates, validatedParams, defaultGroupId);
+
+      const moved: UserGroupAssignment[] = [];
+      const alreadyInGroup: UserGroupAssignment[] = [];
+      const failed: Array<UserGroupAssignment & { error: string }> = [];
+
+      for (const candidate of selected) {
+        const fromGroupId = effectiveGroupId(candidate.groupId, defaultGroupId);
+        const assignment: UserGroupAssignment = {
+          mac: candidate.mac,
+          name: candidate.name,
+          ...(fromGroupId && { fromGroupId }),
+          ...(fromGroupId && groupNames.has(fromGroupId) && { fromGroupName: groupNames.get(fromGroupId)! })
+        };
+
+        if (fromGroupId === groupId) {
+          alreadyInGroup.push(assignment);
+          continue;
+        }
+
+        if (dryRun) {
+          moved.push(assignment);
+          continue;
+        }
+
+        try {
+          await saveUser(client, findUserByMac(users, candidate.mac), candidate.mac, { usergroup_id: groupId });
+          moved.push(assignment);
+        } catch (error) {
+          logger.warn(`Could not move client ${candidate.mac} to user group ${groupId}`, error as any);
+          failed.push({ ...assignment, error: (error as Error).message });
+        }
+      }
+
+      const warnings: string[] = [];
+      if (notFound.length > 0) {
+        warnings.push(`No known client matched: ${notFound.join(', ')}`);
+      }
+      for (const [hostname, macs] of Object.entries(ambiguous)) {
+        warnings.push(`Hostname '${hostname}' matched ${macs.length} clients; all of them were selected`);
+      }
+      if (selected.length === 0) {
+        warnings.push('No clients were selected');
+      }
+
+      return {
+        success: failed.length === 0,
+        data: {
+          group: {
+            id: target.id,
+            name: target.name,
+            downloadLimitKbps: target.downloadLimitKbps,
+            uploadLimitKbps: target.uploadLimitKbps
+          },
+          dryRun,
+          moved,
+          alreadyInGroup,
+          failed,
+          notFound,
+          summary: {
+            selected: selected.length,
+            moved: moved.length,
+            alreadyInGroup: alreadyInGroup.length,
+            failed: failed.length
+          },
+          message: dryRun
+            ? `${moved.length} client(s) would move to '${target.name}'`
+            : `${moved.length} client(s) moved to '${target.name}'`
+        },
+        ...(failed.length > 0 && {
+          error: {
+            code: ErrorCode.CLIENT_UPDATE_FAILED,
+            message: `${failed.length} of ${selected.length} client(s) could not be moved`
+          }
+        }),
+        ...(warnings.length > 0 && { warnings }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to assign clients to user group', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'USER_GROUP_ASSIGN_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+export {
+  getUserGroupsTool,
+  createUserGroupTool,
+  updateUserGroupTool,
+  deleteUserGroupTool,
+  assignUserGroupTool
+};
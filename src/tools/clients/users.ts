@@ -0,0 +1,55 @@
+import { ErrorCode } from '../../server/types.js';
+import { UniFiClient } from '../../unifi/client.js';
+import { UniFiMCPError } from '../../utils/errors.js';
+import { normalizeMAC } from '../../utils/validators.js';
+import { UNIFI_ENDPOINTS } from '../../config/constants.js';
+
+/**
+ * Client User Object Helpers
+ *
+ * The controller stores per-client configuration (alias, note, fixed IP,
+ * user group) on rest/user objects keyed by MAC address. These helpers
+ * load and update those objects for the client tools.
+ */
+
+/**
+ * Fetch every known client user object
+ */
+export async function fetchUsers(client: UniFiClient): Promise<any[]> {
+  const response = await client.get(UNIFI_ENDPOINTS.USERS);
+
+  if (!response.data || !Array.isArray(response.data)) {
+    throw new UniFiMCPError('Invalid client user data received', ErrorCode.INVALID_DATA);
+  }
+
+  return response.data;
+}
+
+/**
+ * Find a user object by MAC address within an already loaded list
+ */
+export function findUserByMac(users: any[], mac: string): any | undefined {
+  const target = normalizeMAC(mac);
+  return users.find(user => typeof user.mac === 'string' && normalizeMAC(user.mac) === target);
+}
+
+/**
+ * Apply changes to a client's user object, creating it when the
+ * controller has not stored one for this MAC yet
+ */
+export async function saveUser(
+  client: UniFiClient,
+  existing: any | undefined,
+  mac: string,
+  changes: Record<string, any>
+): Promise<any> {
+  const response = existing
+    ? await client.put(UNIFI_ENDPOINTS.USER_DETAILS.replace('{id}', existing._id), { ...existing, ...changes })
+    : await client.post(UNIFI_ENDPOINTS.USERS, { mac: normalizeMAC(mac), ...changes });
+
+  if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+    throw new UniFiMCPError(`Failed to update client ${mac}`, ErrorCode.CLIENT_UPDATE_FAILED);
+  }
+
+  return response.data[0];
+}
@@ -0,0 +1,64 @@
+import { ToolRegistry } from '../../server/toolRegistry.js';
+import { UniFiClient } from '../../unifi/client.js';
+import { VersionDetector } from '../../unifi/versionDetector.js';
+import { createToolLogger } from '../../utils/logger.js';
+import { checkReachabilityTool } from './reachability.js';
+import { analyzeFirewallRulesTool } from './ruleAnalysis.js';
+import { planFirewallDocumentTool, applyFirewallDocumentTool } from './document.js';
+import { exportFirewallRulesetTool } from './rulesetExport.js';
+import { getFirewallExpirationsTool, cancelFirewallExpirationTool } from './expiry.js';
+import { getFirewallTemplatesTool, applyFirewallTemplateTool } from './templates.js';
+import { withLockoutGuard } from './guard.js';
+
+/**
+ * Firewall Analysis Tools
+ *
+ * Tools that work on both the legacy firewall and Zone-Based Firewall,
+ * picking the model the controller actually uses: simulation, rule
+ * analysis, export, firewall-as-code documents, templates and expiring
+ * changes.
+ */
+
+const logger = createToolLogger('firewall-analysis-tools');
+
+// ================================
+// Tool Registration Function
+// ================================
+
+export async function registerFirewallAnalysisTools(
+  registry: ToolRegistry,
+  client: UniFiClient,
+  versionDetector: VersionDetector
+): Promise<void> {
+  // Add the anti-lockout guard option, then client and version detector for access
+  const enhancedTools = [
+    checkReachabilityTool,
+    analyzeFirewallRulesTool,
+    planFirewallDocumentTool,
+    applyFirewallDocumentTool,
+    getFirewallTemplatesTool,
+    applyFirewallTemplateTool,
+    exportFirewallRulesetTool,
+    getFirewallExpirationsTool,
+    cancelFirewallExpirationTool
+  ].map(withLockoutGuard).map(tool => ({
+    ...tool,
+    handler: async (params: any) => {
+      // Inject dependencies
+      const enhancedParams = {
+        ...params,
+        _client: client,
+        _versionDetector: versionDetector
+      };
+      return tool.handler(enhancedParams);
+    }
+  }));
+
+  // Register all tools
+  registry.registerBatch(enhancedTools);
+
+  logger.info('Firewall analysis tools registered successfully', {
+    count: enhancedTools.length,
+    tools: enhancedTools.map(t => t.name)
+  });
+}
@@ -0,0 +1,815 @@
+import { MCPTool, ToolCategory, ToolResult, ErrorCode } from '../../server/types.js';
+import { UniFiClient } from '../../unifi/client.js';
+import { VersionDetector } from '../../unifi/versionDetector.js';
+import { DetailedNetwork, DpiCatalogEntry, SimpleAppBlock, ZonePolicySchedule } from '../../unifi/types.js';
+import { ValidationService } from '../../utils/validators.js';
+import { createToolLogger } from '../../utils/logger.js';
+import { UniFiMCPError, ResourceNotFoundError, ValidationError } from '../../utils/errors.js';
+import { UNIFI_ENDPOINTS, APP_CATEGORIES } from '../../config/constants.js';
+import { fetchNetworks } from '../networks/mapping.js';
+import { fetchCandidates, fetchRawUserGroups, selectClients } from '../clients/userGroups.js';
+import { scheduleFromRaw, scheduleToRaw } from './mapping.js';
+
+/**
+ * Simple App Block Tools
+ *
+ * Tools for blocking DPI applications and categories for selected clients,
+ * networks or client groups, optionally on a schedule. Apps and categories
+ * are given by name and resolved against the controller's DPI catalog.
+ */
+
+const logger = createToolLogger('app-block-tools');
+
+const TARGET_TYPES: Record<string, SimpleAppBlock['targetType']> = {
+  CLIENT: 'clients',
+  NETWORK: 'networks',
+  USER_GROUP: 'groups'
+};
+
+const MAC_PATTERN = /^([0-9A-Fa-f]{2}[:-]){5}([0-9A-Fa-f]{2})$/;
+
+// Shorter queries only resolve on an exact name match
+const MIN_AUTO_MATCH_LENGTH = 3;
+
+export interface CatalogMatch {
+  match?: DpiCatalogEntry;
+  candidates: DpiCatalogEntry[];
+}
+
+/**
+ * Convert a raw simpleappblock record into a SimpleAppBlock
+ */
+export function mapSimpleAppBlock(raw: any): SimpleAppBlock {
+  const schedule = scheduleFromRaw(raw.schedule);
+  const list = (value: unknown): any[] => Array.isArray(value) ? value : [];
+
+  return {
+    id: raw._id,
+    name: raw.name || '',
+    enabled: raw.enabled !== false,
+    targetType: TARGET_TYPES[raw.target_type] ?? 'clients',
+    clientMacs: list(raw.client_macs),
+    networkIds: list(raw.network_ids),
+    groupIds: list(raw.usergroup_ids),
+    appIds: list(raw.app_ids).map(Number),
+    categoryIds: list(raw.app_category_ids).map(Number),
+    ...(schedule && { schedule })
+  };
+}
+
+/**
+ * Convert a SimpleAppBlock into the raw simpleappblock payload
+ */
+export function toRawSimpleAppBlock(block: Omit<SimpleAppBlock, 'id'>): Record<string, any> {
+  const targetType = Object.entries(TARGET_TYPES).find(([, type]) => type === block.targetType)?.[0];
+
+  return {
+    name: block.name,
+    enabled: block.enabled,
+    target_type: targetType,
+    client_macs: block.targetType === 'clients' ? block.clientMacs : [],
+    network_ids: block.targetType === 'networks' ? block.networkIds : [],
+    usergroup_ids: block.targetType === 'groups' ? block.groupIds : [],
+    app_ids: block.appIds,
+    app_category_ids: block.categoryIds,
+    schedule: scheduleToRaw(block.schedule)
+  };
+}
+
+/**
+ * Normalize a name for fuzzy comparison: lowercase alphanumerics only
+ */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Score how well a catalog name matches a query, from 0 (no match) to 1
+ * (exact match). Prefix and substring matches rank above typo matches.
+ */
+export function scoreCatalogName(query: string, name: string): number {
+  const q = normalizeName(query);
+  const n = normalizeName(name);
+  if (!q || !n) return 0;
+  if (q === n) return 1;
+  if (n.startsWith(q)) return 0.8 + 0.1 * (q.length / n.length);
+  if (n.includes(q)) return 0.6 + 0.1 * (q.length / n.length);
+
+  const similarity = 1 - editDistance(q, n) / Math.max(q.length, n.length);
+  return similarity >= 0.7 ? similarity * 0.75 : 0;
+}
+
+/**
+ * Resolve a query to a catalog entry by ID or fuzzy name. The best match
+ * wins unless another entry scores the same or the query is too short to
+ * pick an app by prefix or substring, in which case the query is
+ * ambiguous and only candidates are returned.
+ */
+export function matchCatalogEntry(query: string, entries: DpiCatalogEntry[], maxCandidates = 5): CatalogMatch {
+  if (/^\d+$/.test(query.trim())) {
+    const byId = entries.find(entry => entry.id === Number(query));
+    return byId ? { match: byId, candidates: [byId] } : { candidates: [] };
+  }
+
+  const scored = entries
+    .map(entry => ({ entry, score: scoreCatalogName(query, entry.name) }))
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score || a.entry.name.length - b.entry.name.length);
+  const candidates = scored.slice(0, maxCandidates).map(result => result.entry);
+
+  if (scored.length === 0) {
+    return { candidates };
+  }
+  if (scored[0].score === 1) {
+    return { match: scored[0].entry, candidates };
+  }
+  if (normalizeName(query).length >= MIN_AUTO_MATCH_LENGTH &&
+      (scored.length === 1 || scored[1].score < scored[0].score)) {
+    return { match: scored[0].entry, candidates };
+  }
+  return { candidates };
+}
+
+/**
+ * Map a raw DPI catalog entry, skipping entries without a numeric ID
+ */
+function mapCatalogEntry(raw: any): DpiCatalogEntry | undefined {
+  const id = Number(raw.id ?? raw.app_id ?? raw._id);
+  if (!Number.isFinite(id) || typeof raw.name !== 'string') return undefined;
+
+  const categoryId = raw.category_id ?? raw.cat;
+  return {
+    id,
+    name: raw.name,
+    ...(categoryId !== undefined && { categoryId: Number(categoryId) })
+  };
+}
+
+/**
+ * Fetch the controller's DPI app and category catalog
+ */
+async function fetchDpiCatalog(client: UniFiClient): Promise<{ apps: DpiCatalogEntry[]; categories: DpiCatalogEntry[] }> {
+  const [apps, categories] = await Promise.all([
+    client.get(UNIFI_ENDPOINTS.DPI_APPS),
+    client.get(UNIFI_ENDPOINTS.DPI_CATEGORIES)
+  ]);
+
+  if (!Array.isArray(apps.data) || !Array.isArray(categories.data)) {
+    throw new UniFiMCPError('Invalid DPI catalog data received', ErrorCode.INVALID_DATA);
+  }
+
+  const entries = (data: any[]) => data.map(mapCatalogEntry).filter((entry): entry is DpiCatalogEntry => !!entry);
+  return { apps: entries(apps.data), categories: entries(categories.data) };
+}
+
+/**
+ * Resolve app or category names against the catalog, throwing with
+ * suggestions for names that are unknown or ambiguous
+ */
+function resolveCatalogNames(names: string[], entries: DpiCatalogEntry[], kind: 'app' | 'category'): DpiCatalogEntry[] {
+  return names.map(name => {
+    // Accept APP_CATEGORIES keys such as SOCIAL_MEDIA for categories
+    const alias = kind === 'category'
+      ? (APP_CATEGORIES as Record<string, string>)[name.toUpperCase().replace(/[\s-]+/g, '_')]
+      : undefined;
+    const result = matchCatalogEntry(alias ?? name, entries);
+
+    if (!result.match) {
+      const suggestions = result.candidates.map(entry => entry.name);
+      throw new UniFiMCPError(
+        suggestions.length > 0
+          ? `${kind === 'app' ? 'App' : 'Category'} '${name}' is ambiguous; did you mean: ${suggestions.join(', ')}?`
+          : `No DPI ${kind} matches '${name}'`,
+        ErrorCode.APP_NOT_FOUND,
+        404,
+        { query: name, suggestions }
+      );
+    }
+    return result.match;
+  });
+}
+
+/**
+ * Find a network by ID or name
+ */
+function findNetwork(networks: DetailedNetwork[], ref: string): DetailedNetwork {
+  const network = networks.find(n => n.id === ref) ??
+    networks.find(n => n.name.toLowerCase() === ref.toLowerCase());
+  if (!network) {
+    throw new ResourceNotFoundError('Network', ref);
+  }
+  return network;
+}
+
+/**
+ * Resolve the target of an app block: client MACs or names, network IDs
+ * or names, or user group IDs or names
+ */
+async function resolveTargets(
+  client: UniFiClient,
+  targets: { clients?: string[] | undefined; networks?: string[] | undefined; groups?: string[] | undefined }
+): Promise<Pick<SimpleAppBlock, 'targetType' | 'clientMacs' | 'networkIds' | 'groupIds'>> {
+  if (targets.clients?.length) {
+    const { candidates } = await fetchCandidates(client);
+    const { selected, notFound, ambiguous } = selectClients(candidates, {
+      macs: targets.clients.filter(ref => MAC_PATTERN.test(ref)),
+      hostnames: targets.clients.filter(ref => !MAC_PATTERN.test(ref))
+    });
+
+    if (notFound.length > 0) {
+      throw new ValidationError(`Unknown clients: ${notFound.join(', ')}`, 'clients', notFound);
+    }
+    if (Object.keys(ambiguous).length > 0) {
+      throw new ValidationError(
+        `Client names match several devices; use MAC addresses instead: ${Object.keys(ambiguous).join(', ')}`,
+        'clients',
+        ambiguous
+      );
+    }
+    return { targetType: 'clients', clientMacs: selected.map(c => c.mac), networkIds: [], groupIds: [] };
+  }
+
+  if (targets.networks?.length) {
+    const networks = await fetchNetworks(client);
+    const networkIds = targets.networks.map(ref => findNetwork(networks, ref).id);
+    return { targetType: 'networks', clientMacs: [], networkIds: Array.from(new Set(networkIds)), groupIds: [] };
+  }
+
+  const rawGroups = await fetchRawUserGroups(client);
+  const groupIds = (targets.groups ?? []).map(ref => {
+    const group = rawGroups.find(g => g._id === ref) ??
+      rawGroups.find(g => String(g.name).toLowerCase() === ref.toLowerCase());
+    if (!group) {
+      throw new ResourceNotFoundError('User group', ref);
+    }
+    return group._id as string;
+  });
+  return { targetType: 'groups', clientMacs: [], networkIds: [], groupIds: Array.from(new Set(groupIds)) };
+}
+
+/**
+ * Convert tool schedule input into the stored schedule; all seven days
+ * (or none given) means every day
+ */
+function toSchedule(schedule: { days?: string[] | undefined; startTime: string; endTime: string }): ZonePolicySchedule {
+  return {
+    mode: schedule.days && schedule.days.length < 7 ? 'weekly' : 'daily',
+    ...(schedule.days && schedule.days.length < 7 && { days: schedule.days }),
+    startTime: schedule.startTime,
+    endTime: schedule.endTime
+  };
+}
+
+/**
+ * Describe a block with catalog and target names for display
+ */
+function describeBlock(
+  block: SimpleAppBlock,
+  catalog: { apps: DpiCatalogEntry[]; categories: DpiCatalogEntry[] } | undefined
+): Record<string, any> {
+  const nameOf = (entries: DpiCatalogEntry[] | undefined, id: number) =>
+    entries?.find(entry => entry.id === id)?.name ?? String(id);
+
+  return {
+    ...block,
+    apps: block.appIds.map(id => nameOf(catalog?.apps, id)),
+    categories: block.categoryIds.map(id => nameOf(catalog?.categories, id))
+  };
+}
+
+/**
+ * Fetch the raw simpleappblock records
+ */
+async function fetchRawAppBlocks(client: UniFiClient): Promise<any[]> {
+  const response = await client.get(UNIFI_ENDPOINTS.SIMPLE_APP_BLOCK);
+
+  if (!response.data || !Array.isArray(response.data)) {
+    throw new UniFiMCPError('Invalid app block data received', ErrorCode.INVALID_DATA);
+  }
+
+  return response.data;
+}
+
+/**
+ * Find a raw simpleappblock record by ID or throw
+ */
+function findRawAppBlock(rawBlocks: any[], blockId: string): any {
+  const raw = rawBlocks.find(block => block._id === blockId);
+  if (!raw) {
+    throw new ResourceNotFoundError('App block', blockId);
+  }
+  return raw;
+}
+
+const scheduleInputSchema = {
+  type: 'object',
+  description: 'Only block during this window, e.g. 21:00-07:00; windows may cross midnight',
+  properties: {
+    days: {
+      type: 'array',
+      items: {
+        type: 'string',
+        enum: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']
+      },
+      description: 'Days the block applies (default: every day)'
+    },
+    startTime: { type: 'string', description: 'Start time (HH:mm)' },
+    endTime: { type: 'string', description: 'End time (HH:mm)' }
+  },
+  required: ['startTime', 'endTime'],
+  additionalProperties: false
+};
+
+const blockInputProperties = {
+  name: {
+    type: 'string',
+    description: 'Block name (generated from the apps and targets if omitted)'
+  },
+  apps: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'App names or IDs, fuzzy-matched against the DPI catalog (e.g. "TikTok")'
+  },
+  categories: {
+    type: 'array',
+    items: { type: 'string' },
+    description: `Category names or IDs, e.g. ${Object.values(APP_CATEGORIES).slice(0, 4).join(', ')}`
+  },
+  clients: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Target clients by MAC address, name or hostname'
+  },
+  networks: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Target networks by ID or name'
+  },
+  groups: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Target client (user) groups by ID or name'
+  },
+  schedule: scheduleInputSchema,
+  enabled: {
+    type: 'boolean',
+    description: 'Whether the block is active'
+  }
+};
+
+// ================================
+// Get App Blocks Tool
+// ================================
+
+const getAppBlocksTool: MCPTool = {
+  name: 'unifi_get_app_blocks',
+  description: 'List simple app blocks with their apps, categories, targets and schedules',
+  category: ToolCategory.FIREWALL_ZBF,
+  requiresConnection: true,
+  requiresVersion: '9.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      enabled: {
+        type: 'boolean',
+        description: 'Filter by enabled status'
+      }
+    },
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const versionDetector = params._versionDetector as VersionDetector;
+      const { enabled } = params;
+
+      // Check if Zone-Based Firewall is supported
+      await versionDetector.validateFeature('zbf');
+
+      logger.info('Getting app blocks', { enabled });
+
+      const blocks = (await fetchRawAppBlocks(client))
+        .map(mapSimpleAppBlock)
+        .filter(block => enabled === undefined || block.enabled === enabled);
+
+      const warnings: string[] = [];
+      let catalog: Awaited<ReturnType<typeof fetchDpiCatalog>> | undefined;
+      try {
+        catalog = await fetchDpiCatalog(client);
+      } catch (error) {
+        warnings.push('DPI catalog unavailable; apps and categories are shown by ID');
+      }
+
+      return {
+        success: true,
+        data: {
+          blocks: blocks.map(block => describeBlock(block, catalog)),
+          count: blocks.length
+        },
+        ...(warnings.length > 0 && { warnings }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to get app blocks', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'APP_BLOCKS_FETCH_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Search DPI Apps Tool
+// ================================
+
+const searchDpiAppsTool: MCPTool = {
+  name: 'unifi_search_dpi_apps',
+  description: 'Search the controller\'s DPI app and category catalog by (fuzzy) name',
+  category: ToolCategory.FIREWALL_ZBF,
+  requiresConnection: true,
+  requiresVersion: '9.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'App or category name; omit to list categories',
+        minLength: 1
+      },
+      type: {
+        type: 'string',
+        enum: ['apps', 'categories', 'both'],
+        description: 'Which part of the catalog to search',
+        default: 'both'
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum results per type',
+        minimum: 1,
+        maximum: 100,
+        default: 10
+      }
+    },
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const versionDetector = params._versionDetector as VersionDetector;
+      const { query, type = 'both', limit = 10 } = params;
+
+      // Check if Zone-Based Firewall is supported
+      await versionDetector.validateFeature('zbf');
+
+      logger.info('Searching DPI catalog', { query, type });
+
+      const catalog = await fetchDpiCatalog(client);
+      const search = (entries: DpiCatalogEntry[]) => query
+        ? matchCatalogEntry(query, entries, limit).candidates
+        : entries.slice(0, limit);
+
+      return {
+        success: true,
+        data: {
+          ...(type !== 'categories' && query && { apps: search(catalog.apps) }),
+          ...(type !== 'apps' && { categories: search(catalog.categories) }),
+          catalogSize: { apps: catalog.apps.length, categories: catalog.categories.length }
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to search DPI catalog', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'DPI_SEARCH_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Block App Tool
+// ================================
+
+const blockAppTool: MCPTool = {
+  name: 'unifi_block_app_in_zone',
+  description: 'Block apps or DPI categories for clients, networks or client groups, optionally on a schedule (e.g. TikTok on the kids\' devices from 21:00 to 07:00)',
+  category: ToolCategory.FIREWALL_ZBF,
+  requiresConnection: true,
+  requiresVersion: '9.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: blockInputProperties,
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const versionDetector = params._versionDetector as VersionDetector;
+      const validated = await ValidationService.validateCreateAppBlockParams(params);
+
+      // Check if Zone-Based Firewall is supported
+      await versionDetector.validateFeature('zbf');
+
+      logger.info('Creating app block', { apps: validated.apps, categories: validated.categories });
+
+      const catalog = await fetchDpiCatalog(client);
+      const apps = resolveCatalogNames(validated.apps, catalog.apps, 'app');
+      const categories = resolveCatalogNames(validated.categories, catalog.categories, 'category');
+      const targets = await resolveTargets(client, validated);
+
+      const what = [...apps, ...categories].map(entry => entry.name).join(', ');
+      const block: Omit<SimpleAppBlock, 'id'> = {
+        name: validated.name ?? `Block ${what}`.slice(0, 128),
+        enabled: validated.enabled,
+        ...targets,
+        appIds: apps.map(app => app.id),
+        categoryIds: categories.map(category => category.id),
+        ...(validated.schedule && { schedule: toSchedule(validated.schedule) })
+      };
+
+      const response = await client.post(UNIFI_ENDPOINTS.SIMPLE_APP_BLOCK, toRawSimpleAppBlock(block));
+
+      if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+        throw new UniFiMCPError('Failed to create app block', ErrorCode.APP_BLOCK_CREATION_FAILED);
+      }
+
+      const created = describeBlock(mapSimpleAppBlock(response.data[0]), catalog);
+
+      return {
+        success: true,
+        data: {
+          block: created,
+          matched: {
+            apps: validated.apps.map((query, i) => ({ query, match: apps[i].name })),
+            categories: validated.categories.map((query, i) => ({ query, match: categories[i].name }))
+          },
+          message: `App block '${created.name}' created successfully`
+        },
+        warnings: [
+          'Apps already connected may keep working until their connections are re-established'
+        ],
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to create app block', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'APP_BLOCK_CREATE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Update App Block Tool
+// ================================
+
+const updateAppBlockTool: MCPTool = {
+  name: 'unifi_update_app_block',
+  description: 'Update the apps, targets, schedule or status of a simple app block',
+  category: ToolCategory.FIREWALL_ZBF,
+  requiresConnection: true,
+  requiresVersion: '9.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      blockId: {
+        type: 'string',
+        description: 'App block ID to update',
+        minLength: 1
+      },
+      ...blockInputProperties,
+      removeSchedule: {
+        type: 'boolean',
+        description: 'Remove the schedule so the block always applies'
+      }
+    },
+    required: ['blockId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const versionDetector = params._versionDetector as VersionDetector;
+      const { blockId, removeSchedule, ...updates } = await ValidationService.validateUpdateAppBlockParams(params);
+
+      // Check if Zone-Based Firewall is supported
+      await versionDetector.validateFeature('zbf');
+
+      logger.info('Updating app block', { blockId, updates: Object.keys(updates) });
+
+      const existing = mapSimpleAppBlock(findRawAppBlock(await fetchRawAppBlocks(client), blockId));
+      const catalog = await fetchDpiCatalog(client);
+
+      const retargeted = updates.clients || updates.networks || updates.groups;
+      const block: Omit<SimpleAppBlock, 'id'> = {
+        name: existing.name,
+        enabled: existing.enabled,
+        targetType: existing.targetType,
+        clientMacs: existing.clientMacs,
+        networkIds: existing.networkIds,
+        groupIds: existing.groupIds,
+        appIds: existing.appIds,
+        categoryIds: existing.categoryIds,
+        ...(updates.name !== undefined && { name: updates.name }),
+        ...(updates.enabled !== undefined && { enabled: updates.enabled }),
+        ...(updates.apps && { appIds: resolveCatalogNames(updates.apps, catalog.apps, 'app').map(app => app.id) }),
+        ...(updates.categories && {
+          categoryIds: resolveCatalogNames(updates.categories, catalog.categories, 'category').map(category => category.id)
+        }),
+        ...(retargeted && await resolveTargets(client, updates)),
+        ...(updates.schedule ? { schedule: toSchedule(updates.schedule) }
+          : !removeSchedule && existing.schedule && { schedule: existing.schedule })
+      };
+
+      if (block.appIds.length + block.categoryIds.length === 0) {
+        throw new ValidationError('An app block must block at least one app or category', 'apps');
+      }
+
+      const response = await client.put(
+        UNIFI_ENDPOINTS.SIMPLE_APP_BLOCK_DETAILS.replace('{id}', blockId),
+        { _id: blockId, ...toRawSimpleAppBlock(block) }
+      );
+
+      if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+        throw new UniFiMCPError('Failed to update app block', ErrorCode.APP_BLOCK_UPDATE_FAILED);
+      }
+
+      const updated = describeBlock(mapSimpleAppBlock(response.data[0]), catalog);
+
+      return {
+        success: true,
+        data: {
+          block: updated,
+          message: `App block '${updated.name}' updated successfully`
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to update app block', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'APP_BLOCK_UPDATE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Delete App Block Tool
+// ================================
+
+const deleteAppBlockTool: MCPTool = {
+  name: 'unifi_delete_app_block',
+  description: 'Remove a simple app block',
+  category: ToolCategory.FIREWALL_ZBF,
+  requiresConnection: true,
+  requiresVersion: '9.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      blockId: {
+        type: 'string',
+        description: 'App block ID to remove',
+        minLength: 1
+      }
+    },
+    required: ['blockId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const versionDetector = params._versionDetector as VersionDetector;
+      const { blockId } = params;
+
+      // Check if Zone-Based Firewall is supported
+      await versionDetector.validateFeature('zbf');
+
+      logger.info('Deleting app block', { blockId });
+
+      const existing = mapSimpleAppBlock(findRawAppBlock(await fetchRawAppBlocks(client), blockId));
+
+      const response = await client.delete(UNIFI_ENDPOINTS.SIMPLE_APP_BLOCK_DETAILS.replace('{id}', blockId));
+
+      if (response.meta.rc !== 'ok') {
+        throw new UniFiMCPError(`Failed to delete app block: ${response.meta.msg}`, ErrorCode.APP_BLOCK_DELETION_FAILED);
+      }
+
+      return {
+        success: true,
+        data: {
+          deletedBlock: {
+            id: existing.id,
+            name: existing.name,
+            targetType: existing.targetType
+          },
+          message: `App block '${existing.name}' removed successfully`
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete app block', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'APP_BLOCK_DELETE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+export {
+  getAppBlocksTool,
+  searchDpiAppsTool,
+  blockAppTool,
+  updateAppBlockTool,
+  deleteAppBlockTool
+};
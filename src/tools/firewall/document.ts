@@ -0,0 +1,939 @@
+import { createHash } from 'crypto';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import { MCPTool, ToolCategory, ToolResult, ErrorCode } from '../../server/types.js';
+import { UniFiClient } from '../../unifi/client.js';
+import { VersionDetector } from '../../unifi/versionDetector.js';
+import { DetailedNetwork, FirewallAction, ZonePolicy } from '../../unifi/types.js';
+import { FirewallDocumentSchema, ValidationService } from '../../utils/validators.js';
+import { createToolLogger } from '../../utils/logger.js';
+import { UniFiMCPError, ValidationError, ResourceConflictError } from '../../utils/errors.js';
+import { UNIFI_ENDPOINTS } from '../../config/constants.js';
+import { fetchNetworks } from '../networks/mapping.js';
+import {
+  fetchRawZones,
+  fetchRawZonePolicies,
+  fetchRawFirewallRules,
+  findRawZone,
+  mapFirewallRule,
+  mapZonePolicy,
+  toRawZonePolicy
+} from './mapping.js';
+import { checkZonePolicy } from './zonePolicies.js';
+import { findGroupReferences } from '../groups/index.js';
+import { planMoveSequence } from './reorder.js';
+
+/**
+ * Firewall as Code
+ *
+ * Plans and applies a YAML or JSON document describing firewall groups,
+ * legacy rules and zone policies. Objects are matched to the controller
+ * by name, so applying the same document twice changes nothing.
+ */
+
+const logger = createToolLogger('firewall-document-tools');
+
+export type FirewallDocument = z.input<typeof FirewallDocumentSchema>;
+
+export type DocumentObjectKind = 'group' | 'rule' | 'policy';
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface PlannedChange {
+  action: 'create' | 'update' | 'delete';
+  kind: DocumentObjectKind;
+  name: string;
+  id?: string;
+  groupType?: string;
+  fields?: FieldChange[];
+  desired?: Record<string, any>;
+}
+
+export interface ObjectSummary {
+  kind: DocumentObjectKind;
+  name: string;
+  id: string;
+}
+
+export interface FirewallPlan {
+  planId: string;
+  changes: PlannedChange[];
+  unchanged: ObjectSummary[];
+  unmanaged: ObjectSummary[];
+}
+
+export interface LiveFirewallState {
+  groups: any[];
+  rules: any[];
+  policies: any[];
+  zones: any[];
+  networks: DetailedNetwork[];
+}
+
+const DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+const STATES = ['new', 'established', 'related', 'invalid'] as const;
+const ADDRESS_GROUP_TYPES = ['address-group', 'ipv6-address-group'];
+
+// ================================
+// Document Parsing
+// ================================
+
+/**
+ * Parse a YAML or JSON document and validate it
+ */
+export async function parseFirewallDocument(text: string): Promise<FirewallDocument> {
+  let parsed: unknown;
+  try {
+    parsed = yaml.load(text);
+  } catch (error) {
+    throw new ValidationError(`Document is not valid YAML or JSON: ${(error as Error).message}`, 'document');
+  }
+
+  return ValidationService.validateFirewallDocument(parsed ?? {});
+}
+
+// ================================
+// Normalization
+// ================================
+
+/**
+ * Serialize a value with sorted keys and without undefined fields
+ */
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, inner) =>
+    inner && typeof inner === 'object' && !Array.isArray(inner)
+      ? Object.fromEntries(Object.keys(inner).sort().filter(k => inner[k] !== undefined).map(k => [k, inner[k]]))
+      : inner
+  );
+}
+
+/**
+ * Drop undefined fields so specs compare and display cleanly
+ */
+function compact<T extends Record<string, any>>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
+
+/**
+ * List the top-level fields that differ between two specs
+ */
+export function diffFields(live: Record<string, any>, desired: Record<string, any>): FieldChange[] {
+  const fields = Array.from(new Set([...Object.keys(live), ...Object.keys(desired)])).sort();
+  return fields
+    .filter(field => canonical(live[field]) !== canonical(desired[field]))
+    .map(field => ({ field, from: live[field], to: desired[field] }));
+}
+
+/**
+ * Resolves names of groups, networks and zones in both directions
+ */
+class NameResolver {
+  constructor(private state: LiveFirewallState, private document: FirewallDocument) {}
+
+  networkName(id: string): string {
+    return this.state.networks.find(n => n.id === id)?.name ?? id;
+  }
+
+  networkId(ref: string): string {
+    const network = this.state.networks.find(n => n.id === ref) ??
+      this.state.networks.find(n => n.name.toLowerCase() === ref.toLowerCase());
+    if (!network) {
+      throw new ValidationError(`Network '${ref}' does not exist`, 'network', ref);
+    }
+    return network.id;
+  }
+
+  zoneName(id: string): string {
+    return this.state.zones.find(zone => zone._id === id)?.name ?? id;
+  }
+
+  zoneId(ref: string): string {
+    return findRawZone(this.state.zones, ref)._id;
+  }
+
+  groupName(id: string): string {
+    return this.state.groups.find(group => group._id === id)?.name ?? id;
+  }
+
+  /**
+   * Canonical name of a group declared in the document or on the controller
+   */
+  groupRef(ref: string, types: string[]): string {
+    const candidates = [
+      ...(this.document.groups ?? []).map(group => ({ name: group.name, type: group.type })),
+      ...this.state.groups.map(group => ({ name: String(group.name), type: String(group.group_type) }))
+    ].filter(group => group.name.toLowerCase() === ref.toLowerCase() && types.includes(group.type));
+
+    if (candidates.length === 0) {
+      throw new ValidationError(`Group '${ref}' (${types.join(' or ')}) is not declared or present on the controller`, 'group', ref);
+    }
+    if (new Set(candidates.map(group => group.type)).size > 1) {
+      throw new ValidationError(`Group name '${ref}' is used by more than one group type`, 'group', ref);
+    }
+    return candidates[0].name;
+  }
+}
+
+function groupSpec(group: { members: string[]; description?: string | undefined }): Record<string, any> {
+  return compact({
+    members: [...group.members].map(member => member.trim()).sort(),
+    description: group.description || undefined
+  });
+}
+
+function liveRuleSpec(raw: any, names: NameResolver): Record<string, any> {
+  const rule = mapFirewallRule(raw);
+  const side = (which: 'src' | 'dst') => {
+    const networkId = which === 'src' ? rule.srcNetworkconfId : rule.dstNetworkconfId;
+    const networkType = which === 'src' ? rule.srcNetworkconfType : rule.dstNetworkconfType;
+    const groups = which === 'src' ? rule.srcFirewallgroupIds : rule.dstFirewallgroupIds;
+    const spec = compact({
+      address: (which === 'src' ? rule.src : rule.dst) || undefined,
+      network: networkId ? names.networkName(networkId) : undefined,
+      networkType: networkId ? (networkType === 'ADDRv4' ? 'gateway' : 'subnet') : undefined,
+      groups: groups.length > 0 ? groups.map(id => names.groupName(id)) : undefined,
+      port: (which === 'src' ? rule.srcPort : rule.dstPort) || undefined
+    });
+    return Object.keys(spec).length > 0 ? spec : undefined;
+  };
+
+  return compact({
+    ruleSet: rule.ruleSet,
+    index: rule.ruleIndex,
+    action: rule.action === FirewallAction.ALLOW ? 'allow' : rule.action === FirewallAction.REJECT ? 'reject' : 'drop',
+    protocol: rule.protocol,
+    source: side('src'),
+    destination: side('dst'),
+    states: STATES.filter(state => rule.states.includes(state)),
+    logging: rule.logging,
+    enabled: rule.enabled,
+    description: rule.description || undefined
+  });
+}
+
+function desiredRuleSpec(rule: NonNullable<FirewallDocument['rules']>[number], names: NameResolver): Record<string, any> {
+  const side = (value: typeof rule.source) => {
+    if (!value) return undefined;
+    const spec = compact({
+      address: value.address,
+      network: value.network ? names.networkName(names.networkId(value.network)) : undefined,
+      networkType: value.network ? value.networkType ?? 'subnet' : undefined,
+      groups: value.groups?.map(group => names.groupRef(group, ['address-group', 'port-group'])),
+      port: value.port
+    });
+    return Object.keys(spec).length > 0 ? spec : undefined;
+  };
+
+  return compact({
+    ruleSet: rule.ruleSet,
+    index: rule.index,
+    action: rule.action,
+    protocol: rule.protocol ?? 'all',
+    source: side(rule.source),
+    destination: side(rule.destination),
+    states: STATES.filter(state => (rule.states ?? []).includes(state)),
+    logging: rule.logging ?? false,
+    enabled: rule.enabled ?? true,
+    description: rule.description || undefined
+  });
+}
+
+function livePolicySpec(raw: any, names: NameResolver): Record<string, any> {
+  const policy = mapZonePolicy(raw);
+  const endpoint = (value: ZonePolicy['source']) => {
+    if (!value) return undefined;
+    const spec = compact({
+      ips: value.ips,
+      group: value.ipGroupId ? names.groupName(value.ipGroupId) : undefined,
+      networks: value.networkIds?.map(id => names.networkName(id)),
+      ports: value.ports,
+      portGroup: value.portGroupId ? names.groupName(value.portGroupId) : undefined
+    });
+    return Object.keys(spec).length > 0 ? spec : undefined;
+  };
+
+  return compact({
+    sourceZone: names.zoneName(policy.sourceZone),
+    targetZone: names.zoneName(policy.targetZone),
+    priority: policy.priority,
+    action: policy.action,
+    protocol: policy.protocol,
+    ipVersion: policy.ipVersion,
+    source: endpoint(policy.source),
+    destination: endpoint(policy.destination),
+    applications: policy.applications,
+    schedule: policy.schedule && compact({
+      days: policy.schedule.mode === 'daily' ? DAYS : DAYS.filter(day => (policy.schedule?.days ?? []).includes(day)),
+      startTime: policy.schedule.startTime,
+      endTime: policy.schedule.endTime
+    }),
+    connectionStates: policy.connectionStates && STATES.filter(state => policy.connectionStates!.includes(state)),
+    logging: policy.logging,
+    enabled: policy.enabled,
+    description: policy.description || undefined
+  });
+}
+
+function desiredPolicySpec(policy: NonNullable<FirewallDocument['policies']>[number], names: NameResolver): Record<string, any> {
+  const endpoint = (value: typeof policy.source) => {
+    if (!value) return undefined;
+    const spec = compact({
+      ips: value.ips,
+      group: value.group ? names.groupRef(value.group, ADDRESS_GROUP_TYPES) : undefined,
+      networks: value.networks?.map(network => names.networkName(names.networkId(network))),
+      ports: value.ports,
+      portGroup: value.portGroup ? names.groupRef(value.portGroup, ['port-group']) : undefined
+    });
+    return Object.keys(spec).length > 0 ? spec : undefined;
+  };
+
+  return compact({
+    sourceZone: names.zoneName(names.zoneId(policy.sourceZone)),
+    targetZone: names.zoneName(names.zoneId(policy.targetZone)),
+    priority: policy.priority,
+    action: policy.action,
+    protocol: policy.protocol ?? 'all',
+    ipVersion: policy.ipVersion ?? 'both',
+    source: endpoint(policy.source),
+    destination: endpoint(policy.destination),
+    applications: policy.applications,
+    schedule: policy.schedule && {
+      days: DAYS.filter(day => policy.schedule!.days.includes(day as typeof policy.schedule.days[number])),
+      startTime: policy.schedule.startTime,
+      endTime: policy.schedule.endTime
+    },
+    connectionStates: policy.connectionStates && STATES.filter(state => policy.connectionStates!.includes(state)),
+    logging: policy.logging ?? false,
+    enabled: policy.enabled ?? true,
+    description: policy.description || undefined
+  });
+}
+
+// ================================
+// Raw Payloads
+// ================================
+
+/**
+ * Look up group IDs by canonical name and type while applying, including
+ * groups created earlier in the same run
+ */
+export type GroupIdLookup = (name: string, types: string[]) => string;
+
+/**
+ * Convert a rule spec into a raw firewallrule payload
+ */
+export function ruleSpecToRaw(name: string, spec: Record<string, any>, groupId: GroupIdLookup, names: { networkId(ref: string): string }): Record<string, any> {
+  const side = (prefix: 'src' | 'dst', value: Record<string, any> | undefined) => ({
+    [`${prefix}_address`]: value?.address ?? '',
+    [`${prefix}_port`]: value?.port ?? '',
+    [`${prefix}_networkconf_id`]: value?.network ? names.networkId(value.network) : '',
+    [`${prefix}_networkconf_type`]: value?.network ? (value.networkType === 'gateway' ? 'ADDRv4' : 'NETv4') : '',
+    [`${prefix}_firewallgroup_ids`]: (value?.groups ?? []).map((group: string) => groupId(group, ['address-group', 'port-group']))
+  });
+
+  return {
+    name,
+    enabled: spec.enabled,
+    action: spec.action === 'allow' ? 'accept' : spec.action,
+    ruleset: spec.ruleSet,
+    rule_index: spec.index,
+    protocol: spec.protocol,
+    protocol_match_excepted: false,
+    logging: spec.logging,
+    ...Object.fromEntries(STATES.map(state => [`state_${state}`, spec.states.includes(state)])),
+    ...side('src', spec.source),
+    ...side('dst', spec.destination),
+    src_mac_address: '',
+    icmp_typename: '',
+    ipsec: '',
+    description: spec.description ?? ''
+  };
+}
+
+/**
+ * Convert a policy spec into a ZonePolicy with controller IDs
+ */
+export function policySpecToZonePolicy(
+  name: string,
+  spec: Record<string, any>,
+  groupId: GroupIdLookup,
+  names: { networkId(ref: string): string; zoneId(ref: string): string }
+): Omit<ZonePolicy, 'id'> {
+  const endpoint = (value: Record<string, any> | undefined) => value && compact({
+    ips: value.ips,
+    ipGroupId: value.group ? groupId(value.group, ADDRESS_GROUP_TYPES) : undefined,
+    networkIds: value.networks?.map((network: string) => names.networkId(network)),
+    ports: value.ports,
+    portGroupId: value.portGroup ? groupId(value.portGroup, ['port-group']) : undefined
+  });
+  const source = endpoint(spec.source);
+  const destination = endpoint(spec.destination);
+
+  return {
+    name,
+    ...(spec.description && { description: spec.description }),
+    sourceZone: names.zoneId(spec.sourceZone),
+    targetZone: names.zoneId(spec.targetZone),
+    action: spec.action as FirewallAction,
+    protocol: spec.protocol,
+    ipVersion: spec.ipVersion,
+    ...(source && { source }),
+    ...(destination && { destination }),
+    ...(spec.applications && { applications: spec.applications }),
+    ...(spec.schedule && {
+      schedule: {
+        mode: spec.schedule.days.length === 7 ? 'daily' as const : 'weekly' as const,
+        days: spec.schedule.days,
+        startTime: spec.schedule.startTime,
+        endTime: spec.schedule.endTime
+      }
+    }),
+    ...(spec.connectionStates && { connectionStates: spec.connectionStates }),
+    logging: spec.logging,
+    enabled: spec.enabled,
+    predefined: false,
+    priority: spec.priority
+  };
+}
+
+// ================================
+// Planning
+// ================================
+
+/**
+ * Match document entries to live objects by name, refusing names that
+ * exist more than once on the controller
+ */
+function matchByName(kind: DocumentObjectKind, live: any[], name: string): any | undefined {
+  const matches = live.filter(raw => String(raw.name ?? '').toLowerCase() === name.toLowerCase());
+  if (matches.length > 1) {
+    throw new ValidationError(
+      `${kind} name '${name}' matches ${matches.length} objects on the controller (${matches.map(m => m._id).join(', ')}); rename them first`,
+      'name',
+      name
+    );
+  }
+  return matches[0];
+}
+
+/**
+ * Names of the groups a rule or policy spec references
+ */
+function specGroupNames(spec: Record<string, any>): string[] {
+  return [spec.source, spec.destination].flatMap(side => [
+    ...(side?.groups ?? []),
+    ...(side?.group ? [side.group] : []),
+    ...(side?.portGroup ? [side.portGroup] : [])
+  ]);
+}
+
+/**
+ * Check that rules (per rule set) or policies (per zone pair) end up on
+ * distinct indexes, and order their creates and updates so no two objects
+ * share an index at any point. Index moves of existing objects follow
+ * planMoveSequence; when moves form a cycle, an extra update parks one
+ * object on a free index first.
+ */
+function sequenceIndexedChanges(
+  kind: 'rule' | 'policy',
+  field: 'index' | 'priority',
+  upserts: PlannedChange[],
+  live: Array<{ id: string; name: string; slot: string; index: number }>,
+  slotOf: (spec: Record<string, any>) => string
+): PlannedChange[] {
+  const byId = new Map(upserts.filter(change => change.id).map(change => [change.id!, change]));
+
+  // The final layout: live objects the plan keeps as they are, plus every create and update
+  const final = [
+    ...live.filter(object => !byId.has(object.id)).map(object => ({ ...object, managed: false })),
+    ...upserts.map(change => ({ name: change.name, slot: slotOf(change.desired!), index: Number(change.desired![field]), managed: true }))
+  ];
+  for (const [position, object] of final.entries()) {
+    const clash = final.find((other, otherPosition) =>
+      otherPosition !== position && other.slot === object.slot && other.index === object.index);
+    if (object.managed && clash) {
+      throw new ValidationError(
+        `${kind} '${object.name}' and '${clash.name}' would both use ${field} ${object.index} in ${object.slot}` +
+          (clash.managed ? '' : `; '${clash.name}' is not in the document, so pick another ${field} or add it`),
+        field,
+        object.index
+      );
+    }
+  }
+
+  const liveObject = (change: PlannedChange) => live.find(object => object.id === change.id);
+  const inPlace = upserts.filter(change => {
+    const object = change.id ? liveObject(change) : undefined;
+    return object !== undefined && object.slot === slotOf(change.desired!) && object.index === Number(change.desired![field]);
+  });
+  const slotMoves = upserts.filter(change => {
+    const object = change.id ? liveObject(change) : undefined;
+    return object !== undefined && object.slot !== slotOf(change.desired!);
+  });
+  const creates = upserts.filter(change => change.action === 'create');
+
+  // Updates that change the index within a slot, sequenced per slot
+  const moves: PlannedChange[] = [];
+  const slots = new Set(live.map(object => object.slot));
+  for (const slot of slots) {
+    const current = live
+      .filter(object => object.slot === slot && !slotMoves.some(change => change.id === object.id))
+      .map(object => ({ id: object.id, name: object.name, ruleIndex: object.index }));
+    const targets = new Map(current.map(object => {
+      const change = byId.get(object.id);
+      return [object.id, change ? Number(change.desired![field]) : object.ruleIndex];
+    }));
+
+    for (const step of planMoveSequence(current, targets)) {
+      const change = byId.get(step.id)!;
+      moves.push(step.temporary
+        ? {
+          action: 'update',
+          kind,
+          name: change.name,
+          id: change.id!,
+          fields: [{ field, from: step.from, to: step.to }],
+          desired: { ...change.desired, [field]: step.to }
+        }
+        : change);
+    }
+  }
+
+  return [...inPlace, ...slotMoves, ...moves, ...creates];
+}
+
+/**
+ * Diff a document against the live controller state. Live objects not in
+ * the document are deleted only with prune, and only for the sections the
+ * document declares.
+ */
+export function planFirewallDocument(document: FirewallDocument, state: LiveFirewallState, prune = false): FirewallPlan {
+  const names = new NameResolver(state, document);
+  const upserts: PlannedChange[] = [];
+  const deletes: PlannedChange[] = [];
+  const unchanged: ObjectSummary[] = [];
+  const unmanaged: ObjectSummary[] = [];
+
+  const reconcile = <T extends { name: string }>(
+    kind: DocumentObjectKind,
+    entries: T[] | undefined,
+    live: any[],
+    liveSpec: (raw: any) => Record<string, any>,
+    desiredSpec: (entry: T) => Record<string, any>,
+    extra: (entry: T) => Partial<PlannedChange> = () => ({})
+  ) => {
+    const matched = new Set<string>();
+
+    for (const entry of entries ?? []) {
+      const desired = desiredSpec(entry);
+      const raw = matchByName(kind, live, entry.name);
+      if (!raw) {
+        upserts.push({ action: 'create', kind, name: entry.name, ...extra(entry), desired });
+        continue;
+      }
+
+      matched.add(raw._id);
+      const fields = diffFields(liveSpec(raw), desired);
+      if (fields.length > 0) {
+        upserts.push({ action: 'update', kind, name: raw.name, id: raw._id, ...extra(entry), fields, desired });
+      } else {
+        unchanged.push({ kind, name: raw.name, id: raw._id });
+      }
+    }
+
+    for (const raw of live.filter(raw => !matched.has(raw._id))) {
+      const summary = { kind, name: raw.name || raw._id, id: raw._id };
+      if (prune && entries !== undefined && raw.name) {
+        deletes.unshift({ action: 'delete', ...summary });
+      } else {
+        unmanaged.push(summary);
+      }
+    }
+  };
+
+  for (const type of ['address-group', 'port-group', 'ipv6-address-group']) {
+    reconcile(
+      'group',
+      document.groups === undefined ? undefined : document.groups.filter(group => group.type === type),
+      state.groups.filter(group => group.group_type === type),
+      raw => groupSpec({ members: Array.isArray(raw.group_members) ? raw.group_members : [], description: raw.description }),
+      group => groupSpec(group),
+      () => ({ groupType: type })
+    );
+  }
+
+  reconcile(
+    'rule',
+    document.rules,
+    state.rules,
+    raw => liveRuleSpec(raw, names),
+    rule => desiredRuleSpec(rule, names)
+  );
+
+  const customPolicies = state.policies.filter(policy => policy.predefined !== true);
+  reconcile(
+    'policy',
+    document.policies,
+    customPolicies,
+    raw => livePolicySpec(raw, names),
+    policy => {
+      const spec = desiredPolicySpec(policy, names);
+      const problems = checkZonePolicy(policySpecToZonePolicy(policy.name, spec, group => group, { networkId: n => n, zoneId: z => z }));
+      if (problems.length > 0) {
+        throw new ValidationError(`Policy '${policy.name}': ${problems.join('; ')}`, 'policies', problems);
+      }
+      return spec;
+    }
+  );
+
+  // Groups still used after the plan cannot be deleted
+  const deletedIds = new Set(deletes.map(change => change.id));
+  const keptRules = state.rules.filter(raw => !deletedIds.has(raw._id) && !upserts.some(c => c.id === raw._id));
+  const keptPolicies = customPolicies.filter(raw => !deletedIds.has(raw._id) && !upserts.some(c => c.id === raw._id));
+  for (const change of deletes.filter(c => c.kind === 'group')) {
+    const usedByLive = findGroupReferences(change.id!, keptRules, keptPolicies).map(ref => ref.name);
+    const usedByDocument = upserts
+      .filter(c => c.kind !== 'group' && specGroupNames(c.desired!).some(name => name.toLowerCase() === change.name.toLowerCase()))
+      .map(c => c.name);
+    const users = Array.from(new Set([...usedByLive, ...usedByDocument]));
+    if (users.length > 0) {
+      throw new ResourceConflictError(
+        `Group '${change.name}' would be pruned but is still used by: ${users.join(', ')}`,
+        change.id,
+        { users }
+      );
+    }
+  }
+
+  // Rule indexes and policy priorities must stay unique per rule set or zone pair
+  const liveRules = state.rules
+    .filter(raw => !deletedIds.has(raw._id))
+    .map(raw => ({ id: String(raw._id), name: String(raw.name ?? raw._id), slot: String(raw.ruleset), index: Number(raw.rule_index) }));
+  const livePolicies = customPolicies
+    .filter(raw => !deletedIds.has(raw._id))
+    .map(raw => {
+      const policy = mapZonePolicy(raw);
+      return {
+        id: String(raw._id),
+        name: String(raw.name ?? raw._id),
+        slot: `${names.zoneName(policy.sourceZone)} -> ${names.zoneName(policy.targetZone)}`,
+        index: policy.priority
+      };
+    });
+
+  // Groups first so rules can reference them. Rule and policy deletes run
+  // before creates and updates so a freed index can be reused; group
+  // deletes run last, once nothing references them.
+  const ofKind = (list: PlannedChange[], kind: DocumentObjectKind) => list.filter(change => change.kind === kind);
+  const changes = [
+    ...ofKind(upserts, 'group'),
+    ...ofKind(deletes, 'policy'),
+    ...ofKind(deletes, 'rule'),
+    ...sequenceIndexedChanges('rule', 'index', ofKind(upserts, 'rule'), liveRules, spec => String(spec.ruleSet)),
+    ...sequenceIndexedChanges('policy', 'priority', ofKind(upserts, 'policy'), livePolicies,
+      spec => `${spec.sourceZone} -> ${spec.targetZone}`),
+    ...ofKind(deletes, 'group')
+  ];
+
+  return {
+    planId: createHash('sha256').update(canonical(changes)).digest('hex').slice(0, 16),
+    changes,
+    unchanged,
+    unmanaged
+  };
+}
+
+/**
+ * Summarize a plan by action
+ */
+export function summarizePlan(plan: FirewallPlan) {
+  return {
+    create: plan.changes.filter(c => c.action === 'create').length,
+    update: plan.changes.filter(c => c.action === 'update').length,
+    delete: plan.changes.filter(c => c.action === 'delete').length,
+    unchanged: plan.unchanged.length,
+    unmanaged: plan.unmanaged.length
+  };
+}
+
+/**
+ * Fetch the groups, rules, policies, zones and networks a document is
+ * planned against; sections the controller does not support are empty
+ */
+export async function fetchLiveFirewallState(client: UniFiClient, versionDetector: VersionDetector): Promise<LiveFirewallState> {
+  const capabilities = await versionDetector.detectCapabilities();
+  const [groups, rules, policies, zones, networks] = await Promise.all([
+    client.get(UNIFI_ENDPOINTS.IP_GROUPS),
+    capabilities.supportsLegacyFirewall ? fetchRawFirewallRules(client) : Promise.resolve([]),
+    capabilities.supportsZBF ? fetchRawZonePolicies(client) : Promise.resolve([]),
+    capabilities.supportsZBF ? fetchRawZones(client) : Promise.resolve([]),
+    fetchNetworks(client)
+  ]);
+
+  return {
+    groups: Array.isArray(groups.data) ? groups.data : [],
+    rules,
+    policies,
+    zones,
+    networks
+  };
+}
+
+/**
+ * Parse the document, fetch the live state and build the plan
+ */
+async function buildPlan(params: any): Promise<{ plan: FirewallPlan; state: LiveFirewallState; document: FirewallDocument }> {
+  const client = params._client as UniFiClient;
+  const versionDetector = params._versionDetector as VersionDetector;
+  const document = await parseFirewallDocument(params.document);
+
+  if (document.rules) await versionDetector.validateFeature('legacy-firewall');
+  if (document.policies) await versionDetector.validateFeature('zbf');
+
+  const state = await fetchLiveFirewallState(client, versionDetector);
+
+  return { plan: planFirewallDocument(document, state, params.prune ?? false), state, document };
+}
+
+const documentProperties = {
+  document: {
+    type: 'string',
+    description: 'YAML or JSON document with optional "groups", "rules" (legacy) and "policies" (zone-based) lists; objects are matched by name',
+    minLength: 1
+  },
+  prune: {
+    type: 'boolean',
+    description: 'Delete live objects missing from the document, for the sections the document declares',
+    default: false
+  }
+};
+
+// ================================
+// Plan Firewall Document Tool
+// ================================
+
+const planFirewallDocumentTool: MCPTool = {
+  name: 'unifi_plan_firewall_document',
+  description: 'Diff a YAML/JSON firewall document (groups, legacy rules, zone policies) against the controller and list the creates, updates and deletes needed, like terraform plan',
+  category: ToolCategory.FIREWALL_LEGACY,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: documentProperties,
+    required: ['document'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      logger.info('Planning firewall document', { prune: params.prune ?? false });
+
+      const { plan } = await buildPlan(params);
+
+      return {
+        success: true,
+        data: {
+          ...plan,
+          summary: summarizePlan(plan),
+          message: plan.changes.length === 0
+            ? 'The controller already matches the document'
+            : `Apply with unifi_apply_firewall_document and planId ${plan.planId}`
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to plan firewall document', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'FIREWALL_DOCUMENT_PLAN_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Apply Firewall Document Tool
+// ================================
+
+const applyFirewallDocumentTool: MCPTool = {
+  name: 'unifi_apply_firewall_document',
+  description: 'Apply a YAML/JSON firewall document: re-plans against the controller and executes the changes in dependency order. Pass the planId from unifi_plan_firewall_document to refuse if the controller changed since.',
+  category: ToolCategory.FIREWALL_LEGACY,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...documentProperties,
+      planId: {
+        type: 'string',
+        description: 'Plan ID returned by unifi_plan_firewall_document'
+      }
+    },
+    required: ['document'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+
+      logger.info('Applying firewall document', { prune: params.prune ?? false, planId: params.planId });
+
+      const { plan, state } = await buildPlan(params);
+
+      if (params.planId && params.planId !== plan.planId) {
+        throw new ResourceConflictError(
+          'The controller or document changed since the plan was made; review a new plan first',
+          undefined,
+          { expectedPlanId: params.planId, currentPlanId: plan.planId }
+        );
+      }
+
+      const groupIds = state.groups.map(group => ({ id: String(group._id), name: String(group.name), type: String(group.group_type) }));
+      const groupId: GroupIdLookup = (name, types) => {
+        const group = groupIds.find(g => g.name.toLowerCase() === name.toLowerCase() && types.includes(g.type));
+        if (!group) {
+          throw new ValidationError(`Group '${name}' does not exist`, 'group', name);
+        }
+        return group.id;
+      };
+      const names = {
+        networkId: (ref: string) => state.networks.find(n => n.name === ref || n.id === ref)?.id ?? ref,
+        zoneId: (ref: string) => findRawZone(state.zones, ref)._id
+      };
+      const liveRaw = (change: PlannedChange) =>
+        [...state.groups, ...state.rules, ...state.policies].find(raw => raw._id === change.id) ?? {};
+
+      // Apply in plan order; stop at the first failure
+      const completed: PlannedChange[] = [];
+      let failure: { change: PlannedChange; message: string } | undefined;
+
+      for (const change of plan.changes) {
+        try {
+          if (change.kind === 'group') {
+            const endpoint = change.id ? UNIFI_ENDPOINTS.IP_GROUP_DETAILS.replace('{id}', change.id) : UNIFI_ENDPOINTS.IP_GROUPS;
+            if (change.action === 'delete') {
+              const response = await client.delete(endpoint);
+              if (response.meta.rc !== 'ok') {
+                throw new UniFiMCPError(`Failed to delete IP group: ${response.meta.msg}`, ErrorCode.IP_GROUP_DELETION_FAILED);
+              }
+            } else {
+              const payload = {
+                ...liveRaw(change),
+                name: change.name,
+                group_type: change.groupType,
+                group_members: change.desired!.members,
+                description: change.desired!.description ?? ''
+              };
+              const response = change.action === 'create' ? await client.post(endpoint, payload) : await client.put(endpoint, payload);
+              if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+                throw new UniFiMCPError(`Failed to ${change.action} IP group`,
+                  change.action === 'create' ? ErrorCode.IP_GROUP_CREATION_FAILED : ErrorCode.IP_GROUP_UPDATE_FAILED);
+              }
+              if (change.action === 'create') {
+                groupIds.push({ id: response.data[0]._id, name: change.name, type: change.groupType! });
+              }
+            }
+          } else if (change.kind === 'rule') {
+            const endpoint = change.id ? UNIFI_ENDPOINTS.FIREWALL_RULE_DETAILS.replace('{id}', change.id) : UNIFI_ENDPOINTS.FIREWALL_RULES;
+            if (change.action === 'delete') {
+              const response = await client.delete(endpoint);
+              if (response.meta.rc !== 'ok') {
+                throw new UniFiMCPError(`Failed to delete firewall rule: ${response.meta.msg}`, ErrorCode.RULE_DELETION_FAILED);
+              }
+            } else {
+              const payload = { ...liveRaw(change), ...ruleSpecToRaw(change.name, change.desired!, groupId, names) };
+              const response = change.action === 'create' ? await client.post(endpoint, payload) : await client.put(endpoint, payload);
+              if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+                throw new UniFiMCPError(`Failed to ${change.action} firewall rule`,
+                  change.action === 'create' ? ErrorCode.RULE_CREATION_FAILED : ErrorCode.RULE_UPDATE_FAILED);
+              }
+            }
+          } else {
+            const endpoint = change.id
+              ? UNIFI_ENDPOINTS.FIREWALL_ZONE_POLICY_DETAILS.replace('{id}', change.id)
+              : UNIFI_ENDPOINTS.FIREWALL_ZONE_POLICIES;
+            if (change.action === 'delete') {
+              const response = await client.delete(endpoint);
+              if (response.meta.rc !== 'ok') {
+                throw new UniFiMCPError(`Failed to delete zone policy: ${response.meta.msg}`, ErrorCode.ZONE_POLICY_DELETION_FAILED);
+              }
+            } else {
+              const payload = {
+                ...liveRaw(change),
+                ...toRawZonePolicy(policySpecToZonePolicy(change.name, change.desired!, groupId, names))
+              };
+              const response = change.action === 'create' ? await client.post(endpoint, payload) : await client.put(endpoint, payload);
+              if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+                throw new UniFiMCPError(`Failed to ${change.action} zone policy`,
+                  change.action === 'create' ? ErrorCode.ZONE_POLICY_CREATION_FAILED : ErrorCode.ZONE_POLICY_UPDATE_FAILED);
+              }
+            }
+          }
+          completed.push(change);
+        } catch (error) {
+          failure = { change, message: (error as Error).message };
+          logger.warn(`Stopping document apply at ${change.kind} '${change.name}'`, error as any);
+          break;
+        }
+      }
+
+      return {
+        success: !failure,
+        data: {
+          planId: plan.planId,
+          completed,
+          remaining: plan.changes.slice(completed.length),
+          summary: summarizePlan(plan)
+        },
+        ...(failure && {
+          error: {
+            code: 'FIREWALL_DOCUMENT_APPLY_FAILED',
+            message: `${failure.change.action} of ${failure.change.kind} '${failure.change.name}' failed: ${failure.message}`
+          },
+          warnings: ['Re-run the apply to continue; objects that already match the document are skipped']
+        }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to apply firewall document', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'FIREWALL_DOCUMENT_APPLY_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+export {
+  planFirewallDocumentTool,
+  applyFirewallDocumentTool
+};
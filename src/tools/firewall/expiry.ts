@@ -0,0 +1,344 @@
+import { MCPTool, ToolCategory, ToolResult, ErrorCode } from '../../server/types.js';
+import { UniFiClient } from '../../unifi/client.js';
+import { JobHandler, NewJob, ScheduledJob, jobStore } from '../../server/jobScheduler.js';
+import { createToolLogger } from '../../utils/logger.js';
+import { UniFiMCPError, ValidationError } from '../../utils/errors.js';
+import { formatDuration, parseDuration } from '../../utils/helpers.js';
+import { UNIFI_ENDPOINTS } from '../../config/constants.js';
+import { fetchRawFirewallRules, fetchRawZonePolicies } from './mapping.js';
+
+/**
+ * Temporary Firewall Changes
+ *
+ * Lets firewall rules and zone policies be created or toggled for a limited
+ * time. The undo step is stored as a scheduled job, so it still runs after a
+ * server restart, and pending expirations can be listed and cancelled.
+ */
+
+const logger = createToolLogger('firewall-expiry-tools');
+
+const MAX_EXPIRY_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const EXPIRY_JOB_TYPES = {
+  DELETE_RULE: 'firewall-rule.delete',
+  SET_RULE_ENABLED: 'firewall-rule.set-enabled',
+  DELETE_ZONE_POLICY: 'zone-policy.delete',
+  SET_ZONE_POLICY_ENABLED: 'zone-policy.set-enabled'
+} as const;
+
+/**
+ * Input schema properties shared by every tool that accepts an expiry
+ */
+export const expiryInputProperties = {
+  expiresIn: {
+    type: 'string',
+    description: 'Undo the change after this long, e.g. "30m", "1h", "1d12h" (max 30 days)',
+    pattern: '^(\\d+d)?(\\d+h)?(\\d+m)?(\\d+s)?$'
+  },
+  expiresAt: {
+    type: 'string',
+    description: 'Undo the change at this time (ISO 8601, e.g. "2025-06-01T18:00:00Z")'
+  }
+};
+
+/**
+ * Resolve expiresIn/expiresAt into the time the change should be undone
+ */
+export function resolveExpiry(
+  params: { expiresIn?: string | undefined; expiresAt?: string | undefined },
+  now: Date = new Date()
+): Date | undefined {
+  const { expiresIn, expiresAt } = params;
+
+  if (expiresIn !== undefined && expiresAt !== undefined) {
+    throw new ValidationError('Use either expiresIn or expiresAt, not both', 'expiresIn');
+  }
+
+  let runAt: Date;
+  if (expiresIn !== undefined) {
+    const ms = parseDuration(expiresIn);
+    if (ms === null || ms <= 0) {
+      throw new ValidationError(`Invalid duration '${expiresIn}', expected e.g. "30m", "1h" or "1d12h"`, 'expiresIn', expiresIn);
+    }
+    runAt = new Date(now.getTime() + ms);
+  } else if (expiresAt !== undefined) {
+    runAt = new Date(expiresAt);
+    if (Number.isNaN(runAt.getTime())) {
+      throw new ValidationError(`Invalid timestamp '${expiresAt}', expected ISO 8601`, 'expiresAt', expiresAt);
+    }
+    if (runAt.getTime() <= now.getTime()) {
+      throw new ValidationError('expiresAt must be in the future', 'expiresAt', expiresAt);
+    }
+  } else {
+    return undefined;
+  }
+
+  if (runAt.getTime() - now.getTime() > MAX_EXPIRY_MS) {
+    throw new ValidationError('Expiry cannot be more than 30 days away', expiresIn !== undefined ? 'expiresIn' : 'expiresAt');
+  }
+
+  return runAt;
+}
+
+/**
+ * Store the undo job for a change that has already been applied. If the job
+ * cannot be stored the change is rolled back, so a "temporary" hole is never
+ * left open indefinitely.
+ */
+export async function scheduleExpiry(job: NewJob, rollback: () => Promise<unknown>): Promise<ScheduledJob> {
+  try {
+    return await jobStore.add(job);
+  } catch (error) {
+    logger.error('Failed to schedule expiry, rolling back change', error, { targetId: job.targetId });
+
+    let rolledBack = true;
+    try {
+      await rollback();
+    } catch (rollbackError) {
+      rolledBack = false;
+      logger.error('Rollback after failed expiry scheduling failed', rollbackError, { targetId: job.targetId });
+    }
+
+    throw new UniFiMCPError(
+      `Could not schedule expiry for '${job.targetName}': ${(error as Error).message}. ` +
+        (rolledBack ? 'The change was rolled back.' : 'The change could NOT be rolled back and is still in place.'),
+      ErrorCode.JOB_SCHEDULE_FAILED,
+      500,
+      { targetId: job.targetId, rolledBack }
+    );
+  }
+}
+
+/**
+ * Summarize a job for tool output
+ */
+export function describeJob(job: ScheduledJob, now: Date = new Date()) {
+  const remaining = Date.parse(job.nextAttemptAt ?? job.runAt) - now.getTime();
+
+  return {
+    jobId: job.id,
+    type: job.type,
+    targetId: job.targetId,
+    targetName: job.targetName,
+    description: job.description,
+    runAt: job.runAt,
+    status: job.status,
+    ...(job.status === 'pending' && { dueIn: remaining > 0 ? formatDuration(remaining) : 'overdue' }),
+    ...(job.status === 'pending' && job.nextAttemptAt && { retrying: true, nextAttemptAt: job.nextAttemptAt }),
+    ...(job.status === 'failed' && { stillInPlace: true }),
+    attempts: job.attempts,
+    ...(job.lastError && { lastError: job.lastError }),
+    ...(job.result && { result: job.result }),
+    ...(job.finishedAt && { finishedAt: job.finishedAt })
+  };
+}
+
+// ================================
+// Job Handlers
+// ================================
+
+/**
+ * Handlers that undo temporary firewall changes. A target that no longer
+ * exists, or is already in the desired state, counts as done.
+ */
+export function createExpiryHandlers(client: UniFiClient): Record<string, JobHandler> {
+  const findRule = async (id: string) => (await fetchRawFirewallRules(client)).find(rule => rule._id === id);
+  const findPolicy = async (id: string) => (await fetchRawZonePolicies(client)).find(policy => policy._id === id);
+
+  return {
+    [EXPIRY_JOB_TYPES.DELETE_RULE]: async (job) => {
+      if (!(await findRule(job.targetId))) {
+        return `Firewall rule '${job.targetName}' was already removed`;
+      }
+
+      const response = await client.delete(UNIFI_ENDPOINTS.FIREWALL_RULE_DETAILS.replace('{id}', job.targetId));
+      if (response.meta.rc !== 'ok') {
+        throw new UniFiMCPError(`Failed to delete firewall rule: ${response.meta.msg}`, ErrorCode.RULE_DELETION_FAILED);
+      }
+      return `Firewall rule '${job.targetName}' deleted`;
+    },
+
+    [EXPIRY_JOB_TYPES.SET_RULE_ENABLED]: async (job) => {
+      const enabled = job.payload.enabled === true;
+      const rule = await findRule(job.targetId);
+      if (!rule) {
+        return `Firewall rule '${job.targetName}' no longer exists`;
+      }
+      if ((rule.enabled !== false) === enabled) {
+        return `Firewall rule '${job.targetName}' was already ${enabled ? 'enabled' : 'disabled'}`;
+      }
+
+      await client.put(UNIFI_ENDPOINTS.FIREWALL_RULE_DETAILS.replace('{id}', job.targetId), { ...rule, enabled });
+      return `Firewall rule '${job.targetName}' ${enabled ? 'enabled' : 'disabled'}`;
+    },
+
+    [EXPIRY_JOB_TYPES.DELETE_ZONE_POLICY]: async (job) => {
+      if (!(await findPolicy(job.targetId))) {
+        return `Zone policy '${job.targetName}' was already removed`;
+      }
+
+      const response = await client.delete(UNIFI_ENDPOINTS.FIREWALL_ZONE_POLICY_DETAILS.replace('{id}', job.targetId));
+      if (response.meta.rc !== 'ok') {
+        throw new UniFiMCPError(`Failed to delete zone policy: ${response.meta.msg}`, ErrorCode.ZONE_POLICY_DELETION_FAILED);
+      }
+      return `Zone policy '${job.targetName}' deleted`;
+    },
+
+    [EXPIRY_JOB_TYPES.SET_ZONE_POLICY_ENABLED]: async (job) => {
+      const enabled = job.payload.enabled === true;
+      const policy = await findPolicy(job.targetId);
+      if (!policy) {
+        return `Zone policy '${job.targetName}' no longer exists`;
+      }
+      if ((policy.enabled !== false) === enabled) {
+        return `Zone policy '${job.targetName}' was already ${enabled ? 'enabled' : 'disabled'}`;
+      }
+
+      await client.put(UNIFI_ENDPOINTS.FIREWALL_ZONE_POLICY_DETAILS.replace('{id}', job.targetId), { ...policy, enabled });
+      return `Zone policy '${job.targetName}' ${enabled ? 'enabled' : 'disabled'}`;
+    }
+  };
+}
+
+// ================================
+// Get Firewall Expirations Tool
+// ================================
+
+const getFirewallExpirationsTool: MCPTool = {
+  name: 'unifi_get_firewall_expirations',
+  description: 'List scheduled expirations of temporary firewall rules and zone policies',
+  category: ToolCategory.AUTOMATION,
+  requiresConnection: false,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      status: {
+        type: 'string',
+        enum: ['pending', 'running', 'completed', 'failed', 'cancelled', 'all'],
+        description: 'Only list jobs in this state',
+        default: 'pending'
+      }
+    },
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const status = params.status ?? 'pending';
+      const jobTypes: string[] = Object.values(EXPIRY_JOB_TYPES);
+
+      const expiryJobs = (await jobStore.list()).filter(job => jobTypes.includes(job.type));
+      const jobs = expiryJobs
+        .filter(job => status === 'all' || job.status === status)
+        .sort((a, b) => Date.parse(a.runAt) - Date.parse(b.runAt));
+
+      // Failed expirations are reported whatever the filter: the change
+      // they should have undone is still in place
+      const failed = expiryJobs.filter(job => job.status === 'failed');
+      const retrying = expiryJobs.filter(job => job.status === 'pending' && job.nextAttemptAt);
+
+      return {
+        success: true,
+        data: {
+          expirations: jobs.map(job => describeJob(job)),
+          count: jobs.length,
+          failedCount: failed.length
+        },
+        warnings: [
+          ...failed.map(job =>
+            `Expiration of '${job.targetName}' failed permanently after ${job.attempts} attempts ` +
+            `(${job.lastError ?? 'unknown error'}); the change is still in place and must be undone manually`
+          ),
+          ...retrying.map(job => `Expiration of '${job.targetName}' is being retried: ${job.lastError ?? 'unknown error'}`)
+        ],
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to list firewall expirations', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'FIREWALL_EXPIRATION_FETCH_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Cancel Firewall Expiration Tool
+// ================================
+
+const cancelFirewallExpirationTool: MCPTool = {
+  name: 'unifi_cancel_firewall_expiration',
+  description: 'Cancel a pending expiration so the temporary firewall change stays in place',
+  category: ToolCategory.AUTOMATION,
+  requiresConnection: false,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      jobId: {
+        type: 'string',
+        description: 'Expiration job ID from unifi_get_firewall_expirations',
+        minLength: 1
+      }
+    },
+    required: ['jobId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const { jobId } = params;
+
+      logger.info('Cancelling firewall expiration', { jobId });
+
+      const job = await jobStore.cancel(jobId);
+
+      return {
+        success: true,
+        data: {
+          expiration: describeJob(job),
+          message: `Expiration of '${job.targetName}' cancelled`
+        },
+        warnings: [
+          `'${job.targetName}' will now stay as it is until changed manually`
+        ],
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to cancel firewall expiration', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'FIREWALL_EXPIRATION_CANCEL_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+export {
+  getFirewallExpirationsTool,
+  cancelFirewallExpirationTool
+};
@@ -0,0 +1,520 @@
+import { Socket } from 'net';
+import { MCPTool, ToolResult, ErrorCode, FeatureCapabilities } from '../../server/types.js';
+import { UniFiClient } from '../../unifi/client.js';
+import { VersionDetector } from '../../unifi/versionDetector.js';
+import { ValidationService } from '../../utils/validators.js';
+import { createToolLogger } from '../../utils/logger.js';
+import { UniFiMCPError } from '../../utils/errors.js';
+import { sleep, timeout } from '../../utils/helpers.js';
+import { UNIFI_ENDPOINTS } from '../../config/constants.js';
+import { planMoveSequence, RulePosition } from './reorder.js';
+
+/**
+ * Anti-Lockout Guard
+ *
+ * Optional guarded mode for mutating firewall tools. The affected firewall
+ * objects are snapshotted before the change; afterwards the controller
+ * health check and an optional TCP probe are repeated for a grace window,
+ * and the snapshot is restored as soon as either stops answering.
+ */
+
+const logger = createToolLogger('firewall-guard');
+
+const CHECK_INTERVAL_MS = 5000;
+const CHECK_TIMEOUT_MS = 10000;
+const ROLLBACK_ATTEMPTS = 3;
+
+export type GuardCollection = 'groups' | 'zones' | 'rules' | 'policies' | 'appBlocks';
+
+const COLLECTIONS: Record<GuardCollection, {
+  label: string;
+  list: string;
+  details: string;
+  requires?: keyof Pick<FeatureCapabilities, 'supportsLegacyFirewall' | 'supportsZBF'>;
+}> = {
+  groups: { label: 'Firewall group', list: UNIFI_ENDPOINTS.FIREWALL_GROUPS, details: UNIFI_ENDPOINTS.IP_GROUP_DETAILS },
+  zones: {
+    label: 'Zone',
+    list: UNIFI_ENDPOINTS.FIREWALL_ZONES,
+    details: UNIFI_ENDPOINTS.FIREWALL_ZONE_DETAILS,
+    requires: 'supportsZBF'
+  },
+  rules: {
+    label: 'Firewall rule',
+    list: UNIFI_ENDPOINTS.FIREWALL_RULES,
+    details: UNIFI_ENDPOINTS.FIREWALL_RULE_DETAILS,
+    requires: 'supportsLegacyFirewall'
+  },
+  policies: {
+    label: 'Zone policy',
+    list: UNIFI_ENDPOINTS.FIREWALL_ZONE_POLICIES,
+    details: UNIFI_ENDPOINTS.FIREWALL_ZONE_POLICY_DETAILS,
+    requires: 'supportsZBF'
+  },
+  appBlocks: {
+    label: 'App block',
+    list: UNIFI_ENDPOINTS.SIMPLE_APP_BLOCK,
+    details: UNIFI_ENDPOINTS.SIMPLE_APP_BLOCK_DETAILS,
+    requires: 'supportsZBF'
+  }
+};
+
+// Objects referenced by others are created first and deleted last
+const PROVIDERS: GuardCollection[] = ['groups', 'zones'];
+const DEPENDENTS: GuardCollection[] = ['rules', 'policies', 'appBlocks'];
+
+/**
+ * Firewall objects each mutating tool can change
+ */
+export const GUARDED_TOOLS: Record<string, GuardCollection[]> = {
+  unifi_create_firewall_rule: ['rules'],
+  unifi_update_firewall_rule: ['rules'],
+  unifi_delete_firewall_rule: ['rules'],
+  unifi_toggle_firewall_rule: ['rules'],
+  unifi_reorder_firewall_rules: ['rules'],
+  unifi_create_zone: ['zones', 'policies'],
+  unifi_update_zone: ['zones'],
+  unifi_delete_zone: ['zones', 'policies'],
+  unifi_move_network_to_zone: ['zones'],
+  unifi_create_zone_policy: ['policies'],
+  unifi_update_zone_policy: ['policies'],
+  unifi_reorder_zone_policies: ['policies'],
+  unifi_toggle_zone_policy: ['policies'],
+  unifi_delete_zone_policy: ['policies'],
+  unifi_plan_zbf_migration: ['groups', 'rules', 'policies'],
+  unifi_block_app_in_zone: ['appBlocks'],
+  unifi_update_app_block: ['appBlocks'],
+  unifi_delete_app_block: ['appBlocks'],
+  unifi_create_ip_group: ['groups'],
+  unifi_update_ip_group: ['groups'],
+  unifi_delete_ip_group: ['groups'],
+  unifi_add_to_ip_group: ['groups'],
+  unifi_remove_from_ip_group: ['groups'],
+  unifi_apply_firewall_document: ['groups', 'rules', 'policies'],
+  unifi_apply_firewall_template: ['groups', 'rules', 'policies']
+};
+
+export const guardInputSchema = {
+  type: 'object',
+  description: 'Anti-lockout mode: after the change, keep checking the controller (and the probe) for graceSeconds and revert automatically if either becomes unreachable',
+  properties: {
+    graceSeconds: {
+      type: 'number',
+      description: 'How long to keep checking after the change',
+      minimum: 5,
+      maximum: 300,
+      default: 30
+    },
+    probe: {
+      type: 'object',
+      description: 'TCP endpoint that must stay reachable from this server, e.g. the SSH or VPN port used for remote access',
+      properties: {
+        host: { type: 'string' },
+        port: { type: 'number', minimum: 1, maximum: 65535 }
+      },
+      required: ['host', 'port'],
+      additionalProperties: false
+    }
+  },
+  additionalProperties: false
+};
+
+export type FirewallSnapshot = Partial<Record<GuardCollection, any[]>>;
+
+export interface RevertStep {
+  action: 'delete' | 'create' | 'update' | 'move';
+  collection: GuardCollection;
+  id: string;
+  name: string;
+  body?: Record<string, any>;
+}
+
+export interface GuardCheck {
+  at: string;
+  controller: boolean;
+  probe?: boolean;
+  error?: string;
+}
+
+// ================================
+// Snapshot and Revert Planning
+// ================================
+
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export async function captureSnapshot(client: UniFiClient, collections: GuardCollection[]): Promise<FirewallSnapshot> {
+  const entries = await Promise.all(collections.map(async collection => {
+    const response = await client.get(COLLECTIONS[collection].list);
+    if (!response.data || !Array.isArray(response.data)) {
+      throw new UniFiMCPError(`Invalid ${COLLECTIONS[collection].label.toLowerCase()} data received`, ErrorCode.INVALID_DATA);
+    }
+    return [collection, response.data] as const;
+  }));
+
+  return Object.fromEntries(entries);
+}
+
+/**
+ * Plan the requests that turn the "after" snapshot back into "before".
+ * Created dependents are removed first so indexes and references are free,
+ * deleted providers are recreated before anything that references them,
+ * legacy rule indexes are moved without collisions, and created providers
+ * are removed last.
+ */
+export function planRevert(before: FirewallSnapshot, after: FirewallSnapshot): RevertStep[] {
+  const created = (collection: GuardCollection): RevertStep[] => {
+    const beforeIds = new Set((before[collection] ?? []).map(o => o._id));
+    return (after[collection] ?? [])
+      .filter(o => !beforeIds.has(o._id))
+      .map(o => ({ action: 'delete', collection, id: o._id, name: o.name ?? o._id }));
+  };
+  const deleted = (collection: GuardCollection): RevertStep[] => {
+    const afterIds = new Set((after[collection] ?? []).map(o => o._id));
+    return (before[collection] ?? [])
+      .filter(o => !afterIds.has(o._id))
+      .map(o => {
+        const { _id, ...body } = o;
+        return { action: 'create', collection, id: _id, name: o.name ?? _id, body };
+      });
+  };
+  const modified = (collection: GuardCollection) => {
+    const afterById = new Map((after[collection] ?? []).map(o => [o._id, o]));
+    return (before[collection] ?? []).flatMap(o => {
+      const current = afterById.get(o._id);
+      return current && stableStringify(current) !== stableStringify(o) ? [{ before: o, after: current }] : [];
+    });
+  };
+
+  const moves: RevertStep[] = [];
+  const changedRules = modified('rules');
+  const ruleSets = new Set(changedRules.map(change => change.before.ruleset));
+  for (const ruleSet of ruleSets) {
+    const createdIds = new Set(created('rules').map(step => step.id));
+    const current: RulePosition[] = (after.rules ?? [])
+      .filter(rule => rule.ruleset === ruleSet && !createdIds.has(rule._id))
+      .map(rule => ({ id: rule._id, name: rule.name ?? rule._id, ruleIndex: rule.rule_index }));
+    const restored = changedRules
+      .filter(change => change.before.ruleset === ruleSet && change.before.rule_index !== change.after.rule_index);
+    const targets = new Map([
+      ...current.map(rule => [rule.id, rule.ruleIndex] as const),
+      ...restored.map(change => [change.before._id as string, change.before.rule_index as number] as const)
+    ]);
+
+    if (restored.length > 0) {
+      const afterById = new Map((after.rules ?? []).map(rule => [rule._id, rule]));
+      for (const move of planMoveSequence(current, targets)) {
+        moves.push({
+          action: 'move',
+          collection: 'rules',
+          id: move.id,
+          name: move.name,
+          body: { ...afterById.get(move.id), rule_index: move.to }
+        });
+      }
+    }
+  }
+
+  const updates = [...PROVIDERS, ...DEPENDENTS].flatMap(collection =>
+    modified(collection).map((change): RevertStep => ({
+      action: 'update',
+      collection,
+      id: change.before._id,
+      name: change.before.name ?? change.before._id,
+      body: change.before
+    }))
+  );
+
+  return [
+    ...[...DEPENDENTS].reverse().flatMap(created),
+    ...PROVIDERS.flatMap(deleted),
+    ...moves,
+    ...updates,
+    ...DEPENDENTS.flatMap(deleted),
+    ...[...PROVIDERS].reverse().flatMap(created)
+  ];
+}
+
+/**
+ * Replace references to recreated objects with their new IDs
+ */
+function remapIds(body: Record<string, any>, idMap: Map<string, string>): Record<string, any> {
+  let json = JSON.stringify(body);
+  for (const [oldId, newId] of idMap) {
+    json = json.split(JSON.stringify(oldId)).join(JSON.stringify(newId));
+  }
+  return JSON.parse(json);
+}
+
+/**
+ * Apply revert steps in order, stopping at the first failure. Returns the
+ * number of steps applied so a later attempt can resume.
+ */
+export async function applyRevert(
+  client: UniFiClient,
+  steps: RevertStep[],
+  idMap: Map<string, string> = new Map(),
+  startAt = 0
+): Promise<number> {
+  for (let index = startAt; index < steps.length; index++) {
+    const step = steps[index];
+    const endpoints = COLLECTIONS[step.collection];
+    const details = endpoints.details.replace('{id}', idMap.get(step.id) ?? step.id);
+    const body = step.body && remapIds(step.body, idMap);
+
+    if (step.action === 'delete') {
+      const response = await client.delete(details);
+      if (response.meta.rc !== 'ok') {
+        throw new UniFiMCPError(`Failed to delete ${endpoints.label.toLowerCase()} '${step.name}': ${response.meta.msg}`, ErrorCode.LOCKOUT_GUARD_ROLLBACK_FAILED);
+      }
+    } else if (step.action === 'create') {
+      const response = await client.post(endpoints.list, body);
+      if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+        throw new UniFiMCPError(`Failed to recreate ${endpoints.label.toLowerCase()} '${step.name}'`, ErrorCode.LOCKOUT_GUARD_ROLLBACK_FAILED);
+      }
+      idMap.set(step.id, (response.data[0] as any)._id);
+    } else {
+      await client.put(details, body);
+    }
+  }
+
+  return steps.length;
+}
+
+// ================================
+// Reachability Checks
+// ================================
+
+function probeTcp(host: string, port: number, timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = new Socket();
+    const finish = (error?: Error) => {
+      socket.destroy();
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+
+    socket.setTimeout(timeoutMs);
+    socket.once('connect', () => finish());
+    socket.once('timeout', () => finish(new Error(`Probe ${host}:${port} timed out`)));
+    socket.once('error', error => finish(new Error(`Probe ${host}:${port} failed: ${error.message}`)));
+    socket.connect(port, host);
+  });
+}
+
+export async function runGuardCheck(
+  client: UniFiClient,
+  probe?: { host: string; port: number } | undefined
+): Promise<GuardCheck> {
+  const check: GuardCheck = { at: new Date().toISOString(), controller: false };
+  const problems: string[] = [];
+
+  try {
+    const health = await timeout(client.healthCheck(), CHECK_TIMEOUT_MS);
+    check.controller = health.status === 'healthy';
+    if (!check.controller) {
+      problems.push('Controller health check failed');
+    }
+  } catch (error) {
+    problems.push(`Controller health check failed: ${(error as Error).message}`);
+  }
+
+  if (probe) {
+    try {
+      await probeTcp(probe.host, probe.port, CHECK_TIMEOUT_MS);
+      check.probe = true;
+    } catch (error) {
+      check.probe = false;
+      problems.push((error as Error).message);
+    }
+  }
+
+  if (problems.length > 0) {
+    check.error = problems.join('; ');
+  }
+  return check;
+}
+
+const passed = (check: GuardCheck) => check.controller && check.probe !== false;
+
+// ================================
+// Guarded Execution
+// ================================
+
+async function runGuarded(
+  tool: MCPTool,
+  params: any,
+  guardParams: unknown,
+  collections: GuardCollection[]
+): Promise<ToolResult> {
+  const client = params._client as UniFiClient;
+  const versionDetector = params._versionDetector as VersionDetector;
+  const { graceSeconds, probe } = await ValidationService.validateLockoutGuardParams(guardParams);
+
+  const capabilities = await versionDetector.detectCapabilities();
+  const active = collections.filter(collection => {
+    const requires = COLLECTIONS[collection].requires;
+    return !requires || capabilities[requires];
+  });
+
+  // Without a working baseline a lockout could not be told apart
+  const baseline = await runGuardCheck(client, probe);
+  if (!passed(baseline)) {
+    throw new UniFiMCPError(
+      `Guard checks fail before the change, refusing to apply it: ${baseline.error}`,
+      ErrorCode.LOCKOUT_GUARD_PRECHECK_FAILED,
+      409,
+      { check: baseline }
+    );
+  }
+
+  const before = await captureSnapshot(client, active);
+  const result = await tool.handler(params);
+
+  let steps: RevertStep[] | undefined;
+  try {
+    steps = planRevert(before, await captureSnapshot(client, active));
+  } catch (error) {
+    logger.warn('Could not snapshot firewall state after the change', { tool: tool.name, error: (error as Error).message });
+  }
+
+  const withGuard = (guard: Record<string, any>): ToolResult => ({
+    ...result,
+    data: { ...(result.data ?? {}), guard }
+  });
+
+  if (steps && steps.length === 0) {
+    return withGuard({ outcome: 'unchanged', message: 'No firewall objects changed, nothing to guard' });
+  }
+
+  logger.info('Guarding firewall change', { tool: tool.name, graceSeconds, probe, changes: steps?.length });
+
+  const checks: GuardCheck[] = [];
+  const deadline = Date.now() + graceSeconds * 1000;
+  let failure: GuardCheck | undefined;
+  while (!failure && Date.now() < deadline) {
+    await sleep(Math.min(CHECK_INTERVAL_MS, Math.max(deadline - Date.now(), 0)));
+    const check = await runGuardCheck(client, probe);
+    checks.push(check);
+    if (!passed(check)) {
+      failure = check;
+    }
+  }
+
+  if (!failure) {
+    return withGuard({
+      outcome: 'kept',
+      graceSeconds,
+      checks: checks.length,
+      message: `Controller${probe ? ` and ${probe.host}:${probe.port}` : ''} stayed reachable for ${graceSeconds}s, change kept`
+    });
+  }
+
+  logger.warn('Guard check failed, rolling back firewall change', { tool: tool.name, error: failure.error });
+
+  const idMap = new Map<string, string>();
+  let applied = 0;
+  let rollbackError: Error | undefined;
+  for (let attempt = 1; attempt <= ROLLBACK_ATTEMPTS; attempt++) {
+    try {
+      steps ??= planRevert(before, await captureSnapshot(client, active));
+      applied = await applyRevert(client, steps, idMap, applied);
+      rollbackError = undefined;
+      break;
+    } catch (error) {
+      rollbackError = error as Error;
+      logger.error(`Rollback attempt ${attempt} failed`, error, { tool: tool.name });
+      if (attempt < ROLLBACK_ATTEMPTS) {
+        await sleep(CHECK_INTERVAL_MS);
+      }
+    }
+  }
+
+  const guard = {
+    outcome: rollbackError ? 'rollback-failed' : 'rolled-back',
+    failedCheck: failure,
+    checks,
+    reverted: (steps ?? []).slice(0, applied).map(({ action, collection, name }) => ({ action, collection, name })),
+    ...(rollbackError && {
+      notReverted: (steps ?? []).slice(applied).map(({ action, collection, name }) => ({ action, collection, name })),
+      rollbackError: rollbackError.message
+    }),
+    originalResult: result.data
+  };
+
+  return {
+    success: false,
+    error: rollbackError
+      ? {
+        code: ErrorCode.LOCKOUT_GUARD_ROLLBACK_FAILED,
+        message: `Guard check failed (${failure.error}) and the change could not be fully rolled back: ${rollbackError.message}`,
+        details: guard
+      }
+      : {
+        code: ErrorCode.LOCKOUT_GUARD_ROLLED_BACK,
+        message: `Guard check failed (${failure.error}); the change was rolled back`,
+        details: guard
+      },
+    metadata: {
+      executionTime: 0,
+      timestamp: new Date()
+    }
+  };
+}
+
+/**
+ * Add the optional `guard` parameter to a mutating firewall tool. Tools
+ * that are not listed in GUARDED_TOOLS are returned unchanged.
+ */
+export function withLockoutGuard(tool: MCPTool): MCPTool {
+  const collections = GUARDED_TOOLS[tool.name];
+  if (!collections) {
+    return tool;
+  }
+
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        guard: guardInputSchema
+      }
+    },
+    handler: async (params: any): Promise<ToolResult> => {
+      if (params.guard === undefined) {
+        return tool.handler(params);
+      }
+
+      const { guard, ...toolParams } = params;
+      try {
+        return await runGuarded(tool, toolParams, guard, collections);
+      } catch (error) {
+        logger.error('Guarded firewall change failed', error);
+
+        return {
+          success: false,
+          error: {
+            code: error instanceof UniFiMCPError ? error.code : 'LOCKOUT_GUARD_ERROR',
+            message: (error as Error).message,
+            details: error instanceof UniFiMCPError ? error.details : undefined
+          },
+          metadata: {
+            executionTime: 0,
+            timestamp: new Date()
+          }
+        };
+      }
+    }
+  };
+}
@@ -7,6 +7,15 @@ import { CreateFirewallRuleParamsSchema } from '../../utils/validators.js';
 import { createToolLogger } from '../../utils/logger.js';
 import { UniFiMCPError, ResourceNotFoundError } from '../../utils/errors.js';
 import { UNIFI_ENDPOINTS } from '../../config/constants.js';
+import { reorderFirewallRulesTool } from './reorder.js';
+import { withLockoutGuard } from './guard.js';
+import {
+  EXPIRY_JOB_TYPES,
+  expiryInputProperties,
+  resolveExpiry,
+  scheduleExpiry,
+  describeJob
+} from './expiry.js';
 
 /**
  * Legacy Firewall Management Tools
@@ -237,7 +246,8 @@ const createFirewallRuleTool: MCPTool = {
         type: 'string',
         description: 'Rule description',
         maxLength: 255
-      }
+      },
+      ...expiryInputProperties
     },
     required: ['name', 'action', 'protocol', 'source', 'destination'],
     additionalProperties: false
@@ -252,11 +262,13 @@ const createFirewallRuleTool: MCPTool = {
       
       // Validate parameters using Zod schema directly
       const validatedParams = await CreateFirewallRuleParamsSchema.parseAsync(params);
+      const expiresAt = resolveExpiry(params);
       
       logger.info('Creating legacy firewall rule', {
         name: validatedParams.name,
         action: validatedParams.action,
-        protocol: validatedParams.protocol
+        protocol: validatedParams.protocol,
+        ...(expiresAt && { expiresAt: expiresAt.toISOString() })
       });
 
       // Prepare rule data for UniFi API
@@ -296,13 +308,27 @@ const createFirewallRuleTool: MCPTool = {
       }
 
       const createdRule = response.data[0];
+      const createdId = (createdRule as any)._id ?? createdRule.id;
+
+      const expiry = expiresAt && await scheduleExpiry(
+        {
+          type: EXPIRY_JOB_TYPES.DELETE_RULE,
+          targetId: createdId,
+          targetName: validatedParams.name,
+          description: `Delete temporary firewall rule '${validatedParams.name}'`,
+          runAt: expiresAt.toISOString()
+        },
+        () => client.delete(UNIFI_ENDPOINTS.FIREWALL_RULE_DETAILS.replace('{id}', createdId))
+      );
 
       return {
         success: true,
         data: {
           rule: createdRule,
           ruleId: createdRule.id,
-          message: `Firewall rule '${validatedParams.name}' created successfully`
+          ...(expiry && { expiration: describeJob(expiry) }),
+          message: `Firewall rule '${validatedParams.name}' created successfully` +
+            (expiry ? `; it will be deleted at ${expiry.runAt}` : '')
         },
         warnings: [
           'Legacy firewall rules are deprecated in UniFi 9.0+',
@@ -607,7 +633,8 @@ const toggleFirewallRuleTool: MCPTool = {
       enabled: {
         type: 'boolean',
         description: 'Enable (true) or disable (false) the rule'
-      }
+      },
+      ...expiryInputProperties
     },
     required: ['ruleId', 'enabled'],
     additionalProperties: false
@@ -617,11 +644,12 @@ const toggleFirewallRuleTool: MCPTool = {
       const client = params._client as UniFiClient;
       const versionDetector = params._versionDetector as VersionDetector;
       const { ruleId, enabled } = params;
+      const expiresAt = resolveExpiry(params);
       
       // Check if legacy firewall is supported
       await versionDetector.validateFeature('legacy-firewall');
       
-      logger.info('Toggling legacy firewall rule', { ruleId, enabled });
+      logger.info('Toggling legacy firewall rule', { ruleId, enabled, ...(expiresAt && { expiresAt: expiresAt.toISOString() }) });
 
       // Get existing rule first
       const existingResponse = await client.get<FirewallRule>(`${UNIFI_ENDPOINTS.FIREWALL_RULE_DETAILS.replace('{id}', ruleId)}`);
@@ -646,6 +674,19 @@ const toggleFirewallRuleTool: MCPTool = {
       }
 
       const updatedRule = response.data[0];
+      const previousState = existingRule.enabled !== false;
+
+      const expiry = expiresAt && await scheduleExpiry(
+        {
+          type: EXPIRY_JOB_TYPES.SET_RULE_ENABLED,
+          targetId: ruleId,
+          targetName: existingRule.name,
+          description: `${previousState ? 'Re-enable' : 'Disable'} firewall rule '${existingRule.name}'`,
+          payload: { enabled: previousState },
+          runAt: expiresAt.toISOString()
+        },
+        () => client.put(UNIFI_ENDPOINTS.FIREWALL_RULE_DETAILS.replace('{id}', ruleId), existingRule)
+      );
 
       return {
         success: true,
@@ -659,7 +700,9 @@ const toggleFirewallRuleTool: MCPTool = {
           },
           previousState: existingRule.enabled,
           newState: enabled,
-          message: `Firewall rule '${updatedRule.name}' ${enabled ? 'enabled' : 'disabled'} successfully`
+          ...(expiry && { expiration: describeJob(expiry) }),
+          message: `Firewall rule '${updatedRule.name}' ${enabled ? 'enabled' : 'disabled'} successfully` +
+            (expiry ? `; it will be ${previousState ? 'enabled' : 'disabled'} again at ${expiry.runAt}` : '')
         },
         metadata: {
           executionTime: 0,
@@ -695,14 +738,15 @@ export async function registerLegacyFirewallTools(
   client: UniFiClient,
   versionDetector: VersionDetector
 ): Promise<void> {
-  // Add client and version detector to tools for access
+  // Add the anti-lockout guard option, then client and version detector for access
   const enhancedTools = [
     getFirewallRulesTool,
     createFirewallRuleTool,
     updateFirewallRuleTool,
     deleteFirewallRuleTool,
-    toggleFirewallRuleTool
-  ].map(tool => ({
+    toggleFirewallRuleTool,
+    reorderFirewallRulesTool
+  ].map(withLockoutGuard).map(tool => ({
     ...tool,
     handler: async (params: any) => {
       // Inject dependencies
@@ -0,0 +1,367 @@
+import { ErrorCode } from '../../server/types.js';
+import { UniFiClient } from '../../unifi/client.js';
+import {
+  DetailedFirewallRule,
+  DetailedNetwork,
+  FirewallAction,
+  FirewallZone,
+  NetworkPurpose,
+  Protocol,
+  ZonePolicy,
+  ZonePolicyEndpoint,
+  ZonePolicySchedule
+} from '../../unifi/types.js';
+import { UniFiMCPError, ResourceNotFoundError } from '../../utils/errors.js';
+import { UNIFI_ENDPOINTS, PREDEFINED_ZONES, ZONE_DESCRIPTIONS } from '../../config/constants.js';
+
+/**
+ * Zone-Based Firewall Data Mapping
+ *
+ * Shared helpers for converting raw firewallzone, firewallzonepolicy and
+ * legacy firewallrule records and resolving zones by ID, name or
+ * predefined key, used by the firewall tools.
+ */
+
+const PREDEFINED_ZONE_KEYS: readonly string[] = Object.values(PREDEFINED_ZONES);
+
+/**
+ * Check whether a raw zone record is one of the predefined zones
+ */
+export function isPredefinedZone(raw: any): boolean {
+  return PREDEFINED_ZONE_KEYS.includes(raw.zone_key) || raw.attr_no_delete === true;
+}
+
+/**
+ * Name the interface a network is bound to on the gateway
+ */
+export function interfaceForNetwork(network: DetailedNetwork): string {
+  if (network.purpose === NetworkPurpose.WAN) {
+    return (network.wanNetworkgroup || 'WAN').toLowerCase();
+  }
+  if (network.purpose === NetworkPurpose.VPN) {
+    return `vpn-${network.vpnType || 'client'}`;
+  }
+  return network.vlanId ? `br${network.vlanId}` : 'br0';
+}
+
+/**
+ * Convert a raw firewallzone record into a FirewallZone
+ */
+export function mapFirewallZone(raw: any, networks: DetailedNetwork[] = []): FirewallZone {
+  const networkIds: string[] = Array.isArray(raw.network_ids) ? raw.network_ids : [];
+  const members = networkIds
+    .map(id => networks.find(n => n.id === id))
+    .filter((network): network is DetailedNetwork => network !== undefined);
+  const predefined = isPredefinedZone(raw);
+  const description = raw.description ||
+    (predefined ? ZONE_DESCRIPTIONS[raw.zone_key as keyof typeof ZONE_DESCRIPTIONS] : undefined);
+
+  return {
+    id: raw._id,
+    name: raw.name,
+    ...(raw.zone_key && { key: raw.zone_key }),
+    ...(description && { description }),
+    predefined,
+    networks: networkIds,
+    interfaces: Array.isArray(raw.interfaces) && raw.interfaces.length > 0
+      ? raw.interfaces
+      : Array.from(new Set(members.map(interfaceForNetwork))),
+    enabled: raw.enabled !== false,
+    localUser: raw.zone_key === PREDEFINED_ZONES.GATEWAY
+  };
+}
+
+/**
+ * Fetch every raw firewallzone record
+ */
+export async function fetchRawZones(client: UniFiClient): Promise<any[]> {
+  const response = await client.get(UNIFI_ENDPOINTS.FIREWALL_ZONES);
+
+  if (!response.data || !Array.isArray(response.data)) {
+    throw new UniFiMCPError('Invalid firewall zone data received', ErrorCode.INVALID_DATA);
+  }
+
+  return response.data;
+}
+
+/**
+ * Resolve a raw zone by ID, name or predefined key (case-insensitive)
+ */
+export function findRawZone(rawZones: any[], zoneRef: string): any {
+  const ref = zoneRef.toLowerCase();
+  const raw = rawZones.find(zone => zone._id === zoneRef) ??
+    rawZones.find(zone => String(zone.name).toLowerCase() === ref) ??
+    rawZones.find(zone => String(zone.zone_key ?? '').toLowerCase() === ref);
+
+  if (!raw) {
+    throw new ResourceNotFoundError('Firewall zone', zoneRef);
+  }
+
+  return raw;
+}
+
+/**
+ * Explain why a network cannot be a member of a zone, or return null
+ * when the membership is valid
+ */
+export function checkZoneMembership(zone: any, network: DetailedNetwork): string | null {
+  if (zone.zone_key === PREDEFINED_ZONES.GATEWAY) {
+    return `The gateway zone represents the gateway itself and cannot contain network '${network.name}'`;
+  }
+  if (network.purpose === NetworkPurpose.WAN && zone.zone_key !== PREDEFINED_ZONES.EXTERNAL) {
+    return `WAN network '${network.name}' can only belong to the external zone`;
+  }
+  if (network.purpose !== NetworkPurpose.WAN && zone.zone_key === PREDEFINED_ZONES.EXTERNAL) {
+    return `Only WAN networks can belong to the external zone, not '${network.name}'`;
+  }
+  return null;
+}
+
+/**
+ * Check whether a raw zone policy uses a zone as its source or destination
+ */
+export function policyReferencesZone(rawPolicy: any, zoneId: string): boolean {
+  return rawPolicy.source?.zone_id === zoneId || rawPolicy.destination?.zone_id === zoneId;
+}
+
+// ================================
+// Zone Policies
+// ================================
+
+const RAW_ACTIONS: Record<string, FirewallAction> = {
+  ALLOW: FirewallAction.ALLOW,
+  BLOCK: FirewallAction.DENY,
+  REJECT: FirewallAction.REJECT
+};
+
+const DAY_CODES: Record<string, string> = {
+  monday: 'mon',
+  tuesday: 'tue',
+  wednesday: 'wed',
+  thursday: 'thu',
+  friday: 'fri',
+  saturday: 'sat',
+  sunday: 'sun'
+};
+
+/**
+ * Convert a raw policy endpoint (source or destination) into a ZonePolicyEndpoint
+ */
+function endpointFromRaw(raw: any): ZonePolicyEndpoint | undefined {
+  if (!raw) return undefined;
+
+  const endpoint: ZonePolicyEndpoint = {
+    ...(raw.matching_target_type === 'OBJECT' && raw.ip_group_id && { ipGroupId: raw.ip_group_id }),
+    ...(raw.matching_target === 'IP' && raw.matching_target_type !== 'OBJECT' &&
+      Array.isArray(raw.ips) && raw.ips.length > 0 && { ips: raw.ips }),
+    ...(raw.matching_target === 'NETWORK' && Array.isArray(raw.network_ids) && { networkIds: raw.network_ids }),
+    ...(raw.port_matching_type === 'SPECIFIC' && raw.port && {
+      ports: String(raw.port).split(',').map((port: string) => port.trim())
+    }),
+    ...(raw.port_matching_type === 'OBJECT' && raw.port_group_id && { portGroupId: raw.port_group_id })
+  };
+
+  return Object.keys(endpoint).length > 0 ? endpoint : undefined;
+}
+
+/**
+ * Convert a ZonePolicyEndpoint into the raw source/destination object
+ */
+function endpointToRaw(zoneId: string, endpoint: ZonePolicyEndpoint | undefined, applications?: string[]): any {
+  const matchingTarget = applications && applications.length > 0 ? 'APP'
+    : endpoint?.ips || endpoint?.ipGroupId ? 'IP'
+    : endpoint?.networkIds ? 'NETWORK'
+    : 'ANY';
+
+  return {
+    zone_id: zoneId,
+    matching_target: matchingTarget,
+    ...(endpoint?.ips && { ips: endpoint.ips, matching_target_type: 'SPECIFIC' }),
+    ...(endpoint?.ipGroupId && { ip_group_id: endpoint.ipGroupId, matching_target_type: 'OBJECT' }),
+    ...(endpoint?.networkIds && { network_ids: endpoint.networkIds }),
+    ...(matchingTarget === 'APP' && { app_ids: applications }),
+    port_matching_type: endpoint?.ports ? 'SPECIFIC' : endpoint?.portGroupId ? 'OBJECT' : 'ANY',
+    ...(endpoint?.ports && { port: endpoint.ports.join(',') }),
+    ...(endpoint?.portGroupId && { port_group_id: endpoint.portGroupId })
+  };
+}
+
+/**
+ * Convert a raw policy schedule into a ZonePolicySchedule
+ */
+export function scheduleFromRaw(raw: any): ZonePolicySchedule | undefined {
+  if (!raw || !raw.mode || raw.mode === 'ALWAYS') return undefined;
+
+  const days = Object.entries(DAY_CODES)
+    .filter(([, code]) => Array.isArray(raw.repeat_on_days) && raw.repeat_on_days.includes(code))
+    .map(([day]) => day);
+
+  return {
+    mode: raw.mode === 'EVERY_DAY' ? 'daily' : 'weekly',
+    ...(raw.mode === 'EVERY_WEEK' && { days }),
+    ...(!raw.time_all_day && raw.time_range_start && { startTime: raw.time_range_start }),
+    ...(!raw.time_all_day && raw.time_range_end && { endTime: raw.time_range_end })
+  };
+}
+
+/**
+ * Convert a ZonePolicySchedule into the raw schedule object
+ */
+export function scheduleToRaw(schedule: ZonePolicySchedule | undefined): any {
+  if (!schedule || schedule.mode === 'always') {
+    return { mode: 'ALWAYS' };
+  }
+
+  const days = schedule.days ?? [];
+  const everyDay = schedule.mode === 'daily' || Object.keys(DAY_CODES).every(day => days.includes(day));
+
+  return {
+    mode: everyDay ? 'EVERY_DAY' : 'EVERY_WEEK',
+    ...(!everyDay && { repeat_on_days: days.map(day => DAY_CODES[day]).filter(Boolean) }),
+    time_all_day: !schedule.startTime || !schedule.endTime,
+    ...(schedule.startTime && { time_range_start: schedule.startTime }),
+    ...(schedule.endTime && { time_range_end: schedule.endTime })
+  };
+}
+
+/**
+ * Convert a raw firewallzonepolicy record into a ZonePolicy
+ */
+export function mapZonePolicy(raw: any): ZonePolicy {
+  const applications = raw.destination?.matching_target === 'APP' && Array.isArray(raw.destination.app_ids)
+    ? raw.destination.app_ids
+    : undefined;
+  const source = endpointFromRaw(raw.source);
+  const destination = endpointFromRaw(raw.destination);
+  const schedule = scheduleFromRaw(raw.schedule);
+  const connectionStates = raw.connection_state_type === 'RESPOND_ONLY'
+    ? ['established', 'related']
+    : raw.connection_state_type === 'CUSTOM' && Array.isArray(raw.connection_states)
+      ? raw.connection_states.map((state: string) => state.toLowerCase())
+      : undefined;
+
+  return {
+    id: raw._id,
+    ...(raw.name && { name: raw.name }),
+    ...(raw.description && { description: raw.description }),
+    sourceZone: raw.source?.zone_id ?? '',
+    targetZone: raw.destination?.zone_id ?? '',
+    action: RAW_ACTIONS[String(raw.action).toUpperCase()] ?? FirewallAction.DENY,
+    protocol: raw.protocol || 'all',
+    ipVersion: String(raw.ip_version || 'BOTH').toLowerCase() as ZonePolicy['ipVersion'],
+    ...(source && { source }),
+    ...(destination && { destination }),
+    ...(applications && { applications }),
+    ...(schedule && { schedule }),
+    ...(connectionStates && { connectionStates }),
+    logging: raw.logging === true,
+    enabled: raw.enabled !== false,
+    predefined: raw.predefined === true,
+    priority: Number(raw.index ?? 2000)
+  };
+}
+
+/**
+ * Convert a ZonePolicy into a raw firewallzonepolicy payload
+ */
+export function toRawZonePolicy(policy: Omit<ZonePolicy, 'id'>): Record<string, any> {
+  const rawAction = Object.entries(RAW_ACTIONS).find(([, action]) => action === policy.action)?.[0] ?? 'BLOCK';
+
+  return {
+    ...(policy.name && { name: policy.name }),
+    ...(policy.description !== undefined && { description: policy.description }),
+    enabled: policy.enabled,
+    action: rawAction,
+    protocol: policy.protocol,
+    ip_version: policy.ipVersion.toUpperCase(),
+    logging: policy.logging,
+    index: policy.priority,
+    create_allow_respond: policy.action === FirewallAction.ALLOW,
+    connection_state_type: policy.connectionStates ? 'CUSTOM' : 'ALL',
+    connection_states: (policy.connectionStates ?? []).map(state => state.toUpperCase()),
+    schedule: scheduleToRaw(policy.schedule),
+    source: endpointToRaw(policy.sourceZone, policy.source),
+    destination: endpointToRaw(policy.targetZone, policy.destination, policy.applications)
+  };
+}
+
+/**
+ * Fetch every raw firewallzonepolicy record
+ */
+export async function fetchRawZonePolicies(client: UniFiClient): Promise<any[]> {
+  const response = await client.get(UNIFI_ENDPOINTS.FIREWALL_ZONE_POLICIES);
+
+  if (!response.data || !Array.isArray(response.data)) {
+    throw new UniFiMCPError('Invalid zone policy data received', ErrorCode.INVALID_DATA);
+  }
+
+  return response.data;
+}
+
+// ================================
+// Legacy Firewall Rules
+// ================================
+
+const LEGACY_ACTIONS: Record<string, FirewallAction> = {
+  accept: FirewallAction.ALLOW,
+  allow: FirewallAction.ALLOW,
+  deny: FirewallAction.DENY,
+  drop: FirewallAction.DROP,
+  reject: FirewallAction.REJECT
+};
+
+/**
+ * Convert a raw legacy firewallrule record into a DetailedFirewallRule
+ */
+export function mapFirewallRule(raw: any): DetailedFirewallRule {
+  const states = (['new', 'established', 'related', 'invalid'] as const)
+    .filter(state => raw[`state_${state}`] === true);
+
+  return {
+    id: raw._id,
+    name: raw.name || '',
+    enabled: raw.enabled !== false,
+    action: LEGACY_ACTIONS[String(raw.action).toLowerCase()] ?? FirewallAction.DROP,
+    protocol: (raw.protocol || Protocol.ALL) as Protocol,
+    src: raw.src_address || '',
+    dst: raw.dst_address || '',
+    ...(raw.src_port && { srcPort: String(raw.src_port) }),
+    ...(raw.dst_port && { dstPort: String(raw.dst_port) }),
+    priority: Number(raw.rule_index ?? 2000),
+    logging: raw.logging === true,
+    ruleIndex: Number(raw.rule_index ?? 2000),
+    ipsec: raw.ipsec || '',
+    srcFirewallgroupIds: Array.isArray(raw.src_firewallgroup_ids) ? raw.src_firewallgroup_ids : [],
+    dstFirewallgroupIds: Array.isArray(raw.dst_firewallgroup_ids) ? raw.dst_firewallgroup_ids : [],
+    srcMacAddress: raw.src_mac_address || '',
+    protocolMatchExcepted: raw.protocol_match_excepted === true,
+    icmpTypename: raw.icmp_typename || '',
+    srcNetworkconfId: raw.src_networkconf_id || '',
+    srcNetworkconfType: raw.src_networkconf_type || '',
+    dstNetworkconfId: raw.dst_networkconf_id || '',
+    dstNetworkconfType: raw.dst_networkconf_type || '',
+    ruleSet: raw.ruleset || '',
+    states,
+    ...(raw.description && { description: raw.description })
+  };
+}
+
+/**
+ * Fetch every raw legacy firewallrule record
+ */
+export async function fetchRawFirewallRules(client: UniFiClient): Promise<any[]> {
+  const response = await client.get(UNIFI_ENDPOINTS.FIREWALL_RULES);
+
+  if (!response.data || !Array.isArray(response.data)) {
+    throw new UniFiMCPError('Invalid firewall rule data received', ErrorCode.INVALID_DATA);
+  }
+
+  return response.data;
+}
+
+/**
+ * Find the zone a network belongs to
+ */
+export function zoneForNetwork(rawZones: any[], networkId: string): any | undefined {
+  return rawZones.find(zone => Array.isArray(zone.network_ids) && zone.network_ids.includes(networkId));
+}
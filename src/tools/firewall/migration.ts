@@ -0,0 +1,565 @@
+import { MCPTool, ToolCategory, ToolResult, ErrorCode } from '../../server/types.js';
+import { UniFiClient } from '../../unifi/client.js';
+import { VersionDetector } from '../../unifi/versionDetector.js';
+import {
+  DetailedFirewallRule,
+  DetailedNetwork,
+  FirewallAction,
+  ZonePolicy,
+  ZonePolicyEndpoint
+} from '../../unifi/types.js';
+import { createToolLogger } from '../../utils/logger.js';
+import { UniFiMCPError } from '../../utils/errors.js';
+import { ipToNumber, isIPv4, parseCIDR } from '../../utils/cidr.js';
+import { UNIFI_ENDPOINTS, PREDEFINED_ZONES } from '../../config/constants.js';
+import { fetchNetworks } from '../networks/mapping.js';
+import {
+  fetchRawZones,
+  fetchRawZonePolicies,
+  fetchRawFirewallRules,
+  mapFirewallRule,
+  mapZonePolicy,
+  toRawZonePolicy,
+  zoneForNetwork
+} from './mapping.js';
+import { checkZonePolicy } from './zonePolicies.js';
+
+/**
+ * Legacy Firewall Migration Tool
+ *
+ * Plans the move from legacy firewall rules to Zone-Based Firewall
+ * policies: every rule set and source/destination is mapped to zones,
+ * and each rule is reported as translated, merged or untranslatable.
+ * Apply mode creates the proposed policies and disables the originals.
+ */
+
+const logger = createToolLogger('zbf-migration-tools');
+
+/**
+ * Zones a legacy rule set covers when the rule itself does not pin a
+ * network or a local address. Rule sets are listed in evaluation order.
+ */
+const RULESET_ZONES: Record<string, { source: string[]; destination: string[] }> = {
+  WAN_IN: { source: [PREDEFINED_ZONES.EXTERNAL], destination: [PREDEFINED_ZONES.INTERNAL] },
+  WAN_OUT: { source: [PREDEFINED_ZONES.INTERNAL], destination: [PREDEFINED_ZONES.EXTERNAL] },
+  WAN_LOCAL: { source: [PREDEFINED_ZONES.EXTERNAL], destination: [PREDEFINED_ZONES.GATEWAY] },
+  LAN_IN: { source: [PREDEFINED_ZONES.INTERNAL], destination: [PREDEFINED_ZONES.INTERNAL, PREDEFINED_ZONES.EXTERNAL] },
+  LAN_OUT: { source: [PREDEFINED_ZONES.INTERNAL, PREDEFINED_ZONES.EXTERNAL], destination: [PREDEFINED_ZONES.INTERNAL] },
+  LAN_LOCAL: { source: [PREDEFINED_ZONES.INTERNAL], destination: [PREDEFINED_ZONES.GATEWAY] },
+  GUEST_IN: { source: [PREDEFINED_ZONES.HOTSPOT], destination: [PREDEFINED_ZONES.INTERNAL, PREDEFINED_ZONES.EXTERNAL] },
+  GUEST_OUT: { source: [PREDEFINED_ZONES.INTERNAL, PREDEFINED_ZONES.EXTERNAL], destination: [PREDEFINED_ZONES.HOTSPOT] },
+  GUEST_LOCAL: { source: [PREDEFINED_ZONES.HOTSPOT], destination: [PREDEFINED_ZONES.GATEWAY] }
+};
+
+const ZBF_PROTOCOLS = ['all', 'tcp', 'udp', 'tcp_udp', 'icmp', 'icmpv6'];
+
+export type MigrationStatus = 'translated' | 'merged' | 'untranslatable';
+
+export interface ProposedZonePolicy {
+  key: string;
+  policy: Omit<ZonePolicy, 'id'>;
+  sourceZoneName: string;
+  targetZoneName: string;
+  fromRules: string[];
+  existingPolicyId?: string;
+}
+
+export interface MigrationRuleResult {
+  ruleId: string;
+  name: string;
+  ruleSet: string;
+  ruleIndex: number;
+  enabled: boolean;
+  status: MigrationStatus;
+  reason?: string;
+  notes: string[];
+  policies: string[];
+}
+
+export interface MigrationPlan {
+  policies: ProposedZonePolicy[];
+  rules: MigrationRuleResult[];
+}
+
+export interface MigrationInput {
+  rules: any[];
+  groups: any[];
+  zones: any[];
+  networks: DetailedNetwork[];
+  existingPolicies: ZonePolicy[];
+}
+
+interface ResolvedSide {
+  zones: any[];
+  endpoint: ZonePolicyEndpoint | undefined;
+  problem?: string;
+}
+
+/**
+ * Resolve one side (source or destination) of a legacy rule to zones and
+ * a policy endpoint
+ */
+function resolveSide(
+  rule: DetailedFirewallRule,
+  side: 'src' | 'dst',
+  defaultKeys: string[],
+  input: MigrationInput
+): ResolvedSide {
+  const networkId = side === 'src' ? rule.srcNetworkconfId : rule.dstNetworkconfId;
+  const networkType = side === 'src' ? rule.srcNetworkconfType : rule.dstNetworkconfType;
+  const address = side === 'src' ? rule.src : rule.dst;
+  const port = side === 'src' ? rule.srcPort : rule.dstPort;
+  const groupIds = side === 'src' ? rule.srcFirewallgroupIds : rule.dstFirewallgroupIds;
+  const label = side === 'src' ? 'source' : 'destination';
+
+  const groups = groupIds.map(id => input.groups.find(group => group._id === id));
+  if (groups.some(group => !group)) {
+    return { zones: [], endpoint: undefined, problem: `${label} references a firewall group that no longer exists` };
+  }
+  const addressGroups = groups.filter(group => group.group_type !== 'port-group');
+  const portGroups = groups.filter(group => group.group_type === 'port-group');
+
+  if (addressGroups.length > 1 || portGroups.length > 1) {
+    return { zones: [], endpoint: undefined, problem: `${label} matches several groups of the same type; a zone policy accepts one` };
+  }
+  if (side === 'src' && rule.srcMacAddress) {
+    return { zones: [], endpoint: undefined, problem: 'source MAC address matching has no zone policy equivalent' };
+  }
+  if (port && portGroups.length > 0) {
+    return { zones: [], endpoint: undefined, problem: `${label} combines a port with a port group` };
+  }
+  if ([networkId, address, addressGroups[0]].filter(Boolean).length > 1) {
+    return { zones: [], endpoint: undefined, problem: `${label} combines a network, an address and/or an address group` };
+  }
+
+  const defaults = defaultKeys
+    .map(key => input.zones.find(zone => zone.zone_key === key))
+    .filter(Boolean);
+  let zones = defaults;
+  const endpoint: ZonePolicyEndpoint = {
+    ...(port && { ports: port.split(',').map(p => p.trim()).filter(Boolean) }),
+    ...(portGroups[0] && { portGroupId: portGroups[0]._id }),
+    ...(addressGroups[0] && { ipGroupId: addressGroups[0]._id })
+  };
+
+  if (networkId) {
+    const network = input.networks.find(n => n.id === networkId);
+    const zone = zoneForNetwork(input.zones, networkId);
+    if (!network || !zone) {
+      return { zones: [], endpoint: undefined, problem: `${label} network ${networkId} is not assigned to any zone` };
+    }
+    zones = [zone];
+    if (networkType === 'ADDRv4') {
+      endpoint.ips = [network.gateway];
+    } else {
+      endpoint.networkIds = [networkId];
+    }
+  } else if (address) {
+    const bounds = addressBounds(address);
+    if (!bounds) {
+      return { zones: [], endpoint: undefined, problem: `${label} address '${address}' is not an IPv4 address, CIDR or range` };
+    }
+    const local = input.networks.find(n => {
+      const subnet = n.subnet ? addressBounds(n.subnet) : null;
+      return subnet !== null && subnet[0] <= bounds[0] && bounds[1] <= subnet[1];
+    });
+    const localZone = local ? zoneForNetwork(input.zones, local.id) : undefined;
+    const external = defaults.find(zone => zone.zone_key === PREDEFINED_ZONES.EXTERNAL);
+    zones = localZone ? [localZone] : external ? [external] : defaults;
+    endpoint.ips = [address];
+  }
+
+  if (zones.length === 0) {
+    return { zones: [], endpoint: undefined, problem: `no zone matches the ${label} of rule set ${rule.ruleSet}` };
+  }
+
+  return { zones, endpoint: Object.keys(endpoint).length > 0 ? endpoint : undefined };
+}
+
+/**
+ * First and last address of an IPv4 address, CIDR or "a-b" range, or
+ * null when the value is none of these
+ */
+function addressBounds(value: string): [number, number] | null {
+  const [start, end] = value.trim().split('-');
+  if (end !== undefined) {
+    return isIPv4(start) && isIPv4(end) ? [ipToNumber(start), ipToNumber(end)] : null;
+  }
+  try {
+    const block = parseCIDR(value);
+    return [block.start, block.end];
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Problems that prevent a rule from being expressed as a zone policy at all
+ */
+function ruleProblem(rule: DetailedFirewallRule): string | undefined {
+  if (!RULESET_ZONES[rule.ruleSet]) return `rule set ${rule.ruleSet || '(none)'} has no zone equivalent`;
+  if (!ZBF_PROTOCOLS.includes(rule.protocol)) return `protocol '${rule.protocol}' is not supported by zone policies`;
+  if (rule.protocolMatchExcepted) return 'negated protocol matching has no zone policy equivalent';
+  if (rule.icmpTypename) return `ICMP type matching (${rule.icmpTypename}) has no zone policy equivalent`;
+  if (rule.ipsec) return 'IPsec matching has no zone policy equivalent';
+  return undefined;
+}
+
+/**
+ * Identity of a policy for merging: everything except the source
+ * networks, which can be unioned
+ */
+function mergeKey(policy: Omit<ZonePolicy, 'id'>): string {
+  const { networkIds, ...sourceRest } = policy.source ?? {};
+  return JSON.stringify({
+    ...policy,
+    name: undefined,
+    description: undefined,
+    priority: undefined,
+    source: sourceRest,
+    byNetwork: networkIds !== undefined
+  });
+}
+
+/**
+ * Build a migration plan from legacy rules. Rules are processed in rule
+ * set order and by rule_index, and policies receive increasing
+ * priorities after any existing custom policies of the same zone pair.
+ */
+export function planMigration(input: MigrationInput): MigrationPlan {
+  const rulesetOrder = Object.keys(RULESET_ZONES);
+  const rules = input.rules
+    .map(mapFirewallRule)
+    .sort((a, b) =>
+      (rulesetOrder.indexOf(a.ruleSet) + 1 || 99) - (rulesetOrder.indexOf(b.ruleSet) + 1 || 99) ||
+      a.ruleIndex - b.ruleIndex
+    );
+
+  const proposals: ProposedZonePolicy[] = [];
+  // Only the latest proposal of a zone pair can absorb a rule; merging
+  // further back would move the rule ahead of policies in between
+  const lastByPair = new Map<string, ProposedZonePolicy>();
+  const results: MigrationRuleResult[] = [];
+
+  for (const rule of rules) {
+    const result: MigrationRuleResult = {
+      ruleId: rule.id,
+      name: rule.name,
+      ruleSet: rule.ruleSet,
+      ruleIndex: rule.ruleIndex,
+      enabled: rule.enabled,
+      status: 'untranslatable',
+      notes: [],
+      policies: []
+    };
+    results.push(result);
+
+    const problem = ruleProblem(rule);
+    if (problem) {
+      result.reason = problem;
+      continue;
+    }
+
+    const mapping = RULESET_ZONES[rule.ruleSet];
+    const source = resolveSide(rule, 'src', mapping.source, input);
+    const destination = resolveSide(rule, 'dst', mapping.destination, input);
+    if (source.problem || destination.problem) {
+      result.reason = (source.problem ?? destination.problem)!;
+      continue;
+    }
+
+    const pairs = source.zones.flatMap(from => destination.zones.map(to => ({ from, to })));
+    const drafts: ProposedZonePolicy[] = [];
+
+    for (const { from, to } of pairs) {
+      if (from._id === to._id) {
+        result.notes.push(`Traffic within zone '${from.name}' is not covered by zone policies and was skipped`);
+        continue;
+      }
+
+      const policy: Omit<ZonePolicy, 'id'> = {
+        name: pairs.length > 1 ? `${rule.name} (${from.name} → ${to.name})` : rule.name,
+        description: `Migrated from legacy rule '${rule.name}' (${rule.ruleSet} #${rule.ruleIndex})`,
+        sourceZone: from._id,
+        targetZone: to._id,
+        action: rule.action === FirewallAction.ALLOW ? FirewallAction.ALLOW
+          : rule.action === FirewallAction.REJECT ? FirewallAction.REJECT
+          : FirewallAction.DENY,
+        protocol: rule.protocol as ZonePolicy['protocol'],
+        // Every legacy rule set translated here filters IPv4 only
+        ipVersion: 'ipv4',
+        ...(source.endpoint && { source: source.endpoint }),
+        ...(destination.endpoint && { destination: destination.endpoint }),
+        ...(rule.states.length > 0 && rule.states.length < 4 && { connectionStates: rule.states }),
+        logging: rule.logging,
+        enabled: rule.enabled,
+        predefined: false,
+        priority: 2000
+      };
+
+      const problems = checkZonePolicy(policy);
+      if (problems.length > 0) {
+        result.reason = problems.join('; ');
+        drafts.length = 0;
+        break;
+      }
+
+      drafts.push({
+        key: `${rule.id}:${from._id}:${to._id}`,
+        policy,
+        sourceZoneName: from.name,
+        targetZoneName: to.name,
+        fromRules: [rule.id]
+      });
+    }
+
+    if (drafts.length === 0) {
+      result.reason = result.reason ?? 'every zone pair of this rule is intra-zone traffic';
+      continue;
+    }
+
+    let mergedCount = 0;
+    for (const draft of drafts) {
+      const pair = `${draft.policy.sourceZone}>${draft.policy.targetZone}`;
+      const last = lastByPair.get(pair);
+      const target = last && mergeKey(last.policy) === mergeKey(draft.policy) ? last : undefined;
+
+      if (target) {
+        mergedCount++;
+        target.fromRules.push(rule.id);
+        if (target.policy.source?.networkIds && draft.policy.source?.networkIds) {
+          target.policy.source = {
+            ...target.policy.source,
+            networkIds: Array.from(new Set([...target.policy.source.networkIds, ...draft.policy.source.networkIds]))
+          };
+        }
+        target.policy.description = `${target.policy.description}; '${rule.name}' (${rule.ruleSet} #${rule.ruleIndex})`;
+        result.policies.push(target.key);
+        continue;
+      }
+
+      lastByPair.set(pair, draft);
+      proposals.push(draft);
+      result.policies.push(draft.key);
+    }
+
+    result.status = mergedCount === drafts.length ? 'merged' : 'translated';
+  }
+
+  // Number the proposals per zone pair after existing custom policies
+  const nextPriority = new Map<string, number>();
+  for (const proposal of proposals) {
+    const pair = `${proposal.policy.sourceZone}>${proposal.policy.targetZone}`;
+    if (!nextPriority.has(pair)) {
+      const existing = input.existingPolicies
+        .filter(p => !p.predefined && p.sourceZone === proposal.policy.sourceZone && p.targetZone === proposal.policy.targetZone)
+        .map(p => p.priority);
+      nextPriority.set(pair, Math.max(0, ...existing) + 10);
+    }
+
+    proposal.policy.priority = Math.min(nextPriority.get(pair)!, 9999);
+    nextPriority.set(pair, proposal.policy.priority + 10);
+
+    const existingPolicy = input.existingPolicies.find(p =>
+      p.name === proposal.policy.name &&
+      p.sourceZone === proposal.policy.sourceZone &&
+      p.targetZone === proposal.policy.targetZone
+    );
+    if (existingPolicy) {
+      proposal.existingPolicyId = existingPolicy.id;
+    }
+  }
+
+  return { policies: proposals, rules: results };
+}
+
+// ================================
+// Plan ZBF Migration Tool
+// ================================
+
+const planZBFMigrationTool: MCPTool = {
+  name: 'unifi_plan_zbf_migration',
+  description: 'Map every legacy firewall rule to zone policies and report each rule as translated, merged or untranslatable. With apply=true the policies are created in order and the original rules are disabled.',
+  category: ToolCategory.FIREWALL_ZBF,
+  requiresConnection: true,
+  requiresVersion: '9.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ruleSets: {
+        type: 'array',
+        items: {
+          type: 'string',
+          enum: ['WAN_IN', 'WAN_OUT', 'WAN_LOCAL', 'LAN_IN', 'LAN_OUT', 'LAN_LOCAL', 'GUEST_IN', 'GUEST_OUT', 'GUEST_LOCAL']
+        },
+        description: 'Only migrate these rule sets (default: all)'
+      },
+      includeDisabled: {
+        type: 'boolean',
+        description: 'Also migrate disabled rules (created as disabled policies)',
+        default: false
+      },
+      apply: {
+        type: 'boolean',
+        description: 'Create the proposed policies and disable the migrated legacy rules',
+        default: false
+      }
+    },
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const versionDetector = params._versionDetector as VersionDetector;
+      const { ruleSets, includeDisabled = false, apply = false } = params;
+
+      // Check if Zone-Based Firewall is supported
+      await versionDetector.validateFeature('zbf');
+
+      logger.info('Planning legacy firewall migration', { ruleSets, includeDisabled, apply });
+
+      const [rawRules, groups, zones, networks, rawPolicies] = await Promise.all([
+        fetchRawFirewallRules(client),
+        client.get(UNIFI_ENDPOINTS.FIREWALL_GROUPS),
+        fetchRawZones(client),
+        fetchNetworks(client),
+        fetchRawZonePolicies(client)
+      ]);
+
+      const selectedRules = rawRules
+        .filter(raw => !ruleSets || ruleSets.includes(raw.ruleset))
+        .filter(raw => includeDisabled || raw.enabled !== false);
+
+      const plan = planMigration({
+        rules: selectedRules,
+        groups: Array.isArray(groups.data) ? groups.data : [],
+        zones,
+        networks,
+        existingPolicies: rawPolicies.map(mapZonePolicy)
+      });
+
+      const summary = {
+        rules: plan.rules.length,
+        translated: plan.rules.filter(r => r.status === 'translated').length,
+        merged: plan.rules.filter(r => r.status === 'merged').length,
+        untranslatable: plan.rules.filter(r => r.status === 'untranslatable').length,
+        proposedPolicies: plan.policies.length,
+        alreadyPresent: plan.policies.filter(p => p.existingPolicyId).length
+      };
+
+      if (!apply) {
+        return {
+          success: true,
+          data: {
+            applied: false,
+            ...plan,
+            summary
+          },
+          ...(summary.untranslatable > 0 && {
+            warnings: [`${summary.untranslatable} rule(s) cannot be migrated automatically; see their reasons`]
+          }),
+          metadata: {
+            executionTime: 0,
+            timestamp: new Date()
+          }
+        };
+      }
+
+      // Create policies in plan order; stop at the first failure
+      const created: Array<{ key: string; policyId: string }> = [];
+      const createdKeys = new Set(plan.policies.filter(p => p.existingPolicyId).map(p => p.key));
+      let failure: { key: string; message: string } | undefined;
+
+      for (const proposal of plan.policies) {
+        if (proposal.existingPolicyId) continue;
+
+        try {
+          const response = await client.post(UNIFI_ENDPOINTS.FIREWALL_ZONE_POLICIES, toRawZonePolicy(proposal.policy));
+          if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+            throw new UniFiMCPError('Failed to create zone policy', ErrorCode.ZONE_POLICY_CREATION_FAILED);
+          }
+          created.push({ key: proposal.key, policyId: response.data[0]._id });
+          createdKeys.add(proposal.key);
+        } catch (error) {
+          failure = { key: proposal.key, message: (error as Error).message };
+          logger.warn(`Stopping migration at policy ${proposal.key}`, error as any);
+          break;
+        }
+      }
+
+      // Disable only rules whose policies all exist now
+      const disabled: string[] = [];
+      const disableFailures: Array<{ ruleId: string; error: string }> = [];
+      for (const result of plan.rules) {
+        if (result.status === 'untranslatable' || !result.enabled) continue;
+        if (!result.policies.every(key => createdKeys.has(key))) continue;
+
+        const raw = selectedRules.find(rule => rule._id === result.ruleId);
+        try {
+          await client.put(UNIFI_ENDPOINTS.FIREWALL_RULE_DETAILS.replace('{id}', result.ruleId), { ...raw, enabled: false });
+          disabled.push(result.ruleId);
+        } catch (error) {
+          disableFailures.push({ ruleId: result.ruleId, error: (error as Error).message });
+        }
+      }
+
+      const warnings: string[] = [];
+      if (failure) {
+        warnings.push(`Policy creation stopped at ${failure.key}: ${failure.message}. Re-run to continue; existing policies are skipped.`);
+      }
+      if (disableFailures.length > 0) {
+        warnings.push(`${disableFailures.length} legacy rule(s) could not be disabled`);
+      }
+      if (summary.untranslatable > 0) {
+        warnings.push(`${summary.untranslatable} untranslatable rule(s) were left enabled`);
+      }
+
+      return {
+        success: !failure && disableFailures.length === 0,
+        data: {
+          applied: true,
+          ...plan,
+          created,
+          disabledRules: disabled,
+          disableFailures,
+          summary: {
+            ...summary,
+            created: created.length,
+            disabled: disabled.length
+          }
+        },
+        ...(failure && {
+          error: {
+            code: ErrorCode.ZONE_POLICY_CREATION_FAILED,
+            message: failure.message
+          }
+        }),
+        ...(warnings.length > 0 && { warnings }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to plan legacy firewall migration', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'ZBF_MIGRATION_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+export {
+  planZBFMigrationTool
+};
@@ -0,0 +1,838 @@
+import { MCPTool, ToolCategory, ToolResult } from '../../server/types.js';
+import { UniFiClient } from '../../unifi/client.js';
+import { VersionDetector } from '../../unifi/versionDetector.js';
+import {
+  DetailedFirewallRule,
+  DetailedNetwork,
+  FirewallAction,
+  NetworkPurpose,
+  ZonePolicy,
+  ZonePolicyEndpoint,
+  ZonePolicySchedule
+} from '../../unifi/types.js';
+import { normalizeMAC } from '../../utils/validators.js';
+import { createToolLogger } from '../../utils/logger.js';
+import { UniFiMCPError, ResourceNotFoundError, ValidationError } from '../../utils/errors.js';
+import { cidrContains, ipToNumber, isIPv4, parseCIDR } from '../../utils/cidr.js';
+import { UNIFI_ENDPOINTS, PREDEFINED_ZONES } from '../../config/constants.js';
+import { fetchNetworks } from '../networks/mapping.js';
+import { fetchUsers } from '../clients/users.js';
+import {
+  fetchRawZones,
+  fetchRawZonePolicies,
+  fetchRawFirewallRules,
+  mapFirewallRule,
+  mapZonePolicy,
+  zoneForNetwork
+} from './mapping.js';
+import { builtinDefaultAction } from './zoneMatrix.js';
+
+/**
+ * Reachability Simulator
+ *
+ * Answers "can A reach B on port X" by walking the configured firewall
+ * path — legacy rule sets by rule_index, or zone policies by priority —
+ * and reporting the rule or policy that decides the verdict.
+ */
+
+const logger = createToolLogger('reachability-tools');
+
+/**
+ * Default action of each legacy rule set when no rule matches
+ */
+export const LEGACY_DEFAULTS: Record<string, 'allow' | 'deny'> = {
+  WAN_IN: 'deny',
+  WAN_LOCAL: 'deny',
+  WAN_OUT: 'allow',
+  LAN_IN: 'allow',
+  LAN_OUT: 'allow',
+  LAN_LOCAL: 'allow',
+  GUEST_IN: 'allow',
+  GUEST_OUT: 'allow',
+  GUEST_LOCAL: 'allow'
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+type MatchResult = 'yes' | 'no' | 'partial';
+
+/**
+ * One side of the simulated flow. cidr is the host address as /32, or the
+ * whole subnet when only the network is known.
+ */
+export interface TrafficEndpoint {
+  label: string;
+  kind: 'client' | 'ip' | 'network' | 'zone' | 'internet' | 'gateway';
+  cidr?: string;
+  mac?: string;
+  networkId?: string;
+  zoneId?: string;
+  guest: boolean;
+  external: boolean;
+  gateway: boolean;
+}
+
+export interface TrafficQuery {
+  source: TrafficEndpoint;
+  destination: TrafficEndpoint;
+  protocol: 'tcp' | 'udp' | 'icmp';
+  port?: number | undefined;
+  at: Date;
+}
+
+export interface ReachabilityStep {
+  stage: string;
+  id?: string;
+  name?: string;
+  result: 'match' | 'possible-match';
+  action: string;
+  reason?: string;
+}
+
+export interface ReachabilityVerdict {
+  verdict: 'allow' | 'deny' | 'reject';
+  model: 'legacy' | 'zbf' | 'none';
+  decidedBy: {
+    type: 'legacy-rule' | 'zone-policy' | 'default' | 'no-firewall';
+    id?: string;
+    name?: string;
+    stage?: string;
+    detail: string;
+  };
+  path: ReachabilityStep[];
+  notes: string[];
+}
+
+export interface LegacyFirewallConfig {
+  rules: DetailedFirewallRule[];
+  groups: any[];
+  networks: DetailedNetwork[];
+}
+
+export interface ZoneFirewallConfig {
+  policies: ZonePolicy[];
+  groups: any[];
+  zones: any[];
+}
+
+/**
+ * Combine condition results: any 'no' fails, any 'partial' is uncertain
+ */
+function combine(results: MatchResult[]): MatchResult {
+  if (results.includes('no')) return 'no';
+  if (results.includes('partial')) return 'partial';
+  return 'yes';
+}
+
+/**
+ * Best result over alternatives (e.g. group members)
+ */
+function any(results: MatchResult[]): MatchResult {
+  if (results.includes('yes')) return 'yes';
+  if (results.includes('partial')) return 'partial';
+  return 'no';
+}
+
+/**
+ * Convert an IPv4 address, CIDR or "a-b" range into its first and last
+ * address, or null for anything else (IPv6, hostnames, malformed values)
+ */
+function addressRange(value: string): [number, number] | null {
+  const [start, end] = value.trim().split('-');
+  if (end !== undefined) {
+    return isIPv4(start) && isIPv4(end) ? [ipToNumber(start), ipToNumber(end)] : null;
+  }
+  try {
+    const block = parseCIDR(value);
+    return [block.start, block.end];
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Match an address, CIDR or range against an endpoint
+ */
+export function matchAddress(address: string, endpoint: TrafficEndpoint): MatchResult {
+  const range = addressRange(address);
+  if (!range) return 'no';
+  const target = endpoint.cidr ? addressRange(endpoint.cidr) : null;
+  if (!target) return 'partial';
+
+  const [start, end] = range;
+  if (start <= target[0] && target[1] <= end) return 'yes';
+  return start <= target[1] && target[0] <= end ? 'partial' : 'no';
+}
+
+/**
+ * Match a port specification ("80", "8000-8080", "80,443") against a port
+ */
+export function matchPort(spec: string, port: number | undefined): MatchResult {
+  if (port === undefined) return 'partial';
+
+  return any(spec.split(',').map(part => {
+    const [start, end = start] = part.trim().split('-').map(Number);
+    return port >= start && port <= end ? 'yes' : 'no';
+  }));
+}
+
+/**
+ * Match a rule or policy protocol against the simulated protocol
+ */
+function matchProtocol(protocol: string, query: TrafficQuery): MatchResult {
+  if (protocol === 'all') return 'yes';
+  if (protocol === 'tcp_udp') return query.protocol === 'icmp' ? 'no' : 'yes';
+  return protocol === query.protocol ? 'yes' : 'no';
+}
+
+/**
+ * Members of a firewall group, or undefined when the group is unknown
+ */
+function groupMembers(groups: any[], groupId: string): string[] | undefined {
+  const group = groups.find(g => g._id === groupId);
+  return group && Array.isArray(group.group_members) ? group.group_members : undefined;
+}
+
+/**
+ * Check whether a schedule is active at the given time. Windows whose end
+ * is before their start run past midnight.
+ */
+export function scheduleActive(schedule: ZonePolicySchedule | undefined, at: Date): boolean {
+  if (!schedule || schedule.mode === 'always') return true;
+
+  const minutes = at.getHours() * 60 + at.getMinutes();
+  const toMinutes = (time: string) => {
+    const [hours, mins] = time.split(':').map(Number);
+    return hours * 60 + mins;
+  };
+  const start = schedule.startTime ? toMinutes(schedule.startTime) : undefined;
+  const end = schedule.endTime ? toMinutes(schedule.endTime) : undefined;
+
+  // Past midnight, an overnight window belongs to the previous day
+  let day = at.getDay();
+  let inWindow = true;
+  if (start !== undefined && end !== undefined) {
+    if (start < end) {
+      inWindow = minutes >= start && minutes < end;
+    } else {
+      inWindow = minutes >= start || minutes < end;
+      if (minutes < end) day = (day + 6) % 7;
+    }
+  }
+
+  const dayActive = schedule.mode !== 'weekly' || (schedule.days ?? []).includes(WEEKDAYS[day]);
+  return inWindow && dayActive;
+}
+
+// ================================
+// Legacy Rule Evaluation
+// ================================
+
+/**
+ * Legacy rule sets a flow traverses, in order
+ */
+export function legacyRuleSets(source: TrafficEndpoint, destination: TrafficEndpoint): string[] {
+  if (destination.gateway) {
+    return [source.external ? 'WAN_LOCAL' : source.guest ? 'GUEST_LOCAL' : 'LAN_LOCAL'];
+  }
+  if (source.external) {
+    return ['WAN_IN', destination.guest ? 'GUEST_OUT' : 'LAN_OUT'];
+  }
+  return [
+    source.guest ? 'GUEST_IN' : 'LAN_IN',
+    destination.external ? 'WAN_OUT' : destination.guest ? 'GUEST_OUT' : 'LAN_OUT'
+  ];
+}
+
+/**
+ * Match one side of a legacy rule against an endpoint
+ */
+function matchLegacySide(
+  rule: DetailedFirewallRule,
+  side: 'src' | 'dst',
+  endpoint: TrafficEndpoint,
+  query: TrafficQuery,
+  config: LegacyFirewallConfig
+): MatchResult {
+  const results: MatchResult[] = [];
+  const networkId = side === 'src' ? rule.srcNetworkconfId : rule.dstNetworkconfId;
+  const networkType = side === 'src' ? rule.srcNetworkconfType : rule.dstNetworkconfType;
+  const address = side === 'src' ? rule.src : rule.dst;
+  const port = side === 'src' ? rule.srcPort : rule.dstPort;
+  const groupIds = side === 'src' ? rule.srcFirewallgroupIds : rule.dstFirewallgroupIds;
+  const simulatedPort = side === 'dst' ? query.port : undefined;
+
+  if (networkId) {
+    if (networkType === 'ADDRv4') {
+      const network = config.networks.find(n => n.id === networkId);
+      // ADDRv4 matches the network's gateway address only
+      results.push(!network ? 'no'
+        : endpoint.cidr === `${network.gateway}/32` ? 'yes'
+        : endpoint.cidr && !cidrContains(endpoint.cidr, network.gateway) ? 'no'
+        : 'partial');
+    } else {
+      results.push(endpoint.networkId === networkId ? 'yes' : endpoint.networkId ? 'no' : 'partial');
+    }
+  }
+  if (address) {
+    results.push(matchAddress(address, endpoint));
+  }
+  if (port) {
+    results.push(matchPort(port, simulatedPort));
+  }
+
+  for (const groupId of groupIds) {
+    const group = config.groups.find(g => g._id === groupId);
+    const members = groupMembers(config.groups, groupId);
+    if (!group || !members) {
+      results.push('no');
+    } else if (group.group_type === 'port-group') {
+      results.push(any(members.map(member => matchPort(member, simulatedPort))));
+    } else {
+      results.push(any(members.map(member => matchAddress(member, endpoint))));
+    }
+  }
+
+  if (side === 'src' && rule.srcMacAddress) {
+    results.push(endpoint.mac ? (normalizeMAC(rule.srcMacAddress) === endpoint.mac ? 'yes' : 'no') : 'partial');
+  }
+
+  return combine(results);
+}
+
+/**
+ * Match a legacy rule against a new connection
+ */
+function matchLegacyRule(rule: DetailedFirewallRule, query: TrafficQuery, config: LegacyFirewallConfig): MatchResult {
+  let protocol = matchProtocol(rule.protocol, query);
+  if (rule.protocolMatchExcepted && protocol !== 'partial') {
+    protocol = protocol === 'yes' ? 'no' : 'yes';
+  }
+
+  return combine([
+    protocol,
+    rule.states.length > 0 && !rule.states.includes('new') ? 'no' : 'yes',
+    rule.icmpTypename && query.protocol === 'icmp' ? 'partial' : 'yes',
+    rule.ipsec ? 'partial' : 'yes',
+    matchLegacySide(rule, 'src', query.source, query, config),
+    matchLegacySide(rule, 'dst', query.destination, query, config)
+  ]);
+}
+
+/**
+ * Walk the legacy rule sets a flow traverses. Within each set the first
+ * matching rule by rule_index decides; an accept moves on to the next set.
+ */
+export function evaluateLegacy(query: TrafficQuery, config: LegacyFirewallConfig): ReachabilityVerdict {
+  const path: ReachabilityStep[] = [];
+  const notes: string[] = [];
+
+  if (query.source.guest) {
+    notes.push('Built-in guest isolation rules are not part of the configured rule sets and are not simulated');
+  }
+
+  let lastAccept: ReachabilityVerdict['decidedBy'] | undefined;
+  for (const ruleSet of legacyRuleSets(query.source, query.destination)) {
+    const rules = config.rules
+      .filter(rule => rule.ruleSet === ruleSet && rule.enabled)
+      .sort((a, b) => a.ruleIndex - b.ruleIndex);
+
+    let decided: DetailedFirewallRule | undefined;
+    for (const rule of rules) {
+      const result = matchLegacyRule(rule, query, config);
+      if (result === 'no') continue;
+
+      path.push({
+        stage: ruleSet,
+        id: rule.id,
+        name: rule.name,
+        result: result === 'yes' ? 'match' : 'possible-match',
+        action: rule.action,
+        ...(result === 'partial' && { reason: 'Depends on details the simulation does not know (port, address or MAC)' })
+      });
+      if (result === 'yes') {
+        decided = rule;
+        break;
+      }
+    }
+
+    if (!decided) {
+      const action = LEGACY_DEFAULTS[ruleSet];
+      if (action === 'deny') {
+        return {
+          verdict: 'deny',
+          model: 'legacy',
+          decidedBy: { type: 'default', stage: ruleSet, detail: `No rule in ${ruleSet} matched; the rule set drops by default` },
+          path,
+          notes
+        };
+      }
+      lastAccept = { type: 'default', stage: ruleSet, detail: `No rule in ${ruleSet} matched; the rule set accepts by default` };
+      continue;
+    }
+
+    const decidedBy = {
+      type: 'legacy-rule' as const,
+      id: decided.id,
+      name: decided.name,
+      stage: ruleSet,
+      detail: `${ruleSet} rule '${decided.name}' (index ${decided.ruleIndex}) ${decided.action === FirewallAction.ALLOW ? 'accepts' : decided.action === FirewallAction.REJECT ? 'rejects' : 'drops'} the traffic`
+    };
+    if (decided.action !== FirewallAction.ALLOW) {
+      return {
+        verdict: decided.action === FirewallAction.REJECT ? 'reject' : 'deny',
+        model: 'legacy',
+        decidedBy,
+        path,
+        notes
+      };
+    }
+    lastAccept = decidedBy;
+  }
+
+  return {
+    verdict: 'allow',
+    model: 'legacy',
+    decidedBy: lastAccept!,
+    path,
+    notes
+  };
+}
+
+// ================================
+// Zone Policy Evaluation
+// ================================
+
+/**
+ * Match one side of a zone policy against an endpoint
+ */
+function matchPolicyEndpoint(
+  policyEndpoint: ZonePolicyEndpoint | undefined,
+  endpoint: TrafficEndpoint,
+  port: number | undefined,
+  groups: any[]
+): MatchResult {
+  if (!policyEndpoint) return 'yes';
+  const results: MatchResult[] = [];
+
+  if (policyEndpoint.ips) {
+    results.push(any(policyEndpoint.ips.map(ip => matchAddress(ip, endpoint))));
+  }
+  if (policyEndpoint.ipGroupId) {
+    const members = groupMembers(groups, policyEndpoint.ipGroupId);
+    results.push(members ? any(members.map(member => matchAddress(member, endpoint))) : 'no');
+  }
+  if (policyEndpoint.networkIds) {
+    results.push(endpoint.networkId ? (policyEndpoint.networkIds.includes(endpoint.networkId) ? 'yes' : 'no') : 'partial');
+  }
+  if (policyEndpoint.ports) {
+    results.push(any(policyEndpoint.ports.map(spec => matchPort(spec, port))));
+  }
+  if (policyEndpoint.portGroupId) {
+    const members = groupMembers(groups, policyEndpoint.portGroupId);
+    results.push(members ? any(members.map(member => matchPort(member, port))) : 'no');
+  }
+
+  return combine(results);
+}
+
+/**
+ * Match a zone policy against a new connection
+ */
+function matchZonePolicy(policy: ZonePolicy, query: TrafficQuery, groups: any[]): MatchResult {
+  const protocol = policy.protocol === 'icmpv6' ? 'no' : matchProtocol(policy.protocol, query);
+
+  return combine([
+    protocol,
+    policy.ipVersion === 'ipv6' ? 'no' : 'yes',
+    policy.connectionStates && !policy.connectionStates.includes('new') ? 'no' : 'yes',
+    scheduleActive(policy.schedule, query.at) ? 'yes' : 'no',
+    policy.applications && policy.applications.length > 0 ? 'partial' : 'yes',
+    matchPolicyEndpoint(policy.source, query.source, undefined, groups),
+    matchPolicyEndpoint(policy.destination, query.destination, query.port, groups)
+  ]);
+}
+
+/**
+ * Evaluate the zone policies between the source and destination zones;
+ * the first matching policy by priority decides, otherwise the zone pair
+ * default applies.
+ */
+export function evaluateZonePolicies(query: TrafficQuery, config: ZoneFirewallConfig): ReachabilityVerdict {
+  const path: ReachabilityStep[] = [];
+  const notes: string[] = [];
+  const sourceZone = config.zones.find(zone => zone._id === query.source.zoneId);
+  const targetZone = config.zones.find(zone => zone._id === query.destination.zoneId);
+
+  if (!sourceZone || !targetZone) {
+    throw new ValidationError('Both endpoints must belong to a zone', 'zone', {
+      source: query.source.label,
+      destination: query.destination.label
+    });
+  }
+
+  const stage = `${sourceZone.name} → ${targetZone.name}`;
+  const policies = config.policies
+    .filter(p => p.enabled && p.sourceZone === sourceZone._id && p.targetZone === targetZone._id)
+    .sort((a, b) => a.priority - b.priority);
+
+  if (policies.some(p => p.schedule)) {
+    notes.push(`Scheduled policies were evaluated at ${query.at.toISOString()} in the server's local time`);
+  }
+
+  for (const policy of policies) {
+    const result = matchZonePolicy(policy, query, config.groups);
+    if (result === 'no') continue;
+
+    const name = policy.name || policy.id;
+    path.push({
+      stage,
+      id: policy.id,
+      name,
+      result: result === 'yes' ? 'match' : 'possible-match',
+      action: policy.action,
+      ...(result === 'partial' && {
+        reason: policy.applications?.length
+          ? 'Matches by application, which depends on the traffic itself'
+          : 'Depends on details the simulation does not know (port or address)'
+      })
+    });
+
+    if (result === 'yes') {
+      return {
+        verdict: policy.action === FirewallAction.ALLOW ? 'allow' : policy.action === FirewallAction.REJECT ? 'reject' : 'deny',
+        model: 'zbf',
+        decidedBy: {
+          type: 'zone-policy',
+          id: policy.id,
+          name,
+          stage,
+          detail: `${policy.predefined ? 'Predefined policy' : 'Policy'} '${name}' (priority ${policy.priority}) ${policy.action}s ${stage} traffic`
+        },
+        path,
+        notes
+      };
+    }
+  }
+
+  const action = builtinDefaultAction(sourceZone, targetZone);
+  return {
+    verdict: action,
+    model: 'zbf',
+    decidedBy: {
+      type: 'default',
+      stage,
+      detail: `No policy matched; ${stage} defaults to ${action}`
+    },
+    path,
+    notes
+  };
+}
+
+/**
+ * Simulate a flow. Traffic within one network is switched and never
+ * reaches the firewall.
+ */
+export function simulateReachability(
+  query: TrafficQuery,
+  firewall: { model: 'legacy'; config: LegacyFirewallConfig } | { model: 'zbf'; config: ZoneFirewallConfig }
+): ReachabilityVerdict {
+  const { source, destination } = query;
+  if (source.networkId && source.networkId === destination.networkId && !destination.gateway) {
+    return {
+      verdict: 'allow',
+      model: 'none',
+      decidedBy: {
+        type: 'no-firewall',
+        detail: 'Both endpoints are in the same network; the traffic is switched without passing the firewall'
+      },
+      path: [],
+      notes: ['Client isolation on the network or SSID can still block this traffic']
+    };
+  }
+
+  return firewall.model === 'legacy'
+    ? evaluateLegacy(query, firewall.config)
+    : evaluateZonePolicies(query, firewall.config);
+}
+
+// ================================
+// Endpoint Resolution
+// ================================
+
+interface ResolutionContext {
+  networks: DetailedNetwork[];
+  zones: any[];
+  stations: any[];
+  users: any[];
+}
+
+/**
+ * Build an endpoint for an address inside (or outside) the local networks
+ */
+function endpointForNetwork(
+  label: string,
+  kind: TrafficEndpoint['kind'],
+  cidr: string | undefined,
+  network: DetailedNetwork | undefined,
+  context: ResolutionContext
+): TrafficEndpoint {
+  if (!network) {
+    const external = context.zones.find(zone => zone.zone_key === PREDEFINED_ZONES.EXTERNAL);
+    return {
+      label,
+      kind,
+      ...(cidr && { cidr }),
+      ...(external && { zoneId: external._id }),
+      guest: false,
+      external: true,
+      gateway: false
+    };
+  }
+
+  const zone = zoneForNetwork(context.zones, network.id);
+  return {
+    label,
+    kind,
+    ...(cidr && { cidr }),
+    networkId: network.id,
+    ...(zone && { zoneId: zone._id }),
+    guest: network.purpose === NetworkPurpose.GUEST,
+    external: network.purpose === NetworkPurpose.WAN,
+    gateway: false
+  };
+}
+
+/**
+ * Resolve a client MAC, IP address, network, zone, client name or the
+ * keywords "internet" and "gateway" into an endpoint
+ */
+export function resolveEndpoint(ref: string, context: ResolutionContext): TrafficEndpoint {
+  const value = ref.trim();
+  const lower = value.toLowerCase();
+  const localNetworks = context.networks.filter(n => n.subnet && n.purpose !== NetworkPurpose.WAN);
+  const gatewayZone = context.zones.find(zone => zone.zone_key === PREDEFINED_ZONES.GATEWAY);
+
+  if (lower === 'internet' || lower === 'wan') {
+    return endpointForNetwork(value, 'internet', undefined, undefined, context);
+  }
+  if (lower === 'gateway') {
+    return {
+      label: value,
+      kind: 'gateway',
+      ...(gatewayZone && { zoneId: gatewayZone._id }),
+      guest: false,
+      external: false,
+      gateway: true
+    };
+  }
+
+  const networkOf = (ip: string) => localNetworks.find(n => cidrContains(n.subnet, ip));
+
+  if (/^([0-9a-f]{2}[:-]){5}[0-9a-f]{2}$/.test(lower)) {
+    const mac = normalizeMAC(value);
+    const station = context.stations.find(s => typeof s.mac === 'string' && normalizeMAC(s.mac) === mac);
+    const user = context.users.find(u => typeof u.mac === 'string' && normalizeMAC(u.mac) === mac);
+    if (!station && !user) {
+      throw new ResourceNotFoundError('Client', value);
+    }
+
+    const ip: string | undefined = station?.ip || (user?.use_fixedip ? user.fixed_ip : undefined);
+    const network = ip ? networkOf(ip) : context.networks.find(n => n.id === (station?.network_id ?? user?.network_id));
+    const cidr = ip ? `${ip}/32` : network?.subnet;
+    return { ...endpointForNetwork(value, 'client', cidr, network, context), mac };
+  }
+
+  if (isIPv4(value)) {
+    if (context.networks.some(n => n.gateway === value)) {
+      return {
+        label: value,
+        kind: 'gateway',
+        cidr: `${value}/32`,
+        ...(gatewayZone && { zoneId: gatewayZone._id }),
+        guest: false,
+        external: false,
+        gateway: true
+      };
+    }
+    const network = networkOf(value);
+    const station = context.stations.find(s => s.ip === value);
+    return {
+      ...endpointForNetwork(value, 'ip', `${value}/32`, network, context),
+      ...(station?.mac && { mac: normalizeMAC(station.mac) })
+    };
+  }
+
+  const network = context.networks.find(n => n.id === value) ??
+    context.networks.find(n => n.name?.toLowerCase() === lower);
+  if (network) {
+    return endpointForNetwork(value, 'network', network.subnet || undefined, network, context);
+  }
+
+  const zone = context.zones.find(z => z._id === value) ??
+    context.zones.find(z => String(z.name).toLowerCase() === lower || z.zone_key === lower);
+  if (zone) {
+    return {
+      label: value,
+      kind: 'zone',
+      zoneId: zone._id,
+      guest: zone.zone_key === PREDEFINED_ZONES.HOTSPOT,
+      external: zone.zone_key === PREDEFINED_ZONES.EXTERNAL,
+      gateway: zone.zone_key === PREDEFINED_ZONES.GATEWAY
+    };
+  }
+
+  const named = [...context.stations, ...context.users].filter(c =>
+    String(c.name ?? '').toLowerCase() === lower || String(c.hostname ?? '').toLowerCase() === lower
+  );
+  const macs = Array.from(new Set(named.map(c => normalizeMAC(c.mac))));
+  if (macs.length > 1) {
+    throw new ValidationError(`'${value}' matches several clients; use a MAC address instead`, 'endpoint', macs);
+  }
+  if (macs.length === 1) {
+    return { ...resolveEndpoint(macs[0], context), label: value };
+  }
+
+  throw new ResourceNotFoundError('Client, network or zone', value);
+}
+
+// ================================
+// Check Reachability Tool
+// ================================
+
+const checkReachabilityTool: MCPTool = {
+  name: 'unifi_check_reachability',
+  description: 'Simulate whether a source can reach a destination on a protocol/port through the legacy firewall or zone policies, and show the rule or policy that decides it',
+  category: ToolCategory.FIREWALL_LEGACY,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      source: {
+        type: 'string',
+        description: 'Client MAC, IP address, network, zone, client name, "internet" or "gateway"',
+        minLength: 1
+      },
+      destination: {
+        type: 'string',
+        description: 'Client MAC, IP address, network, zone, client name, "internet" or "gateway"',
+        minLength: 1
+      },
+      protocol: {
+        type: 'string',
+        enum: ['tcp', 'udp', 'icmp'],
+        description: 'Protocol of the connection',
+        default: 'tcp'
+      },
+      port: {
+        type: 'number',
+        description: 'Destination port (omit for ICMP)',
+        minimum: 1,
+        maximum: 65535
+      },
+      model: {
+        type: 'string',
+        enum: ['auto', 'legacy', 'zbf'],
+        description: 'Firewall model to evaluate (auto picks zone policies on 9.0+ when zones exist)',
+        default: 'auto'
+      }
+    },
+    required: ['source', 'destination'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const versionDetector = params._versionDetector as VersionDetector;
+      const { source, destination, protocol = 'tcp', port, model = 'auto' } = params;
+
+      if (protocol === 'icmp' && port !== undefined) {
+        throw new ValidationError('ICMP has no ports', 'port', port);
+      }
+
+      logger.info('Simulating reachability', { source, destination, protocol, port, model });
+
+      const capabilities = await versionDetector.detectCapabilities();
+      const [networks, stations, users, groups, zones] = await Promise.all([
+        fetchNetworks(client),
+        client.get(UNIFI_ENDPOINTS.CLIENTS),
+        fetchUsers(client),
+        client.get(UNIFI_ENDPOINTS.FIREWALL_GROUPS),
+        capabilities.supportsZBF && model !== 'legacy' ? fetchRawZones(client) : Promise.resolve([])
+      ]);
+      const firewallGroups = Array.isArray(groups.data) ? groups.data : [];
+
+      const useZones = model === 'zbf' || (model === 'auto' && zones.length > 0);
+      if (useZones) {
+        await versionDetector.validateFeature('zbf');
+      } else {
+        await versionDetector.validateFeature('legacy-firewall');
+      }
+
+      const context: ResolutionContext = {
+        networks,
+        zones,
+        stations: Array.isArray(stations.data) ? stations.data : [],
+        users
+      };
+      const query: TrafficQuery = {
+        source: resolveEndpoint(source, context),
+        destination: resolveEndpoint(destination, context),
+        protocol,
+        port,
+        at: new Date()
+      };
+
+      const result = useZones
+        ? simulateReachability(query, {
+          model: 'zbf',
+          config: { policies: (await fetchRawZonePolicies(client)).map(mapZonePolicy), groups: firewallGroups, zones }
+        })
+        : simulateReachability(query, {
+          model: 'legacy',
+          config: { rules: (await fetchRawFirewallRules(client)).map(mapFirewallRule), groups: firewallGroups, networks }
+        });
+
+      const uncertain = result.path.filter(step => step.result === 'possible-match');
+
+      return {
+        success: true,
+        data: {
+          source: query.source,
+          destination: query.destination,
+          protocol,
+          ...(port !== undefined && { port }),
+          ...result,
+          summary: `${query.source.label} → ${query.destination.label} ${protocol}${port ? `/${port}` : ''}: ${result.verdict.toUpperCase()} (${result.decidedBy.detail})`
+        },
+        ...(uncertain.length > 0 && {
+          warnings: [`${uncertain.length} earlier rule(s) may also match depending on traffic details; see path`]
+        }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to simulate reachability', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'REACHABILITY_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+export {
+  checkReachabilityTool
+};
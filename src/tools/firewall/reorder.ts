@@ -0,0 +1,301 @@
+import { MCPTool, ToolCategory, ToolResult, ErrorCode } from '../../server/types.js';
+import { UniFiClient } from '../../unifi/client.js';
+import { VersionDetector } from '../../unifi/versionDetector.js';
+import { createToolLogger } from '../../utils/logger.js';
+import { UniFiMCPError, ValidationError } from '../../utils/errors.js';
+import { UNIFI_ENDPOINTS } from '../../config/constants.js';
+import { fetchRawFirewallRules } from './mapping.js';
+
+/**
+ * Legacy Firewall Rule Reordering
+ *
+ * Renumbers a whole rule set from a desired order, leaving gaps between
+ * rule_index values, and applies the changes in a sequence where no two
+ * rules ever share an index.
+ */
+
+const logger = createToolLogger('firewall-reorder-tools');
+
+const MIN_RULE_INDEX = 1;
+const MAX_RULE_INDEX = 9999;
+
+export interface RulePosition {
+  id: string;
+  name: string;
+  ruleIndex: number;
+}
+
+export interface RuleMove {
+  id: string;
+  name: string;
+  from: number;
+  to: number;
+  temporary: boolean;
+}
+
+export interface ReorderPlan {
+  before: RulePosition[];
+  after: RulePosition[];
+  steps: RuleMove[];
+}
+
+/**
+ * Resolve the desired order (rule IDs or unique names) against the rules
+ * of one rule set. Every rule must be listed exactly once.
+ */
+export function resolveOrder(rules: RulePosition[], order: string[]): RulePosition[] {
+  const resolved = order.map(ref => {
+    const byId = rules.find(rule => rule.id === ref);
+    if (byId) return byId;
+
+    const byName = rules.filter(rule => rule.name.toLowerCase() === ref.toLowerCase());
+    if (byName.length > 1) {
+      throw new ValidationError(`Rule name '${ref}' is ambiguous; use one of the IDs ${byName.map(r => r.id).join(', ')}`, 'order', ref);
+    }
+    if (byName.length === 0) {
+      throw new ValidationError(`Rule '${ref}' is not in this rule set`, 'order', ref);
+    }
+    return byName[0];
+  });
+
+  const duplicates = resolved.filter((rule, index) => resolved.indexOf(rule) !== index);
+  if (duplicates.length > 0) {
+    throw new ValidationError(`Rules listed more than once: ${duplicates.map(r => r.name || r.id).join(', ')}`, 'order');
+  }
+
+  const missing = rules.filter(rule => !resolved.includes(rule));
+  if (missing.length > 0) {
+    throw new ValidationError(
+      `The order must list every rule in the rule set; missing: ${missing.map(r => `${r.name || r.id} (${r.id})`).join(', ')}`,
+      'order'
+    );
+  }
+
+  return resolved;
+}
+
+/**
+ * Compute the sequence of index changes that moves every rule to its
+ * target without two rules sharing an index at any point. A rule is only
+ * moved once its target is free; cycles are broken by parking one rule
+ * on an unused index first.
+ */
+export function planMoveSequence(current: RulePosition[], targets: Map<string, number>): RuleMove[] {
+  const positions = new Map(current.map(rule => [rule.id, rule.ruleIndex]));
+  const names = new Map(current.map(rule => [rule.id, rule.name]));
+  const pending = current.filter(rule => targets.get(rule.id) !== rule.ruleIndex).map(rule => rule.id);
+  const steps: RuleMove[] = [];
+
+  const occupied = (index: number) => Array.from(positions.values()).includes(index);
+  const freeIndex = () => {
+    const reserved = new Set([...positions.values(), ...targets.values()]);
+    const highest = Math.max(...reserved);
+    for (let index = highest + 1; index <= MAX_RULE_INDEX; index++) {
+      if (!reserved.has(index)) return index;
+    }
+    for (let index = Math.min(...reserved) - 1; index >= MIN_RULE_INDEX; index--) {
+      if (!reserved.has(index)) return index;
+    }
+    throw new ValidationError('No free rule index is available to reorder these rules');
+  };
+
+  const move = (id: string, to: number, temporary: boolean) => {
+    steps.push({ id, name: names.get(id) ?? '', from: positions.get(id)!, to, temporary });
+    positions.set(id, to);
+  };
+
+  while (pending.length > 0) {
+    const ready = pending.findIndex(id => !occupied(targets.get(id)!));
+    if (ready >= 0) {
+      const [id] = pending.splice(ready, 1);
+      move(id, targets.get(id)!, false);
+      continue;
+    }
+
+    // Every pending target is held by another pending rule
+    move(pending[0], freeIndex(), true);
+  }
+
+  return steps;
+}
+
+/**
+ * Plan the renumbering of a rule set into the given order
+ */
+export function planReorder(
+  rules: RulePosition[],
+  order: string[],
+  startIndex: number,
+  step: number
+): ReorderPlan {
+  const before = [...rules].sort((a, b) => a.ruleIndex - b.ruleIndex);
+  const desired = resolveOrder(before, order);
+
+  const lastIndex = startIndex + step * (desired.length - 1);
+  if (lastIndex > MAX_RULE_INDEX) {
+    throw new ValidationError(
+      `Renumbering ${desired.length} rules from ${startIndex} in steps of ${step} would exceed rule index ${MAX_RULE_INDEX}`,
+      'step',
+      step
+    );
+  }
+
+  const after = desired.map((rule, position) => ({ ...rule, ruleIndex: startIndex + step * position }));
+  const targets = new Map(after.map(rule => [rule.id, rule.ruleIndex]));
+
+  return {
+    before,
+    after,
+    steps: planMoveSequence(before, targets)
+  };
+}
+
+// ================================
+// Reorder Firewall Rules Tool
+// ================================
+
+const reorderFirewallRulesTool: MCPTool = {
+  name: 'unifi_reorder_firewall_rules',
+  description: 'Reorder every legacy firewall rule in a rule set at once, renumbering rule_index with gaps. Previews the before/after order unless apply=true; an interrupted run is resumed by repeating the call.',
+  category: ToolCategory.FIREWALL_LEGACY,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ruleSet: {
+        type: 'string',
+        enum: ['WAN_IN', 'WAN_OUT', 'WAN_LOCAL', 'LAN_IN', 'LAN_OUT', 'LAN_LOCAL', 'GUEST_IN', 'GUEST_OUT', 'GUEST_LOCAL'],
+        description: 'Rule set to reorder'
+      },
+      order: {
+        type: 'array',
+        items: { type: 'string', minLength: 1 },
+        description: 'Every rule of the rule set (ID or unique name), first match first',
+        minItems: 1
+      },
+      startIndex: {
+        type: 'number',
+        description: 'rule_index of the first rule',
+        minimum: MIN_RULE_INDEX,
+        maximum: MAX_RULE_INDEX,
+        default: 2000
+      },
+      step: {
+        type: 'number',
+        description: 'Gap between consecutive rule_index values',
+        minimum: 1,
+        maximum: 1000,
+        default: 10
+      },
+      apply: {
+        type: 'boolean',
+        description: 'Apply the new order (default: preview only)',
+        default: false
+      }
+    },
+    required: ['ruleSet', 'order'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const versionDetector = params._versionDetector as VersionDetector;
+      const { ruleSet, order, startIndex = 2000, step = 10, apply = false } = params;
+
+      // Check if legacy firewall is supported
+      await versionDetector.validateFeature('legacy-firewall');
+
+      logger.info('Reordering legacy firewall rules', { ruleSet, count: order.length, startIndex, step, apply });
+
+      const rawRules = (await fetchRawFirewallRules(client)).filter(raw => raw.ruleset === ruleSet);
+      const plan = planReorder(
+        rawRules.map(raw => ({ id: raw._id, name: raw.name || '', ruleIndex: Number(raw.rule_index ?? 2000) })),
+        order,
+        startIndex,
+        step
+      );
+
+      if (!apply || plan.steps.length === 0) {
+        return {
+          success: true,
+          data: {
+            applied: false,
+            ruleSet,
+            ...plan,
+            message: plan.steps.length === 0
+              ? `Rule set ${ruleSet} is already in the requested order`
+              : `${plan.steps.length} index change(s) needed; call again with apply=true to apply them`
+          },
+          metadata: {
+            executionTime: 0,
+            timestamp: new Date()
+          }
+        };
+      }
+
+      // Apply moves one at a time; stop at the first failure
+      const completed: RuleMove[] = [];
+      let failure: { step: RuleMove; message: string } | undefined;
+
+      for (const move of plan.steps) {
+        const raw = rawRules.find(rule => rule._id === move.id);
+        try {
+          const response = await client.put(
+            UNIFI_ENDPOINTS.FIREWALL_RULE_DETAILS.replace('{id}', move.id),
+            { ...raw, rule_index: move.to }
+          );
+          if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+            throw new UniFiMCPError('Failed to update firewall rule', ErrorCode.RULE_UPDATE_FAILED);
+          }
+          completed.push(move);
+        } catch (error) {
+          failure = { step: move, message: (error as Error).message };
+          logger.warn(`Stopping reorder at rule ${move.id}`, error as any);
+          break;
+        }
+      }
+
+      return {
+        success: !failure,
+        data: {
+          applied: true,
+          ruleSet,
+          ...plan,
+          completed,
+          remaining: plan.steps.slice(completed.length)
+        },
+        ...(failure && {
+          error: {
+            code: ErrorCode.RULE_UPDATE_FAILED,
+            message: `Moving '${failure.step.name}' to ${failure.step.to} failed: ${failure.message}`
+          },
+          warnings: ['Repeat the same call to resume; rules already in place are skipped']
+        }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to reorder firewall rules', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'FIREWALL_RULE_REORDER_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+export {
+  reorderFirewallRulesTool
+};
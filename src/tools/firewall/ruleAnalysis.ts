@@ -0,0 +1,607 @@
+import { MCPTool, ToolCategory, ToolResult } from '../../server/types.js';
+import { UniFiClient } from '../../unifi/client.js';
+import { VersionDetector } from '../../unifi/versionDetector.js';
+import {
+  DetailedFirewallRule,
+  DetailedNetwork,
+  FirewallAction,
+  ZonePolicy,
+  ZonePolicyEndpoint
+} from '../../unifi/types.js';
+import { createToolLogger } from '../../utils/logger.js';
+import { UniFiMCPError } from '../../utils/errors.js';
+import { ipToNumber, isIPv4, parseCIDR } from '../../utils/cidr.js';
+import { UNIFI_ENDPOINTS } from '../../config/constants.js';
+import { fetchNetworks } from '../networks/mapping.js';
+import {
+  fetchRawZones,
+  fetchRawZonePolicies,
+  fetchRawFirewallRules,
+  mapFirewallRule,
+  mapZonePolicy
+} from './mapping.js';
+
+/**
+ * Firewall Rule Analyzer
+ *
+ * Finds legacy rules and zone policies that can never match (shadowed),
+ * duplicates, overlapping rules with conflicting actions and long-disabled
+ * rules, explaining each finding in terms of protocol, address and port
+ * containment.
+ */
+
+const logger = createToolLogger('rule-analysis-tools');
+
+type Range = [number, number];
+
+/**
+ * A set of addresses or ports. Values that cannot be reduced to numeric
+ * ranges (IPv6, unknown networks) are compared by name in `other`.
+ */
+export interface MatchSet {
+  any: boolean;
+  ranges: Range[];
+  other: string[];
+  label: string;
+}
+
+/**
+ * The traffic a rule or policy matches. `conditions` holds criteria the
+ * analyzer cannot compare structurally (states, MAC, schedule, apps);
+ * a rule only covers another if its conditions are a subset.
+ */
+export interface TrafficMatch {
+  protocols: string[] | 'all';
+  source: MatchSet;
+  destination: MatchSet;
+  sourcePorts: MatchSet;
+  destinationPorts: MatchSet;
+  conditions: string[];
+}
+
+export interface AnalyzedEntry {
+  kind: 'legacy-rule' | 'zone-policy';
+  id: string;
+  name: string;
+  scope: string;
+  order: number;
+  enabled: boolean;
+  action: 'allow' | 'block';
+  match: TrafficMatch;
+  createdAt?: Date;
+}
+
+export type FindingKind = 'shadowed' | 'duplicate' | 'conflict' | 'stale-disabled';
+
+export interface RuleFinding {
+  kind: FindingKind;
+  scope: string;
+  rule: { id: string; name: string; order: number };
+  other?: { id: string; name: string; order: number };
+  explanation: string;
+  recommendation: string;
+}
+
+const ANY: MatchSet = { any: true, ranges: [], other: [], label: 'any' };
+
+// ================================
+// Set Construction
+// ================================
+
+/**
+ * Build an address set from IPv4 addresses, CIDRs and ranges; anything
+ * else is kept by name
+ */
+export function addressSet(values: string[], label = values.join(', ')): MatchSet {
+  const ranges: Range[] = [];
+  const other: string[] = [];
+
+  for (const value of values.map(v => v.trim())) {
+    const [start, end] = value.split('-');
+    if (end !== undefined && isIPv4(start) && isIPv4(end)) {
+      ranges.push([ipToNumber(start), ipToNumber(end)]);
+    } else if (isIPv4(value.split('/')[0])) {
+      const block = parseCIDR(value);
+      ranges.push([block.start, block.end]);
+    } else {
+      other.push(value.toLowerCase());
+    }
+  }
+
+  return { any: false, ranges, other, label };
+}
+
+/**
+ * Build a port set from "80", "8000-8080" and "80,443" style values
+ */
+export function portSet(values: string[], label = values.join(', ')): MatchSet {
+  const ranges: Range[] = values
+    .flatMap(value => value.split(','))
+    .map(part => {
+      const [start, end = start] = part.trim().split('-').map(Number);
+      return [start, end] as Range;
+    })
+    .filter(([start, end]) => Number.isFinite(start) && Number.isFinite(end));
+
+  return { any: false, ranges, other: [], label };
+}
+
+/**
+ * Intersect several constraints on the same side; the analyzer only keeps
+ * the first and records the rest as conditions
+ */
+function firstOrAny(sets: MatchSet[], conditions: string[], side: string): MatchSet {
+  if (sets.length > 1) {
+    conditions.push(`${side}: ${sets.map(s => s.label).join(' AND ')}`);
+  }
+  return sets[0] ?? ANY;
+}
+
+/**
+ * Members of a group as an address or port set
+ */
+function groupSet(groups: any[], groupId: string): { set: MatchSet; isPort: boolean } {
+  const group = groups.find(g => g._id === groupId);
+  if (!group) {
+    return { set: { any: false, ranges: [], other: [`group:${groupId}`], label: `missing group ${groupId}` }, isPort: false };
+  }
+
+  const members: string[] = Array.isArray(group.group_members) ? group.group_members : [];
+  const label = `group '${group.name}' (${members.join(', ')})`;
+  return group.group_type === 'port-group'
+    ? { set: portSet(members, label), isPort: true }
+    : { set: addressSet(members, label), isPort: false };
+}
+
+/**
+ * Protocol list of a rule or policy
+ */
+function protocolsOf(protocol: string): string[] | 'all' {
+  if (!protocol || protocol === 'all') return 'all';
+  return protocol === 'tcp_udp' ? ['tcp', 'udp'] : [protocol];
+}
+
+/**
+ * Describe the traffic matched by a legacy rule
+ */
+export function legacyRuleMatch(rule: DetailedFirewallRule, groups: any[], networks: DetailedNetwork[]): TrafficMatch {
+  const conditions: string[] = [];
+  const side = (which: 'src' | 'dst') => {
+    const addresses: MatchSet[] = [];
+    const ports: MatchSet[] = [];
+    const networkId = which === 'src' ? rule.srcNetworkconfId : rule.dstNetworkconfId;
+    const networkType = which === 'src' ? rule.srcNetworkconfType : rule.dstNetworkconfType;
+    const address = which === 'src' ? rule.src : rule.dst;
+    const port = which === 'src' ? rule.srcPort : rule.dstPort;
+
+    if (networkId) {
+      const network = networks.find(n => n.id === networkId);
+      if (!network || !network.subnet) {
+        addresses.push({ any: false, ranges: [], other: [`network:${networkId}`], label: `network ${networkId}` });
+      } else if (networkType === 'ADDRv4') {
+        addresses.push(addressSet([network.gateway], `${network.name} gateway (${network.gateway})`));
+      } else {
+        addresses.push(addressSet([network.subnet], `${network.name} (${network.subnet})`));
+      }
+    }
+    if (address) {
+      addresses.push(addressSet([address]));
+    }
+    if (port) {
+      ports.push(portSet([port]));
+    }
+    for (const groupId of which === 'src' ? rule.srcFirewallgroupIds : rule.dstFirewallgroupIds) {
+      const { set, isPort } = groupSet(groups, groupId);
+      (isPort ? ports : addresses).push(set);
+    }
+
+    return {
+      addresses: firstOrAny(addresses, conditions, which === 'src' ? 'source' : 'destination'),
+      ports: firstOrAny(ports, conditions, which === 'src' ? 'source port' : 'destination port')
+    };
+  };
+
+  const src = side('src');
+  const dst = side('dst');
+  if (rule.states.length > 0) conditions.push(`states ${[...rule.states].sort().join('/')}`);
+  if (rule.srcMacAddress) conditions.push(`source MAC ${rule.srcMacAddress.toLowerCase()}`);
+  if (rule.icmpTypename) conditions.push(`ICMP type ${rule.icmpTypename}`);
+  if (rule.ipsec) conditions.push(`IPsec ${rule.ipsec}`);
+  if (rule.protocolMatchExcepted) conditions.push('protocol negated');
+
+  return {
+    protocols: protocolsOf(rule.protocol),
+    source: src.addresses,
+    destination: dst.addresses,
+    sourcePorts: src.ports,
+    destinationPorts: dst.ports,
+    conditions
+  };
+}
+
+/**
+ * Describe the traffic matched by a zone policy
+ */
+export function zonePolicyMatch(policy: ZonePolicy, groups: any[], networks: DetailedNetwork[]): TrafficMatch {
+  const conditions: string[] = [];
+  const endpoint = (value: ZonePolicyEndpoint | undefined) => {
+    let addresses = ANY;
+    let ports = ANY;
+    if (value?.ips) addresses = addressSet(value.ips);
+    if (value?.ipGroupId) addresses = groupSet(groups, value.ipGroupId).set;
+    if (value?.networkIds) {
+      const subnets = value.networkIds.map(id => networks.find(n => n.id === id));
+      addresses = subnets.every(n => n?.subnet)
+        ? addressSet(subnets.map(n => n!.subnet), subnets.map(n => `${n!.name} (${n!.subnet})`).join(', '))
+        : { any: false, ranges: [], other: value.networkIds.map(id => `network:${id}`), label: value.networkIds.join(', ') };
+    }
+    if (value?.ports) ports = portSet(value.ports);
+    if (value?.portGroupId) ports = groupSet(groups, value.portGroupId).set;
+    return { addresses, ports };
+  };
+
+  const source = endpoint(policy.source);
+  const destination = endpoint(policy.destination);
+  if (policy.ipVersion !== 'both') conditions.push(`IP version ${policy.ipVersion}`);
+  if (policy.applications?.length) conditions.push(`apps ${[...policy.applications].sort().join(',')}`);
+  if (policy.schedule && policy.schedule.mode !== 'always') conditions.push(`schedule ${JSON.stringify(policy.schedule)}`);
+  if (policy.connectionStates) conditions.push(`states ${[...policy.connectionStates].sort().join('/')}`);
+
+  return {
+    protocols: protocolsOf(policy.protocol),
+    source: source.addresses,
+    destination: destination.addresses,
+    sourcePorts: source.ports,
+    destinationPorts: destination.ports,
+    conditions
+  };
+}
+
+// ================================
+// Set Comparison
+// ================================
+
+/**
+ * Merge overlapping and adjacent ranges
+ */
+function mergeRanges(ranges: Range[]): Range[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: Range[] = [];
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Check whether set a contains every value of set b
+ */
+export function setContains(a: MatchSet, b: MatchSet): boolean {
+  if (a.any) return true;
+  if (b.any) return false;
+
+  const merged = mergeRanges(a.ranges);
+  const rangesCovered = b.ranges.every(([start, end]) =>
+    merged.some(([outerStart, outerEnd]) => start >= outerStart && end <= outerEnd)
+  );
+  return rangesCovered && b.other.every(value => a.other.includes(value));
+}
+
+/**
+ * Check whether two sets share any value
+ */
+export function setsOverlap(a: MatchSet, b: MatchSet): boolean {
+  if (a.any || b.any) return true;
+  return a.ranges.some(([aStart, aEnd]) => b.ranges.some(([bStart, bEnd]) => aStart <= bEnd && bStart <= aEnd)) ||
+    a.other.some(value => b.other.includes(value));
+}
+
+function protocolsContain(a: string[] | 'all', b: string[] | 'all'): boolean {
+  if (a === 'all') return true;
+  if (b === 'all') return false;
+  return b.every(protocol => a.includes(protocol));
+}
+
+function protocolsOverlap(a: string[] | 'all', b: string[] | 'all'): boolean {
+  return a === 'all' || b === 'all' || a.some(protocol => b.includes(protocol));
+}
+
+const DIMENSIONS = [
+  ['source', 'source'],
+  ['destination', 'destination'],
+  ['sourcePorts', 'source port'],
+  ['destinationPorts', 'destination port']
+] as const;
+
+/**
+ * Check whether match a covers all traffic of match b
+ */
+export function matchCovers(a: TrafficMatch, b: TrafficMatch): boolean {
+  return protocolsContain(a.protocols, b.protocols) &&
+    DIMENSIONS.every(([key]) => setContains(a[key], b[key])) &&
+    a.conditions.every(condition => b.conditions.includes(condition));
+}
+
+/**
+ * Check whether two matches can apply to the same traffic. Conditions the
+ * analyzer cannot compare must be identical to count as overlap.
+ */
+export function matchesOverlap(a: TrafficMatch, b: TrafficMatch): boolean {
+  return protocolsOverlap(a.protocols, b.protocols) &&
+    DIMENSIONS.every(([key]) => setsOverlap(a[key], b[key])) &&
+    (a.conditions.every(c => b.conditions.includes(c)) || b.conditions.every(c => a.conditions.includes(c)));
+}
+
+/**
+ * Explain, dimension by dimension, how match a relates to match b
+ */
+function explain(a: TrafficMatch, b: TrafficMatch, relation: '⊇' | '∩'): string {
+  const protocolLabel = (p: string[] | 'all') => p === 'all' ? 'all' : p.join('/');
+  const parts = [`protocol ${protocolLabel(a.protocols)} ${relation} ${protocolLabel(b.protocols)}`];
+
+  for (const [key, label] of DIMENSIONS) {
+    if (a[key].any && b[key].any) continue;
+    parts.push(`${label} ${a[key].label} ${relation} ${b[key].label}`);
+  }
+  if (a.conditions.length > 0 || b.conditions.length > 0) {
+    parts.push(`conditions [${a.conditions.join('; ') || 'none'}] vs [${b.conditions.join('; ') || 'none'}]`);
+  }
+  return parts.join('; ');
+}
+
+/**
+ * Creation time embedded in a controller object ID, if it is one
+ */
+export function objectIdTimestamp(id: string): Date | undefined {
+  return /^[0-9a-f]{24}$/i.test(id) ? new Date(parseInt(id.slice(0, 8), 16) * 1000) : undefined;
+}
+
+// ================================
+// Analysis
+// ================================
+
+/**
+ * Analyze rules or policies. Entries are compared only within the same
+ * scope (rule set or zone pair) and in evaluation order.
+ */
+export function analyzeEntries(entries: AnalyzedEntry[], staleDays: number, now = new Date()): RuleFinding[] {
+  const findings: RuleFinding[] = [];
+  const ref = (entry: AnalyzedEntry) => ({ id: entry.id, name: entry.name, order: entry.order });
+  const scopes = Array.from(new Set(entries.map(entry => entry.scope)));
+
+  for (const scope of scopes) {
+    const ordered = entries
+      .filter(entry => entry.scope === scope && entry.enabled)
+      .sort((a, b) => a.order - b.order);
+
+    ordered.forEach((later, index) => {
+      const earlier = ordered.slice(0, index);
+
+      const duplicate = earlier.find(e =>
+        e.action === later.action && matchCovers(e.match, later.match) && matchCovers(later.match, e.match) &&
+        e.match.conditions.length === later.match.conditions.length
+      );
+      if (duplicate) {
+        findings.push({
+          kind: 'duplicate',
+          scope,
+          rule: ref(later),
+          other: ref(duplicate),
+          explanation: `'${later.name}' matches exactly the same traffic as '${duplicate.name}' with the same action: ${explain(duplicate.match, later.match, '⊇')}`,
+          recommendation: `Delete '${later.name}'`
+        });
+        return;
+      }
+
+      const shadow = earlier.find(e => matchCovers(e.match, later.match));
+      if (shadow) {
+        findings.push({
+          kind: 'shadowed',
+          scope,
+          rule: ref(later),
+          other: ref(shadow),
+          explanation: `'${shadow.name}' (order ${shadow.order}) already ${shadow.action === 'allow' ? 'allows' : 'blocks'} all traffic '${later.name}' matches, so it never applies: ${explain(shadow.match, later.match, '⊇')}`,
+          recommendation: shadow.action === later.action
+            ? `'${later.name}' is redundant; delete it`
+            : `Move '${later.name}' above '${shadow.name}' if its ${later.action} action is intended, otherwise delete it`
+        });
+        return;
+      }
+
+      const conflict = earlier.find(e => e.action !== later.action && matchesOverlap(e.match, later.match));
+      if (conflict) {
+        findings.push({
+          kind: 'conflict',
+          scope,
+          rule: ref(later),
+          other: ref(conflict),
+          explanation: `'${conflict.name}' (${conflict.action}) and '${later.name}' (${later.action}) overlap; '${conflict.name}' wins for the shared traffic: ${explain(conflict.match, later.match, '∩')}`,
+          recommendation: 'Narrow one of the rules or confirm the order is intended'
+        });
+      }
+    });
+
+    const cutoff = now.getTime() - staleDays * 24 * 60 * 60 * 1000;
+    for (const entry of entries.filter(e => e.scope === scope && !e.enabled)) {
+      if (entry.createdAt && entry.createdAt.getTime() < cutoff) {
+        const days = Math.floor((now.getTime() - entry.createdAt.getTime()) / (24 * 60 * 60 * 1000));
+        findings.push({
+          kind: 'stale-disabled',
+          scope,
+          rule: ref(entry),
+          explanation: `'${entry.name}' is disabled and was created ${days} days ago (${entry.createdAt.toISOString().slice(0, 10)})`,
+          recommendation: `Delete '${entry.name}' if it is no longer needed`
+        });
+      }
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Convert legacy rules into analyzer entries scoped by rule set
+ */
+export function legacyEntries(rules: DetailedFirewallRule[], groups: any[], networks: DetailedNetwork[]): AnalyzedEntry[] {
+  return rules.map(rule => {
+    const createdAt = objectIdTimestamp(rule.id);
+    return {
+      kind: 'legacy-rule' as const,
+      id: rule.id,
+      name: rule.name,
+      scope: rule.ruleSet,
+      order: rule.ruleIndex,
+      enabled: rule.enabled,
+      action: rule.action === FirewallAction.ALLOW ? 'allow' as const : 'block' as const,
+      match: legacyRuleMatch(rule, groups, networks),
+      ...(createdAt && { createdAt })
+    };
+  });
+}
+
+/**
+ * Convert custom zone policies into analyzer entries scoped by zone pair
+ */
+export function zonePolicyEntries(
+  policies: ZonePolicy[],
+  zones: any[],
+  groups: any[],
+  networks: DetailedNetwork[]
+): AnalyzedEntry[] {
+  const zoneName = (id: string) => zones.find(zone => zone._id === id)?.name ?? id;
+
+  return policies
+    .filter(policy => !policy.predefined)
+    .map(policy => {
+      const createdAt = objectIdTimestamp(policy.id);
+      return {
+        kind: 'zone-policy' as const,
+        id: policy.id,
+        name: policy.name || policy.id,
+        scope: `${zoneName(policy.sourceZone)} → ${zoneName(policy.targetZone)}`,
+        order: policy.priority,
+        enabled: policy.enabled,
+        action: policy.action === FirewallAction.ALLOW ? 'allow' as const : 'block' as const,
+        match: zonePolicyMatch(policy, groups, networks),
+        ...(createdAt && { createdAt })
+      };
+    });
+}
+
+// ================================
+// Analyze Firewall Rules Tool
+// ================================
+
+const analyzeFirewallRulesTool: MCPTool = {
+  name: 'unifi_analyze_firewall_rules',
+  description: 'Find shadowed, duplicate and conflicting legacy rules and zone policies, and disabled rules older than N days, explaining each overlap by protocol, CIDR and port containment',
+  category: ToolCategory.FIREWALL_LEGACY,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      staleDays: {
+        type: 'number',
+        description: 'Report disabled rules created more than this many days ago',
+        minimum: 1,
+        maximum: 3650,
+        default: 90
+      },
+      kinds: {
+        type: 'array',
+        items: {
+          type: 'string',
+          enum: ['shadowed', 'duplicate', 'conflict', 'stale-disabled']
+        },
+        description: 'Only report these kinds of findings'
+      },
+      model: {
+        type: 'string',
+        enum: ['auto', 'legacy', 'zbf'],
+        description: 'Firewall model to analyze (auto analyzes every supported model)',
+        default: 'auto'
+      }
+    },
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const versionDetector = params._versionDetector as VersionDetector;
+      const { staleDays = 90, kinds, model = 'auto' } = params;
+
+      logger.info('Analyzing firewall rules', { staleDays, kinds, model });
+
+      const capabilities = await versionDetector.detectCapabilities();
+      const analyzeLegacy = model === 'legacy' || (model === 'auto' && capabilities.supportsLegacyFirewall);
+      const analyzeZones = model === 'zbf' || (model === 'auto' && capabilities.supportsZBF);
+      if (model === 'legacy') await versionDetector.validateFeature('legacy-firewall');
+      if (model === 'zbf') await versionDetector.validateFeature('zbf');
+
+      const [networks, groupsResponse, rawRules, zones, rawPolicies] = await Promise.all([
+        fetchNetworks(client),
+        client.get(UNIFI_ENDPOINTS.FIREWALL_GROUPS),
+        analyzeLegacy ? fetchRawFirewallRules(client) : Promise.resolve([]),
+        analyzeZones ? fetchRawZones(client) : Promise.resolve([]),
+        analyzeZones ? fetchRawZonePolicies(client) : Promise.resolve([])
+      ]);
+      const groups = Array.isArray(groupsResponse.data) ? groupsResponse.data : [];
+
+      const entries = [
+        ...legacyEntries(rawRules.map(mapFirewallRule), groups, networks),
+        ...zonePolicyEntries(rawPolicies.map(mapZonePolicy), zones, groups, networks)
+      ];
+      const findings = analyzeEntries(entries, staleDays)
+        .filter(finding => !kinds || kinds.includes(finding.kind));
+
+      const count = (kind: FindingKind) => findings.filter(f => f.kind === kind).length;
+
+      return {
+        success: true,
+        data: {
+          findings,
+          summary: {
+            legacyRules: rawRules.length,
+            zonePolicies: entries.filter(e => e.kind === 'zone-policy').length,
+            shadowed: count('shadowed'),
+            duplicate: count('duplicate'),
+            conflict: count('conflict'),
+            staleDisabled: count('stale-disabled')
+          }
+        },
+        ...(entries.some(e => e.match.conditions.length > 0) && {
+          warnings: ['Rules with conditions such as states, MAC addresses, schedules or apps are only compared with rules carrying the same conditions']
+        }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to analyze firewall rules', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'RULE_ANALYSIS_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+export {
+  analyzeFirewallRulesTool
+};
@@ -0,0 +1,413 @@
+import { MCPTool, ToolCategory, ToolResult } from '../../server/types.js';
+import { UniFiClient } from '../../unifi/client.js';
+import { VersionDetector } from '../../unifi/versionDetector.js';
+import { DetailedFirewallRule, DetailedNetwork, FirewallAction } from '../../unifi/types.js';
+import { createToolLogger } from '../../utils/logger.js';
+import { UniFiMCPError } from '../../utils/errors.js';
+import { isIPv4, normalizeCIDR } from '../../utils/cidr.js';
+import { UNIFI_ENDPOINTS } from '../../config/constants.js';
+import { fetchNetworks } from '../networks/mapping.js';
+import { fetchRawFirewallRules, mapFirewallRule } from './mapping.js';
+import { LEGACY_DEFAULTS } from './reachability.js';
+
+/**
+ * Firewall Ruleset Export
+ *
+ * Renders legacy rule sets and firewall groups as iptables-save/ipset and
+ * nftables text. Output only depends on the configuration, so two exports
+ * can be diffed line by line.
+ */
+
+const logger = createToolLogger('ruleset-export-tools');
+
+const RULE_SET_ORDER = ['WAN_IN', 'WAN_OUT', 'WAN_LOCAL', 'LAN_IN', 'LAN_OUT', 'LAN_LOCAL', 'GUEST_IN', 'GUEST_OUT', 'GUEST_LOCAL'];
+
+export interface ExportSet {
+  id: string;
+  name: string;
+  groupName: string;
+  type: string;
+  members: string[];
+}
+
+export interface ExportInput {
+  rules: DetailedFirewallRule[];
+  groups: any[];
+  networks: DetailedNetwork[];
+}
+
+// ================================
+// Shared Helpers
+// ================================
+
+/**
+ * Turn firewall groups into sets with unique, deterministic names that
+ * ipset and nft accept
+ */
+export function buildSets(groups: any[]): ExportSet[] {
+  const sorted = [...groups].sort((a, b) =>
+    String(a.name).localeCompare(String(b.name)) || String(a._id).localeCompare(String(b._id))
+  );
+  const used = new Set<string>();
+
+  return sorted.map(group => {
+    const base = String(group.name).replace(/[^A-Za-z0-9_-]/g, '_').replace(/^[^A-Za-z]/, 'g$&').slice(0, 24) || 'group';
+    const name = used.has(base) ? `${base.slice(0, 17)}_${String(group._id).slice(-6)}` : base;
+    used.add(name);
+
+    return {
+      id: group._id,
+      name,
+      groupName: group.name,
+      type: group.group_type,
+      members: (Array.isArray(group.group_members) ? group.group_members : []).map((m: string) => m.trim()).sort()
+    };
+  });
+}
+
+/**
+ * Rule sets in controller order, each with its rules by rule_index
+ */
+function ruleSetsOf(rules: DetailedFirewallRule[]): Array<[string, DetailedFirewallRule[]]> {
+  const names = Array.from(new Set(rules.map(rule => rule.ruleSet)))
+    .sort((a, b) => {
+      const ai = RULE_SET_ORDER.indexOf(a);
+      const bi = RULE_SET_ORDER.indexOf(b);
+      return (ai < 0 ? 99 : ai) - (bi < 0 ? 99 : bi) || a.localeCompare(b);
+    });
+
+  return names.map(name => [
+    name,
+    rules.filter(rule => rule.ruleSet === name).sort((a, b) => a.ruleIndex - b.ruleIndex || a.id.localeCompare(b.id))
+  ]);
+}
+
+function quote(text: string): string {
+  return `"${text.replace(/["\\]/g, '').slice(0, 200)}"`;
+}
+
+/**
+ * Address a rule side matches, as a literal or a set name
+ */
+function sideAddress(
+  rule: DetailedFirewallRule,
+  which: 'src' | 'dst',
+  networks: DetailedNetwork[]
+): { cidr?: string; range?: string; unknownNetwork?: string } {
+  const networkId = which === 'src' ? rule.srcNetworkconfId : rule.dstNetworkconfId;
+  const networkType = which === 'src' ? rule.srcNetworkconfType : rule.dstNetworkconfType;
+  const address = which === 'src' ? rule.src : rule.dst;
+
+  if (networkId) {
+    const network = networks.find(n => n.id === networkId);
+    if (!network?.subnet) return { unknownNetwork: networkId };
+    return { cidr: networkType === 'ADDRv4' ? `${network.gateway}/32` : normalizeCIDR(network.subnet) };
+  }
+  if (address && address.includes('-')) return { range: address };
+  if (address) return { cidr: isIPv4(address.split('/')[0]) ? normalizeCIDR(address) : address };
+  return {};
+}
+
+function sideSets(rule: DetailedFirewallRule, which: 'src' | 'dst', sets: ExportSet[]): ExportSet[] {
+  const ids = which === 'src' ? rule.srcFirewallgroupIds : rule.dstFirewallgroupIds;
+  return ids
+    .map(id => sets.find(set => set.id === id) ?? { id, name: `missing_${id.slice(-6)}`, groupName: id, type: 'address-group', members: [] })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Rule comment with its name and index, noting networks that no longer
+ * exist since their match cannot be rendered
+ */
+function ruleComment(rule: DetailedFirewallRule, networks: DetailedNetwork[]): string {
+  const unknown = (['src', 'dst'] as const)
+    .map(which => sideAddress(rule, which, networks).unknownNetwork)
+    .filter((id): id is string => id !== undefined);
+  return `${rule.name} [${rule.ruleIndex}]${unknown.map(id => ` unknown network ${id}`).join('')}`;
+}
+
+function protocolsOf(rule: DetailedFirewallRule): string[] {
+  const protocol = String(rule.protocol);
+  if (protocol === 'all' || protocol === 'any') return [];
+  return protocol === 'tcp_udp' ? ['tcp', 'udp'] : [protocol];
+}
+
+function verdictOf(action: FirewallAction): 'ACCEPT' | 'DROP' | 'REJECT' {
+  if (action === FirewallAction.ALLOW) return 'ACCEPT';
+  return action === FirewallAction.REJECT ? 'REJECT' : 'DROP';
+}
+
+// ================================
+// iptables-save and ipset
+// ================================
+
+/**
+ * Render firewall groups as `ipset save` output
+ */
+export function renderIpset(sets: ExportSet[]): string {
+  const lines = sets.flatMap(set => [
+    set.type === 'port-group'
+      ? `create ${set.name} bitmap:port range 0-65535`
+      : `create ${set.name} hash:net family ${set.type === 'ipv6-address-group' ? 'inet6' : 'inet'}`,
+    ...set.members.map(member => `add ${set.name} ${member}`)
+  ]);
+
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+function iptablesPorts(flag: 'sport' | 'dport', value: string | undefined): string[] {
+  if (!value) return [];
+  const ports = value.split(',').map(port => port.trim().replace('-', ':'));
+  return ports.length > 1 ? ['-m', 'multiport', `--${flag}s`, ports.join(',')] : [`--${flag}`, ports[0]];
+}
+
+function iptablesRule(rule: DetailedFirewallRule, protocol: string | undefined, sets: ExportSet[], networks: DetailedNetwork[]): string[] {
+  const parts: string[] = ['-A', rule.ruleSet];
+
+  if (protocol) parts.push(...(rule.protocolMatchExcepted ? ['!', '-p', protocol] : ['-p', protocol]));
+  if (protocol === 'icmp' && rule.icmpTypename) parts.push('--icmp-type', rule.icmpTypename);
+
+  for (const which of ['src', 'dst'] as const) {
+    const { cidr, range } = sideAddress(rule, which, networks);
+    if (cidr) parts.push(which === 'src' ? '-s' : '-d', cidr);
+    if (range) parts.push('-m', 'iprange', which === 'src' ? '--src-range' : '--dst-range', range);
+    for (const set of sideSets(rule, which, sets)) {
+      parts.push('-m', 'set', '--match-set', set.name, which === 'src' ? 'src' : 'dst');
+    }
+  }
+
+  if (protocol === 'tcp' || protocol === 'udp') {
+    parts.push(...iptablesPorts('sport', rule.srcPort), ...iptablesPorts('dport', rule.dstPort));
+  }
+  if (rule.srcMacAddress) parts.push('-m', 'mac', '--mac-source', rule.srcMacAddress.toLowerCase());
+  if (rule.states.length > 0) parts.push('-m', 'conntrack', '--ctstate', rule.states.map(s => s.toUpperCase()).join(','));
+  if (rule.ipsec) parts.push('-m', 'policy', '--dir', 'in', '--pol', rule.ipsec === 'match-ipsec' ? 'ipsec' : 'none');
+  parts.push('-m', 'comment', '--comment', quote(ruleComment(rule, networks)));
+
+  const match = parts.join(' ');
+  return [
+    ...(rule.logging ? [`${match} -j LOG --log-prefix ${quote(`[${rule.ruleSet}-${rule.ruleIndex}-${verdictOf(rule.action).charAt(0)}] `)}`] : []),
+    `${match} -j ${verdictOf(rule.action)}`
+  ];
+}
+
+/**
+ * Render legacy rule sets as `iptables-save` output for the filter table.
+ * Disabled rules are kept as comments so their position stays visible.
+ */
+export function renderIptablesSave(input: ExportInput, sets = buildSets(input.groups)): string {
+  const ruleSets = ruleSetsOf(input.rules);
+  const lines = ['# Legacy firewall rule sets exported from UniFi', '*filter'];
+
+  for (const [name] of ruleSets) {
+    lines.push(`:${name} - [0:0]`);
+  }
+
+  for (const [name, rules] of ruleSets) {
+    lines.push(`# ${name}`);
+    for (const rule of rules) {
+      const protocols = protocolsOf(rule);
+      const rendered = (protocols.length > 0 ? protocols : [undefined])
+        .flatMap(protocol => iptablesRule(rule, protocol, sets, input.networks));
+      lines.push(...rendered.map(line => rule.enabled ? line : `# disabled: ${line}`));
+    }
+    lines.push(`-A ${name} -m comment --comment "default" -j ${LEGACY_DEFAULTS[name] === 'deny' ? 'DROP' : 'RETURN'}`);
+  }
+
+  lines.push('COMMIT');
+  return `${lines.join('\n')}\n`;
+}
+
+// ================================
+// nftables
+// ================================
+
+function nftList(values: string[]): string {
+  return values.length === 1 ? values[0] : `{ ${values.join(', ')} }`;
+}
+
+function nftPorts(value: string | undefined): string | undefined {
+  return value ? nftList(value.split(',').map(port => port.trim())) : undefined;
+}
+
+function nftRule(rule: DetailedFirewallRule, sets: ExportSet[], networks: DetailedNetwork[]): string {
+  const parts: string[] = [];
+  const protocols = protocolsOf(rule);
+  const negated = rule.protocolMatchExcepted;
+  const usesPorts = Boolean(rule.srcPort || rule.dstPort) ||
+    [...sideSets(rule, 'src', sets), ...sideSets(rule, 'dst', sets)].some(set => set.type === 'port-group');
+  // Ports only apply to TCP/UDP; a single protocol is implied by its port match
+  const portPrefix = negated || !protocols.every(p => p === 'tcp' || p === 'udp') || protocols.length === 0
+    ? undefined
+    : protocols.length === 1 ? protocols[0] : 'th';
+
+  if (protocols.length > 0 && (negated || !usesPorts || portPrefix !== protocols[0])) {
+    parts.push(`meta l4proto ${negated ? '!= ' : ''}${nftList(protocols)}`);
+  }
+  if (protocols[0] === 'icmp' && rule.icmpTypename) parts.push(`icmp type ${rule.icmpTypename}`);
+
+  for (const which of ['src', 'dst'] as const) {
+    const direction = which === 'src' ? 'saddr' : 'daddr';
+    const { cidr, range } = sideAddress(rule, which, networks);
+    const family = (value: string) => value.includes(':') ? 'ip6' : 'ip';
+    if (cidr) parts.push(`${family(cidr)} ${direction} ${cidr}`);
+    if (range) parts.push(`ip ${direction} ${range}`);
+    for (const set of sideSets(rule, which, sets).filter(s => s.type !== 'port-group')) {
+      parts.push(`${set.type === 'ipv6-address-group' ? 'ip6' : 'ip'} ${direction} @${set.name}`);
+    }
+  }
+
+  if (portPrefix) {
+    const srcPorts = nftPorts(rule.srcPort);
+    const dstPorts = nftPorts(rule.dstPort);
+    if (srcPorts) parts.push(`${portPrefix} sport ${srcPorts}`);
+    if (dstPorts) parts.push(`${portPrefix} dport ${dstPorts}`);
+    for (const set of sideSets(rule, 'src', sets).filter(s => s.type === 'port-group')) parts.push(`${portPrefix} sport @${set.name}`);
+    for (const set of sideSets(rule, 'dst', sets).filter(s => s.type === 'port-group')) parts.push(`${portPrefix} dport @${set.name}`);
+  }
+
+  if (rule.srcMacAddress) parts.push(`ether saddr ${rule.srcMacAddress.toLowerCase()}`);
+  if (rule.states.length > 0) parts.push(`ct state ${nftList(rule.states)}`);
+  if (rule.ipsec) parts.push(`meta ipsec ${rule.ipsec === 'match-ipsec' ? 'exists' : 'missing'}`);
+  parts.push('counter');
+  if (rule.logging) parts.push(`log prefix ${quote(`[${rule.ruleSet}-${rule.ruleIndex}] `)}`);
+  parts.push(verdictOf(rule.action).toLowerCase());
+  parts.push(`comment ${quote(ruleComment(rule, networks))}`);
+
+  return parts.join(' ');
+}
+
+/**
+ * Render legacy rule sets and groups as an `nft` ruleset in an inet table
+ */
+export function renderNftables(input: ExportInput, sets = buildSets(input.groups)): string {
+  const lines = ['# Legacy firewall rule sets exported from UniFi', 'table inet unifi {'];
+
+  for (const set of sets) {
+    const type = set.type === 'port-group' ? 'inet_service' : set.type === 'ipv6-address-group' ? 'ipv6_addr' : 'ipv4_addr';
+    lines.push(`  set ${set.name} {`);
+    lines.push(`    comment ${quote(set.groupName)}`);
+    lines.push(`    type ${type}`);
+    lines.push('    flags interval');
+    if (set.members.length > 0) lines.push(`    elements = { ${set.members.join(', ')} }`);
+    lines.push('  }');
+  }
+
+  for (const [name, rules] of ruleSetsOf(input.rules)) {
+    lines.push(`  chain ${name} {`);
+    for (const rule of rules) {
+      const rendered = nftRule(rule, sets, input.networks);
+      lines.push(`    ${rule.enabled ? rendered : `# disabled: ${rendered}`}`);
+    }
+    lines.push(`    ${LEGACY_DEFAULTS[name] === 'deny' ? 'drop' : 'return'} comment "default"`);
+    lines.push('  }');
+  }
+
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
+
+// ================================
+// Export Firewall Ruleset Tool
+// ================================
+
+const exportFirewallRulesetTool: MCPTool = {
+  name: 'unifi_export_firewall_ruleset',
+  description: 'Export legacy firewall rule sets and groups as deterministic iptables-save (with ipset) and nftables text for offline review and diffing',
+  category: ToolCategory.FIREWALL_LEGACY,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      format: {
+        type: 'string',
+        enum: ['iptables', 'nftables', 'both'],
+        description: 'Output format',
+        default: 'both'
+      },
+      ruleSets: {
+        type: 'array',
+        items: {
+          type: 'string',
+          enum: RULE_SET_ORDER
+        },
+        description: 'Only export these rule sets (default: all)'
+      },
+      includeDisabled: {
+        type: 'boolean',
+        description: 'Keep disabled rules as comments',
+        default: true
+      }
+    },
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const versionDetector = params._versionDetector as VersionDetector;
+      const { format = 'both', ruleSets, includeDisabled = true } = params;
+
+      // Check if legacy firewall is supported
+      await versionDetector.validateFeature('legacy-firewall');
+
+      logger.info('Exporting legacy firewall ruleset', { format, ruleSets, includeDisabled });
+
+      const [rawRules, groups, networks] = await Promise.all([
+        fetchRawFirewallRules(client),
+        client.get(UNIFI_ENDPOINTS.FIREWALL_GROUPS),
+        fetchNetworks(client)
+      ]);
+
+      const rules = rawRules
+        .map(mapFirewallRule)
+        .filter(rule => !ruleSets || ruleSets.includes(rule.ruleSet))
+        .filter(rule => includeDisabled || rule.enabled);
+      const input: ExportInput = { rules, groups: Array.isArray(groups.data) ? groups.data : [], networks };
+      const sets = buildSets(input.groups);
+
+      return {
+        success: true,
+        data: {
+          ...(format !== 'nftables' && {
+            ipset: renderIpset(sets),
+            iptables: renderIptablesSave(input, sets)
+          }),
+          ...(format !== 'iptables' && {
+            nftables: renderNftables(input, sets)
+          }),
+          sets: sets.map(set => ({ name: set.name, group: set.groupName, id: set.id, type: set.type })),
+          summary: {
+            rules: rules.length,
+            disabled: rules.filter(rule => !rule.enabled).length,
+            ruleSets: ruleSetsOf(rules).map(([name]) => name),
+            sets: sets.length
+          }
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to export firewall ruleset', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'FIREWALL_EXPORT_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+export {
+  exportFirewallRulesetTool
+};
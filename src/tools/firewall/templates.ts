@@ -0,0 +1,764 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import { MCPTool, ToolCategory, ToolResult } from '../../server/types.js';
+import { UniFiClient } from '../../unifi/client.js';
+import { VersionDetector } from '../../unifi/versionDetector.js';
+import { FirewallTemplateSchema, ValidationService, firewallGroupMemberIssue } from '../../utils/validators.js';
+import { createToolLogger } from '../../utils/logger.js';
+import { UniFiMCPError, ValidationError, ResourceNotFoundError } from '../../utils/errors.js';
+import { normalizeCIDR } from '../../utils/cidr.js';
+import { config } from '../../config/environment.js';
+import { COMMON_PORTS, COMMON_PORT_RANGES } from '../../config/constants.js';
+import { findRawZone, zoneForNetwork } from './mapping.js';
+import {
+  FirewallDocument,
+  LiveFirewallState,
+  applyFirewallDocumentTool,
+  fetchLiveFirewallState,
+  planFirewallDocument,
+  summarizePlan
+} from './document.js';
+
+/**
+ * Firewall Templates
+ *
+ * Named, parameterized firewall documents for common jobs such as isolating
+ * a VLAN. Parameters are resolved against the controller's networks, groups
+ * and zones, and the template renders to legacy rules or zone policies
+ * depending on what the controller supports. The result goes through the
+ * firewall document planner, so it can be previewed before it is applied.
+ *
+ * Template strings may use these placeholders:
+ *   {{param}}          the resolved parameter value
+ *   {{param.zone}}     zone of a network parameter (zone-based firewall only)
+ *   {{param.subnet}}   subnet of a network parameter
+ *   {{ports.NAME}}     a port from COMMON_PORTS
+ *   {{ranges.NAME}}    a port range from COMMON_PORT_RANGES
+ */
+
+const logger = createToolLogger('firewall-template-tools');
+
+const TEMPLATE_EXTENSIONS = ['.yaml', '.yml', '.json'];
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+const DEFAULT_START_INDEX = 2000;
+
+export type FirewallTemplate = z.input<typeof FirewallTemplateSchema>;
+
+export type FirewallModel = 'legacy' | 'zbf';
+
+export interface LoadedTemplate {
+  template: FirewallTemplate;
+  source: string;
+}
+
+export interface TemplateLoadResult {
+  templates: LoadedTemplate[];
+  errors: Array<{ file: string; message: string }>;
+}
+
+// ================================
+// Built-in Templates
+// ================================
+
+const ESTABLISHED = ['established', 'related'];
+
+export const BUILT_IN_TEMPLATES: FirewallTemplate[] = [
+  {
+    name: 'isolate-network',
+    description: 'Block new connections from one network to another while still letting replies to connections the target opened through',
+    parameters: [
+      { name: 'source', type: 'network', description: 'Network to isolate, e.g. IoT' },
+      { name: 'target', type: 'network', description: 'Network to protect, e.g. LAN' }
+    ],
+    legacy: {
+      rules: [
+        {
+          name: 'Isolate {{source}} from {{target}}: allow established',
+          ruleSet: 'LAN_IN',
+          action: 'allow',
+          source: { network: '{{source}}' },
+          destination: { network: '{{target}}' },
+          states: ESTABLISHED
+        },
+        {
+          name: 'Isolate {{source}} from {{target}}: block',
+          ruleSet: 'LAN_IN',
+          action: 'drop',
+          source: { network: '{{source}}' },
+          destination: { network: '{{target}}' }
+        }
+      ]
+    },
+    zbf: {
+      policies: [
+        {
+          name: 'Isolate {{source}} from {{target}}: allow established',
+          sourceZone: '{{source.zone}}',
+          targetZone: '{{target.zone}}',
+          action: 'allow',
+          source: { networks: ['{{source}}'] },
+          destination: { networks: ['{{target}}'] },
+          connectionStates: ESTABLISHED
+        },
+        {
+          name: 'Isolate {{source}} from {{target}}: block',
+          sourceZone: '{{source.zone}}',
+          targetZone: '{{target.zone}}',
+          action: 'deny',
+          source: { networks: ['{{source}}'] },
+          destination: { networks: ['{{target}}'] }
+        }
+      ]
+    }
+  },
+  {
+    name: 'gateway-dns-ntp-only',
+    description: 'Only let a network reach the gateway for DNS, NTP and DHCP',
+    parameters: [
+      { name: 'network', type: 'network', description: 'Network to restrict' }
+    ],
+    legacy: {
+      rules: [
+        {
+          name: 'Gateway DNS for {{network}}',
+          ruleSet: 'LAN_LOCAL',
+          action: 'allow',
+          protocol: 'tcp_udp',
+          source: { network: '{{network}}' },
+          destination: { port: COMMON_PORTS.DNS }
+        },
+        {
+          name: 'Gateway NTP for {{network}}',
+          ruleSet: 'LAN_LOCAL',
+          action: 'allow',
+          protocol: 'udp',
+          source: { network: '{{network}}' },
+          destination: { port: COMMON_PORTS.NTP }
+        },
+        {
+          name: 'Gateway DHCP for {{network}}',
+          ruleSet: 'LAN_LOCAL',
+          action: 'allow',
+          protocol: 'udp',
+          source: { network: '{{network}}' },
+          destination: { port: COMMON_PORTS.DHCP_SERVER }
+        },
+        {
+          name: 'Block {{network}} to gateway',
+          ruleSet: 'LAN_LOCAL',
+          action: 'drop',
+          source: { network: '{{network}}' }
+        }
+      ]
+    },
+    zbf: {
+      policies: [
+        {
+          name: 'Gateway DNS for {{network}}',
+          sourceZone: '{{network.zone}}',
+          targetZone: 'gateway',
+          action: 'allow',
+          protocol: 'tcp_udp',
+          source: { networks: ['{{network}}'] },
+          destination: { ports: [COMMON_PORTS.DNS] }
+        },
+        {
+          name: 'Gateway NTP for {{network}}',
+          sourceZone: '{{network.zone}}',
+          targetZone: 'gateway',
+          action: 'allow',
+          protocol: 'udp',
+          source: { networks: ['{{network}}'] },
+          destination: { ports: [COMMON_PORTS.NTP] }
+        },
+        {
+          name: 'Gateway DHCP for {{network}}',
+          sourceZone: '{{network.zone}}',
+          targetZone: 'gateway',
+          action: 'allow',
+          protocol: 'udp',
+          source: { networks: ['{{network}}'] },
+          destination: { ports: [COMMON_PORTS.DHCP_SERVER] }
+        },
+        {
+          name: 'Block {{network}} to gateway',
+          sourceZone: '{{network.zone}}',
+          targetZone: 'gateway',
+          action: 'deny',
+          source: { networks: ['{{network}}'] }
+        }
+      ]
+    }
+  },
+  {
+    name: 'block-inter-vlan-except-printer',
+    description: 'Block traffic between private networks, except to a shared printer and replies to established connections',
+    parameters: [
+      { name: 'printer', type: 'address', description: 'IP address of the printer' },
+      { name: 'zone', type: 'zone', description: 'Zone holding the networks (zone-based firewall only)', default: 'internal' }
+    ],
+    legacy: {
+      groups: [
+        {
+          name: 'RFC1918',
+          type: 'address-group',
+          members: ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16'],
+          description: 'Private IPv4 ranges'
+        }
+      ],
+      rules: [
+        {
+          name: 'Inter-VLAN: allow established',
+          ruleSet: 'LAN_IN',
+          action: 'allow',
+          states: ESTABLISHED
+        },
+        {
+          name: 'Inter-VLAN: allow printer {{printer}}',
+          ruleSet: 'LAN_IN',
+          action: 'allow',
+          destination: { address: '{{printer}}' }
+        },
+        {
+          name: 'Inter-VLAN: block private ranges',
+          ruleSet: 'LAN_IN',
+          action: 'drop',
+          source: { groups: ['RFC1918'] },
+          destination: { groups: ['RFC1918'] }
+        }
+      ]
+    },
+    zbf: {
+      policies: [
+        {
+          name: 'Inter-VLAN: allow established',
+          sourceZone: '{{zone}}',
+          targetZone: '{{zone}}',
+          action: 'allow',
+          connectionStates: ESTABLISHED
+        },
+        {
+          name: 'Inter-VLAN: allow printer {{printer}}',
+          sourceZone: '{{zone}}',
+          targetZone: '{{zone}}',
+          action: 'allow',
+          destination: { ips: ['{{printer}}'] }
+        },
+        {
+          name: 'Inter-VLAN: block {{zone}}',
+          sourceZone: '{{zone}}',
+          targetZone: '{{zone}}',
+          action: 'deny'
+        }
+      ]
+    }
+  },
+  {
+    name: 'allow-plex-from-wan',
+    description: 'Allow Plex from the Internet to a media server. The server also needs a port forward (unifi_create_port_forward).',
+    parameters: [
+      { name: 'server', type: 'address', description: 'IP address of the Plex server' },
+      { name: 'port', type: 'port', description: 'Plex port', default: COMMON_PORTS.PLEX },
+      { name: 'zone', type: 'zone', description: 'Zone of the server (zone-based firewall only)', default: 'internal' }
+    ],
+    legacy: {
+      rules: [
+        {
+          name: 'Allow Plex to {{server}}',
+          ruleSet: 'WAN_IN',
+          action: 'allow',
+          protocol: 'tcp',
+          destination: { address: '{{server}}', port: '{{port}}' }
+        }
+      ]
+    },
+    zbf: {
+      policies: [
+        {
+          name: 'Allow Plex to {{server}}',
+          sourceZone: 'external',
+          targetZone: '{{zone}}',
+          action: 'allow',
+          protocol: 'tcp',
+          destination: { ips: ['{{server}}'], ports: ['{{port}}'] }
+        }
+      ]
+    }
+  }
+];
+
+// ================================
+// Template Loading
+// ================================
+
+/**
+ * Built-in templates plus any YAML/JSON templates in the template
+ * directory. A user template replaces a built-in of the same name; files
+ * that fail to parse are reported instead of failing the whole load.
+ */
+export async function loadTemplates(directory: string | undefined = config.templates.directory): Promise<TemplateLoadResult> {
+  const byName = new Map<string, LoadedTemplate>(
+    BUILT_IN_TEMPLATES.map(template => [template.name, { template, source: 'built-in' }])
+  );
+  const errors: TemplateLoadResult['errors'] = [];
+
+  if (directory) {
+    let files: string[] = [];
+    try {
+      files = (await fs.readdir(directory))
+        .filter(file => TEMPLATE_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+        .sort();
+    } catch (error) {
+      errors.push({ file: directory, message: `Template directory could not be read: ${(error as Error).message}` });
+    }
+
+    for (const file of files) {
+      const filePath = path.join(directory, file);
+      try {
+        const parsed = yaml.load(await fs.readFile(filePath, 'utf8'));
+        const template = await ValidationService.validateFirewallTemplate(parsed ?? {});
+        byName.set(template.name, { template, source: filePath });
+      } catch (error) {
+        errors.push({ file: filePath, message: (error as Error).message });
+      }
+    }
+  }
+
+  return {
+    templates: [...byName.values()].sort((a, b) => a.template.name.localeCompare(b.template.name)),
+    errors
+  };
+}
+
+// ================================
+// Parameter Resolution
+// ================================
+
+/**
+ * Placeholder values available to every template
+ */
+function builtInValues(): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const [name, port] of Object.entries(COMMON_PORTS)) {
+    values[`ports.${name}`] = port;
+  }
+  for (const [name, range] of Object.entries(COMMON_PORT_RANGES)) {
+    values[`ranges.${name}`] = range;
+  }
+  return values;
+}
+
+function isValidPort(value: string): boolean {
+  return /^\d+(-\d+)?$/.test(value) && value.split('-').every(part => Number(part) >= 1 && Number(part) <= 65535);
+}
+
+/**
+ * Check the supplied parameters against the template and the controller,
+ * and return the placeholder values they provide
+ */
+export function resolveTemplateParameters(
+  template: FirewallTemplate,
+  supplied: Record<string, string>,
+  state: LiveFirewallState
+): Record<string, string> {
+  const declared = template.parameters ?? [];
+  const unknown = Object.keys(supplied).filter(name => !declared.some(p => p.name === name));
+  if (unknown.length > 0) {
+    throw new ValidationError(
+      `Template '${template.name}' has no parameter(s) ${unknown.join(', ')}; expected ${declared.map(p => p.name).join(', ') || 'none'}`,
+      'parameters',
+      unknown
+    );
+  }
+
+  const values = builtInValues();
+
+  for (const parameter of declared) {
+    const raw = supplied[parameter.name] ?? (parameter.default !== undefined ? substitute(parameter.default, values) : undefined);
+    if (raw === undefined || String(raw).trim() === '') {
+      throw new ValidationError(`Template '${template.name}' needs parameter '${parameter.name}'`, parameter.name);
+    }
+    const value = String(raw).trim();
+
+    switch (parameter.type) {
+      case 'network': {
+        const network = state.networks.find(n => n.id === value) ??
+          state.networks.find(n => n.name.toLowerCase() === value.toLowerCase());
+        if (!network) {
+          throw new ResourceNotFoundError('Network', value);
+        }
+        values[parameter.name] = network.name;
+        if (network.subnet) {
+          values[`${parameter.name}.subnet`] = normalizeCIDR(network.subnet);
+        }
+        const zone = zoneForNetwork(state.zones, network.id);
+        if (zone) {
+          values[`${parameter.name}.zone`] = String(zone.name);
+        }
+        break;
+      }
+
+      case 'group': {
+        const group = state.groups.find(g => g._id === value) ??
+          state.groups.find(g => String(g.name).toLowerCase() === value.toLowerCase());
+        if (!group) {
+          throw new ResourceNotFoundError('Firewall group', value);
+        }
+        values[parameter.name] = String(group.name);
+        break;
+      }
+
+      case 'zone':
+        // Zones only exist on zone-based controllers; legacy renders ignore them
+        values[parameter.name] = state.zones.length > 0 ? String(findRawZone(state.zones, value).name) : value;
+        break;
+
+      case 'address': {
+        const issue = firewallGroupMemberIssue(value.includes(':') ? 'ipv6-address-group' : 'address-group', value);
+        if (issue || value.includes('-')) {
+          throw new ValidationError(`Parameter '${parameter.name}' must be an IP address or CIDR, got '${value}'`, parameter.name, value);
+        }
+        values[parameter.name] = value;
+        break;
+      }
+
+      case 'port':
+        if (!isValidPort(value)) {
+          throw new ValidationError(`Parameter '${parameter.name}' must be a port or port range, got '${value}'`, parameter.name, value);
+        }
+        values[parameter.name] = value;
+        break;
+
+      default:
+        values[parameter.name] = value;
+    }
+  }
+
+  return values;
+}
+
+// ================================
+// Rendering
+// ================================
+
+function substitute(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER, (_match, key: string) => {
+    const value = values[key];
+    if (value === undefined) {
+      const hint = key.endsWith('.zone') ? ' (network zones only exist with the zone-based firewall)' : '';
+      throw new ValidationError(`Unknown template placeholder '{{${key}}}'${hint}`, 'template', key);
+    }
+    return value;
+  });
+}
+
+function substituteDeep(value: unknown, values: Record<string, string>): any {
+  if (typeof value === 'string') return substitute(value, values);
+  if (Array.isArray(value)) return value.map(item => substituteDeep(item, values));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, substituteDeep(item, values)]));
+  }
+  return value;
+}
+
+/**
+ * Pick the first free index at or above the start for each object
+ * without one. Objects that already exist by name keep their index, so
+ * re-applying a template updates in place instead of reshuffling.
+ */
+function assignIndexes(
+  items: Array<Record<string, any>>,
+  field: 'index' | 'priority',
+  slotOf: (item: Record<string, any>) => string,
+  live: Array<{ name: string; slot: string; index: number }>,
+  startIndex: number
+): void {
+  const used = new Map<string, Set<number>>();
+  const usedIn = (slot: string) => {
+    if (!used.has(slot)) {
+      used.set(slot, new Set(live.filter(l => l.slot === slot).map(l => l.index)));
+    }
+    return used.get(slot)!;
+  };
+
+  for (const item of items) {
+    const slot = slotOf(item);
+    if (typeof item[field] === 'number') {
+      usedIn(slot).add(item[field]);
+      continue;
+    }
+
+    const existing = live.find(l => l.slot === slot && l.name.toLowerCase() === String(item.name).toLowerCase());
+    let index = existing?.index ?? startIndex;
+    while (!existing && usedIn(slot).has(index)) {
+      index++;
+    }
+    item[field] = index;
+    usedIn(slot).add(index);
+  }
+}
+
+/**
+ * Render a template to a firewall document for the given firewall model
+ */
+export async function renderTemplate(
+  template: FirewallTemplate,
+  model: FirewallModel,
+  supplied: Record<string, string>,
+  state: LiveFirewallState,
+  startIndex: number = DEFAULT_START_INDEX
+): Promise<FirewallDocument> {
+  const section = template[model];
+  if (!section) {
+    throw new ValidationError(
+      `Template '${template.name}' has no ${model === 'zbf' ? 'zone-based' : 'legacy'} variant`,
+      'model',
+      model
+    );
+  }
+
+  const values = resolveTemplateParameters(template, supplied, state);
+  const groups: Array<Record<string, any>> = substituteDeep(section.groups ?? [], values);
+
+  if (model === 'legacy') {
+    const rules: Array<Record<string, any>> = substituteDeep((section as NonNullable<FirewallTemplate['legacy']>).rules, values);
+    assignIndexes(
+      rules,
+      'index',
+      rule => String(rule.ruleSet),
+      state.rules.map(raw => ({ name: String(raw.name ?? ''), slot: String(raw.ruleset), index: Number(raw.rule_index) })),
+      startIndex
+    );
+    return ValidationService.validateFirewallDocument({ ...(groups.length > 0 && { groups }), rules });
+  }
+
+  const zoneId = (ref: string) => {
+    try {
+      return String(findRawZone(state.zones, ref)._id);
+    } catch {
+      return ref;
+    }
+  };
+  const policies: Array<Record<string, any>> = substituteDeep((section as NonNullable<FirewallTemplate['zbf']>).policies, values);
+  assignIndexes(
+    policies,
+    'priority',
+    policy => `${zoneId(String(policy.sourceZone))}>${zoneId(String(policy.targetZone))}`,
+    state.policies.map(raw => ({
+      name: String(raw.name ?? ''),
+      slot: `${raw.source?.zone_id ?? ''}>${raw.destination?.zone_id ?? ''}`,
+      index: Number(raw.index)
+    })),
+    startIndex
+  );
+  return ValidationService.validateFirewallDocument({ ...(groups.length > 0 && { groups }), policies });
+}
+
+/**
+ * Find a template by name and render it for the controller's firewall model
+ */
+async function prepareTemplate(params: any): Promise<{
+  loaded: LoadedTemplate;
+  model: FirewallModel;
+  document: FirewallDocument;
+  state: LiveFirewallState;
+}> {
+  const client = params._client as UniFiClient;
+  const versionDetector = params._versionDetector as VersionDetector;
+
+  const { templates } = await loadTemplates();
+  const loaded = templates.find(t => t.template.name === params.template);
+  if (!loaded) {
+    throw new ResourceNotFoundError('Firewall template', params.template);
+  }
+
+  let model: FirewallModel = params.model === 'legacy' || params.model === 'zbf' ? params.model : 'legacy';
+  if (params.model === undefined || params.model === 'auto') {
+    const capabilities = await versionDetector.detectCapabilities();
+    model = capabilities.supportsZBF ? 'zbf' : 'legacy';
+  }
+  await versionDetector.validateFeature(model === 'zbf' ? 'zbf' : 'legacy-firewall');
+
+  const state = await fetchLiveFirewallState(client, versionDetector);
+  const document = await renderTemplate(loaded.template, model, params.parameters ?? {}, state, params.startIndex ?? DEFAULT_START_INDEX);
+
+  return { loaded, model, document, state };
+}
+
+// ================================
+// Get Firewall Templates Tool
+// ================================
+
+const getFirewallTemplatesTool: MCPTool = {
+  name: 'unifi_get_firewall_templates',
+  description: 'List firewall templates (built-in and from the template directory) with their parameters and supported firewall models',
+  category: ToolCategory.FIREWALL_LEGACY,
+  requiresConnection: false,
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    additionalProperties: false
+  },
+  handler: async (): Promise<ToolResult> => {
+    try {
+      const { templates, errors } = await loadTemplates();
+
+      return {
+        success: true,
+        data: {
+          templates: templates.map(({ template, source }) => ({
+            name: template.name,
+            description: template.description,
+            source,
+            models: [template.legacy && 'legacy', template.zbf && 'zbf'].filter(Boolean),
+            parameters: template.parameters ?? []
+          })),
+          count: templates.length,
+          ...(config.templates.directory && { directory: config.templates.directory })
+        },
+        ...(errors.length > 0 && {
+          warnings: errors.map(e => `Skipped template '${e.file}': ${e.message}`)
+        }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to list firewall templates', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'FIREWALL_TEMPLATE_FETCH_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Apply Firewall Template Tool
+// ================================
+
+const applyFirewallTemplateTool: MCPTool = {
+  name: 'unifi_apply_firewall_template',
+  description: 'Render a firewall template with parameters resolved from existing networks, groups and zones, and preview the resulting plan. Set apply to true (with the planId from the preview) to make the changes.',
+  category: ToolCategory.FIREWALL_LEGACY,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      template: {
+        type: 'string',
+        description: 'Template name from unifi_get_firewall_templates',
+        minLength: 1
+      },
+      parameters: {
+        type: 'object',
+        description: 'Template parameter values; networks, groups and zones are given by name or ID',
+        additionalProperties: { type: 'string' }
+      },
+      model: {
+        type: 'string',
+        enum: ['auto', 'legacy', 'zbf'],
+        description: 'Firewall model to render for; auto picks zone-based when the controller supports it',
+        default: 'auto'
+      },
+      startIndex: {
+        type: 'number',
+        description: 'First rule index or policy priority to use for new objects',
+        minimum: 1,
+        maximum: 9999,
+        default: DEFAULT_START_INDEX
+      },
+      apply: {
+        type: 'boolean',
+        description: 'Apply the changes instead of only previewing them',
+        default: false
+      },
+      planId: {
+        type: 'string',
+        description: 'Plan ID from a preview; the apply is refused if the plan has changed since'
+      }
+    },
+    required: ['template'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      logger.info('Rendering firewall template', { template: params.template, model: params.model, apply: params.apply ?? false });
+
+      const { loaded, model, document, state } = await prepareTemplate(params);
+
+      if (!params.apply) {
+        const plan = planFirewallDocument(document, state);
+
+        return {
+          success: true,
+          data: {
+            template: loaded.template.name,
+            source: loaded.source,
+            model,
+            document: yaml.dump(document, { noRefs: true, lineWidth: 120 }),
+            ...plan,
+            summary: summarizePlan(plan),
+            message: plan.changes.length === 0
+              ? 'The controller already matches the template'
+              : `Apply with unifi_apply_firewall_template, apply: true and planId ${plan.planId}`
+          },
+          metadata: {
+            executionTime: 0,
+            timestamp: new Date()
+          }
+        };
+      }
+
+      const result = await applyFirewallDocumentTool.handler({
+        _client: params._client,
+        _versionDetector: params._versionDetector,
+        document: JSON.stringify(document),
+        ...(params.planId && { planId: params.planId })
+      });
+
+      return {
+        ...result,
+        data: {
+          template: loaded.template.name,
+          model,
+          ...result.data
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to apply firewall template', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'FIREWALL_TEMPLATE_APPLY_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+export {
+  getFirewallTemplatesTool,
+  applyFirewallTemplateTool
+};
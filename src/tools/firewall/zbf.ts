@@ -1,46 +1,750 @@
-import { MCPTool, ToolCategory, ToolResult } from '../../server/types.js';
+import { MCPTool, ToolCategory, ToolResult, ErrorCode } from '../../server/types.js';
 import { ToolRegistry } from '../../server/toolRegistry.js';
 import { UniFiClient } from '../../unifi/client.js';
 import { VersionDetector } from '../../unifi/versionDetector.js';
+import { DetailedNetwork, FirewallZone } from '../../unifi/types.js';
+import { ValidationService } from '../../utils/validators.js';
 import { createToolLogger } from '../../utils/logger.js';
+import {
+  UniFiMCPError,
+  ResourceNotFoundError,
+  ResourceConflictError,
+  ValidationError
+} from '../../utils/errors.js';
+import { UNIFI_ENDPOINTS } from '../../config/constants.js';
+import { fetchNetworks } from '../networks/mapping.js';
+import {
+  mapFirewallZone,
+  fetchRawZones,
+  findRawZone,
+  isPredefinedZone,
+  interfaceForNetwork,
+  checkZoneMembership,
+  policyReferencesZone
+} from './mapping.js';
+import {
+  getZonePoliciesTool,
+  createZonePolicyTool,
+  updateZonePolicyTool,
+  reorderZonePoliciesTool,
+  toggleZonePolicyTool,
+  deleteZonePolicyTool
+} from './zonePolicies.js';
+import { getZoneMatrixTool } from './zoneMatrix.js';
+import { planZBFMigrationTool } from './migration.js';
+import {
+  getAppBlocksTool,
+  searchDpiAppsTool,
+  blockAppTool,
+  updateAppBlockTool,
+  deleteAppBlockTool
+} from './appBlocks.js';
+import { withLockoutGuard } from './guard.js';
 
 /**
- * Zone-Based Firewall Tools (Stub Implementation)
- * 
- * Tools for managing Zone-Based Firewall (UniFi 9.0+)
+ * Zone-Based Firewall Tools
+ *
+ * Tools for managing Zone-Based Firewall zones (UniFi 9.0+): listing
+ * zones with their member networks, custom zone CRUD and moving
+ * networks between zones.
  */
 
 const logger = createToolLogger('zbf-tools');
 
-// Placeholder tool
+/**
+ * Describe the member networks of a zone
+ */
+function describeZoneNetworks(zone: FirewallZone, networks: DetailedNetwork[]) {
+  return zone.networks.map(id => {
+    const network = networks.find(n => n.id === id);
+    if (!network) {
+      return { id, name: 'Unknown network' };
+    }
+
+    return {
+      id,
+      name: network.name,
+      purpose: network.purpose,
+      subnet: network.subnet,
+      ...(network.vlanId !== undefined && { vlanId: network.vlanId }),
+      interface: interfaceForNetwork(network)
+    };
+  });
+}
+
+/**
+ * Resolve network IDs and check they may join the given zone
+ */
+function resolveZoneNetworks(rawZone: any, networkIds: string[], networks: DetailedNetwork[]): DetailedNetwork[] {
+  return networkIds.map(id => {
+    const network = networks.find(n => n.id === id);
+    if (!network) {
+      throw new ResourceNotFoundError('Network', id);
+    }
+
+    const problem = checkZoneMembership(rawZone, network);
+    if (problem) {
+      throw new ValidationError(problem, 'networks', id);
+    }
+
+    return network;
+  });
+}
+
+/**
+ * Save a zone record and return the controller's copy
+ */
+async function saveZone(client: UniFiClient, raw: any, changes: Record<string, any>, code: ErrorCode): Promise<any> {
+  const response = await client.put(
+    UNIFI_ENDPOINTS.FIREWALL_ZONE_DETAILS.replace('{id}', raw._id),
+    { ...raw, ...changes }
+  );
+
+  if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+    throw new UniFiMCPError(`Failed to update zone '${raw.name}'`, code);
+  }
+
+  return response.data[0];
+}
+
+/**
+ * Remove networks from every zone other than the one they now belong to.
+ * A network can only be a member of a single zone.
+ */
+async function detachNetworks(
+  client: UniFiClient,
+  rawZones: any[],
+  networkIds: string[],
+  keepZoneId: string
+): Promise<Array<{ networkId: string; zoneId: string; zoneName: string }>> {
+  const detached: Array<{ networkId: string; zoneId: string; zoneName: string }> = [];
+
+  for (const zone of rawZones) {
+    if (zone._id === keepZoneId || !Array.isArray(zone.network_ids)) continue;
+
+    const moving = zone.network_ids.filter((id: string) => networkIds.includes(id));
+    if (moving.length === 0) continue;
+
+    await saveZone(client, zone, {
+      network_ids: zone.network_ids.filter((id: string) => !networkIds.includes(id))
+    }, ErrorCode.ZONE_UPDATE_FAILED);
+
+    moving.forEach((networkId: string) => detached.push({ networkId, zoneId: zone._id, zoneName: zone.name }));
+  }
+
+  return detached;
+}
+
+/**
+ * Refuse a zone name already used by another zone
+ */
+function assertUniqueZoneName(rawZones: any[], name: string, excludeId?: string): void {
+  const conflict = rawZones.find(zone =>
+    zone._id !== excludeId && String(zone.name).toLowerCase() === name.toLowerCase()
+  );
+  if (conflict) {
+    throw new ResourceConflictError(`A zone named '${name}' already exists`, conflict._id);
+  }
+}
+
+// ================================
+// Get Zones Tool
+// ================================
+
 const getZonesTool: MCPTool = {
   name: 'unifi_get_zones',
-  description: 'Get firewall zones',
+  description: 'List firewall zones with their member networks and interfaces',
   category: ToolCategory.FIREWALL_ZBF,
   requiresConnection: true,
   requiresVersion: '9.0.0',
   inputSchema: {
     type: 'object',
-    properties: {},
+    properties: {
+      zoneId: {
+        type: 'string',
+        description: 'Only return this zone (ID, name or predefined key)'
+      }
+    },
     additionalProperties: false
   },
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars, no-unused-vars
-  handler: async (_params: any): Promise<ToolResult> => {
-    return {
-      success: true,
-      data: { message: 'Zone-Based Firewall tools not yet implemented' },
-      metadata: { executionTime: 0, timestamp: new Date() }
-    };
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const versionDetector = params._versionDetector as VersionDetector;
+      const { zoneId } = await ValidationService.validateZoneParams(params);
+
+      // Check if Zone-Based Firewall is supported
+      await versionDetector.validateFeature('zbf');
+
+      logger.info('Retrieving firewall zones', { zoneId });
+
+      const [rawZones, networks] = await Promise.all([fetchRawZones(client), fetchNetworks(client)]);
+      const selected = zoneId ? [findRawZone(rawZones, zoneId)] : rawZones;
+
+      const zones = selected.map(raw => {
+        const zone = mapFirewallZone(raw, networks);
+        return {
+          ...zone,
+          networkDetails: describeZoneNetworks(zone, networks)
+        };
+      });
+
+      const zonedNetworkIds = new Set(rawZones.flatMap(raw => raw.network_ids ?? []));
+      const unassignedNetworks = networks
+        .filter(network => !zonedNetworkIds.has(network.id))
+        .map(network => ({ id: network.id, name: network.name, purpose: network.purpose }));
+
+      return {
+        success: true,
+        data: {
+          zones,
+          ...(!zoneId && { unassignedNetworks }),
+          summary: {
+            total: zones.length,
+            predefined: zones.filter(z => z.predefined).length,
+            custom: zones.filter(z => !z.predefined).length,
+            networks: zones.reduce((sum, z) => sum + z.networks.length, 0)
+          }
+        },
+        ...(!zoneId && unassignedNetworks.length > 0 && {
+          warnings: [`${unassignedNetworks.length} network(s) are not assigned to any zone`]
+        }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to retrieve firewall zones', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'ZONE_FETCH_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
   }
 };
 
+// ================================
+// Create Zone Tool
+// ================================
+
+const createZoneTool: MCPTool = {
+  name: 'unifi_create_zone',
+  description: 'Create a custom firewall zone and move the given networks into it',
+  category: ToolCategory.FIREWALL_ZBF,
+  requiresConnection: true,
+  requiresVersion: '9.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Zone name (no spaces)',
+        minLength: 1,
+        maxLength: 50
+      },
+      description: {
+        type: 'string',
+        description: 'Zone description',
+        maxLength: 255
+      },
+      networks: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Network IDs to move into the zone',
+        minItems: 1
+      }
+    },
+    required: ['name', 'networks'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const versionDetector = params._versionDetector as VersionDetector;
+      const validatedParams = await ValidationService.validateCreateZoneParams(params);
+
+      // Check if Zone-Based Firewall is supported
+      await versionDetector.validateFeature('zbf');
+
+      logger.info('Creating firewall zone', { name: validatedParams.name, networks: validatedParams.networks });
+
+      const [rawZones, networks] = await Promise.all([fetchRawZones(client), fetchNetworks(client)]);
+      assertUniqueZoneName(rawZones, validatedParams.name);
+
+      const networkIds = Array.from(new Set(validatedParams.networks));
+      resolveZoneNetworks({}, networkIds, networks);
+
+      const response = await client.post(UNIFI_ENDPOINTS.FIREWALL_ZONES, {
+        name: validatedParams.name,
+        ...(validatedParams.description && { description: validatedParams.description }),
+        network_ids: networkIds
+      });
+
+      if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+        throw new UniFiMCPError('Failed to create zone', ErrorCode.ZONE_CREATION_FAILED);
+      }
+
+      const created = response.data[0];
+      const detached = await detachNetworks(client, rawZones, networkIds, created._id);
+      const zone = mapFirewallZone(created, networks);
+
+      const warnings: string[] = [];
+      if (detached.length > 0) {
+        warnings.push(
+          `Moved from other zones: ${detached.map(d => `${d.networkId} (was in '${d.zoneName}')`).join(', ')}. ` +
+          'Policies of those zones no longer apply to these networks.'
+        );
+      }
+      warnings.push('Traffic to and from a new zone follows the default zone policies until explicit policies are added');
+
+      return {
+        success: true,
+        data: {
+          zone: {
+            ...zone,
+            networkDetails: describeZoneNetworks(zone, networks)
+          },
+          movedNetworks: detached,
+          message: `Zone '${zone.name}' created successfully`
+        },
+        warnings,
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to create firewall zone', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'ZONE_CREATE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Update Zone Tool
+// ================================
+
+const updateZoneTool: MCPTool = {
+  name: 'unifi_update_zone',
+  description: 'Rename a custom zone, change its description or replace its member networks',
+  category: ToolCategory.FIREWALL_ZBF,
+  requiresConnection: true,
+  requiresVersion: '9.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      zoneId: {
+        type: 'string',
+        description: 'Zone ID, name or predefined key',
+        minLength: 1
+      },
+      name: {
+        type: 'string',
+        description: 'New zone name (custom zones only)',
+        minLength: 1,
+        maxLength: 50
+      },
+      description: {
+        type: 'string',
+        description: 'Zone description',
+        maxLength: 255
+      },
+      networks: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Complete list of member network IDs'
+      }
+    },
+    required: ['zoneId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const versionDetector = params._versionDetector as VersionDetector;
+      const validatedParams = await ValidationService.validateUpdateZoneParams(params);
+
+      // Check if Zone-Based Firewall is supported
+      await versionDetector.validateFeature('zbf');
+
+      logger.info('Updating firewall zone', { zoneId: validatedParams.zoneId });
+
+      const [rawZones, networks] = await Promise.all([fetchRawZones(client), fetchNetworks(client)]);
+      const existing = findRawZone(rawZones, validatedParams.zoneId);
+
+      if (validatedParams.name !== undefined && validatedParams.name !== existing.name) {
+        if (isPredefinedZone(existing)) {
+          throw new ResourceConflictError(`Predefined zone '${existing.name}' cannot be renamed`, existing._id);
+        }
+        assertUniqueZoneName(rawZones, validatedParams.name, existing._id);
+      }
+
+      const networkIds = validatedParams.networks !== undefined
+        ? Array.from(new Set(validatedParams.networks))
+        : undefined;
+      if (networkIds) {
+        resolveZoneNetworks(existing, networkIds, networks);
+      }
+
+      const updated = await saveZone(client, existing, {
+        ...(validatedParams.name !== undefined && { name: validatedParams.name }),
+        ...(validatedParams.description !== undefined && { description: validatedParams.description }),
+        ...(networkIds && { network_ids: networkIds })
+      }, ErrorCode.ZONE_UPDATE_FAILED);
+
+      const previousIds: string[] = existing.network_ids ?? [];
+      const detached = networkIds ? await detachNetworks(client, rawZones, networkIds, existing._id) : [];
+      const removed = networkIds ? previousIds.filter(id => !networkIds.includes(id)) : [];
+      const zone = mapFirewallZone(updated, networks);
+
+      const warnings: string[] = [];
+      if (detached.length > 0) {
+        warnings.push(`Moved from other zones: ${detached.map(d => `${d.networkId} (was in '${d.zoneName}')`).join(', ')}`);
+      }
+      if (removed.length > 0) {
+        warnings.push(`Removed network(s) ${removed.join(', ')} are no longer in this zone; assign them to another zone`);
+      }
+
+      return {
+        success: true,
+        data: {
+          zone: {
+            ...zone,
+            networkDetails: describeZoneNetworks(zone, networks)
+          },
+          movedNetworks: detached,
+          removedNetworks: removed,
+          message: `Zone '${zone.name}' updated successfully`
+        },
+        ...(warnings.length > 0 && { warnings }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to update firewall zone', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'ZONE_UPDATE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Delete Zone Tool
+// ================================
+
+const deleteZoneTool: MCPTool = {
+  name: 'unifi_delete_zone',
+  description: 'Delete a custom zone. Predefined zones and zones used by policies cannot be deleted.',
+  category: ToolCategory.FIREWALL_ZBF,
+  requiresConnection: true,
+  requiresVersion: '9.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      zoneId: {
+        type: 'string',
+        description: 'Zone ID or name',
+        minLength: 1
+      },
+      moveNetworksTo: {
+        type: 'string',
+        description: 'Zone (ID, name or predefined key) that receives the member networks before deletion'
+      }
+    },
+    required: ['zoneId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const versionDetector = params._versionDetector as VersionDetector;
+      const { zoneId, moveNetworksTo } = params;
+
+      // Check if Zone-Based Firewall is supported
+      await versionDetector.validateFeature('zbf');
+
+      logger.info('Deleting firewall zone', { zoneId, moveNetworksTo });
+
+      const [rawZones, networks, policies] = await Promise.all([
+        fetchRawZones(client),
+        fetchNetworks(client),
+        client.get(UNIFI_ENDPOINTS.FIREWALL_ZONE_POLICIES)
+      ]);
+      const existing = findRawZone(rawZones, zoneId);
+
+      if (isPredefinedZone(existing)) {
+        throw new ResourceConflictError(`Predefined zone '${existing.name}' cannot be deleted`, existing._id);
+      }
+
+      const referencing = ((policies.data || []) as any[]).filter(policy => policyReferencesZone(policy, existing._id));
+      if (referencing.length > 0) {
+        throw new ResourceConflictError(
+          `Zone '${existing.name}' is used by ${referencing.length} zone policy(ies); delete them first`,
+          existing._id,
+          { policies: referencing.map(policy => ({ id: policy._id, name: policy.name })) }
+        );
+      }
+
+      const memberIds: string[] = existing.network_ids ?? [];
+      let receivingZone: any;
+      if (memberIds.length > 0) {
+        if (!moveNetworksTo) {
+          throw new ResourceConflictError(
+            `Zone '${existing.name}' still contains ${memberIds.length} network(s); pass moveNetworksTo or move them first`,
+            existing._id,
+            { networks: memberIds }
+          );
+        }
+
+        receivingZone = findRawZone(rawZones, moveNetworksTo);
+        if (receivingZone._id === existing._id) {
+          throw new ValidationError('moveNetworksTo must be a different zone', 'moveNetworksTo', moveNetworksTo);
+        }
+        resolveZoneNetworks(receivingZone, memberIds, networks);
+
+        await saveZone(client, receivingZone, {
+          network_ids: Array.from(new Set([...(receivingZone.network_ids ?? []), ...memberIds]))
+        }, ErrorCode.ZONE_UPDATE_FAILED);
+      }
+
+      const response = await client.delete(UNIFI_ENDPOINTS.FIREWALL_ZONE_DETAILS.replace('{id}', existing._id));
+
+      if (response.meta.rc !== 'ok') {
+        throw new UniFiMCPError(`Failed to delete zone: ${response.meta.msg}`, ErrorCode.ZONE_DELETION_FAILED);
+      }
+
+      return {
+        success: true,
+        data: {
+          deletedZone: {
+            id: existing._id,
+            name: existing.name
+          },
+          ...(receivingZone && {
+            movedNetworks: memberIds,
+            movedTo: { id: receivingZone._id, name: receivingZone.name }
+          }),
+          message: `Zone '${existing.name}' deleted successfully`
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete firewall zone', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'ZONE_DELETE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Move Network To Zone Tool
+// ================================
+
+const moveNetworkToZoneTool: MCPTool = {
+  name: 'unifi_move_network_to_zone',
+  description: 'Move a network from its current zone into another zone',
+  category: ToolCategory.FIREWALL_ZBF,
+  requiresConnection: true,
+  requiresVersion: '9.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      networkId: {
+        type: 'string',
+        description: 'Network ID to move',
+        minLength: 1
+      },
+      zoneId: {
+        type: 'string',
+        description: 'Target zone (ID, name or predefined key)',
+        minLength: 1
+      }
+    },
+    required: ['networkId', 'zoneId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const versionDetector = params._versionDetector as VersionDetector;
+      const { networkId, zoneId } = await ValidationService.validateMoveNetworkToZoneParams(params);
+
+      // Check if Zone-Based Firewall is supported
+      await versionDetector.validateFeature('zbf');
+
+      logger.info('Moving network between zones', { networkId, zoneId });
+
+      const [rawZones, networks] = await Promise.all([fetchRawZones(client), fetchNetworks(client)]);
+      const target = findRawZone(rawZones, zoneId);
+      const [network] = resolveZoneNetworks(target, [networkId], networks);
+      const targetIds: string[] = target.network_ids ?? [];
+
+      if (targetIds.includes(networkId)) {
+        return {
+          success: true,
+          data: {
+            network: { id: network.id, name: network.name },
+            zone: { id: target._id, name: target.name },
+            changed: false,
+            message: `Network '${network.name}' is already in zone '${target.name}'`
+          },
+          metadata: {
+            executionTime: 0,
+            timestamp: new Date()
+          }
+        };
+      }
+
+      await saveZone(client, target, { network_ids: [...targetIds, networkId] }, ErrorCode.ZONE_UPDATE_FAILED);
+      const detached = await detachNetworks(client, rawZones, [networkId], target._id);
+      const from = detached[0];
+
+      return {
+        success: true,
+        data: {
+          network: { id: network.id, name: network.name, interface: interfaceForNetwork(network) },
+          from: from ? { id: from.zoneId, name: from.zoneName } : null,
+          to: { id: target._id, name: target.name },
+          changed: true,
+          message: `Network '${network.name}' moved to zone '${target.name}'`
+        },
+        warnings: [
+          `Traffic from '${network.name}' is now governed by the policies of zone '${target.name}'`
+        ],
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to move network between zones', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'ZONE_MOVE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Tool Registration Function
+// ================================
+
 export async function registerZBFTools(
   registry: ToolRegistry,
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars, no-unused-vars
-  _client: UniFiClient,
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars, no-unused-vars
-  _versionDetector: VersionDetector
+  client: UniFiClient,
+  versionDetector: VersionDetector
 ): Promise<void> {
-  registry.register(getZonesTool);
-  logger.info('ZBF tools registered (stub implementation)');
-}
\ No newline at end of file
+  // Add the anti-lockout guard option, then client and version detector for access
+  const enhancedTools = [
+    getZonesTool,
+    createZoneTool,
+    updateZoneTool,
+    deleteZoneTool,
+    moveNetworkToZoneTool,
+    getZonePoliciesTool,
+    createZonePolicyTool,
+    updateZonePolicyTool,
+    reorderZonePoliciesTool,
+    toggleZonePolicyTool,
+    deleteZonePolicyTool,
+    getZoneMatrixTool,
+    planZBFMigrationTool,
+    getAppBlocksTool,
+    searchDpiAppsTool,
+    blockAppTool,
+    updateAppBlockTool,
+    deleteAppBlockTool
+  ].map(withLockoutGuard).map(tool => ({
+    ...tool,
+    handler: async (params: any) => {
+      // Inject dependencies
+      const enhancedParams = {
+        ...params,
+        _client: client,
+        _versionDetector: versionDetector
+      };
+      return tool.handler(enhancedParams);
+    }
+  }));
+
+  // Register all tools
+  registry.registerBatch(enhancedTools);
+
+  logger.info('Zone-Based Firewall tools registered successfully', {
+    count: enhancedTools.length,
+    tools: enhancedTools.map(t => t.name)
+  });
+}
+
+// Export individual tools for testing
+export {
+  getZonesTool,
+  createZoneTool,
+  updateZoneTool,
+  deleteZoneTool,
+  moveNetworkToZoneTool
+};
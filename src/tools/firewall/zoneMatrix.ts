@@ -0,0 +1,259 @@
+import { MCPTool, ToolCategory, ToolResult } from '../../server/types.js';
+import { UniFiClient } from '../../unifi/client.js';
+import { VersionDetector } from '../../unifi/versionDetector.js';
+import { FirewallAction, ZoneMatrixCell, ZonePolicy, ZonePolicyMatrix } from '../../unifi/types.js';
+import { createToolLogger } from '../../utils/logger.js';
+import { UniFiMCPError } from '../../utils/errors.js';
+import { PREDEFINED_ZONES, ZONE_DEFAULT_ACTIONS } from '../../config/constants.js';
+import { fetchRawZones, fetchRawZonePolicies, mapZonePolicy } from './mapping.js';
+
+/**
+ * Zone Matrix Tool
+ *
+ * Builds the zone×zone policy matrix: for every source/destination pair
+ * the default action, the explicit policies and the resulting effective
+ * behaviour, rendered as JSON and as a Markdown table.
+ */
+
+const logger = createToolLogger('zone-matrix-tools');
+
+const ZONE_ORDER: readonly string[] = [
+  PREDEFINED_ZONES.INTERNAL,
+  PREDEFINED_ZONES.EXTERNAL,
+  PREDEFINED_ZONES.GATEWAY,
+  PREDEFINED_ZONES.VPN,
+  PREDEFINED_ZONES.HOTSPOT,
+  PREDEFINED_ZONES.DMZ
+];
+
+/**
+ * Built-in default action between two zones. Custom zones may reach the
+ * Internet and the gateway and talk within themselves, and are reachable
+ * from the gateway; everything else defaults to block.
+ */
+export function builtinDefaultAction(source: any, target: any): 'allow' | 'deny' {
+  const sourceKey: string | undefined = source.zone_key;
+  const targetKey: string | undefined = target.zone_key;
+
+  if (source._id === target._id && !sourceKey) {
+    return 'allow';
+  }
+  if (!sourceKey) {
+    return targetKey === PREDEFINED_ZONES.EXTERNAL || targetKey === PREDEFINED_ZONES.GATEWAY ? 'allow' : 'deny';
+  }
+  if (!targetKey) {
+    return sourceKey === PREDEFINED_ZONES.GATEWAY ? 'allow' : 'deny';
+  }
+  return ZONE_DEFAULT_ACTIONS[sourceKey]?.[targetKey] ?? 'deny';
+}
+
+/**
+ * Check whether a policy matches all traffic between its zones
+ */
+function isUnconditional(policy: ZonePolicy): boolean {
+  return policy.protocol === 'all' &&
+    !policy.source && !policy.destination &&
+    !(policy.applications && policy.applications.length > 0) &&
+    !policy.schedule && !policy.connectionStates;
+}
+
+/**
+ * Reduce a policy action to the matrix vocabulary
+ */
+function toMatrixAction(action: FirewallAction): 'allow' | 'deny' {
+  return action === FirewallAction.ALLOW ? 'allow' : 'deny';
+}
+
+/**
+ * Sort zones with the predefined zones first, in their conventional
+ * order, followed by custom zones by name
+ */
+function sortZones(rawZones: any[]): any[] {
+  const rank = (zone: any) => {
+    const index = ZONE_ORDER.indexOf(zone.zone_key);
+    return index === -1 ? ZONE_ORDER.length : index;
+  };
+  return [...rawZones].sort((a, b) => rank(a) - rank(b) || String(a.name).localeCompare(String(b.name)));
+}
+
+/**
+ * Build the zone×zone matrix from raw zones and mapped policies
+ */
+export function buildZoneMatrix(rawZones: any[], policies: ZonePolicy[], maxPolicyNames = 3): ZonePolicyMatrix {
+  const zones = sortZones(rawZones);
+  const matrix: ZonePolicyMatrix = {
+    zones: zones.map(zone => zone.name),
+    policies: {},
+    cells: {}
+  };
+
+  for (const source of zones) {
+    matrix.policies[source.name] = {};
+    matrix.cells[source.name] = {};
+
+    for (const target of zones) {
+      const pairPolicies = policies
+        .filter(p => p.sourceZone === source._id && p.targetZone === target._id)
+        .sort((a, b) => a.priority - b.priority);
+      const explicit = pairPolicies.filter(p => !p.predefined);
+      const active = explicit.filter(p => p.enabled);
+
+      // The lowest-precedence predefined policy is the pair's catch-all default
+      const predefinedDefault = pairPolicies.filter(p => p.predefined && p.enabled && isUnconditional(p)).pop();
+      const defaultAction = predefinedDefault
+        ? toMatrixAction(predefinedDefault.action)
+        : builtinDefaultAction(source, target);
+
+      let effective: ZoneMatrixCell['effective'] = defaultAction;
+      if (active.length > 0) {
+        const first = active[0];
+        effective = isUnconditional(first) ? toMatrixAction(first.action)
+          : active.every(p => toMatrixAction(p.action) === defaultAction) ? defaultAction
+          : 'custom';
+      }
+
+      matrix.cells[source.name][target.name] = {
+        defaultAction,
+        defaultSource: predefinedDefault ? 'predefined-policy' : 'builtin',
+        policyCount: active.length,
+        disabledPolicyCount: explicit.length - active.length,
+        firstPolicies: active.slice(0, maxPolicyNames).map(p => p.name || p.id),
+        effective
+      };
+      matrix.policies[source.name][target.name] = effective;
+    }
+  }
+
+  return matrix;
+}
+
+/**
+ * Escape text for use inside a Markdown table cell
+ */
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Render the matrix as a Markdown table with sources as rows and
+ * destinations as columns
+ */
+export function renderZoneMatrixMarkdown(matrix: ZonePolicyMatrix): string {
+  const header = `| Source \\ Destination | ${matrix.zones.map(escapeCell).join(' | ')} |`;
+  const divider = `|---|${matrix.zones.map(() => '---').join('|')}|`;
+
+  const rows = matrix.zones.map(source => {
+    const cells = matrix.zones.map(target => {
+      const cell = matrix.cells[source][target];
+      const label = cell.effective === 'custom'
+        ? `custom (default ${cell.defaultAction})`
+        : cell.effective;
+      if (cell.policyCount === 0) {
+        return label;
+      }
+
+      const more = cell.policyCount > cell.firstPolicies.length ? ', …' : '';
+      return `${label}, ${cell.policyCount} ${cell.policyCount === 1 ? 'policy' : 'policies'}: ` +
+        escapeCell(cell.firstPolicies.join(', ')) + more;
+    });
+    return `| **${escapeCell(source)}** | ${cells.join(' | ')} |`;
+  });
+
+  return [
+    header,
+    divider,
+    ...rows,
+    '',
+    '_allow/deny: every flow gets that action. custom: explicit policies allow some flows and deny others; ' +
+      'unmatched traffic gets the default action._'
+  ].join('\n');
+}
+
+// ================================
+// Get Zone Matrix Tool
+// ================================
+
+const getZoneMatrixTool: MCPTool = {
+  name: 'unifi_get_zone_matrix',
+  description: 'Build the zone-to-zone policy matrix with default actions, policy counts and the first matching policies, as JSON and a Markdown table',
+  category: ToolCategory.FIREWALL_ZBF,
+  requiresConnection: true,
+  requiresVersion: '9.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      format: {
+        type: 'string',
+        enum: ['json', 'markdown', 'both'],
+        description: 'Output format',
+        default: 'both'
+      },
+      maxPolicyNames: {
+        type: 'number',
+        description: 'Number of policy names shown per cell',
+        minimum: 0,
+        maximum: 10,
+        default: 3
+      }
+    },
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const versionDetector = params._versionDetector as VersionDetector;
+      const { format = 'both', maxPolicyNames = 3 } = params;
+
+      // Check if Zone-Based Firewall is supported
+      await versionDetector.validateFeature('zbf');
+
+      logger.info('Building zone policy matrix', { format, maxPolicyNames });
+
+      const [rawZones, rawPolicies] = await Promise.all([fetchRawZones(client), fetchRawZonePolicies(client)]);
+      const matrix = buildZoneMatrix(rawZones, rawPolicies.map(mapZonePolicy), maxPolicyNames);
+
+      const cells = matrix.zones.flatMap(source => matrix.zones.map(target => matrix.cells[source][target]));
+      const summary = {
+        zones: matrix.zones.length,
+        pairs: cells.length,
+        allow: cells.filter(c => c.effective === 'allow').length,
+        deny: cells.filter(c => c.effective === 'deny').length,
+        custom: cells.filter(c => c.effective === 'custom').length,
+        explicitPolicies: cells.reduce((sum, c) => sum + c.policyCount, 0)
+      };
+
+      return {
+        success: true,
+        data: {
+          ...(format !== 'markdown' && { matrix }),
+          ...(format !== 'json' && { markdown: renderZoneMatrixMarkdown(matrix) }),
+          summary
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to build zone policy matrix', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'ZONE_MATRIX_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+export {
+  getZoneMatrixTool
+};
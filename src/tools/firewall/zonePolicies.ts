@@ -0,0 +1,898 @@
+import { MCPTool, ToolCategory, ToolResult, ErrorCode } from '../../server/types.js';
+import { UniFiClient } from '../../unifi/client.js';
+import { VersionDetector } from '../../unifi/versionDetector.js';
+import { FirewallAction, ZonePolicy, ZonePolicyEndpoint, ZonePolicySchema } from '../../unifi/types.js';
+import { ValidationService } from '../../utils/validators.js';
+import { createToolLogger } from '../../utils/logger.js';
+import {
+  UniFiMCPError,
+  ResourceNotFoundError,
+  ResourceConflictError,
+  ValidationError
+} from '../../utils/errors.js';
+import { UNIFI_ENDPOINTS } from '../../config/constants.js';
+import { fetchNetworks } from '../networks/mapping.js';
+import {
+  EXPIRY_JOB_TYPES,
+  expiryInputProperties,
+  resolveExpiry,
+  scheduleExpiry,
+  describeJob
+} from './expiry.js';
+import {
+  fetchRawZones,
+  findRawZone,
+  mapZonePolicy,
+  toRawZonePolicy,
+  fetchRawZonePolicies
+} from './mapping.js';
+
+/**
+ * Zone Policy Tools
+ *
+ * Tools for managing Zone-Based Firewall policies (UniFi 9.0+): listing,
+ * creating, updating, reordering, enabling/disabling and deleting the
+ * policies that govern traffic between zones.
+ */
+
+const logger = createToolLogger('zone-policy-tools');
+
+const PORT_PROTOCOLS = ['tcp', 'udp', 'tcp_udp'];
+
+/**
+ * Check a policy for combinations the controller rejects, returning
+ * one message per problem
+ */
+export function checkZonePolicy(policy: Omit<ZonePolicy, 'id'>): string[] {
+  const problems: string[] = [];
+  const usesPorts = [policy.source, policy.destination].some(endpoint => endpoint?.ports || endpoint?.portGroupId);
+
+  if (policy.sourceZone === policy.targetZone) {
+    problems.push('Source and target zones must be different');
+  }
+  if (usesPorts && !PORT_PROTOCOLS.includes(policy.protocol)) {
+    problems.push(`Port matching requires protocol tcp, udp or tcp_udp (got '${policy.protocol}')`);
+  }
+  if (policy.applications && policy.applications.length > 0 && policy.destination?.ips) {
+    problems.push('Application matching cannot be combined with destination IPs');
+  }
+  if (policy.schedule?.mode === 'weekly' && (policy.schedule.days ?? []).length === 0) {
+    problems.push('A weekly schedule needs at least one day');
+  }
+
+  return problems;
+}
+
+/**
+ * Describe a policy with the names of the zones it connects
+ */
+function describePolicy(policy: ZonePolicy, rawZones: any[]) {
+  return {
+    ...policy,
+    sourceZoneName: rawZones.find(zone => zone._id === policy.sourceZone)?.name ?? policy.sourceZone,
+    targetZoneName: rawZones.find(zone => zone._id === policy.targetZone)?.name ?? policy.targetZone
+  };
+}
+
+/**
+ * Find a raw policy by ID, refusing predefined policies when they are
+ * about to be modified
+ */
+function findRawPolicy(rawPolicies: any[], policyId: string, forChange = false): any {
+  const raw = rawPolicies.find(policy => policy._id === policyId);
+  if (!raw) {
+    throw new ResourceNotFoundError('Zone policy', policyId);
+  }
+  if (forChange && raw.predefined === true) {
+    throw new ResourceConflictError(`Predefined zone policy '${raw.name}' cannot be modified`, policyId);
+  }
+  return raw;
+}
+
+const ADDRESS_MATCHERS = ['ips', 'ipGroupId', 'networkIds'] as const;
+const PORT_MATCHERS = ['ports', 'portGroupId'] as const;
+
+/**
+ * Merge endpoint changes into an existing endpoint. Address and port
+ * matchers are kept unless the changes set a matcher of the same kind.
+ */
+function mergeEndpoint(existing: ZonePolicyEndpoint | undefined, changes: ZonePolicyEndpoint): ZonePolicyEndpoint {
+  const merged: ZonePolicyEndpoint = { ...existing };
+  for (const matchers of [ADDRESS_MATCHERS, PORT_MATCHERS]) {
+    if (matchers.some(key => changes[key] !== undefined)) {
+      for (const key of matchers) delete merged[key];
+    }
+  }
+  return { ...merged, ...changes };
+}
+
+/**
+ * Convert tool parameters (zone references, shorthand ports and
+ * schedule) into ZonePolicy fields. On update, a partial destination
+ * or ports shorthand is merged into the existing destination.
+ */
+function policyFieldsFromParams(params: any, rawZones: any[], existing?: ZonePolicy): Partial<ZonePolicy> {
+  const fields: Partial<ZonePolicy> = {};
+
+  if (params.name !== undefined) fields.name = params.name;
+  if (params.description !== undefined) fields.description = params.description;
+  if (params.sourceZone !== undefined) fields.sourceZone = findRawZone(rawZones, params.sourceZone)._id;
+  if (params.targetZone !== undefined) fields.targetZone = findRawZone(rawZones, params.targetZone)._id;
+  if (params.action !== undefined) fields.action = params.action as FirewallAction;
+  if (params.protocol !== undefined) fields.protocol = params.protocol;
+  if (params.ipVersion !== undefined) fields.ipVersion = params.ipVersion;
+  if (params.source !== undefined) fields.source = params.source;
+  if (params.destination !== undefined || params.ports !== undefined) {
+    fields.destination = mergeEndpoint(existing?.destination, {
+      ...(params.destination ?? {}),
+      ...(params.ports !== undefined && { ports: params.ports })
+    });
+  }
+  if (params.applications !== undefined) fields.applications = params.applications;
+  if (params.schedule !== undefined) {
+    fields.schedule = {
+      mode: params.schedule.days.length === 7 ? 'daily' : 'weekly',
+      days: params.schedule.days,
+      startTime: params.schedule.startTime,
+      endTime: params.schedule.endTime
+    };
+  }
+  if (params.connectionStates !== undefined) fields.connectionStates = params.connectionStates;
+  if (params.logging !== undefined) fields.logging = params.logging;
+  if (params.enabled !== undefined) fields.enabled = params.enabled;
+  if (params.priority !== undefined) fields.priority = params.priority;
+
+  return fields;
+}
+
+/**
+ * Validate a complete policy against ZonePolicySchema, the controller
+ * constraints and the IP/port groups and networks it references
+ */
+async function validatePolicy(client: UniFiClient, policy: Record<string, any>): Promise<ZonePolicy> {
+  const result = await ValidationService.validate(ZonePolicySchema, policy, 'zone policy');
+  const validated: ZonePolicy = {
+    ...result,
+    protocol: result.protocol ?? 'all',
+    ipVersion: result.ipVersion ?? 'both',
+    logging: result.logging ?? false,
+    enabled: result.enabled ?? true,
+    predefined: result.predefined ?? false,
+    priority: result.priority ?? 2000
+  };
+
+  const problems = checkZonePolicy(validated);
+  if (problems.length > 0) {
+    throw new ValidationError(problems.join('; '), 'policy', problems);
+  }
+
+  const endpoints = [validated.source, validated.destination];
+  const groupRefs = endpoints.flatMap(endpoint => [
+    ...(endpoint?.ipGroupId ? [{ id: endpoint.ipGroupId, types: ['address-group', 'ipv6-address-group'] }] : []),
+    ...(endpoint?.portGroupId ? [{ id: endpoint.portGroupId, types: ['port-group'] }] : [])
+  ]);
+
+  if (groupRefs.length > 0) {
+    const groups = (await client.get(UNIFI_ENDPOINTS.FIREWALL_GROUPS)).data || [];
+    for (const ref of groupRefs) {
+      const group = (groups as any[]).find(g => g._id === ref.id);
+      if (!group) {
+        throw new ResourceNotFoundError('Firewall group', ref.id);
+      }
+      if (!ref.types.includes(group.group_type)) {
+        throw new ValidationError(
+          `Group '${group.name}' is a ${group.group_type}, expected ${ref.types.join(' or ')}`,
+          'groupId',
+          ref.id
+        );
+      }
+    }
+  }
+
+  const networkIds = endpoints.flatMap(endpoint => endpoint?.networkIds ?? []);
+  if (networkIds.length > 0) {
+    const networks = await fetchNetworks(client);
+    const missing = networkIds.find(id => !networks.some(n => n.id === id));
+    if (missing) {
+      throw new ResourceNotFoundError('Network', missing);
+    }
+  }
+
+  return validated;
+}
+
+// ================================
+// Shared Input Schema Fragments
+// ================================
+
+const endpointInputSchema = (side: string) => ({
+  type: 'object',
+  description: `${side} matching. Use one of ips, ipGroupId or networkIds, and either ports or portGroupId.`,
+  properties: {
+    ips: { type: 'array', items: { type: 'string' }, description: 'IP addresses or CIDRs' },
+    ipGroupId: { type: 'string', description: 'Address group ID' },
+    networkIds: { type: 'array', items: { type: 'string' }, description: 'Network IDs' },
+    ports: { type: 'array', items: { type: 'string' }, description: 'Ports or port ranges' },
+    portGroupId: { type: 'string', description: 'Port group ID' }
+  },
+  additionalProperties: false
+});
+
+const policyInputProperties = {
+  name: {
+    type: 'string',
+    description: 'Policy name',
+    minLength: 1,
+    maxLength: 128
+  },
+  description: {
+    type: 'string',
+    description: 'Policy description',
+    maxLength: 255
+  },
+  sourceZone: {
+    type: 'string',
+    description: 'Source zone (ID, name or predefined key)'
+  },
+  targetZone: {
+    type: 'string',
+    description: 'Destination zone (ID, name or predefined key)'
+  },
+  action: {
+    type: 'string',
+    enum: ['allow', 'deny', 'reject'],
+    description: 'Action to take when the policy matches'
+  },
+  protocol: {
+    type: 'string',
+    enum: ['all', 'tcp', 'udp', 'tcp_udp', 'icmp', 'icmpv6'],
+    description: 'Protocol to match'
+  },
+  ipVersion: {
+    type: 'string',
+    enum: ['both', 'ipv4', 'ipv6'],
+    description: 'IP version to match'
+  },
+  source: endpointInputSchema('Source'),
+  destination: endpointInputSchema('Destination'),
+  ports: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Shorthand for destination.ports'
+  },
+  applications: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'DPI application IDs to match at the destination'
+  },
+  schedule: {
+    type: 'object',
+    description: 'Only apply the policy during this weekly window (always active when omitted)',
+    properties: {
+      days: {
+        type: 'array',
+        items: { type: 'string', enum: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] }
+      },
+      startTime: { type: 'string', description: 'HH:mm' },
+      endTime: { type: 'string', description: 'HH:mm' }
+    },
+    required: ['days', 'startTime', 'endTime'],
+    additionalProperties: false
+  },
+  connectionStates: {
+    type: 'array',
+    items: { type: 'string', enum: ['new', 'established', 'related', 'invalid'] },
+    description: 'Connection states to match (all states when omitted)'
+  },
+  logging: {
+    type: 'boolean',
+    description: 'Log matching traffic'
+  },
+  enabled: {
+    type: 'boolean',
+    description: 'Enable the policy'
+  },
+  priority: {
+    type: 'number',
+    description: 'Policy index; lower values are evaluated first',
+    minimum: 1,
+    maximum: 9999
+  }
+};
+
+// ================================
+// Get Zone Policies Tool
+// ================================
+
+const getZonePoliciesTool: MCPTool = {
+  name: 'unifi_get_zone_policies',
+  description: 'List zone policies, optionally between a pair of zones',
+  category: ToolCategory.FIREWALL_ZBF,
+  requiresConnection: true,
+  requiresVersion: '9.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sourceZone: {
+        type: 'string',
+        description: 'Filter by source zone (ID, name or predefined key)'
+      },
+      targetZone: {
+        type: 'string',
+        description: 'Filter by destination zone (ID, name or predefined key)'
+      },
+      enabled: {
+        type: 'boolean',
+        description: 'Filter by enabled status'
+      },
+      includePredefined: {
+        type: 'boolean',
+        description: 'Include the built-in policies',
+        default: true
+      }
+    },
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const versionDetector = params._versionDetector as VersionDetector;
+      const { sourceZone, targetZone } = await ValidationService.validateZoneParams(params);
+      const { enabled, includePredefined = true } = params;
+
+      // Check if Zone-Based Firewall is supported
+      await versionDetector.validateFeature('zbf');
+
+      logger.info('Retrieving zone policies', { sourceZone, targetZone, enabled, includePredefined });
+
+      const [rawZones, rawPolicies] = await Promise.all([fetchRawZones(client), fetchRawZonePolicies(client)]);
+      const sourceId = sourceZone ? findRawZone(rawZones, sourceZone)._id : undefined;
+      const targetId = targetZone ? findRawZone(rawZones, targetZone)._id : undefined;
+
+      const policies = rawPolicies
+        .map(mapZonePolicy)
+        .filter(policy => !sourceId || policy.sourceZone === sourceId)
+        .filter(policy => !targetId || policy.targetZone === targetId)
+        .filter(policy => enabled === undefined || policy.enabled === enabled)
+        .filter(policy => includePredefined || !policy.predefined)
+        .map(policy => describePolicy(policy, rawZones))
+        .sort((a, b) =>
+          a.sourceZoneName.localeCompare(b.sourceZoneName) ||
+          a.targetZoneName.localeCompare(b.targetZoneName) ||
+          a.priority - b.priority
+        );
+
+      const summary = {
+        total: policies.length,
+        enabled: policies.filter(p => p.enabled).length,
+        predefined: policies.filter(p => p.predefined).length,
+        byAction: policies.reduce((acc, p) => {
+          acc[p.action] = (acc[p.action] || 0) + 1;
+          return acc;
+        }, {} as Record<string, number>)
+      };
+
+      return {
+        success: true,
+        data: {
+          policies,
+          summary
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to retrieve zone policies', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'ZONE_POLICY_FETCH_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Create Zone Policy Tool
+// ================================
+
+const createZonePolicyTool: MCPTool = {
+  name: 'unifi_create_zone_policy',
+  description: 'Create a policy for traffic from one zone to another',
+  category: ToolCategory.FIREWALL_ZBF,
+  requiresConnection: true,
+  requiresVersion: '9.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...policyInputProperties,
+      ...expiryInputProperties
+    },
+    required: ['name', 'sourceZone', 'targetZone', 'action'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const versionDetector = params._versionDetector as VersionDetector;
+      const validatedParams = await ValidationService.validateCreateZonePolicyParams(params);
+      const expiresAt = resolveExpiry(params);
+
+      // Check if Zone-Based Firewall is supported
+      await versionDetector.validateFeature('zbf');
+
+      logger.info('Creating zone policy', {
+        name: validatedParams.name,
+        sourceZone: validatedParams.sourceZone,
+        targetZone: validatedParams.targetZone,
+        action: validatedParams.action,
+        ...(expiresAt && { expiresAt: expiresAt.toISOString() })
+      });
+
+      const rawZones = await fetchRawZones(client);
+      const policy = await validatePolicy(client, {
+        id: 'new',
+        ...policyFieldsFromParams(validatedParams, rawZones)
+      });
+
+      const response = await client.post(UNIFI_ENDPOINTS.FIREWALL_ZONE_POLICIES, toRawZonePolicy(policy));
+
+      if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+        throw new UniFiMCPError('Failed to create zone policy', ErrorCode.ZONE_POLICY_CREATION_FAILED);
+      }
+
+      const created = describePolicy(mapZonePolicy(response.data[0]), rawZones);
+
+      const expiry = expiresAt && await scheduleExpiry(
+        {
+          type: EXPIRY_JOB_TYPES.DELETE_ZONE_POLICY,
+          targetId: created.id,
+          targetName: validatedParams.name,
+          description: `Delete temporary zone policy '${validatedParams.name}'`,
+          runAt: expiresAt.toISOString()
+        },
+        () => client.delete(UNIFI_ENDPOINTS.FIREWALL_ZONE_POLICY_DETAILS.replace('{id}', created.id))
+      );
+
+      return {
+        success: true,
+        data: {
+          policy: created,
+          ...(expiry && { expiration: describeJob(expiry) }),
+          message: `Zone policy '${created.name}' (${created.sourceZoneName} → ${created.targetZoneName}) created successfully` +
+            (expiry ? `; it will be deleted at ${expiry.runAt}` : '')
+        },
+        warnings: [
+          'Policy changes may take a few moments to take effect'
+        ],
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to create zone policy', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'ZONE_POLICY_CREATE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Update Zone Policy Tool
+// ================================
+
+const updateZonePolicyTool: MCPTool = {
+  name: 'unifi_update_zone_policy',
+  description: 'Update an existing zone policy',
+  category: ToolCategory.FIREWALL_ZBF,
+  requiresConnection: true,
+  requiresVersion: '9.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      policyId: {
+        type: 'string',
+        description: 'Zone policy ID to update',
+        minLength: 1
+      },
+      ...policyInputProperties
+    },
+    required: ['policyId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const versionDetector = params._versionDetector as VersionDetector;
+      const { policyId, ...updates } = await ValidationService.validateUpdateZonePolicyParams(params);
+
+      // Check if Zone-Based Firewall is supported
+      await versionDetector.validateFeature('zbf');
+
+      logger.info('Updating zone policy', { policyId, updates: Object.keys(updates) });
+
+      const [rawZones, rawPolicies] = await Promise.all([fetchRawZones(client), fetchRawZonePolicies(client)]);
+      const existing = findRawPolicy(rawPolicies, policyId, true);
+      const current = mapZonePolicy(existing);
+      const fields = policyFieldsFromParams(updates, rawZones, current);
+      const policy = await validatePolicy(client, { ...current, ...fields });
+
+      // Only rebuild the endpoints that changed so unsupported matchers survive
+      const rawFields = toRawZonePolicy(policy);
+      const sourceChanged = fields.sourceZone !== undefined || fields.source !== undefined;
+      const destinationChanged = fields.targetZone !== undefined || fields.destination !== undefined ||
+        fields.applications !== undefined;
+
+      const response = await client.put(UNIFI_ENDPOINTS.FIREWALL_ZONE_POLICY_DETAILS.replace('{id}', policyId), {
+        ...existing,
+        ...rawFields,
+        source: sourceChanged ? rawFields.source : existing.source,
+        destination: destinationChanged ? rawFields.destination : existing.destination
+      });
+
+      if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+        throw new UniFiMCPError('Failed to update zone policy', ErrorCode.ZONE_POLICY_UPDATE_FAILED);
+      }
+
+      const updated = describePolicy(mapZonePolicy(response.data[0]), rawZones);
+
+      return {
+        success: true,
+        data: {
+          policy: updated,
+          updatedFields: Object.keys(updates),
+          message: `Zone policy '${updated.name}' updated successfully`
+        },
+        warnings: [
+          'Policy changes may take a few moments to take effect'
+        ],
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to update zone policy', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'ZONE_POLICY_UPDATE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Reorder Zone Policies Tool
+// ================================
+
+const reorderZonePoliciesTool: MCPTool = {
+  name: 'unifi_reorder_zone_policies',
+  description: 'Change the evaluation order of policies between the same pair of zones',
+  category: ToolCategory.FIREWALL_ZBF,
+  requiresConnection: true,
+  requiresVersion: '9.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      policyIds: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Policy IDs in the desired evaluation order. They keep the index slots they currently occupy.',
+        minItems: 2
+      }
+    },
+    required: ['policyIds'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const versionDetector = params._versionDetector as VersionDetector;
+      const { policyIds } = await ValidationService.validateReorderZonePoliciesParams(params);
+
+      // Check if Zone-Based Firewall is supported
+      await versionDetector.validateFeature('zbf');
+
+      logger.info('Reordering zone policies', { policyIds });
+
+      const [rawZones, rawPolicies] = await Promise.all([fetchRawZones(client), fetchRawZonePolicies(client)]);
+      const selected = policyIds.map(id => findRawPolicy(rawPolicies, id, true));
+      const policies = selected.map(mapZonePolicy);
+
+      const pair = `${policies[0].sourceZone}>${policies[0].targetZone}`;
+      if (policies.some(p => `${p.sourceZone}>${p.targetZone}` !== pair)) {
+        throw new ValidationError(
+          'All policies must share the same source and destination zone',
+          'policyIds',
+          policyIds
+        );
+      }
+
+      // Reuse the index slots the policies already occupy, in the requested order
+      const slots = policies.map(p => p.priority).sort((a, b) => a - b);
+      const changes = policies
+        .map((policy, i) => ({ policy, raw: selected[i], from: policy.priority, to: slots[i] }))
+        .filter(change => change.from !== change.to);
+
+      for (const change of changes) {
+        const response = await client.put(
+          UNIFI_ENDPOINTS.FIREWALL_ZONE_POLICY_DETAILS.replace('{id}', change.policy.id),
+          { ...change.raw, index: change.to }
+        );
+        if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+          throw new UniFiMCPError(
+            `Failed to move zone policy '${change.policy.name}' to index ${change.to}`,
+            ErrorCode.ZONE_POLICY_UPDATE_FAILED,
+            undefined,
+            { applied: changes.slice(0, changes.indexOf(change)).map(c => c.policy.id) }
+          );
+        }
+      }
+
+      return {
+        success: true,
+        data: {
+          order: policies.map((policy, i) => ({
+            id: policy.id,
+            name: policy.name,
+            priority: slots[i]
+          })),
+          changed: changes.map(c => ({ id: c.policy.id, name: c.policy.name, from: c.from, to: c.to })),
+          zones: describePolicy(policies[0], rawZones),
+          message: changes.length > 0
+            ? `${changes.length} zone policy(ies) reordered`
+            : 'Policies are already in the requested order'
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to reorder zone policies', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'ZONE_POLICY_REORDER_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Toggle Zone Policy Tool
+// ================================
+
+const toggleZonePolicyTool: MCPTool = {
+  name: 'unifi_toggle_zone_policy',
+  description: 'Enable or disable a zone policy',
+  category: ToolCategory.FIREWALL_ZBF,
+  requiresConnection: true,
+  requiresVersion: '9.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      policyId: {
+        type: 'string',
+        description: 'Zone policy ID',
+        minLength: 1
+      },
+      enabled: {
+        type: 'boolean',
+        description: 'Enable (true) or disable (false) the policy'
+      },
+      ...expiryInputProperties
+    },
+    required: ['policyId', 'enabled'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const versionDetector = params._versionDetector as VersionDetector;
+      const { policyId, enabled } = params;
+      const expiresAt = resolveExpiry(params);
+
+      // Check if Zone-Based Firewall is supported
+      await versionDetector.validateFeature('zbf');
+
+      logger.info('Toggling zone policy', { policyId, enabled, ...(expiresAt && { expiresAt: expiresAt.toISOString() }) });
+
+      const existing = findRawPolicy(await fetchRawZonePolicies(client), policyId, true);
+
+      const response = await client.put(
+        UNIFI_ENDPOINTS.FIREWALL_ZONE_POLICY_DETAILS.replace('{id}', policyId),
+        { ...existing, enabled }
+      );
+
+      if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+        throw new UniFiMCPError('Failed to toggle zone policy', ErrorCode.ZONE_POLICY_UPDATE_FAILED);
+      }
+
+      const updated = mapZonePolicy(response.data[0]);
+      const previousState = existing.enabled !== false;
+
+      const expiry = expiresAt && await scheduleExpiry(
+        {
+          type: EXPIRY_JOB_TYPES.SET_ZONE_POLICY_ENABLED,
+          targetId: policyId,
+          targetName: existing.name,
+          description: `${previousState ? 'Re-enable' : 'Disable'} zone policy '${existing.name}'`,
+          payload: { enabled: previousState },
+          runAt: expiresAt.toISOString()
+        },
+        () => client.put(UNIFI_ENDPOINTS.FIREWALL_ZONE_POLICY_DETAILS.replace('{id}', policyId), existing)
+      );
+
+      return {
+        success: true,
+        data: {
+          policy: {
+            id: updated.id,
+            name: updated.name,
+            enabled: updated.enabled,
+            action: updated.action
+          },
+          previousState,
+          newState: enabled,
+          ...(expiry && { expiration: describeJob(expiry) }),
+          message: `Zone policy '${updated.name}' ${enabled ? 'enabled' : 'disabled'} successfully` +
+            (expiry ? `; it will be ${previousState ? 'enabled' : 'disabled'} again at ${expiry.runAt}` : '')
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to toggle zone policy', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'ZONE_POLICY_TOGGLE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Delete Zone Policy Tool
+// ================================
+
+const deleteZonePolicyTool: MCPTool = {
+  name: 'unifi_delete_zone_policy',
+  description: 'Delete a zone policy',
+  category: ToolCategory.FIREWALL_ZBF,
+  requiresConnection: true,
+  requiresVersion: '9.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      policyId: {
+        type: 'string',
+        description: 'Zone policy ID to delete',
+        minLength: 1
+      }
+    },
+    required: ['policyId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const versionDetector = params._versionDetector as VersionDetector;
+      const { policyId } = params;
+
+      // Check if Zone-Based Firewall is supported
+      await versionDetector.validateFeature('zbf');
+
+      logger.info('Deleting zone policy', { policyId });
+
+      const existing = mapZonePolicy(findRawPolicy(await fetchRawZonePolicies(client), policyId, true));
+
+      const response = await client.delete(UNIFI_ENDPOINTS.FIREWALL_ZONE_POLICY_DETAILS.replace('{id}', policyId));
+
+      if (response.meta.rc !== 'ok') {
+        throw new UniFiMCPError(`Failed to delete zone policy: ${response.meta.msg}`, ErrorCode.ZONE_POLICY_DELETION_FAILED);
+      }
+
+      return {
+        success: true,
+        data: {
+          deletedPolicy: {
+            id: existing.id,
+            name: existing.name,
+            sourceZone: existing.sourceZone,
+            targetZone: existing.targetZone,
+            action: existing.action
+          },
+          message: `Zone policy '${existing.name}' deleted successfully`
+        },
+        warnings: [
+          'Traffic between these zones now falls through to the next policy or the zone default'
+        ],
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete zone policy', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'ZONE_POLICY_DELETE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+export {
+  getZonePoliciesTool,
+  createZonePolicyTool,
+  updateZonePolicyTool,
+  reorderZonePoliciesTool,
+  toggleZonePolicyTool,
+  deleteZonePolicyTool
+};
@@ -0,0 +1,740 @@
+import { MCPTool, ToolCategory, ToolResult, ErrorCode } from '../../server/types.js';
+import { ToolRegistry } from '../../server/toolRegistry.js';
+import { UniFiClient } from '../../unifi/client.js';
+import { VersionDetector } from '../../unifi/versionDetector.js';
+import { GroupType, IPGroup } from '../../unifi/types.js';
+import { ValidationService, firewallGroupMemberIssue } from '../../utils/validators.js';
+import { createToolLogger } from '../../utils/logger.js';
+import {
+  UniFiMCPError,
+  ResourceNotFoundError,
+  ResourceConflictError,
+  ValidationError
+} from '../../utils/errors.js';
+import { UNIFI_ENDPOINTS } from '../../config/constants.js';
+import { fetchRawFirewallRules, fetchRawZonePolicies } from '../firewall/mapping.js';
+import { withLockoutGuard } from '../firewall/guard.js';
+
+/**
+ * IP and Port Group Tools
+ *
+ * Tools for managing firewall groups (IPv4 address groups, IPv6 address
+ * groups and port groups) referenced by legacy firewall rules and zone
+ * policies.
+ */
+
+const logger = createToolLogger('group-tools');
+
+/**
+ * A firewall rule or zone policy that uses a group
+ */
+export interface GroupReference {
+  type: 'firewall-rule' | 'zone-policy';
+  id: string;
+  name: string;
+  side: 'source' | 'destination';
+}
+
+// ================================
+// Group Helpers
+// ================================
+
+/**
+ * Convert a raw firewallgroup record into an IPGroup
+ */
+export function mapIPGroup(raw: any): IPGroup {
+  return {
+    id: raw._id,
+    name: raw.name,
+    type: raw.group_type as GroupType,
+    members: Array.isArray(raw.group_members) ? raw.group_members : [],
+    ...(raw.description && { description: raw.description })
+  };
+}
+
+/**
+ * Normalize a member for comparison
+ */
+function memberKey(member: string): string {
+  return member.trim().toLowerCase();
+}
+
+/**
+ * Apply additions and removals to a member list, keeping the existing
+ * order and reporting what actually changed
+ */
+export function patchMembers(
+  current: string[],
+  add: string[],
+  remove: string[]
+): { members: string[]; added: string[]; removed: string[]; unchanged: string[] } {
+  const removeKeys = new Set(remove.map(memberKey));
+  const members = current.filter(member => !removeKeys.has(memberKey(member)));
+  const removed = current.filter(member => removeKeys.has(memberKey(member)));
+  const unchanged = remove.filter(member => !current.some(existing => memberKey(existing) === memberKey(member)));
+
+  const added: string[] = [];
+  for (const member of add) {
+    if (members.some(existing => memberKey(existing) === memberKey(member))) {
+      unchanged.push(member);
+    } else {
+      members.push(member.trim());
+      added.push(member.trim());
+    }
+  }
+
+  return { members, added, removed, unchanged };
+}
+
+/**
+ * Find the rules and policies that reference a group
+ */
+export function findGroupReferences(groupId: string, rawRules: any[], rawPolicies: any[]): GroupReference[] {
+  const references: GroupReference[] = [];
+
+  for (const rule of rawRules) {
+    if (Array.isArray(rule.src_firewallgroup_ids) && rule.src_firewallgroup_ids.includes(groupId)) {
+      references.push({ type: 'firewall-rule', id: rule._id, name: rule.name, side: 'source' });
+    }
+    if (Array.isArray(rule.dst_firewallgroup_ids) && rule.dst_firewallgroup_ids.includes(groupId)) {
+      references.push({ type: 'firewall-rule', id: rule._id, name: rule.name, side: 'destination' });
+    }
+  }
+
+  for (const policy of rawPolicies) {
+    for (const side of ['source', 'destination'] as const) {
+      const endpoint = policy[side];
+      if (endpoint && (endpoint.ip_group_id === groupId || endpoint.port_group_id === groupId)) {
+        references.push({ type: 'zone-policy', id: policy._id, name: policy.name || policy._id, side });
+      }
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Fetch the raw firewallgroup records
+ */
+async function fetchRawGroups(client: UniFiClient): Promise<any[]> {
+  const response = await client.get(UNIFI_ENDPOINTS.IP_GROUPS);
+
+  if (!response.data || !Array.isArray(response.data)) {
+    throw new UniFiMCPError('Invalid firewall group data received', ErrorCode.INVALID_DATA);
+  }
+
+  return response.data;
+}
+
+/**
+ * Find a raw firewallgroup record by ID or throw
+ */
+function findRawGroup(rawGroups: any[], groupId: string): any {
+  const raw = rawGroups.find(group => group._id === groupId);
+  if (!raw) {
+    throw new ResourceNotFoundError('IP group', groupId);
+  }
+  return raw;
+}
+
+/**
+ * Fetch the legacy rules and zone policies of whichever firewall models
+ * the controller supports
+ */
+async function fetchReferencingObjects(
+  client: UniFiClient,
+  versionDetector: VersionDetector
+): Promise<{ rules: any[]; policies: any[] }> {
+  const capabilities = await versionDetector.detectCapabilities();
+  const [rules, policies] = await Promise.all([
+    capabilities.supportsLegacyFirewall ? fetchRawFirewallRules(client) : Promise.resolve([]),
+    capabilities.supportsZBF ? fetchRawZonePolicies(client) : Promise.resolve([])
+  ]);
+  return { rules, policies };
+}
+
+/**
+ * Throw a ValidationError listing every invalid member for the group type
+ */
+function assertValidMembers(type: string, members: string[]): void {
+  const issues = members
+    .map(member => firewallGroupMemberIssue(type, member))
+    .filter((issue): issue is string => issue !== undefined);
+
+  if (issues.length > 0) {
+    throw new ValidationError(`Invalid ${type} members: ${issues.join('; ')}`, 'members', members);
+  }
+}
+
+/**
+ * Ensure no other group of the same type uses the name
+ */
+function assertUniqueGroupName(rawGroups: any[], name: string, type: string, excludeId?: string): void {
+  const duplicate = rawGroups.find(group =>
+    group._id !== excludeId &&
+    group.group_type === type &&
+    String(group.name).toLowerCase() === name.toLowerCase()
+  );
+  if (duplicate) {
+    throw new ResourceConflictError(`A ${type} named '${name}' already exists`, duplicate._id);
+  }
+}
+
+/**
+ * Save a group with its full member list
+ */
+async function saveGroup(client: UniFiClient, raw: any, changes: Record<string, any>): Promise<IPGroup> {
+  const response = await client.put(UNIFI_ENDPOINTS.IP_GROUP_DETAILS.replace('{id}', raw._id), { ...raw, ...changes });
+
+  if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+    throw new UniFiMCPError('Failed to update IP group', ErrorCode.IP_GROUP_UPDATE_FAILED);
+  }
+
+  return mapIPGroup(response.data[0]);
+}
+
+// ================================
+// Get IP Groups Tool
+// ================================
+
+const getIPGroupsTool: MCPTool = {
+  name: 'unifi_get_ip_groups',
+  description: 'List firewall groups (IPv4 address, IPv6 address and port groups) with their members',
+  category: ToolCategory.GROUPS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      type: {
+        type: 'string',
+        enum: ['address-group', 'ipv6-address-group', 'port-group'],
+        description: 'Filter by group type'
+      },
+      includeReferences: {
+        type: 'boolean',
+        description: 'List the firewall rules and zone policies using each group',
+        default: false
+      }
+    },
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const versionDetector = params._versionDetector as VersionDetector;
+      const { type, includeReferences = false } = params;
+
+      logger.info('Getting IP groups', { type, includeReferences });
+
+      const groups = (await fetchRawGroups(client))
+        .filter(group => !type || group.group_type === type)
+        .map(mapIPGroup);
+
+      const references = includeReferences ? await fetchReferencingObjects(client, versionDetector) : undefined;
+
+      return {
+        success: true,
+        data: {
+          groups: groups.map(group => ({
+            ...group,
+            memberCount: group.members.length,
+            ...(references && { references: findGroupReferences(group.id, references.rules, references.policies) })
+          })),
+          count: groups.length
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to get IP groups', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'IP_GROUPS_FETCH_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Create IP Group Tool
+// ================================
+
+const createIPGroupTool: MCPTool = {
+  name: 'unifi_create_ip_group',
+  description: 'Create an IPv4 address, IPv6 address or port group',
+  category: ToolCategory.GROUPS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Group name',
+        minLength: 1,
+        maxLength: 50
+      },
+      type: {
+        type: 'string',
+        enum: ['address-group', 'ipv6-address-group', 'port-group'],
+        description: 'Group type'
+      },
+      members: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Addresses, CIDRs or ranges (address groups), IPv6 addresses or prefixes, or ports and port ranges',
+        minItems: 1
+      },
+      description: {
+        type: 'string',
+        description: 'Group description',
+        maxLength: 255
+      }
+    },
+    required: ['name', 'type', 'members'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const validated = await ValidationService.validateCreateIPGroupParams(params);
+
+      logger.info('Creating IP group', { name: validated.name, type: validated.type });
+
+      assertUniqueGroupName(await fetchRawGroups(client), validated.name, validated.type);
+      const { members } = patchMembers([], validated.members, []);
+
+      const response = await client.post(UNIFI_ENDPOINTS.IP_GROUPS, {
+        name: validated.name,
+        group_type: validated.type,
+        group_members: members,
+        ...(validated.description && { description: validated.description })
+      });
+
+      if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+        throw new UniFiMCPError('Failed to create IP group', ErrorCode.IP_GROUP_CREATION_FAILED);
+      }
+
+      const group = mapIPGroup(response.data[0]);
+
+      return {
+        success: true,
+        data: {
+          group,
+          message: `${group.type} '${group.name}' created with ${group.members.length} member(s)`
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to create IP group', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'IP_GROUP_CREATE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Update IP Group Tool
+// ================================
+
+const updateIPGroupTool: MCPTool = {
+  name: 'unifi_update_ip_group',
+  description: 'Rename a firewall group, change its description or replace its member list',
+  category: ToolCategory.GROUPS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      groupId: {
+        type: 'string',
+        description: 'Group ID to update',
+        minLength: 1
+      },
+      name: {
+        type: 'string',
+        description: 'New group name',
+        minLength: 1,
+        maxLength: 50
+      },
+      members: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Complete new member list (use unifi_add_to_ip_group / unifi_remove_from_ip_group for changes)',
+        minItems: 1
+      },
+      description: {
+        type: 'string',
+        description: 'Group description',
+        maxLength: 255
+      }
+    },
+    required: ['groupId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const { groupId, name, members, description } = await ValidationService.validateUpdateIPGroupParams(params);
+
+      logger.info('Updating IP group', { groupId });
+
+      const rawGroups = await fetchRawGroups(client);
+      const raw = findRawGroup(rawGroups, groupId);
+
+      if (name !== undefined) {
+        assertUniqueGroupName(rawGroups, name, raw.group_type, groupId);
+      }
+      if (members) {
+        assertValidMembers(raw.group_type, members);
+      }
+
+      const group = await saveGroup(client, raw, {
+        ...(name !== undefined && { name }),
+        ...(members && { group_members: patchMembers([], members, []).members }),
+        ...(description !== undefined && { description })
+      });
+
+      return {
+        success: true,
+        data: {
+          group,
+          message: `Group '${group.name}' updated successfully`
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to update IP group', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'IP_GROUP_UPDATE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Delete IP Group Tool
+// ================================
+
+const deleteIPGroupTool: MCPTool = {
+  name: 'unifi_delete_ip_group',
+  description: 'Delete a firewall group; refused while firewall rules or zone policies still reference it',
+  category: ToolCategory.GROUPS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      groupId: {
+        type: 'string',
+        description: 'Group ID to delete',
+        minLength: 1
+      }
+    },
+    required: ['groupId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const versionDetector = params._versionDetector as VersionDetector;
+      const { groupId } = params;
+
+      logger.info('Deleting IP group', { groupId });
+
+      const group = mapIPGroup(findRawGroup(await fetchRawGroups(client), groupId));
+      const { rules, policies } = await fetchReferencingObjects(client, versionDetector);
+      const references = findGroupReferences(groupId, rules, policies);
+
+      if (references.length > 0) {
+        throw new ResourceConflictError(
+          `Group '${group.name}' is used by ${references.length} rule(s) or policies; remove those references first`,
+          groupId,
+          { references }
+        );
+      }
+
+      const response = await client.delete(UNIFI_ENDPOINTS.IP_GROUP_DETAILS.replace('{id}', groupId));
+
+      if (response.meta.rc !== 'ok') {
+        throw new UniFiMCPError(`Failed to delete IP group: ${response.meta.msg}`, ErrorCode.IP_GROUP_DELETION_FAILED);
+      }
+
+      return {
+        success: true,
+        data: {
+          deletedGroup: {
+            id: group.id,
+            name: group.name,
+            type: group.type
+          },
+          message: `Group '${group.name}' deleted successfully`
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete IP group', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'IP_GROUP_DELETE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Add To IP Group Tool
+// ================================
+
+const addToIPGroupTool: MCPTool = {
+  name: 'unifi_add_to_ip_group',
+  description: 'Add members to a firewall group without resending the existing members',
+  category: ToolCategory.GROUPS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      groupId: {
+        type: 'string',
+        description: 'Group ID',
+        minLength: 1
+      },
+      members: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Members to add; members already present are skipped',
+        minItems: 1
+      }
+    },
+    required: ['groupId', 'members'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const { groupId, members } = await ValidationService.validateIPGroupMembersParams(params);
+
+      logger.info('Adding IP group members', { groupId, count: members.length });
+
+      const raw = findRawGroup(await fetchRawGroups(client), groupId);
+      assertValidMembers(raw.group_type, members);
+
+      const patch = patchMembers(mapIPGroup(raw).members, members, []);
+      const group = patch.added.length > 0
+        ? await saveGroup(client, raw, { group_members: patch.members })
+        : mapIPGroup(raw);
+
+      return {
+        success: true,
+        data: {
+          group,
+          added: patch.added,
+          alreadyPresent: patch.unchanged,
+          message: `${patch.added.length} member(s) added to '${group.name}'`
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to add IP group members', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'IP_GROUP_UPDATE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Remove From IP Group Tool
+// ================================
+
+const removeFromIPGroupTool: MCPTool = {
+  name: 'unifi_remove_from_ip_group',
+  description: 'Remove members from a firewall group without resending the remaining members',
+  category: ToolCategory.GROUPS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      groupId: {
+        type: 'string',
+        description: 'Group ID',
+        minLength: 1
+      },
+      members: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Members to remove; members not in the group are reported',
+        minItems: 1
+      }
+    },
+    required: ['groupId', 'members'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const { groupId, members } = await ValidationService.validateIPGroupMembersParams(params);
+
+      logger.info('Removing IP group members', { groupId, count: members.length });
+
+      const raw = findRawGroup(await fetchRawGroups(client), groupId);
+      const patch = patchMembers(mapIPGroup(raw).members, [], members);
+
+      if (patch.members.length === 0) {
+        throw new ValidationError(
+          'A group must keep at least one member; delete the group instead',
+          'members',
+          members
+        );
+      }
+
+      const group = patch.removed.length > 0
+        ? await saveGroup(client, raw, { group_members: patch.members })
+        : mapIPGroup(raw);
+
+      return {
+        success: true,
+        data: {
+          group,
+          removed: patch.removed,
+          notInGroup: patch.unchanged,
+          message: `${patch.removed.length} member(s) removed from '${group.name}'`
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to remove IP group members', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'IP_GROUP_UPDATE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Tool Registration Function
+// ================================
+
+export async function registerGroupTools(
+  registry: ToolRegistry,
+  client: UniFiClient,
+  versionDetector: VersionDetector
+): Promise<void> {
+  // Add the anti-lockout guard option, then client and version detector for access
+  const enhancedTools = [
+    getIPGroupsTool,
+    createIPGroupTool,
+    updateIPGroupTool,
+    deleteIPGroupTool,
+    addToIPGroupTool,
+    removeFromIPGroupTool
+  ].map(withLockoutGuard).map(tool => ({
+    ...tool,
+    handler: async (params: any) => {
+      // Inject dependencies
+      const enhancedParams = {
+        ...params,
+        _client: client,
+        _versionDetector: versionDetector
+      };
+      return tool.handler(enhancedParams);
+    }
+  }));
+
+  // Register all tools
+  registry.registerBatch(enhancedTools);
+
+  logger.info('IP group tools registered successfully', {
+    count: enhancedTools.length,
+    tools: enhancedTools.map(t => t.name)
+  });
+}
+
+// Export individual tools for testing
+export {
+  getIPGroupsTool,
+  createIPGroupTool,
+  updateIPGroupTool,
+  deleteIPGroupTool,
+  addToIPGroupTool,
+  removeFromIPGroupTool
+};
@@ -0,0 +1,122 @@
+import { HotspotVoucher } from '../../unifi/types.js';
+
+/**
+ * Voucher Batch Export
+ *
+ * Renders voucher batches as CSV and as a printable HTML sheet for the
+ * front desk. Used by unifi_export_vouchers and by the web server.
+ */
+
+/**
+ * Human readable voucher validity (e.g. "1 day 6 hours", "45 minutes")
+ */
+export function formatDuration(minutes: number): string {
+  const units: Array<[number, string]> = [[1440, 'day'], [60, 'hour'], [1, 'minute']];
+  const parts: string[] = [];
+  let remaining = minutes;
+
+  for (const [size, label] of units) {
+    const amount = Math.floor(remaining / size);
+    if (amount > 0) {
+      parts.push(`${amount} ${label}${amount === 1 ? '' : 's'}`);
+      remaining -= amount * size;
+    }
+  }
+
+  return parts.length > 0 ? parts.slice(0, 2).join(' ') : '0 minutes';
+}
+
+/**
+ * Describe how often a voucher can be used
+ */
+export function formatQuota(quota: number): string {
+  if (quota === 0) return 'Unlimited uses';
+  return quota === 1 ? 'Single use' : `${quota} uses`;
+}
+
+function escapeCSV(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function escapeHTML(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render vouchers as CSV with a header row
+ */
+export function vouchersToCSV(vouchers: HotspotVoucher[]): string {
+  const header = [
+    'code', 'duration_minutes', 'quota', 'used', 'status',
+    'upload_kbps', 'download_kbps', 'data_limit_mb', 'note', 'created_at'
+  ];
+
+  const rows = vouchers.map(voucher => [
+    voucher.code,
+    voucher.durationMinutes,
+    voucher.quota,
+    voucher.used,
+    voucher.status,
+    voucher.uploadLimitKbps,
+    voucher.downloadLimitKbps,
+    voucher.byteLimitMB,
+    voucher.note,
+    voucher.createTime.toISOString()
+  ].map(escapeCSV).join(','));
+
+  return [header.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * Render vouchers as a printable HTML sheet of cut-out cards
+ */
+export function vouchersToHTML(vouchers: HotspotVoucher[], options: { title?: string; ssid?: string } = {}): string {
+  const title = options.title ?? 'Guest Wi-Fi Vouchers';
+
+  const cards = vouchers.map(voucher => {
+    const limits = [
+      voucher.downloadLimitKbps ? `&darr; ${escapeHTML(voucher.downloadLimitKbps)} kbps` : '',
+      voucher.uploadLimitKbps ? `&uarr; ${escapeHTML(voucher.uploadLimitKbps)} kbps` : '',
+      voucher.byteLimitMB ? `${escapeHTML(voucher.byteLimitMB)} MB` : ''
+    ].filter(Boolean).join(' &middot; ');
+
+    return `
+    <div class="voucher">
+      ${options.ssid ? `<div class="ssid">Network: ${escapeHTML(options.ssid)}</div>` : ''}
+      <div class="code">${escapeHTML(voucher.code)}</div>
+      <div class="details">${escapeHTML(formatDuration(voucher.durationMinutes))} &middot; ${escapeHTML(formatQuota(voucher.quota))}</div>
+      ${limits ? `<div class="limits">${limits}</div>` : ''}
+      ${voucher.note ? `<div class="note">${escapeHTML(voucher.note)}</div>` : ''}
+    </div>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHTML(title)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; margin: 16px; }
+    h1 { font-size: 18px; margin: 0 0 12px; }
+    .sheet { display: grid; grid-template-columns: repeat(3, 1fr); gap: 8px; }
+    .voucher { border: 1px dashed #888; padding: 12px; text-align: center; break-inside: avoid; }
+    .ssid { font-size: 12px; color: #555; }
+    .code { font-family: "SFMono-Regular", Consolas, monospace; font-size: 22px; font-weight: bold; letter-spacing: 2px; margin: 6px 0; }
+    .details, .limits, .note { font-size: 12px; color: #333; }
+    @media print { h1 { display: none; } body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1>${escapeHTML(title)} (${vouchers.length})</h1>
+  <div class="sheet">${cards}
+  </div>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,574 @@
+import { MCPTool, ToolCategory, ToolResult, ErrorCode } from '../../server/types.js';
+import { ToolRegistry } from '../../server/toolRegistry.js';
+import { UniFiClient } from '../../unifi/client.js';
+import { HotspotVoucher } from '../../unifi/types.js';
+import { ValidationService } from '../../utils/validators.js';
+import { createToolLogger } from '../../utils/logger.js';
+import { UniFiMCPError, ResourceNotFoundError, ValidationError } from '../../utils/errors.js';
+import { config } from '../../config/environment.js';
+import { UNIFI_ENDPOINTS } from '../../config/constants.js';
+import { fetchVouchers, mapGuestAuthorization } from './mapping.js';
+import { vouchersToCSV, vouchersToHTML } from './export.js';
+
+/**
+ * Guest Hotspot Tools
+ *
+ * Tools for creating, listing, revoking and exporting hotspot vouchers
+ * and for reviewing guest authorizations.
+ */
+
+const logger = createToolLogger('hotspot-tools');
+
+/**
+ * Vouchers that can still be redeemed
+ */
+function isUnused(voucher: HotspotVoucher): boolean {
+  return voucher.quota === 0 || voucher.used < voucher.quota;
+}
+
+// ================================
+// Create Vouchers Tool
+// ================================
+
+const createVouchersTool: MCPTool = {
+  name: 'unifi_create_vouchers',
+  description: 'Create a batch of guest hotspot vouchers',
+  category: ToolCategory.CLIENTS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      count: {
+        type: 'number',
+        description: 'Number of vouchers to create',
+        minimum: 1,
+        maximum: 1000,
+        default: 1
+      },
+      durationMinutes: {
+        type: 'number',
+        description: 'How long a voucher stays valid after first use, in minutes',
+        minimum: 1,
+        maximum: 525600
+      },
+      quota: {
+        type: 'number',
+        description: 'Number of times each voucher can be used (0 for unlimited)',
+        minimum: 0,
+        maximum: 1000,
+        default: 1
+      },
+      uploadLimitKbps: {
+        type: 'number',
+        description: 'Upload rate limit in kbps'
+      },
+      downloadLimitKbps: {
+        type: 'number',
+        description: 'Download rate limit in kbps'
+      },
+      byteLimitMB: {
+        type: 'number',
+        description: 'Data transfer cap in MB'
+      },
+      note: {
+        type: 'string',
+        description: 'Note printed on the vouchers (e.g. room number)',
+        maxLength: 100
+      }
+    },
+    required: ['durationMinutes'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const validatedParams = await ValidationService.validateCreateVouchersParams(params);
+
+      logger.info('Creating hotspot vouchers', {
+        count: validatedParams.count,
+        durationMinutes: validatedParams.durationMinutes,
+        quota: validatedParams.quota
+      });
+
+      const response = await client.post(UNIFI_ENDPOINTS.HOTSPOT_CMD, {
+        cmd: 'create-voucher',
+        n: validatedParams.count,
+        expire: validatedParams.durationMinutes,
+        quota: validatedParams.quota,
+        ...(validatedParams.uploadLimitKbps !== undefined && { up: validatedParams.uploadLimitKbps }),
+        ...(validatedParams.downloadLimitKbps !== undefined && { down: validatedParams.downloadLimitKbps }),
+        ...(validatedParams.byteLimitMB !== undefined && { bytes: validatedParams.byteLimitMB }),
+        ...(validatedParams.note !== undefined && { note: validatedParams.note })
+      });
+
+      const createTime = response.data?.[0]?.create_time;
+      if (createTime === undefined) {
+        throw new UniFiMCPError('Failed to create vouchers', ErrorCode.VOUCHER_CREATION_FAILED);
+      }
+
+      const vouchers = await fetchVouchers(client, Number(createTime));
+
+      return {
+        success: true,
+        data: {
+          createTime: Number(createTime),
+          vouchers,
+          codes: vouchers.map(v => v.code),
+          ...(config.security.voucherExportToken && {
+            exports: {
+              csv: `/hotspot/vouchers.csv?createTime=${createTime}`,
+              html: `/hotspot/vouchers/print?createTime=${createTime}`
+            }
+          }),
+          message: `Created ${vouchers.length} voucher(s)`
+        },
+        ...(vouchers.length !== validatedParams.count && {
+          warnings: [`Requested ${validatedParams.count} vouchers but the controller returned ${vouchers.length}`]
+        }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to create vouchers', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'VOUCHER_CREATE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Get Vouchers Tool
+// ================================
+
+const getVouchersTool: MCPTool = {
+  name: 'unifi_get_vouchers',
+  description: 'List hotspot vouchers, optionally limited to one batch',
+  category: ToolCategory.CLIENTS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      createTime: {
+        type: 'number',
+        description: 'Batch create time (unix seconds) as returned by unifi_create_vouchers'
+      },
+      status: {
+        type: 'string',
+        enum: ['all', 'unused', 'used'],
+        description: 'Filter by redemption state',
+        default: 'all'
+      },
+      note: {
+        type: 'string',
+        description: 'Only return vouchers whose note contains this text'
+      }
+    },
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const { createTime, status = 'all', note } = params;
+
+      logger.info('Retrieving vouchers', { createTime, status });
+
+      let vouchers = await fetchVouchers(client, createTime);
+
+      if (status === 'unused') {
+        vouchers = vouchers.filter(isUnused);
+      } else if (status === 'used') {
+        vouchers = vouchers.filter(v => !isUnused(v));
+      }
+      if (note) {
+        const needle = String(note).toLowerCase();
+        vouchers = vouchers.filter(v => v.note?.toLowerCase().includes(needle));
+      }
+
+      vouchers.sort((a, b) => b.createTime.getTime() - a.createTime.getTime() || a.code.localeCompare(b.code));
+
+      const batches = vouchers.reduce((acc, v) => {
+        const key = String(Math.floor(v.createTime.getTime() / 1000));
+        acc[key] = (acc[key] || 0) + 1;
+        return acc;
+      }, {} as Record<string, number>);
+
+      return {
+        success: true,
+        data: {
+          vouchers,
+          summary: {
+            total: vouchers.length,
+            unused: vouchers.filter(isUnused).length,
+            batches
+          }
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to retrieve vouchers', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'VOUCHER_FETCH_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Revoke Voucher Tool
+// ================================
+
+const revokeVoucherTool: MCPTool = {
+  name: 'unifi_revoke_voucher',
+  description: 'Revoke a hotspot voucher by ID or code, or every voucher in a batch',
+  category: ToolCategory.CLIENTS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      voucherId: {
+        type: 'string',
+        description: 'Voucher ID'
+      },
+      code: {
+        type: 'string',
+        description: 'Voucher code, with or without the dash'
+      },
+      createTime: {
+        type: 'number',
+        description: 'Revoke every voucher of the batch with this create time'
+      }
+    },
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const { voucherId, code, createTime } = params;
+
+      const selectors = [voucherId, code, createTime].filter(value => value !== undefined);
+      if (selectors.length !== 1) {
+        throw new ValidationError('Provide exactly one of voucherId, code or createTime');
+      }
+
+      logger.info('Revoking vouchers', { voucherId, createTime });
+
+      const vouchers = await fetchVouchers(client, createTime);
+      let targets: HotspotVoucher[];
+
+      if (voucherId) {
+        targets = vouchers.filter(v => v.id === voucherId);
+      } else if (code) {
+        const digits = String(code).replace(/\D/g, '');
+        targets = vouchers.filter(v => v.code.replace(/\D/g, '') === digits);
+      } else {
+        targets = vouchers;
+      }
+
+      if (targets.length === 0) {
+        throw new ResourceNotFoundError('Voucher', String(voucherId ?? code ?? createTime));
+      }
+
+      const revoked: string[] = [];
+      const failed: Array<{ code: string; error: string }> = [];
+
+      for (const voucher of targets) {
+        try {
+          const response = await client.post(UNIFI_ENDPOINTS.HOTSPOT_CMD, {
+            cmd: 'delete-voucher',
+            _id: voucher.id
+          });
+          if (response.meta.rc !== 'ok') {
+            throw new UniFiMCPError(response.meta.msg || 'Controller rejected the request', ErrorCode.VOUCHER_REVOKE_FAILED);
+          }
+          revoked.push(voucher.code);
+        } catch (error) {
+          failed.push({ code: voucher.code, error: (error as Error).message });
+        }
+      }
+
+      if (revoked.length === 0) {
+        throw new UniFiMCPError('Failed to revoke vouchers', ErrorCode.VOUCHER_REVOKE_FAILED, 500, { failed });
+      }
+
+      return {
+        success: true,
+        data: {
+          revoked,
+          failed,
+          message: `Revoked ${revoked.length} of ${targets.length} voucher(s)`
+        },
+        warnings: [
+          'Guests already authorized with a revoked voucher stay connected until their authorization ends',
+          ...(failed.length > 0 ? [`${failed.length} voucher(s) could not be revoked`] : [])
+        ],
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to revoke vouchers', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'VOUCHER_REVOKE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Get Guest Authorizations Tool
+// ================================
+
+const getGuestAuthorizationsTool: MCPTool = {
+  name: 'unifi_get_guest_authorizations',
+  description: 'List guest hotspot authorizations and the vouchers they used',
+  category: ToolCategory.CLIENTS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      withinHours: {
+        type: 'number',
+        description: 'Look back this many hours',
+        minimum: 1,
+        maximum: 8760,
+        default: 24
+      },
+      activeOnly: {
+        type: 'boolean',
+        description: 'Only return authorizations that have not expired',
+        default: false
+      }
+    },
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const { withinHours = 24, activeOnly = false } = params;
+
+      logger.info('Retrieving guest authorizations', { withinHours, activeOnly });
+
+      const response = await client.post(UNIFI_ENDPOINTS.GUESTS, { within: withinHours });
+
+      if (!response.data || !Array.isArray(response.data)) {
+        throw new UniFiMCPError('Invalid guest data received', ErrorCode.INVALID_DATA);
+      }
+
+      let guests = response.data.map(mapGuestAuthorization);
+      if (activeOnly) {
+        guests = guests.filter(g => !g.expired);
+      }
+
+      guests.sort((a, b) => (b.start?.getTime() ?? 0) - (a.start?.getTime() ?? 0));
+
+      return {
+        success: true,
+        data: {
+          guests,
+          summary: {
+            total: guests.length,
+            active: guests.filter(g => !g.expired).length,
+            byMethod: guests.reduce((acc, g) => {
+              acc[g.authorizedBy] = (acc[g.authorizedBy] || 0) + 1;
+              return acc;
+            }, {} as Record<string, number>)
+          }
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to retrieve guest authorizations', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'GUEST_FETCH_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Export Vouchers Tool
+// ================================
+
+const exportVouchersTool: MCPTool = {
+  name: 'unifi_export_vouchers',
+  description: 'Export vouchers as CSV or as a printable HTML sheet',
+  category: ToolCategory.CLIENTS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      createTime: {
+        type: 'number',
+        description: 'Batch create time (unix seconds); defaults to all unused vouchers'
+      },
+      format: {
+        type: 'string',
+        enum: ['csv', 'html'],
+        description: 'Export format',
+        default: 'csv'
+      },
+      includeUsed: {
+        type: 'boolean',
+        description: 'Include vouchers that have been fully used',
+        default: false
+      },
+      ssid: {
+        type: 'string',
+        description: 'SSID printed on the HTML sheet'
+      },
+      title: {
+        type: 'string',
+        description: 'Title of the HTML sheet'
+      }
+    },
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const { createTime, format = 'csv', includeUsed = false, ssid, title } = params;
+
+      logger.info('Exporting vouchers', { createTime, format });
+
+      let vouchers = await fetchVouchers(client, createTime);
+      if (!includeUsed) {
+        vouchers = vouchers.filter(isUnused);
+      }
+      vouchers.sort((a, b) => a.code.localeCompare(b.code));
+
+      const content = format === 'html'
+        ? vouchersToHTML(vouchers, { ...(ssid && { ssid }), ...(title && { title }) })
+        : vouchersToCSV(vouchers);
+
+      return {
+        success: true,
+        data: {
+          format,
+          contentType: format === 'html' ? 'text/html' : 'text/csv',
+          count: vouchers.length,
+          content
+        },
+        ...(vouchers.length === 0 && { warnings: ['No vouchers matched the export criteria'] }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to export vouchers', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'VOUCHER_EXPORT_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Tool Registration Function
+// ================================
+
+export async function registerHotspotTools(
+  registry: ToolRegistry,
+  client: UniFiClient
+): Promise<void> {
+  // Add client to tools for access
+  const enhancedTools = [
+    createVouchersTool,
+    getVouchersTool,
+    revokeVoucherTool,
+    getGuestAuthorizationsTool,
+    exportVouchersTool
+  ].map(tool => ({
+    ...tool,
+    handler: async (params: any) => {
+      // Inject dependencies
+      const enhancedParams = {
+        ...params,
+        _client: client
+      };
+      return tool.handler(enhancedParams);
+    }
+  }));
+
+  // Register all tools
+  registry.registerBatch(enhancedTools);
+
+  logger.info('Hotspot tools registered successfully', {
+    count: enhancedTools.length,
+    tools: enhancedTools.map(t => t.name)
+  });
+}
+
+// Export individual tools for testing
+export {
+  createVouchersTool,
+  getVouchersTool,
+  revokeVoucherTool,
+  getGuestAuthorizationsTool,
+  exportVouchersTool
+};
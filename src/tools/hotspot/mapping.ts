@@ -0,0 +1,83 @@
+import { ErrorCode } from '../../server/types.js';
+import { UniFiClient } from '../../unifi/client.js';
+import { HotspotVoucher, GuestAuthorization } from '../../unifi/types.js';
+import { UniFiMCPError } from '../../utils/errors.js';
+import { UNIFI_ENDPOINTS } from '../../config/constants.js';
+
+/**
+ * Hotspot Data Mapping
+ *
+ * Shared helpers for converting raw stat/voucher and stat/guest records,
+ * used by the hotspot tools and the voucher export routes of the web server.
+ */
+
+/**
+ * Format a voucher code the way the controller prints it (12345-67890)
+ */
+export function formatVoucherCode(code: string): string {
+  const digits = String(code).replace(/\D/g, '');
+  return digits.length === 10 ? `${digits.slice(0, 5)}-${digits.slice(5)}` : String(code);
+}
+
+/**
+ * Convert a raw stat/voucher record into a HotspotVoucher
+ */
+export function mapVoucher(raw: any): HotspotVoucher {
+  const voucher: HotspotVoucher = {
+    id: raw._id,
+    code: formatVoucherCode(raw.code),
+    createTime: new Date(Number(raw.create_time) * 1000),
+    durationMinutes: Number(raw.duration ?? 0),
+    quota: Number(raw.quota ?? 0),
+    used: Number(raw.used ?? 0),
+    status: raw.status ?? 'UNKNOWN'
+  };
+
+  if (raw.qos_rate_max_up) voucher.uploadLimitKbps = Number(raw.qos_rate_max_up);
+  if (raw.qos_rate_max_down) voucher.downloadLimitKbps = Number(raw.qos_rate_max_down);
+  if (raw.qos_usage_quota) voucher.byteLimitMB = Number(raw.qos_usage_quota);
+  if (raw.note) voucher.note = raw.note;
+  if (raw.admin_name) voucher.createdBy = raw.admin_name;
+  if (raw.status_expires) voucher.expiresAt = new Date(Number(raw.status_expires) * 1000);
+
+  return voucher;
+}
+
+/**
+ * Convert a raw stat/guest record into a GuestAuthorization
+ */
+export function mapGuestAuthorization(raw: any): GuestAuthorization {
+  const guest: GuestAuthorization = {
+    mac: raw.mac,
+    authorizedBy: raw.authorized_by ?? 'unknown',
+    expired: raw.expired === true,
+    rxBytes: Number(raw.rx_bytes ?? 0),
+    txBytes: Number(raw.tx_bytes ?? 0)
+  };
+
+  if (raw.hostname || raw.name) guest.hostname = raw.name || raw.hostname;
+  if (raw.ip) guest.ip = raw.ip;
+  if (raw.voucher_code) guest.voucherCode = formatVoucherCode(raw.voucher_code);
+  if (raw.voucher_id) guest.voucherId = raw.voucher_id;
+  if (raw.start) guest.start = new Date(Number(raw.start) * 1000);
+  if (raw.end) guest.end = new Date(Number(raw.end) * 1000);
+
+  return guest;
+}
+
+/**
+ * Fetch vouchers, optionally limited to a single batch by its create time (unix seconds)
+ */
+export async function fetchVouchers(client: UniFiClient, createTime?: number): Promise<HotspotVoucher[]> {
+  const response = createTime !== undefined
+    ? await client.post(UNIFI_ENDPOINTS.VOUCHERS, { create_time: createTime })
+    : await client.get(UNIFI_ENDPOINTS.VOUCHERS);
+
+  if (!response.data || !Array.isArray(response.data)) {
+    throw new UniFiMCPError('Invalid voucher data received', ErrorCode.INVALID_DATA);
+  }
+
+  return response.data
+    .filter((raw: any) => createTime === undefined || Number(raw.create_time) === createTime)
+    .map(mapVoucher);
+}
@@ -0,0 +1,614 @@
+import { promises as dns } from 'dns';
+import { MCPTool, ToolCategory, ToolResult, ErrorCode } from '../../server/types.js';
+import { UniFiClient } from '../../unifi/client.js';
+import { DynamicDNSEntry, DynamicDNSStatus } from '../../unifi/types.js';
+import { ValidationService, IPAddressSchema, DDNS_SERVICES } from '../../utils/validators.js';
+import { createToolLogger } from '../../utils/logger.js';
+import {
+  UniFiMCPError,
+  ResourceNotFoundError,
+  ResourceConflictError,
+  ValidationError
+} from '../../utils/errors.js';
+import { cidrContainsIP } from '../../utils/cidr.js';
+import { UNIFI_ENDPOINTS } from '../../config/constants.js';
+
+/**
+ * Dynamic DNS Tools
+ *
+ * Tools for managing dynamic DNS entries through the dynamicdns API and
+ * for checking that published records match the current WAN address.
+ */
+
+const logger = createToolLogger('ddns-tools');
+
+// Address ranges that cannot be reached from the Internet (RFC 1918 and carrier-grade NAT)
+const NON_PUBLIC_RANGES = ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', '100.64.0.0/10'];
+
+// ================================
+// DDNS Helpers
+// ================================
+
+/**
+ * Convert a raw dynamicdns record into a DynamicDNSEntry. The password is never included.
+ */
+export function mapDDNSEntry(raw: any): DynamicDNSEntry {
+  const entry: DynamicDNSEntry = {
+    id: raw._id,
+    service: raw.service,
+    hostname: raw.host_name,
+    wanInterface: raw.interface ?? 'wan',
+    hasPassword: Boolean(raw.x_password)
+  };
+
+  if (raw.login) entry.login = raw.login;
+  if (raw.server) entry.server = raw.server;
+
+  return entry;
+}
+
+/**
+ * Map validated parameters to dynamicdns fields. Only provided fields are included.
+ */
+function buildDDNSPayload(params: Record<string, any>): Record<string, any> {
+  const payload: Record<string, any> = {};
+
+  if (params.service !== undefined) payload.service = params.service;
+  if (params.hostname !== undefined) payload.host_name = params.hostname;
+  if (params.login !== undefined) payload.login = params.login;
+  if (params.password !== undefined) payload.x_password = params.password;
+  if (params.server !== undefined) payload.server = params.server;
+  if (params.wanInterface !== undefined) payload.interface = params.wanInterface;
+
+  return payload;
+}
+
+/**
+ * Compare the addresses a hostname resolves to with the WAN address
+ */
+export function compareDDNS(
+  entry: DynamicDNSEntry,
+  wanIp: string | null,
+  resolvedIps: string[],
+  error?: string
+): DynamicDNSStatus {
+  let status: DynamicDNSStatus['status'];
+  if (resolvedIps.length === 0) {
+    status = 'unresolved';
+  } else if (!wanIp) {
+    status = 'unknown_wan_ip';
+  } else {
+    status = resolvedIps.includes(wanIp) ? 'in_sync' : 'stale';
+  }
+
+  return {
+    id: entry.id,
+    service: entry.service,
+    hostname: entry.hostname,
+    wanInterface: entry.wanInterface,
+    wanIp,
+    resolvedIps,
+    status,
+    ...(error && { error })
+  };
+}
+
+/**
+ * Whether an address is private or carrier-grade NAT space
+ */
+export function isNonPublicAddress(ip: string): boolean {
+  return NON_PUBLIC_RANGES.some(range => cidrContainsIP(range, ip));
+}
+
+/**
+ * Current WAN addresses by interface, from stat/health
+ */
+async function fetchWanIps(client: UniFiClient): Promise<Record<string, string | null>> {
+  const response = await client.get(UNIFI_ENDPOINTS.HEALTH_STATS);
+  const subsystems: any[] = Array.isArray(response.data) ? response.data : [];
+
+  const wanIp = (subsystem: string): string | null =>
+    subsystems.find(entry => entry.subsystem === subsystem)?.wan_ip ?? null;
+
+  return {
+    wan: wanIp('wan'),
+    wan2: wanIp('wan2')
+  };
+}
+
+/**
+ * Resolve IPv4 addresses for a hostname, optionally through a specific nameserver
+ */
+async function resolveHostname(hostname: string, nameserver?: string): Promise<string[]> {
+  if (!nameserver) {
+    return dns.resolve4(hostname);
+  }
+
+  const resolver = new dns.Resolver({ timeout: 5000, tries: 2 });
+  resolver.setServers([nameserver]);
+  return resolver.resolve4(hostname);
+}
+
+/**
+ * Fetch every dynamicdns record
+ */
+async function fetchRawDDNSEntries(client: UniFiClient): Promise<any[]> {
+  const response = await client.get(UNIFI_ENDPOINTS.DYNAMIC_DNS);
+
+  if (!response.data || !Array.isArray(response.data)) {
+    throw new UniFiMCPError('Invalid dynamic DNS data received', ErrorCode.INVALID_DATA);
+  }
+
+  return response.data;
+}
+
+/**
+ * Refuse a second entry for the same hostname on the same WAN interface
+ */
+function assertUniqueHostname(rawEntries: any[], hostname: string, wanInterface: string, id?: string): void {
+  const clash = rawEntries
+    .map(mapDDNSEntry)
+    .find(entry => entry.id !== id && entry.wanInterface === wanInterface &&
+      entry.hostname.toLowerCase() === hostname.toLowerCase());
+
+  if (clash) {
+    throw new ResourceConflictError(
+      `${hostname} is already updated by the ${clash.service} entry on ${wanInterface}`,
+      clash.id
+    );
+  }
+}
+
+// ================================
+// Get DDNS Tool
+// ================================
+
+const getDDNSTool: MCPTool = {
+  name: 'unifi_get_ddns',
+  description: 'List dynamic DNS entries',
+  category: ToolCategory.NETWORKS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+
+      logger.info('Retrieving dynamic DNS entries');
+
+      const entries = (await fetchRawDDNSEntries(client)).map(mapDDNSEntry);
+
+      return {
+        success: true,
+        data: {
+          entries,
+          summary: {
+            total: entries.length,
+            byService: entries.reduce((acc, e) => {
+              acc[e.service] = (acc[e.service] || 0) + 1;
+              return acc;
+            }, {} as Record<string, number>)
+          }
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to retrieve dynamic DNS entries', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'DDNS_FETCH_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Create DDNS Tool
+// ================================
+
+const ddnsPropertySchema = {
+  service: {
+    type: 'string',
+    enum: [...DDNS_SERVICES],
+    description: 'DDNS provider'
+  },
+  hostname: {
+    type: 'string',
+    description: 'Hostname to keep updated'
+  },
+  login: {
+    type: 'string',
+    description: 'Provider username'
+  },
+  password: {
+    type: 'string',
+    description: 'Provider password or API token (never returned)'
+  },
+  server: {
+    type: 'string',
+    description: 'Update server (required for the custom service)'
+  },
+  wanInterface: {
+    type: 'string',
+    enum: ['wan', 'wan2'],
+    description: 'WAN interface whose address is published'
+  }
+};
+
+const createDDNSTool: MCPTool = {
+  name: 'unifi_create_ddns',
+  description: 'Create a dynamic DNS entry',
+  category: ToolCategory.NETWORKS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: ddnsPropertySchema,
+    required: ['service', 'hostname'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const validatedParams = await ValidationService.validateCreateDDNSParams(params);
+
+      logger.info('Creating dynamic DNS entry', {
+        service: validatedParams.service,
+        hostname: validatedParams.hostname,
+        wanInterface: validatedParams.wanInterface
+      });
+
+      if (validatedParams.service === 'custom' && !validatedParams.server) {
+        throw new ValidationError('The custom service requires an update server', 'server');
+      }
+
+      assertUniqueHostname(
+        await fetchRawDDNSEntries(client),
+        validatedParams.hostname,
+        validatedParams.wanInterface
+      );
+
+      const response = await client.post(UNIFI_ENDPOINTS.DYNAMIC_DNS, buildDDNSPayload(validatedParams));
+
+      if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+        throw new UniFiMCPError('Failed to create dynamic DNS entry', ErrorCode.DDNS_CREATION_FAILED);
+      }
+
+      const createdEntry = mapDDNSEntry(response.data[0]);
+
+      return {
+        success: true,
+        data: {
+          entry: createdEntry,
+          ddnsId: createdEntry.id,
+          message: `Dynamic DNS entry for ${createdEntry.hostname} created successfully`
+        },
+        ...(!validatedParams.password && {
+          warnings: ['No password was set; most providers reject updates without credentials']
+        }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to create dynamic DNS entry', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'DDNS_CREATE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Update DDNS Tool
+// ================================
+
+const updateDDNSTool: MCPTool = {
+  name: 'unifi_update_ddns',
+  description: 'Update a dynamic DNS entry',
+  category: ToolCategory.NETWORKS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ddnsId: {
+        type: 'string',
+        description: 'Dynamic DNS entry ID to update',
+        minLength: 1
+      },
+      ...ddnsPropertySchema
+    },
+    required: ['ddnsId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const validatedParams = await ValidationService.validateUpdateDDNSParams(params);
+      const { ddnsId, ...updates } = validatedParams;
+
+      logger.info('Updating dynamic DNS entry', { ddnsId, updates: Object.keys(updates) });
+
+      const rawEntries = await fetchRawDDNSEntries(client);
+      const existingRaw = rawEntries.find(raw => raw._id === ddnsId);
+      if (!existingRaw) {
+        throw new ResourceNotFoundError('Dynamic DNS entry', ddnsId);
+      }
+
+      const updatedEntryData = { ...existingRaw, ...buildDDNSPayload(updates) };
+      const candidate = mapDDNSEntry(updatedEntryData);
+
+      if (candidate.service === 'custom' && !candidate.server) {
+        throw new ValidationError('The custom service requires an update server', 'server');
+      }
+      assertUniqueHostname(rawEntries, candidate.hostname, candidate.wanInterface, ddnsId);
+
+      const response = await client.put(
+        UNIFI_ENDPOINTS.DYNAMIC_DNS_DETAILS.replace('{id}', ddnsId),
+        updatedEntryData
+      );
+
+      if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+        throw new UniFiMCPError('Failed to update dynamic DNS entry', ErrorCode.DDNS_UPDATE_FAILED);
+      }
+
+      const updatedEntry = mapDDNSEntry(response.data[0]);
+
+      return {
+        success: true,
+        data: {
+          entry: updatedEntry,
+          ddnsId: updatedEntry.id,
+          updatedFields: Object.keys(updates),
+          message: `Dynamic DNS entry for ${updatedEntry.hostname} updated successfully`
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to update dynamic DNS entry', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'DDNS_UPDATE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Delete DDNS Tool
+// ================================
+
+const deleteDDNSTool: MCPTool = {
+  name: 'unifi_delete_ddns',
+  description: 'Delete a dynamic DNS entry',
+  category: ToolCategory.NETWORKS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ddnsId: {
+        type: 'string',
+        description: 'Dynamic DNS entry ID to delete',
+        minLength: 1
+      }
+    },
+    required: ['ddnsId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const { ddnsId } = params;
+
+      logger.info('Deleting dynamic DNS entry', { ddnsId });
+
+      const existingRaw = (await fetchRawDDNSEntries(client)).find(raw => raw._id === ddnsId);
+      if (!existingRaw) {
+        throw new ResourceNotFoundError('Dynamic DNS entry', ddnsId);
+      }
+
+      const existing = mapDDNSEntry(existingRaw);
+
+      const response = await client.delete(UNIFI_ENDPOINTS.DYNAMIC_DNS_DETAILS.replace('{id}', ddnsId));
+
+      if (response.meta.rc !== 'ok') {
+        throw new UniFiMCPError(
+          `Failed to delete dynamic DNS entry: ${response.meta.msg}`,
+          ErrorCode.DDNS_DELETION_FAILED
+        );
+      }
+
+      return {
+        success: true,
+        data: {
+          deletedEntry: {
+            id: existing.id,
+            service: existing.service,
+            hostname: existing.hostname
+          },
+          message: `Dynamic DNS entry for ${existing.hostname} deleted successfully`
+        },
+        warnings: [
+          `${existing.hostname} will no longer follow WAN address changes`
+        ],
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete dynamic DNS entry', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'DDNS_DELETE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Check DDNS Status Tool
+// ================================
+
+const checkDDNSStatusTool: MCPTool = {
+  name: 'unifi_check_ddns_status',
+  description: 'Resolve each DDNS hostname and compare it with the current WAN address to find stale records',
+  category: ToolCategory.NETWORKS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ddnsId: {
+        type: 'string',
+        description: 'Only check this entry'
+      },
+      nameserver: {
+        type: 'string',
+        description: 'Resolve through this DNS server instead of the system resolver (e.g., "1.1.1.1")'
+      }
+    },
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const { ddnsId } = params;
+      const nameserver = params.nameserver !== undefined
+        ? await ValidationService.validate(IPAddressSchema, params.nameserver, 'nameserver')
+        : undefined;
+
+      logger.info('Checking dynamic DNS status', { ddnsId, nameserver });
+
+      let entries = (await fetchRawDDNSEntries(client)).map(mapDDNSEntry);
+      if (ddnsId) {
+        entries = entries.filter(entry => entry.id === ddnsId);
+        if (entries.length === 0) {
+          throw new ResourceNotFoundError('Dynamic DNS entry', ddnsId);
+        }
+      }
+
+      const wanIps = await fetchWanIps(client);
+
+      const results = await Promise.all(entries.map(async entry => {
+        const wanIp = wanIps[entry.wanInterface] ?? null;
+        try {
+          return compareDDNS(entry, wanIp, await resolveHostname(entry.hostname, nameserver));
+        } catch (error) {
+          return compareDDNS(entry, wanIp, [], (error as Error).message);
+        }
+      }));
+
+      const warnings: string[] = [];
+      for (const result of results) {
+        if (result.status === 'stale') {
+          warnings.push(
+            `${result.hostname} resolves to ${result.resolvedIps.join(', ')} but ${result.wanInterface} is ${result.wanIp}`
+          );
+        } else if (result.status === 'unresolved') {
+          warnings.push(`${result.hostname} did not resolve${result.error ? `: ${result.error}` : ''}`);
+        }
+      }
+      for (const [wanInterface, ip] of Object.entries(wanIps)) {
+        if (ip && isNonPublicAddress(ip) && results.some(r => r.wanInterface === wanInterface)) {
+          warnings.push(
+            `${wanInterface} has the non-public address ${ip}; the gateway is behind another NAT and DDNS will not make it reachable`
+          );
+        }
+      }
+
+      return {
+        success: true,
+        data: {
+          results,
+          wanIps,
+          summary: {
+            total: results.length,
+            inSync: results.filter(r => r.status === 'in_sync').length,
+            stale: results.filter(r => r.status === 'stale').length,
+            unresolved: results.filter(r => r.status === 'unresolved').length,
+            unknownWanIp: results.filter(r => r.status === 'unknown_wan_ip').length
+          }
+        },
+        ...(warnings.length > 0 && { warnings }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to check dynamic DNS status', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'DDNS_STATUS_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+export {
+  getDDNSTool,
+  createDDNSTool,
+  updateDDNSTool,
+  deleteDDNSTool,
+  checkDDNSStatusTool
+};
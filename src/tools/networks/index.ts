@@ -1,42 +1,899 @@
-import { MCPTool, ToolCategory, ToolResult } from '../../server/types.js';
+import { MCPTool, ToolCategory, ToolResult, ErrorCode } from '../../server/types.js';
 import { ToolRegistry } from '../../server/toolRegistry.js';
 import { UniFiClient } from '../../unifi/client.js';
+import { DetailedNetwork } from '../../unifi/types.js';
+import { ValidationService } from '../../utils/validators.js';
 import { createToolLogger } from '../../utils/logger.js';
+import {
+  UniFiMCPError,
+  ResourceNotFoundError,
+  ResourceConflictError,
+  ValidationError
+} from '../../utils/errors.js';
+import {
+  normalizeCIDR,
+  parseCIDR,
+  ipToNumber,
+  numberToIp,
+  cidrContainsIP,
+  cidrsOverlap
+} from '../../utils/cidr.js';
+import { UNIFI_ENDPOINTS } from '../../config/constants.js';
+import { mapNetworkConf, fetchNetworks } from './mapping.js';
+import { analyzeIPPlanTool } from './ipPlan.js';
+import {
+  getWlansTool,
+  createWlanTool,
+  updateWlanTool,
+  toggleWlanTool,
+  deleteWlanTool,
+  rotateWlanPSKTool
+} from './wlans.js';
+import {
+  getPortForwardsTool,
+  createPortForwardTool,
+  updatePortForwardTool,
+  togglePortForwardTool,
+  deletePortForwardTool
+} from './portForwards.js';
+import {
+  getStaticRoutesTool,
+  createStaticRouteTool,
+  updateStaticRouteTool,
+  deleteStaticRouteTool
+} from './routes.js';
+import {
+  getDDNSTool,
+  createDDNSTool,
+  updateDDNSTool,
+  deleteDDNSTool,
+  checkDDNSStatusTool
+} from './ddns.js';
 
 /**
- * Network Management Tools (Stub Implementation)
- * 
- * Tools for managing networks and VLANs
+ * Network Management Tools
+ *
+ * Tools for managing networks and VLANs through the networkconf API.
  */
 
 const logger = createToolLogger('network-tools');
 
-// Placeholder tool
+// ================================
+// Network Helpers
+// ================================
+
+/**
+ * Default DHCP pool for a subnet, mirroring the controller's .6 - .254 layout on a /24
+ */
+function defaultDhcpRange(subnet: string): { start: string; end: string } {
+  const block = parseCIDR(subnet);
+  const offset = block.size >= 16 ? 6 : 2;
+  return {
+    start: numberToIp(block.start + offset),
+    end: numberToIp(block.end - 1)
+  };
+}
+
+/**
+ * Check that gateway and DHCP pool fit inside the subnet
+ */
+function assertNetworkLayout(
+  subnet: string,
+  gateway: string,
+  dhcpRange?: { start: string; end: string }
+): void {
+  const block = parseCIDR(subnet);
+  const gatewayNum = ipToNumber(gateway);
+
+  if (gatewayNum <= block.start || gatewayNum >= block.end) {
+    throw new ValidationError(
+      `Gateway ${gateway} is not a usable host address in ${subnet}`,
+      'gateway',
+      gateway
+    );
+  }
+
+  if (dhcpRange) {
+    if (!cidrContainsIP(subnet, dhcpRange.start) || !cidrContainsIP(subnet, dhcpRange.end)) {
+      throw new ValidationError(
+        `DHCP range ${dhcpRange.start}-${dhcpRange.end} is outside ${subnet}`,
+        'dhcpRange',
+        dhcpRange
+      );
+    }
+    const start = ipToNumber(dhcpRange.start);
+    const end = ipToNumber(dhcpRange.end);
+    if (start > end) {
+      throw new ValidationError('DHCP range start must not be after its end', 'dhcpRange', dhcpRange);
+    }
+    if (gatewayNum >= start && gatewayNum <= end) {
+      throw new ValidationError(
+        `Gateway ${gateway} falls inside the DHCP range`,
+        'dhcpRange',
+        dhcpRange
+      );
+    }
+  }
+}
+
+/**
+ * Map tool parameters onto networkconf fields
+ */
+function buildNetworkPayload(params: Record<string, any>): Record<string, any> {
+  const payload: Record<string, any> = {};
+
+  if (params.name !== undefined) payload.name = params.name;
+  if (params.purpose !== undefined) payload.purpose = params.purpose;
+  if (params.enabled !== undefined) payload.enabled = params.enabled;
+  if (params.vlanId !== undefined) {
+    payload.vlan_enabled = true;
+    payload.vlan = params.vlanId;
+  }
+  if (params.dhcpEnabled !== undefined) payload.dhcpd_enabled = params.dhcpEnabled;
+  if (params.dhcpRange !== undefined) {
+    payload.dhcpd_start = params.dhcpRange.start;
+    payload.dhcpd_stop = params.dhcpRange.end;
+  }
+  if (params.domainName !== undefined) payload.domain_name = params.domainName;
+  if (params.dnsServers !== undefined) {
+    payload.dhcpd_dns_enabled = params.dnsServers.length > 0;
+    for (let i = 0; i < 4; i++) {
+      payload[`dhcpd_dns_${i + 1}`] = params.dnsServers[i] || '';
+    }
+  }
+  if (params.igmpSnooping !== undefined) payload.igmp_snooping = params.igmpSnooping;
+  if (params.guestIsolation !== undefined) payload.network_isolation_enabled = params.guestIsolation;
+
+  return payload;
+}
+
+/**
+ * Reject VLAN IDs or subnets that collide with other networks
+ */
+function assertNoConflicts(
+  networks: DetailedNetwork[],
+  candidate: { id?: string; vlanId?: number; subnet?: string }
+): void {
+  for (const network of networks) {
+    if (network.id === candidate.id) continue;
+
+    if (candidate.vlanId !== undefined && network.vlanId === candidate.vlanId) {
+      throw new ResourceConflictError(
+        `VLAN ${candidate.vlanId} is already used by network '${network.name}'`,
+        network.id,
+        { vlanId: candidate.vlanId }
+      );
+    }
+
+    if (candidate.subnet && network.subnet && cidrsOverlap(candidate.subnet, network.subnet)) {
+      throw new ResourceConflictError(
+        `Subnet ${candidate.subnet} overlaps ${network.subnet} of network '${network.name}'`,
+        network.id,
+        { subnet: candidate.subnet, conflictingSubnet: network.subnet }
+      );
+    }
+  }
+}
+
+export interface NetworkReference {
+  type: 'firewall_rule' | 'wlan' | 'port_profile';
+  id: string;
+  name: string;
+  field: string;
+}
+
+/**
+ * Find firewall rules, WLANs and port profiles that point at a network
+ */
+async function findNetworkReferences(
+  client: UniFiClient,
+  networkId: string
+): Promise<{ references: NetworkReference[]; unchecked: string[] }> {
+  const references: NetworkReference[] = [];
+  const unchecked: string[] = [];
+
+  const sources: Array<{
+    type: NetworkReference['type'];
+    endpoint: string;
+    fields: string[];
+  }> = [
+    {
+      type: 'firewall_rule',
+      endpoint: UNIFI_ENDPOINTS.FIREWALL_RULES,
+      fields: ['src_networkconf_id', 'dst_networkconf_id']
+    },
+    {
+      type: 'wlan',
+      endpoint: UNIFI_ENDPOINTS.WLAN_CONF,
+      fields: ['networkconf_id']
+    },
+    {
+      type: 'port_profile',
+      endpoint: UNIFI_ENDPOINTS.PORT_PROFILES,
+      fields: ['native_networkconf_id', 'voice_networkconf_id', 'tagged_networkconf_ids']
+    }
+  ];
+
+  for (const source of sources) {
+    try {
+      const response = await client.get(source.endpoint);
+      for (const item of response.data || []) {
+        for (const field of source.fields) {
+          const value = item[field];
+          const matches = Array.isArray(value) ? value.includes(networkId) : value === networkId;
+          if (matches) {
+            references.push({
+              type: source.type,
+              id: item._id ?? item.id,
+              name: item.name || 'Unnamed',
+              field
+            });
+          }
+        }
+      }
+    } catch (error) {
+      logger.warn(`Could not check ${source.type} references`, error as any);
+      unchecked.push(source.type);
+    }
+  }
+
+  return { references, unchecked };
+}
+
+// ================================
+// Get Networks Tool
+// ================================
+
 const getNetworksTool: MCPTool = {
   name: 'unifi_get_networks',
-  description: 'Get configured networks',
+  description: 'Get configured networks/VLANs with subnet, DHCP, DNS and isolation details',
   category: ToolCategory.NETWORKS,
   requiresConnection: true,
   inputSchema: {
     type: 'object',
-    properties: {},
+    properties: {
+      enabledOnly: {
+        type: 'boolean',
+        description: 'Show only enabled networks',
+        default: false
+      },
+      networkId: {
+        type: 'string',
+        description: 'Return only the network with this ID'
+      },
+      networkType: {
+        type: 'string',
+        enum: ['corporate', 'guest', 'wan', 'vlan-only', 'vpn'],
+        description: 'Filter by network purpose'
+      },
+      vlanId: {
+        type: 'number',
+        description: 'Filter by VLAN ID',
+        minimum: 1,
+        maximum: 4094
+      },
+      sortBy: {
+        type: 'string',
+        enum: ['name', 'purpose', 'vlanId', 'subnet'],
+        description: 'Sort networks by field'
+      },
+      sortOrder: {
+        type: 'string',
+        enum: ['asc', 'desc'],
+        description: 'Sort order',
+        default: 'asc'
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of networks to return',
+        minimum: 1,
+        maximum: 1000,
+        default: 100
+      }
+    },
     additionalProperties: false
   },
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars, no-unused-vars
-  handler: async (_params: any): Promise<ToolResult> => {
-    return {
-      success: true,
-      data: { message: 'Network tools not yet implemented' },
-      metadata: { executionTime: 0, timestamp: new Date() }
-    };
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const validatedParams = await ValidationService.validateNetworkParams(params);
+
+      logger.info('Retrieving UniFi networks', {
+        enabledOnly: validatedParams.enabledOnly,
+        networkId: validatedParams.networkId,
+        networkType: validatedParams.networkType,
+        vlanId: validatedParams.vlanId
+      });
+
+      const warnings: string[] = [];
+      let networks = await fetchNetworks(client, warnings);
+
+      // Apply filters
+      if (validatedParams.enabledOnly) {
+        networks = networks.filter(n => n.enabled);
+      }
+
+      if (validatedParams.networkId) {
+        networks = networks.filter(n => n.id === validatedParams.networkId);
+      }
+
+      if (validatedParams.networkType) {
+        networks = networks.filter(n => n.purpose === validatedParams.networkType);
+      }
+
+      if (validatedParams.vlanId !== undefined) {
+        networks = networks.filter(n => n.vlanId === validatedParams.vlanId);
+      }
+
+      // Sort networks
+      if (validatedParams.sortBy) {
+        networks.sort((a, b) => {
+          const field = validatedParams.sortBy!;
+          const aVal = (a as any)[field] ?? '';
+          const bVal = (b as any)[field] ?? '';
+
+          if (aVal < bVal) return validatedParams.sortOrder === 'desc' ? 1 : -1;
+          if (aVal > bVal) return validatedParams.sortOrder === 'desc' ? -1 : 1;
+          return 0;
+        });
+      }
+
+      // Limit results
+      if (validatedParams.limit) {
+        networks = networks.slice(0, validatedParams.limit);
+      }
+
+      const summary = {
+        total: networks.length,
+        enabled: networks.filter(n => n.enabled).length,
+        vlans: networks.filter(n => n.vlanId !== undefined).map(n => n.vlanId),
+        dhcpEnabled: networks.filter(n => n.dhcpEnabled).length,
+        byPurpose: networks.reduce((acc, n) => {
+          acc[n.purpose] = (acc[n.purpose] || 0) + 1;
+          return acc;
+        }, {} as Record<string, number>)
+      };
+
+      return {
+        success: true,
+        data: {
+          networks,
+          summary,
+          filters: {
+            enabledOnly: validatedParams.enabledOnly,
+            networkId: validatedParams.networkId,
+            networkType: validatedParams.networkType,
+            vlanId: validatedParams.vlanId
+          }
+        },
+        ...(warnings.length > 0 && { warnings }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to retrieve networks', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'NETWORK_FETCH_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
   }
 };
 
+// ================================
+// Create Network Tool
+// ================================
+
+const createNetworkTool: MCPTool = {
+  name: 'unifi_create_network',
+  description: 'Create a new network/VLAN',
+  category: ToolCategory.NETWORKS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Network name',
+        minLength: 1,
+        maxLength: 50
+      },
+      purpose: {
+        type: 'string',
+        enum: ['corporate', 'guest', 'wan', 'vlan-only', 'vpn'],
+        description: 'Network purpose'
+      },
+      vlanId: {
+        type: 'number',
+        description: 'VLAN ID',
+        minimum: 1,
+        maximum: 4094
+      },
+      subnet: {
+        type: 'string',
+        description: 'Subnet in CIDR notation (e.g., "192.168.30.0/24")'
+      },
+      gateway: {
+        type: 'string',
+        description: 'Gateway IP address inside the subnet'
+      },
+      dhcpEnabled: {
+        type: 'boolean',
+        description: 'Enable the DHCP server',
+        default: true
+      },
+      dhcpRange: {
+        type: 'object',
+        description: 'DHCP pool (defaults to .6 - .254 on a /24)',
+        properties: {
+          start: { type: 'string' },
+          end: { type: 'string' }
+        },
+        required: ['start', 'end']
+      },
+      dnsServers: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'DNS servers handed out by DHCP (up to 4)',
+        maxItems: 4
+      },
+      domainName: {
+        type: 'string',
+        description: 'DHCP domain name',
+        maxLength: 100
+      },
+      igmpSnooping: {
+        type: 'boolean',
+        description: 'Enable IGMP snooping'
+      },
+      guestIsolation: {
+        type: 'boolean',
+        description: 'Isolate the network from other networks'
+      },
+      enabled: {
+        type: 'boolean',
+        description: 'Enable the network',
+        default: true
+      }
+    },
+    required: ['name', 'purpose', 'subnet', 'gateway'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const validatedParams = await ValidationService.validateCreateNetworkParams(params);
+
+      logger.info('Creating network', {
+        name: validatedParams.name,
+        purpose: validatedParams.purpose,
+        vlanId: validatedParams.vlanId,
+        subnet: validatedParams.subnet
+      });
+
+      const subnet = normalizeCIDR(validatedParams.subnet);
+      const dhcpRange = validatedParams.dhcpRange ??
+        (validatedParams.dhcpEnabled ? defaultDhcpRange(subnet) : undefined);
+
+      assertNetworkLayout(subnet, validatedParams.gateway, dhcpRange);
+
+      const existingNetworks = await fetchNetworks(client);
+      assertNoConflicts(existingNetworks, {
+        ...(validatedParams.vlanId !== undefined && { vlanId: validatedParams.vlanId }),
+        subnet
+      });
+
+      const networkData = {
+        ...buildNetworkPayload({ ...validatedParams, dhcpRange }),
+        ip_subnet: `${validatedParams.gateway}/${parseCIDR(subnet).prefix}`,
+        networkgroup: 'LAN',
+        is_nat: true,
+        vlan_enabled: validatedParams.vlanId !== undefined
+      };
+
+      const response = await client.post(UNIFI_ENDPOINTS.NETWORKS, networkData);
+
+      if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+        throw new UniFiMCPError('Failed to create network', ErrorCode.NETWORK_CREATION_FAILED);
+      }
+
+      const createdNetwork = mapNetworkConf(response.data[0]);
+
+      return {
+        success: true,
+        data: {
+          network: createdNetwork,
+          networkId: createdNetwork.id,
+          message: `Network '${validatedParams.name}' created successfully`
+        },
+        warnings: [
+          'Assign the new VLAN to switch port profiles and WLANs before clients can use it'
+        ],
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to create network', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'NETWORK_CREATE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Update Network Tool
+// ================================
+
+const updateNetworkTool: MCPTool = {
+  name: 'unifi_update_network',
+  description: 'Update an existing network/VLAN',
+  category: ToolCategory.NETWORKS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      networkId: {
+        type: 'string',
+        description: 'Network ID to update',
+        minLength: 1
+      },
+      name: {
+        type: 'string',
+        description: 'New network name',
+        minLength: 1,
+        maxLength: 50
+      },
+      purpose: {
+        type: 'string',
+        enum: ['corporate', 'guest', 'wan', 'vlan-only', 'vpn'],
+        description: 'Network purpose'
+      },
+      vlanId: {
+        type: 'number',
+        description: 'VLAN ID',
+        minimum: 1,
+        maximum: 4094
+      },
+      subnet: {
+        type: 'string',
+        description: 'Subnet in CIDR notation'
+      },
+      gateway: {
+        type: 'string',
+        description: 'Gateway IP address inside the subnet'
+      },
+      dhcpEnabled: {
+        type: 'boolean',
+        description: 'Enable/disable the DHCP server'
+      },
+      dhcpRange: {
+        type: 'object',
+        description: 'DHCP pool',
+        properties: {
+          start: { type: 'string' },
+          end: { type: 'string' }
+        },
+        required: ['start', 'end']
+      },
+      dnsServers: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'DNS servers handed out by DHCP (empty list reverts to automatic)',
+        maxItems: 4
+      },
+      domainName: {
+        type: 'string',
+        description: 'DHCP domain name',
+        maxLength: 100
+      },
+      igmpSnooping: {
+        type: 'boolean',
+        description: 'Enable/disable IGMP snooping'
+      },
+      guestIsolation: {
+        type: 'boolean',
+        description: 'Isolate the network from other networks'
+      },
+      enabled: {
+        type: 'boolean',
+        description: 'Enable/disable the network'
+      }
+    },
+    required: ['networkId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const validatedParams = await ValidationService.validateUpdateNetworkParams(params);
+      const { networkId, ...updates } = validatedParams;
+
+      logger.info('Updating network', { networkId, updates: Object.keys(updates) });
+
+      // Get existing network first
+      const existingResponse = await client.get(UNIFI_ENDPOINTS.NETWORK_DETAILS.replace('{id}', networkId));
+
+      if (!existingResponse.data || !Array.isArray(existingResponse.data) || existingResponse.data.length === 0) {
+        throw new ResourceNotFoundError('Network', networkId);
+      }
+
+      const existingRaw = existingResponse.data[0] as any;
+      const existing = mapNetworkConf(existingRaw);
+      const updatedNetworkData = { ...existingRaw, ...buildNetworkPayload(updates) };
+
+      // Re-check the address layout when anything affecting it changes
+      if (updates.subnet !== undefined || updates.gateway !== undefined || updates.dhcpRange !== undefined) {
+        const subnet = normalizeCIDR(updates.subnet ?? existing.subnet);
+        let gateway = updates.gateway ?? existing.gateway;
+        if (updates.gateway === undefined && !cidrContainsIP(subnet, gateway)) {
+          gateway = numberToIp(parseCIDR(subnet).start + 1);
+        }
+        const dhcpRange = updates.dhcpRange ??
+          (existing.dhcpRange && cidrContainsIP(subnet, existing.dhcpRange.start)
+            ? existing.dhcpRange
+            : defaultDhcpRange(subnet));
+
+        assertNetworkLayout(subnet, gateway, dhcpRange);
+
+        updatedNetworkData.ip_subnet = `${gateway}/${parseCIDR(subnet).prefix}`;
+        updatedNetworkData.dhcpd_start = dhcpRange.start;
+        updatedNetworkData.dhcpd_stop = dhcpRange.end;
+      }
+
+      if (updates.vlanId !== undefined || updates.subnet !== undefined) {
+        const networks = await fetchNetworks(client);
+        assertNoConflicts(networks, {
+          id: networkId,
+          ...(updates.vlanId !== undefined && { vlanId: updates.vlanId }),
+          ...(updates.subnet !== undefined && { subnet: normalizeCIDR(updates.subnet) })
+        });
+      }
+
+      const response = await client.put(
+        UNIFI_ENDPOINTS.NETWORK_DETAILS.replace('{id}', networkId),
+        updatedNetworkData
+      );
+
+      if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+        throw new UniFiMCPError('Failed to update network', ErrorCode.NETWORK_UPDATE_FAILED);
+      }
+
+      const updatedNetwork = mapNetworkConf(response.data[0]);
+      const warnings: string[] = [];
+      if (updates.subnet !== undefined || updates.vlanId !== undefined) {
+        warnings.push('Clients on this network may need to renew their DHCP lease');
+      }
+
+      return {
+        success: true,
+        data: {
+          network: updatedNetwork,
+          networkId: updatedNetwork.id,
+          updatedFields: Object.keys(updates),
+          message: `Network '${updatedNetwork.name}' updated successfully`
+        },
+        ...(warnings.length > 0 && { warnings }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to update network', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'NETWORK_UPDATE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Delete Network Tool
+// ================================
+
+const deleteNetworkTool: MCPTool = {
+  name: 'unifi_delete_network',
+  description: 'Delete a network/VLAN that is no longer referenced by firewall rules, WLANs or port profiles',
+  category: ToolCategory.NETWORKS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      networkId: {
+        type: 'string',
+        description: 'Network ID to delete',
+        minLength: 1
+      },
+      force: {
+        type: 'boolean',
+        description: 'Delete even if some reference sources could not be checked',
+        default: false
+      }
+    },
+    required: ['networkId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const { networkId, force } = await ValidationService.validateDeleteNetworkParams(params);
+
+      logger.info('Deleting network', { networkId, force });
+
+      // Get existing network first
+      const existingResponse = await client.get(UNIFI_ENDPOINTS.NETWORK_DETAILS.replace('{id}', networkId));
+
+      if (!existingResponse.data || !Array.isArray(existingResponse.data) || existingResponse.data.length === 0) {
+        throw new ResourceNotFoundError('Network', networkId);
+      }
+
+      const existingNetwork = mapNetworkConf(existingResponse.data[0]);
+
+      // Refuse while anything still points at the network
+      const { references, unchecked } = await findNetworkReferences(client, networkId);
+
+      if (references.length > 0) {
+        throw new ResourceConflictError(
+          `Network '${existingNetwork.name}' is still referenced by ${references.length} object(s)`,
+          networkId,
+          { references }
+        );
+      }
+
+      if (unchecked.length > 0 && !force) {
+        throw new ResourceConflictError(
+          `Could not verify references from: ${unchecked.join(', ')}. Use force to delete anyway`,
+          networkId,
+          { unchecked }
+        );
+      }
+
+      const response = await client.delete(UNIFI_ENDPOINTS.NETWORK_DETAILS.replace('{id}', networkId));
+
+      if (response.meta.rc !== 'ok') {
+        throw new UniFiMCPError(
+          `Failed to delete network: ${response.meta.msg}`,
+          ErrorCode.NETWORK_DELETION_FAILED
+        );
+      }
+
+      return {
+        success: true,
+        data: {
+          deletedNetwork: {
+            id: existingNetwork.id,
+            name: existingNetwork.name,
+            vlanId: existingNetwork.vlanId,
+            subnet: existingNetwork.subnet
+          },
+          message: `Network '${existingNetwork.name}' deleted successfully`
+        },
+        warnings: [
+          'Network deletion is permanent and cannot be undone',
+          ...(unchecked.length > 0 ? [`References from ${unchecked.join(', ')} were not verified`] : [])
+        ],
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete network', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'NETWORK_DELETE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Tool Registration Function
+// ================================
+
 export async function registerNetworkTools(
   registry: ToolRegistry,
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars, no-unused-vars
-  _client: UniFiClient
+  client: UniFiClient
 ): Promise<void> {
-  registry.register(getNetworksTool);
-  logger.info('Network tools registered (stub implementation)');
-}
\ No newline at end of file
+  // Add client to tools for access
+  const enhancedTools = [
+    getNetworksTool,
+    createNetworkTool,
+    updateNetworkTool,
+    deleteNetworkTool,
+    analyzeIPPlanTool,
+    getWlansTool,
+    createWlanTool,
+    updateWlanTool,
+    toggleWlanTool,
+    deleteWlanTool,
+    rotateWlanPSKTool,
+    getPortForwardsTool,
+    createPortForwardTool,
+    updatePortForwardTool,
+    togglePortForwardTool,
+    deletePortForwardTool,
+    getStaticRoutesTool,
+    createStaticRouteTool,
+    updateStaticRouteTool,
+    deleteStaticRouteTool,
+    getDDNSTool,
+    createDDNSTool,
+    updateDDNSTool,
+    deleteDDNSTool,
+    checkDDNSStatusTool
+  ].map(tool => ({
+    ...tool,
+    handler: async (params: any) => {
+      // Inject dependencies
+      const enhancedParams = {
+        ...params,
+        _client: client
+      };
+      return tool.handler(enhancedParams);
+    }
+  }));
+
+  // Register all tools
+  registry.registerBatch(enhancedTools);
+
+  logger.info('Network management tools registered successfully', {
+    count: enhancedTools.length,
+    tools: enhancedTools.map(t => t.name)
+  });
+}
+
+// Export individual tools for testing
+export {
+  getNetworksTool,
+  createNetworkTool,
+  updateNetworkTool,
+  deleteNetworkTool
+};
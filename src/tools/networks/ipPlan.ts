@@ -0,0 +1,413 @@
+import { MCPTool, ToolCategory, ToolResult } from '../../server/types.js';
+import { UniFiClient } from '../../unifi/client.js';
+import { DetailedNetwork } from '../../unifi/types.js';
+import { ValidationService } from '../../utils/validators.js';
+import { createToolLogger } from '../../utils/logger.js';
+import { UniFiMCPError, ValidationError } from '../../utils/errors.js';
+import {
+  parseCIDR,
+  numberToIp,
+  cidrsOverlap,
+  cidrContainsIP,
+  ipInRange,
+  rangeSize,
+  isIPv4
+} from '../../utils/cidr.js';
+import { UNIFI_ENDPOINTS } from '../../config/constants.js';
+import { fetchNetworks } from './mapping.js';
+
+/**
+ * IP Address Plan Analysis
+ *
+ * Checks the site's addressing plan for overlapping subnets, DHCP pool
+ * collisions, reused VLAN IDs and pool exhaustion, and suggests free
+ * subnets inside a supernet.
+ */
+
+const logger = createToolLogger('ip-plan-tools');
+
+// ================================
+// Types
+// ================================
+
+export type IPPlanFindingType =
+  | 'subnet_overlap'
+  | 'vlan_reuse'
+  | 'dhcp_gateway_collision'
+  | 'dhcp_pool_outside_subnet'
+  | 'dhcp_reservation_collision'
+  | 'duplicate_reservation'
+  | 'dhcp_pool_exhaustion';
+
+export interface IPPlanFinding {
+  type: IPPlanFindingType;
+  severity: 'warning' | 'critical';
+  networks: string[];
+  message: string;
+  details?: Record<string, any>;
+}
+
+export interface IPReservation {
+  mac: string;
+  name?: string;
+  ip: string;
+  networkId?: string;
+}
+
+export interface ActiveLease {
+  mac: string;
+  ip: string;
+  networkId?: string;
+}
+
+export interface PoolUtilization {
+  networkId: string;
+  networkName: string;
+  poolStart: string;
+  poolEnd: string;
+  poolSize: number;
+  activeClients: number;
+  utilizationPercent: number;
+}
+
+export interface IPPlanAnalysis {
+  findings: IPPlanFinding[];
+  utilization: PoolUtilization[];
+  suggestions: string[];
+}
+
+// ================================
+// Analysis
+// ================================
+
+/**
+ * Find the network a given address belongs to
+ */
+function networkForIP(networks: DetailedNetwork[], ip: string, networkId?: string): DetailedNetwork | undefined {
+  const byId = networkId ? networks.find(n => n.id === networkId) : undefined;
+  if (byId) return byId;
+  return networks.find(n => n.subnet && cidrContainsIP(n.subnet, ip));
+}
+
+/**
+ * Suggest free, aligned subnets of the requested prefix inside a supernet
+ */
+export function suggestFreeSubnets(
+  supernet: string,
+  prefixLength: number,
+  usedSubnets: string[],
+  count: number = 1
+): string[] {
+  const block = parseCIDR(supernet);
+  if (prefixLength < block.prefix) {
+    throw new ValidationError(
+      `Prefix length /${prefixLength} is larger than supernet ${supernet}`,
+      'prefixLength',
+      prefixLength
+    );
+  }
+
+  const step = 2 ** (32 - prefixLength);
+  const used = usedSubnets.map(subnet => parseCIDR(subnet));
+  const suggestions: string[] = [];
+  let cursor = block.start;
+
+  while (cursor + step - 1 <= block.end && suggestions.length < count) {
+    const candidateEnd = cursor + step - 1;
+    const conflict = used.find(u => u.start <= candidateEnd && cursor <= u.end);
+
+    if (conflict) {
+      // Skip straight past the conflicting block, keeping alignment
+      cursor = Math.ceil((conflict.end + 1) / step) * step;
+      continue;
+    }
+
+    suggestions.push(`${numberToIp(cursor)}/${prefixLength}`);
+    cursor += step;
+  }
+
+  return suggestions;
+}
+
+/**
+ * Analyze networks, reservations and active leases for addressing problems
+ */
+export function analyzeIPPlan(
+  networks: DetailedNetwork[],
+  reservations: IPReservation[],
+  leases: ActiveLease[],
+  options: { utilizationThreshold: number }
+): Omit<IPPlanAnalysis, 'suggestions'> {
+  const findings: IPPlanFinding[] = [];
+  const utilization: PoolUtilization[] = [];
+  const addressed = networks.filter(n => n.subnet);
+
+  // Overlapping subnets
+  for (let i = 0; i < addressed.length; i++) {
+    for (let j = i + 1; j < addressed.length; j++) {
+      const a = addressed[i];
+      const b = addressed[j];
+      if (cidrsOverlap(a.subnet, b.subnet)) {
+        findings.push({
+          type: 'subnet_overlap',
+          severity: 'critical',
+          networks: [a.name, b.name],
+          message: `Subnet ${a.subnet} (${a.name}) overlaps ${b.subnet} (${b.name})`,
+          details: { subnets: [a.subnet, b.subnet] }
+        });
+      }
+    }
+  }
+
+  // VLAN IDs used by more than one network
+  const byVlan = new Map<number, DetailedNetwork[]>();
+  for (const network of networks) {
+    if (network.vlanId === undefined) continue;
+    byVlan.set(network.vlanId, [...(byVlan.get(network.vlanId) || []), network]);
+  }
+  for (const [vlanId, members] of byVlan) {
+    if (members.length > 1) {
+      findings.push({
+        type: 'vlan_reuse',
+        severity: 'critical',
+        networks: members.map(n => n.name),
+        message: `VLAN ${vlanId} is used by ${members.length} networks: ${members.map(n => n.name).join(', ')}`,
+        details: { vlanId }
+      });
+    }
+  }
+
+  // Duplicate fixed-IP reservations
+  const byReservedIP = new Map<string, IPReservation[]>();
+  for (const reservation of reservations) {
+    byReservedIP.set(reservation.ip, [...(byReservedIP.get(reservation.ip) || []), reservation]);
+  }
+  for (const [ip, holders] of byReservedIP) {
+    if (holders.length > 1) {
+      const network = networkForIP(networks, ip, holders[0].networkId);
+      findings.push({
+        type: 'duplicate_reservation',
+        severity: 'critical',
+        networks: network ? [network.name] : [],
+        message: `${ip} is reserved for ${holders.length} clients: ${holders.map(h => h.name || h.mac).join(', ')}`,
+        details: { ip, clients: holders.map(h => h.mac) }
+      });
+    }
+  }
+
+  // DHCP pool checks
+  for (const network of addressed) {
+    if (!network.dhcpEnabled || !network.dhcpRange) continue;
+    const { start, end } = network.dhcpRange;
+
+    if (!cidrContainsIP(network.subnet, start) || !cidrContainsIP(network.subnet, end)) {
+      findings.push({
+        type: 'dhcp_pool_outside_subnet',
+        severity: 'critical',
+        networks: [network.name],
+        message: `DHCP pool ${start}-${end} of ${network.name} is not inside ${network.subnet}`,
+        details: { poolStart: start, poolEnd: end, subnet: network.subnet }
+      });
+      continue;
+    }
+
+    if (network.gateway && ipInRange(network.gateway, start, end)) {
+      findings.push({
+        type: 'dhcp_gateway_collision',
+        severity: 'critical',
+        networks: [network.name],
+        message: `Gateway ${network.gateway} of ${network.name} lies inside its DHCP pool ${start}-${end}`,
+        details: { gateway: network.gateway, poolStart: start, poolEnd: end }
+      });
+    }
+
+    const colliding = reservations.filter(r =>
+      ipInRange(r.ip, start, end) && networkForIP(networks, r.ip, r.networkId)?.id === network.id
+    );
+    if (colliding.length > 0) {
+      findings.push({
+        type: 'dhcp_reservation_collision',
+        severity: 'warning',
+        networks: [network.name],
+        message: `${colliding.length} fixed-IP reservation(s) in ${network.name} fall inside the DHCP pool ${start}-${end}`,
+        details: { reservations: colliding.map(r => ({ mac: r.mac, name: r.name, ip: r.ip })) }
+      });
+    }
+
+    const poolSize = rangeSize(start, end);
+    const activeClients = leases.filter(l =>
+      ipInRange(l.ip, start, end) && networkForIP(networks, l.ip, l.networkId)?.id === network.id
+    ).length;
+    const utilizationPercent = poolSize > 0 ? Math.round((activeClients / poolSize) * 1000) / 10 : 0;
+
+    utilization.push({
+      networkId: network.id,
+      networkName: network.name,
+      poolStart: start,
+      poolEnd: end,
+      poolSize,
+      activeClients,
+      utilizationPercent
+    });
+
+    if (utilizationPercent >= options.utilizationThreshold) {
+      findings.push({
+        type: 'dhcp_pool_exhaustion',
+        severity: utilizationPercent >= 100 ? 'critical' : 'warning',
+        networks: [network.name],
+        message: `DHCP pool of ${network.name} is ${utilizationPercent}% used (${activeClients}/${poolSize})`,
+        details: { threshold: options.utilizationThreshold, activeClients, poolSize }
+      });
+    }
+  }
+
+  return { findings, utilization };
+}
+
+// ================================
+// Analyze IP Plan Tool
+// ================================
+
+const analyzeIPPlanTool: MCPTool = {
+  name: 'unifi_analyze_ip_plan',
+  description: 'Analyze the IP address plan for overlapping subnets, DHCP collisions, VLAN reuse and pool exhaustion, and suggest free subnets',
+  category: ToolCategory.NETWORKS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      supernet: {
+        type: 'string',
+        description: 'Supernet in CIDR notation to search for free subnets (e.g., "10.20.0.0/16")'
+      },
+      prefixLength: {
+        type: 'number',
+        description: 'Prefix length of suggested subnets',
+        minimum: 8,
+        maximum: 30,
+        default: 24
+      },
+      suggestionCount: {
+        type: 'number',
+        description: 'Number of free subnets to suggest',
+        minimum: 1,
+        maximum: 16,
+        default: 1
+      },
+      utilizationThreshold: {
+        type: 'number',
+        description: 'Flag DHCP pools at or above this utilization percentage',
+        minimum: 1,
+        maximum: 100,
+        default: 80
+      }
+    },
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const validatedParams = await ValidationService.validateAnalyzeIPPlanParams(params);
+
+      logger.info('Analyzing IP address plan', {
+        supernet: validatedParams.supernet,
+        prefixLength: validatedParams.prefixLength,
+        utilizationThreshold: validatedParams.utilizationThreshold
+      });
+
+      const networks = await fetchNetworks(client);
+      const warnings: string[] = [];
+
+      // Fixed-IP reservations from the client user objects
+      let reservations: IPReservation[] = [];
+      try {
+        const usersResponse = await client.get(UNIFI_ENDPOINTS.USERS);
+        reservations = (usersResponse.data || [])
+          .filter((u: any) => u.use_fixedip && isIPv4(u.fixed_ip || ''))
+          .map((u: any) => ({
+            mac: u.mac,
+            name: u.name || u.hostname,
+            ip: u.fixed_ip,
+            networkId: u.network_id
+          }));
+      } catch (error) {
+        logger.warn('Could not fetch fixed-IP reservations', error as any);
+        warnings.push('Fixed-IP reservations could not be loaded; reservation checks were skipped');
+      }
+
+      // Active clients for pool utilization
+      let leases: ActiveLease[] = [];
+      try {
+        const clientsResponse = await client.get(UNIFI_ENDPOINTS.CLIENTS);
+        leases = (clientsResponse.data || [])
+          .filter((c: any) => isIPv4(c.ip || ''))
+          .map((c: any) => ({ mac: c.mac, ip: c.ip, networkId: c.network_id }));
+      } catch (error) {
+        logger.warn('Could not fetch active clients', error as any);
+        warnings.push('Active clients could not be loaded; pool utilization was not measured');
+      }
+
+      const analysis = analyzeIPPlan(networks, reservations, leases, {
+        utilizationThreshold: validatedParams.utilizationThreshold
+      });
+
+      const suggestions = validatedParams.supernet
+        ? suggestFreeSubnets(
+          validatedParams.supernet,
+          validatedParams.prefixLength,
+          networks.filter(n => n.subnet).map(n => n.subnet),
+          validatedParams.suggestionCount
+        )
+        : [];
+
+      if (validatedParams.supernet && suggestions.length === 0) {
+        warnings.push(`No free /${validatedParams.prefixLength} left inside ${validatedParams.supernet}`);
+      }
+
+      const summary = {
+        networksAnalyzed: networks.length,
+        reservations: reservations.length,
+        activeClients: leases.length,
+        totalFindings: analysis.findings.length,
+        critical: analysis.findings.filter(f => f.severity === 'critical').length,
+        byType: analysis.findings.reduce((acc, f) => {
+          acc[f.type] = (acc[f.type] || 0) + 1;
+          return acc;
+        }, {} as Record<string, number>)
+      };
+
+      return {
+        success: true,
+        data: {
+          findings: analysis.findings,
+          utilization: analysis.utilization,
+          suggestions,
+          summary
+        },
+        ...(warnings.length > 0 && { warnings }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to analyze IP plan', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'IP_PLAN_ANALYSIS_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+export { analyzeIPPlanTool };
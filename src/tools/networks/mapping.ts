@@ -0,0 +1,85 @@
+import { ErrorCode } from '../../server/types.js';
+import { UniFiClient } from '../../unifi/client.js';
+import { DetailedNetwork, NetworkPurpose } from '../../unifi/types.js';
+import { UniFiMCPError } from '../../utils/errors.js';
+import { normalizeCIDR } from '../../utils/cidr.js';
+import { UNIFI_ENDPOINTS } from '../../config/constants.js';
+
+/**
+ * Network Data Mapping
+ *
+ * Shared helpers for converting raw networkconf records, used by the
+ * network tools and by other tool groups that need subnet information.
+ */
+
+/**
+ * Convert a raw networkconf record into a DetailedNetwork. A malformed
+ * ip_subnet leaves subnet empty and is reported through warnings.
+ */
+export function mapNetworkConf(raw: any, warnings?: string[]): DetailedNetwork {
+  const [gateway = '', prefix] = String(raw.ip_subnet || '').split('/');
+  const dnsServers = [raw.dhcpd_dns_1, raw.dhcpd_dns_2, raw.dhcpd_dns_3, raw.dhcpd_dns_4]
+    .filter((server: unknown): server is string => typeof server === 'string' && server.length > 0);
+
+  let subnet = '';
+  if (gateway && prefix) {
+    try {
+      subnet = normalizeCIDR(`${gateway}/${prefix}`);
+    } catch (error) {
+      warnings?.push(`Network '${raw.name}' has an invalid subnet '${raw.ip_subnet}': ${(error as Error).message}`);
+    }
+  }
+
+  const network: DetailedNetwork = {
+    id: raw._id ?? raw.id,
+    name: raw.name,
+    purpose: raw.purpose as NetworkPurpose,
+    subnet,
+    gateway,
+    dhcpEnabled: raw.dhcpd_enabled === true,
+    enabled: raw.enabled !== false,
+    isNat: raw.is_nat !== false,
+    dnsServers,
+    igmpSnooping: raw.igmp_snooping === true,
+    guestIsolation: raw.purpose === NetworkPurpose.GUEST ||
+      raw.network_isolation_enabled === true ||
+      raw.intra_network_access_enabled === false
+  };
+
+  if (raw.vlan_enabled !== false && raw.vlan !== undefined && raw.vlan !== '') {
+    network.vlanId = Number(raw.vlan);
+  }
+  if (raw.dhcpd_start && raw.dhcpd_stop) {
+    network.dhcpRange = { start: raw.dhcpd_start, end: raw.dhcpd_stop };
+  }
+  if (raw.domain_name) network.domainName = raw.domain_name;
+  if (raw.networkgroup) network.networkGroup = raw.networkgroup;
+  if (raw.dhcpd_leasetime !== undefined) network.dhcpLeaseTime = Number(raw.dhcpd_leasetime);
+  if (raw.dhcpd_dns_1) network.dhcpDns1 = raw.dhcpd_dns_1;
+  if (raw.dhcpd_dns_2) network.dhcpDns2 = raw.dhcpd_dns_2;
+  if (raw.dhcpd_ntp_1) network.dhcpNtp = raw.dhcpd_ntp_1;
+  if (raw.internet_access_enabled !== undefined) network.internetAccessEnabled = raw.internet_access_enabled;
+  if (raw.intra_network_access_enabled !== undefined) {
+    network.intraNetworkAccessEnabled = raw.intra_network_access_enabled;
+  }
+  if (raw.wan_type) network.wanType = raw.wan_type;
+  if (raw.wan_networkgroup) network.wanNetworkgroup = raw.wan_networkgroup;
+  if (raw.vpn_type) network.vpnType = raw.vpn_type;
+  if (raw.ipv6_interface_type) network.ipv6InterfaceType = raw.ipv6_interface_type;
+
+  return network;
+}
+
+/**
+ * Fetch every networkconf entry as DetailedNetwork records, collecting
+ * mapping problems into warnings when given
+ */
+export async function fetchNetworks(client: UniFiClient, warnings?: string[]): Promise<DetailedNetwork[]> {
+  const response = await client.get(UNIFI_ENDPOINTS.NETWORKS);
+
+  if (!response.data || !Array.isArray(response.data)) {
+    throw new UniFiMCPError('Invalid network data received', ErrorCode.INVALID_DATA);
+  }
+
+  return response.data.map(raw => mapNetworkConf(raw, warnings));
+}
@@ -0,0 +1,761 @@
+import { MCPTool, ToolCategory, ToolResult, ErrorCode } from '../../server/types.js';
+import { UniFiClient } from '../../unifi/client.js';
+import { PortForward, PortForwardTarget } from '../../unifi/types.js';
+import { ValidationService } from '../../utils/validators.js';
+import { createToolLogger } from '../../utils/logger.js';
+import {
+  UniFiMCPError,
+  ResourceNotFoundError,
+  ResourceConflictError,
+  ValidationError
+} from '../../utils/errors.js';
+import { cidrContainsIP } from '../../utils/cidr.js';
+import { UNIFI_ENDPOINTS, COMMON_PORTS, SENSITIVE_PORTS } from '../../config/constants.js';
+import { fetchNetworks } from './mapping.js';
+import { fetchUsers } from '../clients/users.js';
+
+/**
+ * Port Forwarding Tools
+ *
+ * Tools for managing WAN port forwards through the portforward API.
+ * Forwards of sensitive services are flagged with warnings.
+ */
+
+const logger = createToolLogger('port-forward-tools');
+
+// ================================
+// Port Forward Helpers
+// ================================
+
+/**
+ * Parse "80" or "8000-8010" into an inclusive range
+ */
+export function parsePortRange(value: string | number): { start: number; end: number } {
+  const [start, end = start] = String(value).split('-').map(part => parseInt(part, 10));
+  return { start, end };
+}
+
+/**
+ * Sensitive services (from COMMON_PORTS) reachable through any of the given port ranges
+ */
+export function findSensitiveServices(ranges: Array<string | number>): Array<{ service: string; port: number }> {
+  const found = new Map<string, { service: string; port: number }>();
+
+  for (const value of ranges) {
+    const { start, end } = parsePortRange(value);
+    for (const service of SENSITIVE_PORTS) {
+      const port = Number(COMMON_PORTS[service]);
+      if (port >= start && port <= end) {
+        found.set(service, { service, port });
+      }
+    }
+  }
+
+  return [...found.values()];
+}
+
+/**
+ * Exposure warnings for an enabled forward
+ */
+export function exposureWarnings(forward: Pick<PortForward, 'externalPort' | 'internalPort' | 'sourceRestriction'>): string[] {
+  const services = findSensitiveServices([forward.externalPort, forward.internalPort]);
+  const openToAll = forward.sourceRestriction === 'any';
+
+  return services.map(({ service, port }) =>
+    `Forwarding ${service} (port ${port}) exposes it to ${openToAll ? 'the entire Internet' : forward.sourceRestriction}; ` +
+    'prefer a VPN for remote access'
+  );
+}
+
+/**
+ * Convert a raw portforward record into a PortForward
+ */
+export function mapPortForward(raw: any, targets?: Map<string, PortForwardTarget>): PortForward {
+  const forward: PortForward = {
+    id: raw._id,
+    name: raw.name,
+    enabled: raw.enabled !== false,
+    protocol: raw.proto ?? 'tcp_udp',
+    externalPort: String(raw.dst_port ?? ''),
+    internalIp: raw.fwd,
+    internalPort: String(raw.fwd_port || raw.dst_port || ''),
+    sourceRestriction: raw.src && raw.src !== 'any' ? raw.src : 'any',
+    wanInterface: raw.pfwd_interface ?? 'wan',
+    logging: raw.log === true
+  };
+
+  if (targets) {
+    forward.target = targets.get(forward.internalIp) ?? { ip: forward.internalIp, online: false, fixedIp: false };
+  }
+
+  return forward;
+}
+
+/**
+ * Map validated parameters to portforward fields. Only provided fields are included.
+ */
+function buildPortForwardPayload(params: Record<string, any>): Record<string, any> {
+  const payload: Record<string, any> = {};
+
+  if (params.name !== undefined) payload.name = params.name;
+  if (params.externalPort !== undefined) payload.dst_port = String(params.externalPort);
+  if (params.internalIp !== undefined) payload.fwd = params.internalIp;
+  if (params.internalPort !== undefined) payload.fwd_port = String(params.internalPort);
+  if (params.protocol !== undefined) payload.proto = params.protocol;
+  if (params.sourceRestriction !== undefined) payload.src = params.sourceRestriction;
+  if (params.wanInterface !== undefined) payload.pfwd_interface = params.wanInterface;
+  if (params.logging !== undefined) payload.log = params.logging;
+  if (params.enabled !== undefined) payload.enabled = params.enabled;
+
+  return payload;
+}
+
+/**
+ * Check that an internal port range can receive the external range
+ */
+function assertPortMapping(externalPort: string, internalPort: string): void {
+  const external = parsePortRange(externalPort);
+  const internal = parsePortRange(internalPort);
+
+  if (internal.end - internal.start !== 0 && internal.end - internal.start !== external.end - external.start) {
+    throw new ValidationError(
+      `Internal port range ${internalPort} must be a single port or match the size of ${externalPort}`,
+      'internalPort',
+      internalPort
+    );
+  }
+}
+
+/**
+ * Refuse forwards that overlap an existing enabled forward on the same WAN and protocol
+ */
+function assertNoOverlap(existing: PortForward[], candidate: PortForward): void {
+  const range = parsePortRange(candidate.externalPort);
+
+  const clash = existing.find(forward => {
+    if (forward.id === candidate.id || !forward.enabled || !candidate.enabled) return false;
+    const wanOverlap = forward.wanInterface === candidate.wanInterface ||
+      forward.wanInterface === 'both' || candidate.wanInterface === 'both';
+    const protoOverlap = forward.protocol === candidate.protocol ||
+      forward.protocol === 'tcp_udp' || candidate.protocol === 'tcp_udp';
+    const other = parsePortRange(forward.externalPort);
+    return wanOverlap && protoOverlap && other.start <= range.end && range.start <= other.end;
+  });
+
+  if (clash) {
+    throw new ResourceConflictError(
+      `External port ${candidate.externalPort} overlaps port forward '${clash.name}' (${clash.externalPort})`,
+      clash.id
+    );
+  }
+}
+
+/**
+ * Fetch every portforward record
+ */
+async function fetchRawPortForwards(client: UniFiClient): Promise<any[]> {
+  const response = await client.get(UNIFI_ENDPOINTS.PORT_FORWARDS);
+
+  if (!response.data || !Array.isArray(response.data)) {
+    throw new UniFiMCPError('Invalid port forward data received', ErrorCode.INVALID_DATA);
+  }
+
+  return response.data;
+}
+
+/**
+ * Fetch a single portforward record by ID
+ */
+async function fetchRawPortForward(client: UniFiClient, portForwardId: string): Promise<any> {
+  const response = await client.get(UNIFI_ENDPOINTS.PORT_FORWARD_DETAILS.replace('{id}', portForwardId));
+
+  if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+    throw new ResourceNotFoundError('Port forward', portForwardId);
+  }
+
+  return response.data[0];
+}
+
+/**
+ * Index internal clients by IP: connected clients from stat/sta, then fixed-IP reservations
+ */
+async function resolveTargets(client: UniFiClient, warnings: string[]): Promise<Map<string, PortForwardTarget>> {
+  const targets = new Map<string, PortForwardTarget>();
+
+  try {
+    const response = await client.get(UNIFI_ENDPOINTS.CLIENTS);
+    for (const sta of response.data || []) {
+      if (sta.ip) {
+        targets.set(sta.ip, {
+          ip: sta.ip,
+          mac: sta.mac,
+          name: sta.name || sta.hostname || 'Unknown Client',
+          online: true,
+          fixedIp: sta.use_fixedip === true
+        });
+      }
+    }
+  } catch (error) {
+    logger.warn('Could not load connected clients', { error: (error as Error).message });
+    warnings.push('Connected clients could not be loaded; forward targets may be unresolved');
+  }
+
+  try {
+    for (const user of await fetchUsers(client)) {
+      if (user.use_fixedip && user.fixed_ip && !targets.has(user.fixed_ip)) {
+        targets.set(user.fixed_ip, {
+          ip: user.fixed_ip,
+          mac: user.mac,
+          name: user.name || user.hostname || 'Unknown Client',
+          online: false,
+          fixedIp: true
+        });
+      }
+    }
+  } catch (error) {
+    logger.warn('Could not load fixed-IP reservations', { error: (error as Error).message });
+  }
+
+  return targets;
+}
+
+/**
+ * Warnings about the forward target and its exposure
+ */
+async function describeRisks(client: UniFiClient, forward: PortForward, warnings: string[]): Promise<void> {
+  if (forward.enabled) {
+    warnings.push(...exposureWarnings(forward));
+  }
+
+  if (!forward.target?.mac) {
+    warnings.push(`No known client uses ${forward.internalIp}; the forward will not reach anything until one does`);
+  } else if (!forward.target.fixedIp) {
+    warnings.push(`${forward.target.name} has no fixed-IP reservation; the forward breaks if its DHCP address changes`);
+  }
+
+  try {
+    const networks = await fetchNetworks(client);
+    if (!networks.some(n => n.subnet && cidrContainsIP(n.subnet, forward.internalIp))) {
+      warnings.push(`${forward.internalIp} is not inside any configured local network`);
+    }
+  } catch (error) {
+    logger.warn('Could not load networks', { error: (error as Error).message });
+  }
+}
+
+// ================================
+// Get Port Forwards Tool
+// ================================
+
+const getPortForwardsTool: MCPTool = {
+  name: 'unifi_get_port_forwards',
+  description: 'List port forwards with the internal client each one targets',
+  category: ToolCategory.NETWORKS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      enabledOnly: {
+        type: 'boolean',
+        description: 'Only return enabled port forwards',
+        default: false
+      }
+    },
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const { enabledOnly = false } = params;
+
+      logger.info('Retrieving port forwards', { enabledOnly });
+
+      const warnings: string[] = [];
+      const [rawForwards, targets] = await Promise.all([
+        fetchRawPortForwards(client),
+        resolveTargets(client, warnings)
+      ]);
+
+      let forwards = rawForwards.map(raw => mapPortForward(raw, targets));
+      if (enabledOnly) {
+        forwards = forwards.filter(f => f.enabled);
+      }
+
+      forwards.sort((a, b) => parsePortRange(a.externalPort).start - parsePortRange(b.externalPort).start);
+
+      const exposed = forwards
+        .filter(f => f.enabled)
+        .map(f => ({ id: f.id, name: f.name, services: findSensitiveServices([f.externalPort, f.internalPort]) }))
+        .filter(f => f.services.length > 0);
+
+      for (const forward of exposed) {
+        warnings.push(
+          `Port forward '${forward.name}' exposes ${forward.services.map(s => `${s.service} (${s.port})`).join(', ')}`
+        );
+      }
+
+      return {
+        success: true,
+        data: {
+          portForwards: forwards,
+          summary: {
+            total: forwards.length,
+            enabled: forwards.filter(f => f.enabled).length,
+            unrestricted: forwards.filter(f => f.enabled && f.sourceRestriction === 'any').length,
+            sensitive: exposed.length,
+            unresolvedTargets: forwards.filter(f => !f.target?.mac).length
+          }
+        },
+        ...(warnings.length > 0 && { warnings }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to retrieve port forwards', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'PORT_FORWARD_FETCH_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Create Port Forward Tool
+// ================================
+
+const portForwardPropertySchema = {
+  externalPort: {
+    type: ['string', 'number'],
+    description: 'WAN port or range (e.g., 443 or "8000-8010")'
+  },
+  internalIp: {
+    type: 'string',
+    description: 'Internal IP address to forward to'
+  },
+  internalPort: {
+    type: ['string', 'number'],
+    description: 'Internal port or range (defaults to the external port)'
+  },
+  protocol: {
+    type: 'string',
+    enum: ['tcp', 'udp', 'tcp_udp'],
+    description: 'Protocol to forward'
+  },
+  sourceRestriction: {
+    type: 'string',
+    description: 'Only accept traffic from this IP or CIDR (default: any)'
+  },
+  wanInterface: {
+    type: 'string',
+    enum: ['wan', 'wan2', 'both'],
+    description: 'WAN interface the forward listens on'
+  },
+  logging: {
+    type: 'boolean',
+    description: 'Log forwarded connections'
+  },
+  enabled: {
+    type: 'boolean',
+    description: 'Enable the port forward'
+  }
+};
+
+const createPortForwardTool: MCPTool = {
+  name: 'unifi_create_port_forward',
+  description: 'Create a port forward from the WAN to an internal client',
+  category: ToolCategory.NETWORKS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Port forward name',
+        minLength: 1,
+        maxLength: 64
+      },
+      ...portForwardPropertySchema
+    },
+    required: ['name', 'externalPort', 'internalIp'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const validatedParams = await ValidationService.validateCreatePortForwardParams(params);
+      const internalPort = validatedParams.internalPort ?? validatedParams.externalPort;
+
+      logger.info('Creating port forward', {
+        name: validatedParams.name,
+        externalPort: validatedParams.externalPort,
+        internalIp: validatedParams.internalIp,
+        internalPort
+      });
+
+      assertPortMapping(String(validatedParams.externalPort), String(internalPort));
+
+      const warnings: string[] = [];
+      const [rawForwards, targets] = await Promise.all([
+        fetchRawPortForwards(client),
+        resolveTargets(client, warnings)
+      ]);
+
+      const forwardData = {
+        ...buildPortForwardPayload({ ...validatedParams, internalPort }),
+        src: validatedParams.sourceRestriction ?? 'any',
+        destination_ip: 'any'
+      };
+
+      assertNoOverlap(
+        rawForwards.map(raw => mapPortForward(raw)),
+        mapPortForward({ ...forwardData, _id: undefined })
+      );
+
+      const response = await client.post(UNIFI_ENDPOINTS.PORT_FORWARDS, forwardData);
+
+      if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+        throw new UniFiMCPError('Failed to create port forward', ErrorCode.PORT_FORWARD_CREATION_FAILED);
+      }
+
+      const createdForward = mapPortForward(response.data[0], targets);
+      await describeRisks(client, createdForward, warnings);
+
+      return {
+        success: true,
+        data: {
+          portForward: createdForward,
+          portForwardId: createdForward.id,
+          message: `Port forward '${createdForward.name}' created: WAN ${createdForward.externalPort} -> ` +
+            `${createdForward.internalIp}:${createdForward.internalPort}`
+        },
+        ...(warnings.length > 0 && { warnings }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to create port forward', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'PORT_FORWARD_CREATE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Update Port Forward Tool
+// ================================
+
+const updatePortForwardTool: MCPTool = {
+  name: 'unifi_update_port_forward',
+  description: 'Update an existing port forward',
+  category: ToolCategory.NETWORKS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      portForwardId: {
+        type: 'string',
+        description: 'Port forward ID to update',
+        minLength: 1
+      },
+      name: {
+        type: 'string',
+        description: 'Port forward name',
+        minLength: 1,
+        maxLength: 64
+      },
+      ...portForwardPropertySchema
+    },
+    required: ['portForwardId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const validatedParams = await ValidationService.validateUpdatePortForwardParams(params);
+      const { portForwardId, ...updates } = validatedParams;
+
+      logger.info('Updating port forward', { portForwardId, updates: Object.keys(updates) });
+
+      const warnings: string[] = [];
+      const [rawForwards, targets] = await Promise.all([
+        fetchRawPortForwards(client),
+        resolveTargets(client, warnings)
+      ]);
+
+      const existingRaw = rawForwards.find(forward => forward._id === portForwardId);
+      if (!existingRaw) {
+        throw new ResourceNotFoundError('Port forward', portForwardId);
+      }
+
+      const updatedForwardData = { ...existingRaw, ...buildPortForwardPayload(updates) };
+      const candidate = mapPortForward(updatedForwardData);
+
+      assertPortMapping(candidate.externalPort, candidate.internalPort);
+      assertNoOverlap(rawForwards.map(raw => mapPortForward(raw)), candidate);
+
+      const response = await client.put(
+        UNIFI_ENDPOINTS.PORT_FORWARD_DETAILS.replace('{id}', portForwardId),
+        updatedForwardData
+      );
+
+      if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+        throw new UniFiMCPError('Failed to update port forward', ErrorCode.PORT_FORWARD_UPDATE_FAILED);
+      }
+
+      const updatedForward = mapPortForward(response.data[0], targets);
+      await describeRisks(client, updatedForward, warnings);
+
+      return {
+        success: true,
+        data: {
+          portForward: updatedForward,
+          portForwardId: updatedForward.id,
+          updatedFields: Object.keys(updates),
+          message: `Port forward '${updatedForward.name}' updated successfully`
+        },
+        ...(warnings.length > 0 && { warnings }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to update port forward', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'PORT_FORWARD_UPDATE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Toggle Port Forward Tool
+// ================================
+
+const togglePortForwardTool: MCPTool = {
+  name: 'unifi_toggle_port_forward',
+  description: 'Enable or disable a port forward',
+  category: ToolCategory.NETWORKS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      portForwardId: {
+        type: 'string',
+        description: 'Port forward ID',
+        minLength: 1
+      },
+      enabled: {
+        type: 'boolean',
+        description: 'Whether the port forward should be active'
+      }
+    },
+    required: ['portForwardId', 'enabled'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const { portForwardId, enabled } = params;
+
+      logger.info('Toggling port forward', { portForwardId, enabled });
+
+      const rawForwards = await fetchRawPortForwards(client);
+      const existingRaw = rawForwards.find(forward => forward._id === portForwardId);
+      if (!existingRaw) {
+        throw new ResourceNotFoundError('Port forward', portForwardId);
+      }
+
+      const existing = mapPortForward(existingRaw);
+      if (existing.enabled === enabled) {
+        return {
+          success: true,
+          data: {
+            portForwardId,
+            name: existing.name,
+            enabled,
+            changed: false,
+            message: `Port forward '${existing.name}' is already ${enabled ? 'enabled' : 'disabled'}`
+          },
+          metadata: {
+            executionTime: 0,
+            timestamp: new Date()
+          }
+        };
+      }
+
+      if (enabled) {
+        assertNoOverlap(rawForwards.map(raw => mapPortForward(raw)), { ...existing, enabled: true });
+      }
+
+      const response = await client.put(
+        UNIFI_ENDPOINTS.PORT_FORWARD_DETAILS.replace('{id}', portForwardId),
+        { ...existingRaw, enabled }
+      );
+
+      if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+        throw new UniFiMCPError('Failed to update port forward', ErrorCode.PORT_FORWARD_UPDATE_FAILED);
+      }
+
+      const warnings = enabled ? exposureWarnings(existing) : [];
+
+      return {
+        success: true,
+        data: {
+          portForwardId,
+          name: existing.name,
+          previousState: existing.enabled,
+          enabled,
+          changed: true,
+          message: `Port forward '${existing.name}' ${enabled ? 'enabled' : 'disabled'} successfully`
+        },
+        ...(warnings.length > 0 && { warnings }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to toggle port forward', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'PORT_FORWARD_TOGGLE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Delete Port Forward Tool
+// ================================
+
+const deletePortForwardTool: MCPTool = {
+  name: 'unifi_delete_port_forward',
+  description: 'Delete a port forward',
+  category: ToolCategory.NETWORKS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      portForwardId: {
+        type: 'string',
+        description: 'Port forward ID to delete',
+        minLength: 1
+      }
+    },
+    required: ['portForwardId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const { portForwardId } = params;
+
+      logger.info('Deleting port forward', { portForwardId });
+
+      const existing = mapPortForward(await fetchRawPortForward(client, portForwardId));
+
+      const response = await client.delete(UNIFI_ENDPOINTS.PORT_FORWARD_DETAILS.replace('{id}', portForwardId));
+
+      if (response.meta.rc !== 'ok') {
+        throw new UniFiMCPError(
+          `Failed to delete port forward: ${response.meta.msg}`,
+          ErrorCode.PORT_FORWARD_DELETION_FAILED
+        );
+      }
+
+      return {
+        success: true,
+        data: {
+          deletedPortForward: {
+            id: existing.id,
+            name: existing.name,
+            externalPort: existing.externalPort,
+            internalIp: existing.internalIp,
+            internalPort: existing.internalPort
+          },
+          message: `Port forward '${existing.name}' deleted successfully`
+        },
+        warnings: [
+          'Port forward deletion is permanent and cannot be undone'
+        ],
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete port forward', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'PORT_FORWARD_DELETE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+export {
+  getPortForwardsTool,
+  createPortForwardTool,
+  updatePortForwardTool,
+  togglePortForwardTool,
+  deletePortForwardTool
+};
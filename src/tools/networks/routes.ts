@@ -0,0 +1,593 @@
+import { MCPTool, ToolCategory, ToolResult, ErrorCode } from '../../server/types.js';
+import { UniFiClient } from '../../unifi/client.js';
+import { DetailedNetwork, NetworkPurpose, StaticRoute } from '../../unifi/types.js';
+import { ValidationService } from '../../utils/validators.js';
+import { createToolLogger } from '../../utils/logger.js';
+import {
+  UniFiMCPError,
+  ResourceNotFoundError,
+  ResourceConflictError,
+  ValidationError
+} from '../../utils/errors.js';
+import { normalizeCIDR, parseCIDR, isIPv4, cidrContains, cidrContainsIP, cidrsOverlap } from '../../utils/cidr.js';
+import { UNIFI_ENDPOINTS } from '../../config/constants.js';
+import { fetchNetworks } from './mapping.js';
+
+/**
+ * Static Route Tools
+ *
+ * Tools for managing static routes through the routing API, with checks
+ * against locally configured networks.
+ */
+
+const logger = createToolLogger('route-tools');
+
+// Interfaces that are addressed by name rather than by network ID
+const WAN_INTERFACES = ['wan', 'wan2'];
+
+export interface RouteIssue {
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+}
+
+// ================================
+// Route Helpers
+// ================================
+
+/**
+ * Convert a raw routing record into a StaticRoute
+ */
+export function mapStaticRoute(raw: any, networks: DetailedNetwork[] = []): StaticRoute {
+  const route: StaticRoute = {
+    id: raw._id,
+    name: raw.name,
+    enabled: raw.enabled !== false,
+    type: raw['static-route_type'] ?? 'nexthop-route',
+    destination: raw['static-route_network'] ?? '',
+    distance: Number(raw['static-route_distance'] ?? 1)
+  };
+
+  if (raw['static-route_nexthop']) route.nextHop = raw['static-route_nexthop'];
+  if (raw['static-route_interface']) {
+    route.interface = raw['static-route_interface'];
+    const network = networks.find(n => n.id === route.interface);
+    if (network) route.interfaceName = network.name;
+  }
+
+  return route;
+}
+
+/**
+ * Map validated parameters to routing fields. Only provided fields are included.
+ */
+function buildRoutePayload(params: Record<string, any>): Record<string, any> {
+  const payload: Record<string, any> = {};
+
+  if (params.name !== undefined) payload.name = params.name;
+  if (params.destination !== undefined) payload['static-route_network'] = normalizeCIDR(params.destination);
+  if (params.type !== undefined) payload['static-route_type'] = params.type;
+  if (params.nextHop !== undefined) payload['static-route_nexthop'] = params.nextHop;
+  if (params.interface !== undefined) payload['static-route_interface'] = params.interface;
+  if (params.distance !== undefined) payload['static-route_distance'] = params.distance;
+  if (params.enabled !== undefined) payload.enabled = params.enabled;
+
+  return payload;
+}
+
+/**
+ * Local networks with a usable subnet
+ */
+function localNetworks(networks: DetailedNetwork[]): DetailedNetwork[] {
+  return networks.filter(n => n.subnet && isIPv4CIDR(n.subnet) && n.purpose !== NetworkPurpose.WAN);
+}
+
+/**
+ * Whether a value is an IPv4 CIDR block (or bare address) the CIDR helpers can handle
+ */
+function isIPv4CIDR(value: string): boolean {
+  try {
+    parseCIDR(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a single route against local networks.
+ * A destination equal to or inside a local subnet would take traffic away from it (error);
+ * a broader destination only overlaps and stays behind the connected route (warning).
+ * Non-IPv4 destinations and next hops (such as IPv6 routes) are reported as not checked.
+ */
+export function checkStaticRoute(route: StaticRoute, networks: DetailedNetwork[]): RouteIssue[] {
+  const issues: RouteIssue[] = [];
+
+  if (!route.destination) {
+    issues.push({ severity: 'error', message: 'Route has no destination' });
+  } else if (!isIPv4CIDR(route.destination)) {
+    issues.push({
+      severity: 'info',
+      message: `Destination ${route.destination} is not IPv4 and was not checked against local networks`
+    });
+  }
+
+  const destinationNetworks = route.destination && isIPv4CIDR(route.destination) ? localNetworks(networks) : [];
+
+  for (const network of destinationNetworks) {
+    if (cidrContains(network.subnet, route.destination)) {
+      issues.push({
+        severity: 'error',
+        message: `Destination ${route.destination} shadows local network '${network.name}' (${network.subnet})`
+      });
+    } else if (cidrsOverlap(network.subnet, route.destination)) {
+      issues.push({
+        severity: 'warning',
+        message: `Destination ${route.destination} contains local network '${network.name}' (${network.subnet}); ` +
+          'the connected route stays preferred'
+      });
+    }
+  }
+
+  if (route.type === 'nexthop-route') {
+    if (!route.nextHop) {
+      issues.push({ severity: 'error', message: 'Next-hop routes require a next-hop address' });
+    } else if (!isIPv4(route.nextHop)) {
+      issues.push({
+        severity: 'info',
+        message: `Next hop ${route.nextHop} is not IPv4 and was not checked for reachability`
+      });
+    } else if (!localNetworks(networks).some(n => cidrContainsIP(n.subnet, route.nextHop!))) {
+      issues.push({
+        severity: 'warning',
+        message: `Next hop ${route.nextHop} is not inside any local network and may be unreachable`
+      });
+    }
+  }
+
+  if (route.type === 'interface-route') {
+    if (!route.interface) {
+      issues.push({ severity: 'error', message: 'Interface routes require an interface' });
+    } else if (!WAN_INTERFACES.includes(route.interface) && !networks.some(n => n.id === route.interface)) {
+      issues.push({ severity: 'error', message: `Interface ${route.interface} does not match any network` });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Audit every route: per-route checks plus duplicate destinations among enabled routes
+ */
+export function auditStaticRoutes(
+  routes: StaticRoute[],
+  networks: DetailedNetwork[]
+): Array<StaticRoute & { issues: RouteIssue[] }> {
+  return routes.map(route => {
+    const issues = checkStaticRoute(route, networks);
+
+    const duplicates = routes.filter(other =>
+      other.id !== route.id && other.enabled && route.enabled &&
+      other.destination === route.destination && other.distance === route.distance
+    );
+    if (duplicates.length > 0) {
+      issues.push({
+        severity: 'warning',
+        message: `Same destination and distance as ${duplicates.map(d => `'${d.name}'`).join(', ')}`
+      });
+    }
+
+    return { ...route, issues };
+  });
+}
+
+/**
+ * Throw when a route has blocking issues
+ */
+function assertRoute(route: StaticRoute, networks: DetailedNetwork[]): string[] {
+  const issues = checkStaticRoute(route, networks);
+  const errors = issues.filter(issue => issue.severity === 'error');
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors.map(e => e.message).join('; '), 'destination', route.destination);
+  }
+
+  return issues.map(issue => issue.message);
+}
+
+/**
+ * Fetch every routing record
+ */
+async function fetchRawRoutes(client: UniFiClient): Promise<any[]> {
+  const response = await client.get(UNIFI_ENDPOINTS.ROUTING);
+
+  if (!response.data || !Array.isArray(response.data)) {
+    throw new UniFiMCPError('Invalid routing data received', ErrorCode.INVALID_DATA);
+  }
+
+  return response.data.filter((raw: any) => !raw.type || raw.type === 'static-route');
+}
+
+// ================================
+// Get Static Routes Tool
+// ================================
+
+const getStaticRoutesTool: MCPTool = {
+  name: 'unifi_get_static_routes',
+  description: 'List static routes and audit them against local networks',
+  category: ToolCategory.NETWORKS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      enabledOnly: {
+        type: 'boolean',
+        description: 'Only return enabled routes',
+        default: false
+      },
+      issuesOnly: {
+        type: 'boolean',
+        description: 'Only return routes with audit findings',
+        default: false
+      }
+    },
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const { enabledOnly = false, issuesOnly = false } = params;
+
+      logger.info('Retrieving static routes', { enabledOnly, issuesOnly });
+
+      const [rawRoutes, networks] = await Promise.all([fetchRawRoutes(client), fetchNetworks(client)]);
+
+      let routes = auditStaticRoutes(rawRoutes.map(raw => mapStaticRoute(raw, networks)), networks);
+      if (enabledOnly) {
+        routes = routes.filter(r => r.enabled);
+      }
+      if (issuesOnly) {
+        routes = routes.filter(r => r.issues.some(i => i.severity !== 'info'));
+      }
+
+      routes.sort((a, b) => a.destination.localeCompare(b.destination) || a.distance - b.distance);
+
+      return {
+        success: true,
+        data: {
+          routes,
+          summary: {
+            total: routes.length,
+            enabled: routes.filter(r => r.enabled).length,
+            byType: routes.reduce((acc, r) => {
+              acc[r.type] = (acc[r.type] || 0) + 1;
+              return acc;
+            }, {} as Record<string, number>),
+            withErrors: routes.filter(r => r.issues.some(i => i.severity === 'error')).length,
+            withWarnings: routes.filter(r => r.issues.some(i => i.severity === 'warning')).length
+          }
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to retrieve static routes', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'ROUTE_FETCH_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Create Static Route Tool
+// ================================
+
+const routePropertySchema = {
+  destination: {
+    type: 'string',
+    description: 'Destination network in CIDR notation'
+  },
+  type: {
+    type: 'string',
+    enum: ['nexthop-route', 'interface-route', 'blackhole'],
+    description: 'Route type'
+  },
+  nextHop: {
+    type: 'string',
+    description: 'Next-hop gateway address (next-hop routes)'
+  },
+  interface: {
+    type: 'string',
+    description: 'Network ID, "wan" or "wan2" (interface routes)'
+  },
+  distance: {
+    type: 'number',
+    description: 'Administrative distance (metric); lower wins',
+    minimum: 1,
+    maximum: 255
+  },
+  enabled: {
+    type: 'boolean',
+    description: 'Enable the route'
+  }
+};
+
+const createStaticRouteTool: MCPTool = {
+  name: 'unifi_create_static_route',
+  description: 'Create a static route',
+  category: ToolCategory.NETWORKS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Route name',
+        minLength: 1,
+        maxLength: 64
+      },
+      ...routePropertySchema
+    },
+    required: ['name', 'destination'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const validatedParams = await ValidationService.validateCreateStaticRouteParams(params);
+
+      logger.info('Creating static route', {
+        name: validatedParams.name,
+        destination: validatedParams.destination,
+        type: validatedParams.type
+      });
+
+      const [rawRoutes, networks] = await Promise.all([fetchRawRoutes(client), fetchNetworks(client)]);
+
+      const routeData = {
+        ...buildRoutePayload(validatedParams),
+        type: 'static-route'
+      };
+      const candidate = mapStaticRoute(routeData, networks);
+      const warnings = assertRoute(candidate, networks);
+
+      const duplicate = rawRoutes
+        .map(raw => mapStaticRoute(raw))
+        .find(route => route.destination === candidate.destination && route.distance === candidate.distance);
+      if (duplicate) {
+        throw new ResourceConflictError(
+          `Route '${duplicate.name}' already covers ${candidate.destination} with distance ${candidate.distance}`,
+          duplicate.id
+        );
+      }
+
+      const response = await client.post(UNIFI_ENDPOINTS.ROUTING, routeData);
+
+      if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+        throw new UniFiMCPError('Failed to create static route', ErrorCode.ROUTE_CREATION_FAILED);
+      }
+
+      const createdRoute = mapStaticRoute(response.data[0], networks);
+
+      return {
+        success: true,
+        data: {
+          route: createdRoute,
+          routeId: createdRoute.id,
+          message: `Static route '${createdRoute.name}' to ${createdRoute.destination} created successfully`
+        },
+        ...(warnings.length > 0 && { warnings }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to create static route', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'ROUTE_CREATE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Update Static Route Tool
+// ================================
+
+const updateStaticRouteTool: MCPTool = {
+  name: 'unifi_update_static_route',
+  description: 'Update a static route, including its enabled state',
+  category: ToolCategory.NETWORKS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      routeId: {
+        type: 'string',
+        description: 'Route ID to update',
+        minLength: 1
+      },
+      name: {
+        type: 'string',
+        description: 'Route name',
+        minLength: 1,
+        maxLength: 64
+      },
+      ...routePropertySchema
+    },
+    required: ['routeId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const validatedParams = await ValidationService.validateUpdateStaticRouteParams(params);
+      const { routeId, ...updates } = validatedParams;
+
+      logger.info('Updating static route', { routeId, updates: Object.keys(updates) });
+
+      const existingResponse = await client.get(UNIFI_ENDPOINTS.ROUTING_DETAILS.replace('{id}', routeId));
+
+      if (!existingResponse.data || !Array.isArray(existingResponse.data) || existingResponse.data.length === 0) {
+        throw new ResourceNotFoundError('Static route', routeId);
+      }
+
+      const networks = await fetchNetworks(client);
+      const updatedRouteData = { ...existingResponse.data[0], ...buildRoutePayload(updates) };
+      const warnings = assertRoute(mapStaticRoute(updatedRouteData, networks), networks);
+
+      const response = await client.put(UNIFI_ENDPOINTS.ROUTING_DETAILS.replace('{id}', routeId), updatedRouteData);
+
+      if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+        throw new UniFiMCPError('Failed to update static route', ErrorCode.ROUTE_UPDATE_FAILED);
+      }
+
+      const updatedRoute = mapStaticRoute(response.data[0], networks);
+
+      return {
+        success: true,
+        data: {
+          route: updatedRoute,
+          routeId: updatedRoute.id,
+          updatedFields: Object.keys(updates),
+          message: `Static route '${updatedRoute.name}' updated successfully`
+        },
+        ...(warnings.length > 0 && { warnings }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to update static route', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'ROUTE_UPDATE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Delete Static Route Tool
+// ================================
+
+const deleteStaticRouteTool: MCPTool = {
+  name: 'unifi_delete_static_route',
+  description: 'Delete a static route',
+  category: ToolCategory.NETWORKS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      routeId: {
+        type: 'string',
+        description: 'Route ID to delete',
+        minLength: 1
+      }
+    },
+    required: ['routeId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const { routeId } = params;
+
+      logger.info('Deleting static route', { routeId });
+
+      const existingResponse = await client.get(UNIFI_ENDPOINTS.ROUTING_DETAILS.replace('{id}', routeId));
+
+      if (!existingResponse.data || !Array.isArray(existingResponse.data) || existingResponse.data.length === 0) {
+        throw new ResourceNotFoundError('Static route', routeId);
+      }
+
+      const existing = mapStaticRoute(existingResponse.data[0]);
+
+      const response = await client.delete(UNIFI_ENDPOINTS.ROUTING_DETAILS.replace('{id}', routeId));
+
+      if (response.meta.rc !== 'ok') {
+        throw new UniFiMCPError(`Failed to delete static route: ${response.meta.msg}`, ErrorCode.ROUTE_DELETION_FAILED);
+      }
+
+      return {
+        success: true,
+        data: {
+          deletedRoute: {
+            id: existing.id,
+            name: existing.name,
+            destination: existing.destination,
+            nextHop: existing.nextHop,
+            interface: existing.interface
+          },
+          message: `Static route '${existing.name}' deleted successfully`
+        },
+        warnings: [
+          `Traffic to ${existing.destination} now follows the remaining routes`
+        ],
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete static route', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'ROUTE_DELETE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+export {
+  getStaticRoutesTool,
+  createStaticRouteTool,
+  updateStaticRouteTool,
+  deleteStaticRouteTool
+};
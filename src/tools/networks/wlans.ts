@@ -0,0 +1,947 @@
+import { randomInt } from 'crypto';
+import { MCPTool, ToolCategory, ToolResult, ErrorCode } from '../../server/types.js';
+import { UniFiClient } from '../../unifi/client.js';
+import {
+  DetailedNetwork,
+  NetworkPurpose,
+  WirelessNetwork,
+  WlanScheduleEntry,
+  WlanSecurityMode
+} from '../../unifi/types.js';
+import { ValidationService } from '../../utils/validators.js';
+import { createToolLogger } from '../../utils/logger.js';
+import {
+  UniFiMCPError,
+  ResourceNotFoundError,
+  ResourceConflictError,
+  ValidationError
+} from '../../utils/errors.js';
+import { UNIFI_ENDPOINTS } from '../../config/constants.js';
+import { fetchNetworks } from './mapping.js';
+
+/**
+ * Wireless Network (WLAN) Tools
+ *
+ * Tools for managing SSIDs through the wlanconf API, including
+ * passphrase rotation for pre-shared key networks.
+ */
+
+const logger = createToolLogger('wlan-tools');
+
+// ================================
+// WLAN Helpers
+// ================================
+
+const DAY_CODES: Record<string, string> = {
+  monday: 'mon',
+  tuesday: 'tue',
+  wednesday: 'wed',
+  thursday: 'thu',
+  friday: 'fri',
+  saturday: 'sat',
+  sunday: 'sun'
+};
+
+// Unambiguous characters only, so the passphrase can be read off a sign
+const PASSPHRASE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789';
+
+/**
+ * Generate a random passphrase containing upper case, lower case and digits
+ */
+export function generatePassphrase(length: number = 24): string {
+  for (;;) {
+    let passphrase = '';
+    for (let i = 0; i < length; i++) {
+      passphrase += PASSPHRASE_ALPHABET[randomInt(PASSPHRASE_ALPHABET.length)];
+    }
+    if (/[A-Z]/.test(passphrase) && /[a-z]/.test(passphrase) && /[0-9]/.test(passphrase)) {
+      return passphrase;
+    }
+  }
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function fromMinutes(total: number): string {
+  const minutes = ((total % 1440) + 1440) % 1440;
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Convert schedule entries into schedule_with_duration records.
+ * An end time before the start time runs past midnight.
+ */
+export function buildWlanSchedule(entries: WlanScheduleEntry[]): any[] {
+  return entries.map(entry => {
+    const start = toMinutes(entry.startTime);
+    return {
+      start_days_of_week: entry.days.map(day => DAY_CODES[day] ?? day),
+      start_hour: Math.floor(start / 60),
+      start_minute: start % 60,
+      duration_minutes: (toMinutes(entry.endTime) - start + 1440) % 1440
+    };
+  });
+}
+
+/**
+ * Derive the security mode from wlanconf security fields
+ */
+function mapSecurity(raw: any): WlanSecurityMode {
+  switch (raw.security) {
+    case 'open':
+      return 'open';
+    case 'wpaeap':
+      return 'enterprise';
+    case 'wep':
+      return 'wep';
+    default:
+      if (raw.wpa3_support) {
+        return raw.wpa3_transition ? 'wpa2-wpa3' : 'wpa3';
+      }
+      return 'wpa2';
+  }
+}
+
+/**
+ * wlanconf fields for a pre-shared key or open security mode
+ */
+function securityFields(mode: 'open' | 'wpa2' | 'wpa3' | 'wpa2-wpa3'): Record<string, any> {
+  switch (mode) {
+    case 'open':
+      return { security: 'open', wpa3_support: false, wpa3_transition: false, pmf_mode: 'disabled' };
+    case 'wpa3':
+      return { security: 'wpapsk', wpa_mode: 'wpa2', wpa_enc: 'ccmp', wpa3_support: true, wpa3_transition: false, pmf_mode: 'required' };
+    case 'wpa2-wpa3':
+      return { security: 'wpapsk', wpa_mode: 'wpa2', wpa_enc: 'ccmp', wpa3_support: true, wpa3_transition: true, pmf_mode: 'optional' };
+    default:
+      return { security: 'wpapsk', wpa_mode: 'wpa2', wpa_enc: 'ccmp', wpa3_support: false, wpa3_transition: false, pmf_mode: 'disabled' };
+  }
+}
+
+/**
+ * Convert a raw wlanconf record into a WirelessNetwork. The passphrase is never included.
+ */
+export function mapWlanConf(raw: any, networks: DetailedNetwork[] = []): WirelessNetwork {
+  const network = networks.find(n => n.id === raw.networkconf_id);
+  const bands: string[] = Array.isArray(raw.wlan_bands) && raw.wlan_bands.length > 0
+    ? raw.wlan_bands
+    : raw.wlan_band === '2g' || raw.wlan_band === '5g' ? [raw.wlan_band] : ['2g', '5g'];
+
+  const schedule: WlanScheduleEntry[] = raw.schedule_enabled && Array.isArray(raw.schedule_with_duration)
+    ? raw.schedule_with_duration.map((entry: any) => {
+      const start = Number(entry.start_hour ?? 0) * 60 + Number(entry.start_minute ?? 0);
+      return {
+        days: (entry.start_days_of_week || []).map((code: string) =>
+          Object.keys(DAY_CODES).find(day => DAY_CODES[day] === code) ?? code
+        ),
+        startTime: fromMinutes(start),
+        endTime: fromMinutes(start + Number(entry.duration_minutes ?? 0))
+      };
+    })
+    : [];
+
+  const wlan: WirelessNetwork = {
+    id: raw._id ?? raw.id,
+    name: raw.name,
+    enabled: raw.enabled !== false,
+    security: mapSecurity(raw),
+    isGuest: raw.is_guest === true,
+    hidden: raw.hide_ssid === true,
+    clientIsolation: raw.l2_isolation === true,
+    bands,
+    apGroupIds: Array.isArray(raw.ap_group_ids) ? raw.ap_group_ids : [],
+    schedule
+  };
+
+  if (raw.networkconf_id) wlan.networkId = raw.networkconf_id;
+  if (network) wlan.networkName = network.name;
+  if (raw.bandsteering_mode) wlan.bandSteering = raw.bandsteering_mode;
+  if (raw.pmf_mode) wlan.pmfMode = raw.pmf_mode;
+
+  return wlan;
+}
+
+/**
+ * Map validated WLAN parameters to wlanconf fields. Only provided fields are included.
+ */
+function buildWlanPayload(params: Record<string, any>): Record<string, any> {
+  const payload: Record<string, any> = {};
+
+  if (params.name !== undefined) payload.name = params.name;
+  if (params.security !== undefined) Object.assign(payload, securityFields(params.security));
+  if (params.passphrase !== undefined) payload.x_passphrase = params.passphrase;
+  if (params.networkId !== undefined) payload.networkconf_id = params.networkId;
+  if (params.hidden !== undefined) payload.hide_ssid = params.hidden;
+  if (params.clientIsolation !== undefined) payload.l2_isolation = params.clientIsolation;
+  if (params.bandSteering !== undefined) payload.bandsteering_mode = params.bandSteering;
+  if (params.enabled !== undefined) payload.enabled = params.enabled;
+  if (params.bands !== undefined) {
+    payload.wlan_bands = params.bands;
+    payload.wlan_band = params.bands.includes('2g') && params.bands.includes('5g')
+      ? 'both'
+      : params.bands[0];
+  }
+  if (params.apGroupIds !== undefined) {
+    payload.ap_group_ids = params.apGroupIds;
+    payload.ap_group_mode = params.apGroupIds.length > 0 ? 'groups' : 'all';
+  }
+  if (params.schedule !== undefined) {
+    payload.schedule_enabled = params.schedule.length > 0;
+    payload.schedule_with_duration = buildWlanSchedule(params.schedule);
+  }
+
+  return payload;
+}
+
+/**
+ * Fetch every wlanconf record
+ */
+async function fetchRawWlans(client: UniFiClient): Promise<any[]> {
+  const response = await client.get(UNIFI_ENDPOINTS.WLAN_CONF);
+
+  if (!response.data || !Array.isArray(response.data)) {
+    throw new UniFiMCPError('Invalid WLAN data received', ErrorCode.INVALID_DATA);
+  }
+
+  return response.data;
+}
+
+/**
+ * Fetch a single wlanconf record by ID
+ */
+async function fetchRawWlan(client: UniFiClient, wlanId: string): Promise<any> {
+  const response = await client.get(UNIFI_ENDPOINTS.WLAN_DETAILS.replace('{id}', wlanId));
+
+  if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+    throw new ResourceNotFoundError('WLAN', wlanId);
+  }
+
+  return response.data[0];
+}
+
+/**
+ * Resolve the network an SSID should bridge into
+ */
+function resolveWlanNetwork(networks: DetailedNetwork[], networkId: string): DetailedNetwork {
+  const network = networks.find(n => n.id === networkId);
+
+  if (!network) {
+    throw new ResourceNotFoundError('Network', networkId);
+  }
+
+  if (network.purpose === NetworkPurpose.WAN || network.purpose === NetworkPurpose.VPN) {
+    throw new ValidationError(
+      `Network '${network.name}' is a ${network.purpose} network and cannot carry an SSID`,
+      'networkId',
+      networkId
+    );
+  }
+
+  return network;
+}
+
+/**
+ * Check that AP group IDs exist. Returns a warning when the groups could not be loaded.
+ */
+async function assertApGroups(client: UniFiClient, apGroupIds: string[]): Promise<string | undefined> {
+  if (apGroupIds.length === 0) {
+    return undefined;
+  }
+
+  let groups: any[];
+  try {
+    const response = await client.get(UNIFI_ENDPOINTS.AP_GROUPS);
+    groups = Array.isArray(response.data) ? response.data : [];
+  } catch (error) {
+    logger.warn('Could not load AP groups', { error: (error as Error).message });
+    return 'AP groups could not be loaded, so the group IDs were not verified';
+  }
+
+  const known = new Set(groups.map(group => group._id ?? group.id));
+  const unknown = apGroupIds.filter(id => !known.has(id));
+  if (unknown.length > 0) {
+    throw new ValidationError(`Unknown AP group(s): ${unknown.join(', ')}`, 'apGroupIds', unknown);
+  }
+
+  return undefined;
+}
+
+// ================================
+// Get WLANs Tool
+// ================================
+
+const getWlansTool: MCPTool = {
+  name: 'unifi_get_wlans',
+  description: 'List wireless networks (SSIDs) with security, network binding, bands, AP groups and schedules',
+  category: ToolCategory.NETWORKS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      networkId: {
+        type: 'string',
+        description: 'Only return SSIDs bound to this network'
+      },
+      enabledOnly: {
+        type: 'boolean',
+        description: 'Only return enabled SSIDs',
+        default: false
+      }
+    },
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const { networkId, enabledOnly = false } = params;
+
+      logger.info('Retrieving WLANs', { networkId, enabledOnly });
+
+      const [rawWlans, networks] = await Promise.all([fetchRawWlans(client), fetchNetworks(client)]);
+
+      let wlans = rawWlans.map(raw => mapWlanConf(raw, networks));
+
+      if (networkId) {
+        wlans = wlans.filter(wlan => wlan.networkId === networkId);
+      }
+      if (enabledOnly) {
+        wlans = wlans.filter(wlan => wlan.enabled);
+      }
+
+      wlans.sort((a, b) => a.name.localeCompare(b.name));
+
+      const summary = {
+        total: wlans.length,
+        enabled: wlans.filter(w => w.enabled).length,
+        guest: wlans.filter(w => w.isGuest).length,
+        hidden: wlans.filter(w => w.hidden).length,
+        scheduled: wlans.filter(w => w.schedule.length > 0).length,
+        bySecurity: wlans.reduce((acc, w) => {
+          acc[w.security] = (acc[w.security] || 0) + 1;
+          return acc;
+        }, {} as Record<string, number>)
+      };
+
+      return {
+        success: true,
+        data: {
+          wlans,
+          summary
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to retrieve WLANs', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'WLAN_FETCH_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Create WLAN Tool
+// ================================
+
+const wlanPropertySchema = {
+  security: {
+    type: 'string',
+    enum: ['open', 'wpa2', 'wpa3', 'wpa2-wpa3'],
+    description: 'Security mode (wpa2-wpa3 is WPA3 transition mode)'
+  },
+  passphrase: {
+    type: 'string',
+    description: 'Pre-shared key (8-63 characters)',
+    minLength: 8,
+    maxLength: 64
+  },
+  networkId: {
+    type: 'string',
+    description: 'Network ID the SSID bridges into'
+  },
+  hidden: {
+    type: 'boolean',
+    description: 'Hide the SSID from broadcasts'
+  },
+  clientIsolation: {
+    type: 'boolean',
+    description: 'Prevent wireless clients from reaching each other'
+  },
+  bands: {
+    type: 'array',
+    items: { type: 'string', enum: ['2g', '5g', '6g'] },
+    description: 'Radio bands to broadcast on'
+  },
+  bandSteering: {
+    type: 'string',
+    enum: ['off', 'equal', 'prefer_5g'],
+    description: 'Band steering mode'
+  },
+  apGroupIds: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'AP group IDs broadcasting the SSID (empty for all APs)'
+  },
+  schedule: {
+    type: 'array',
+    description: 'Times the SSID is broadcast (empty to broadcast always)',
+    items: {
+      type: 'object',
+      properties: {
+        days: {
+          type: 'array',
+          items: { type: 'string', enum: Object.keys(DAY_CODES) }
+        },
+        startTime: { type: 'string', description: 'HH:mm' },
+        endTime: { type: 'string', description: 'HH:mm, may be earlier than startTime to run past midnight' }
+      },
+      required: ['days', 'startTime', 'endTime']
+    }
+  },
+  enabled: {
+    type: 'boolean',
+    description: 'Enable the SSID'
+  }
+};
+
+const createWlanTool: MCPTool = {
+  name: 'unifi_create_wlan',
+  description: 'Create a wireless network (SSID). A strong passphrase is generated when none is given.',
+  category: ToolCategory.NETWORKS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'SSID',
+        minLength: 1,
+        maxLength: 32
+      },
+      ...wlanPropertySchema
+    },
+    required: ['name', 'networkId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const validatedParams = await ValidationService.validateCreateWlanParams(params);
+
+      logger.info('Creating WLAN', {
+        name: validatedParams.name,
+        security: validatedParams.security,
+        networkId: validatedParams.networkId
+      });
+
+      if (validatedParams.security === 'open' && validatedParams.passphrase !== undefined) {
+        throw new ValidationError('Open SSIDs do not use a passphrase', 'passphrase');
+      }
+
+      const [rawWlans, networks] = await Promise.all([fetchRawWlans(client), fetchNetworks(client)]);
+
+      if (rawWlans.some(raw => raw.name === validatedParams.name)) {
+        throw new ResourceConflictError(`An SSID named '${validatedParams.name}' already exists`);
+      }
+
+      const network = resolveWlanNetwork(networks, validatedParams.networkId);
+      const warnings: string[] = [];
+      const apGroupWarning = await assertApGroups(client, validatedParams.apGroupIds ?? []);
+      if (apGroupWarning) warnings.push(apGroupWarning);
+
+      const generated = validatedParams.security !== 'open' && validatedParams.passphrase === undefined;
+      const passphrase = generated ? generatePassphrase() : validatedParams.passphrase;
+
+      // The controller requires a user group on new SSIDs
+      const userGroups = await client.get(UNIFI_ENDPOINTS.USER_GROUPS);
+      const defaultGroup = (userGroups.data || []).find((group: any) => group.attr_hidden_id === 'Default') ??
+        (userGroups.data || [])[0];
+
+      const wlanData = {
+        ...buildWlanPayload({ ...validatedParams, passphrase }),
+        is_guest: network.purpose === NetworkPurpose.GUEST,
+        ...(defaultGroup && { usergroup_id: defaultGroup._id }),
+        ...(validatedParams.apGroupIds === undefined && { ap_group_mode: 'all' })
+      };
+
+      const response = await client.post(UNIFI_ENDPOINTS.WLAN_CONF, wlanData);
+
+      if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+        throw new UniFiMCPError('Failed to create WLAN', ErrorCode.WLAN_CREATION_FAILED);
+      }
+
+      const createdWlan = mapWlanConf(response.data[0], networks);
+
+      if (validatedParams.security === 'open') {
+        warnings.push('The SSID is open; traffic between clients and APs is not encrypted');
+      }
+      if (generated) {
+        warnings.push('The generated passphrase is only returned once; store it now');
+      }
+
+      return {
+        success: true,
+        data: {
+          wlan: createdWlan,
+          wlanId: createdWlan.id,
+          ...(generated && { passphrase }),
+          message: `SSID '${validatedParams.name}' created on network '${network.name}'`
+        },
+        ...(warnings.length > 0 && { warnings }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to create WLAN', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'WLAN_CREATE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Update WLAN Tool
+// ================================
+
+const updateWlanTool: MCPTool = {
+  name: 'unifi_update_wlan',
+  description: 'Update a wireless network (SSID)',
+  category: ToolCategory.NETWORKS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      wlanId: {
+        type: 'string',
+        description: 'WLAN ID to update',
+        minLength: 1
+      },
+      name: {
+        type: 'string',
+        description: 'New SSID',
+        minLength: 1,
+        maxLength: 32
+      },
+      ...wlanPropertySchema
+    },
+    required: ['wlanId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const validatedParams = await ValidationService.validateUpdateWlanParams(params);
+      const { wlanId, ...updates } = validatedParams;
+
+      logger.info('Updating WLAN', { wlanId, updates: Object.keys(updates) });
+
+      const existingRaw = await fetchRawWlan(client, wlanId);
+      const existing = mapWlanConf(existingRaw);
+      const security = updates.security ?? existing.security;
+
+      if (security === 'open' && updates.passphrase !== undefined) {
+        throw new ValidationError('Open SSIDs do not use a passphrase', 'passphrase');
+      }
+      if (updates.security !== undefined && updates.security !== 'open' &&
+          !existingRaw.x_passphrase && updates.passphrase === undefined) {
+        throw new ValidationError(
+          `Switching '${existing.name}' to ${updates.security} requires a passphrase`,
+          'passphrase'
+        );
+      }
+
+      const networks = await fetchNetworks(client);
+      const warnings: string[] = [];
+      const updatedWlanData = { ...existingRaw, ...buildWlanPayload(updates) };
+
+      if (updates.networkId !== undefined) {
+        const network = resolveWlanNetwork(networks, updates.networkId);
+        updatedWlanData.is_guest = network.purpose === NetworkPurpose.GUEST;
+      }
+
+      if (updates.name !== undefined && updates.name !== existing.name) {
+        const rawWlans = await fetchRawWlans(client);
+        if (rawWlans.some(raw => raw.name === updates.name && (raw._id ?? raw.id) !== wlanId)) {
+          throw new ResourceConflictError(`An SSID named '${updates.name}' already exists`);
+        }
+      }
+
+      if (updates.apGroupIds !== undefined) {
+        const apGroupWarning = await assertApGroups(client, updates.apGroupIds);
+        if (apGroupWarning) warnings.push(apGroupWarning);
+      }
+
+      const response = await client.put(UNIFI_ENDPOINTS.WLAN_DETAILS.replace('{id}', wlanId), updatedWlanData);
+
+      if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+        throw new UniFiMCPError('Failed to update WLAN', ErrorCode.WLAN_UPDATE_FAILED);
+      }
+
+      const updatedWlan = mapWlanConf(response.data[0], networks);
+
+      if (updates.security !== undefined || updates.passphrase !== undefined ||
+          updates.name !== undefined || updates.networkId !== undefined) {
+        warnings.push('Connected clients will be disconnected and must rejoin the SSID');
+      }
+
+      return {
+        success: true,
+        data: {
+          wlan: updatedWlan,
+          wlanId: updatedWlan.id,
+          updatedFields: Object.keys(updates),
+          message: `SSID '${updatedWlan.name}' updated successfully`
+        },
+        ...(warnings.length > 0 && { warnings }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to update WLAN', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'WLAN_UPDATE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Toggle WLAN Tool
+// ================================
+
+const toggleWlanTool: MCPTool = {
+  name: 'unifi_toggle_wlan',
+  description: 'Enable or disable a wireless network (SSID)',
+  category: ToolCategory.NETWORKS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      wlanId: {
+        type: 'string',
+        description: 'WLAN ID',
+        minLength: 1
+      },
+      enabled: {
+        type: 'boolean',
+        description: 'Whether the SSID should be broadcast'
+      }
+    },
+    required: ['wlanId', 'enabled'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const { wlanId, enabled } = params;
+
+      logger.info('Toggling WLAN', { wlanId, enabled });
+
+      const existingRaw = await fetchRawWlan(client, wlanId);
+      const previousState = existingRaw.enabled !== false;
+
+      if (previousState === enabled) {
+        return {
+          success: true,
+          data: {
+            wlanId,
+            name: existingRaw.name,
+            enabled,
+            changed: false,
+            message: `SSID '${existingRaw.name}' is already ${enabled ? 'enabled' : 'disabled'}`
+          },
+          metadata: {
+            executionTime: 0,
+            timestamp: new Date()
+          }
+        };
+      }
+
+      const response = await client.put(
+        UNIFI_ENDPOINTS.WLAN_DETAILS.replace('{id}', wlanId),
+        { ...existingRaw, enabled }
+      );
+
+      if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+        throw new UniFiMCPError('Failed to update WLAN', ErrorCode.WLAN_UPDATE_FAILED);
+      }
+
+      return {
+        success: true,
+        data: {
+          wlanId,
+          name: existingRaw.name,
+          previousState,
+          enabled,
+          changed: true,
+          message: `SSID '${existingRaw.name}' ${enabled ? 'enabled' : 'disabled'} successfully`
+        },
+        ...(!enabled && { warnings: ['Clients connected to this SSID have been disconnected'] }),
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to toggle WLAN', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'WLAN_TOGGLE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Delete WLAN Tool
+// ================================
+
+const deleteWlanTool: MCPTool = {
+  name: 'unifi_delete_wlan',
+  description: 'Delete a wireless network (SSID)',
+  category: ToolCategory.NETWORKS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      wlanId: {
+        type: 'string',
+        description: 'WLAN ID to delete',
+        minLength: 1
+      }
+    },
+    required: ['wlanId'],
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const { wlanId } = params;
+
+      logger.info('Deleting WLAN', { wlanId });
+
+      const existing = mapWlanConf(await fetchRawWlan(client, wlanId));
+
+      const response = await client.delete(UNIFI_ENDPOINTS.WLAN_DETAILS.replace('{id}', wlanId));
+
+      if (response.meta.rc !== 'ok') {
+        throw new UniFiMCPError(`Failed to delete WLAN: ${response.meta.msg}`, ErrorCode.WLAN_DELETION_FAILED);
+      }
+
+      return {
+        success: true,
+        data: {
+          deletedWlan: {
+            id: existing.id,
+            name: existing.name,
+            security: existing.security,
+            networkId: existing.networkId
+          },
+          message: `SSID '${existing.name}' deleted successfully`
+        },
+        warnings: [
+          'WLAN deletion is permanent and cannot be undone',
+          'Clients connected to this SSID have been disconnected'
+        ],
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete WLAN', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'WLAN_DELETE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+// ================================
+// Rotate WLAN Passphrase Tool
+// ================================
+
+const rotateWlanPSKTool: MCPTool = {
+  name: 'unifi_rotate_wlan_psk',
+  description: 'Replace the passphrase of a WPA2/WPA3 personal SSID with a newly generated one. The new passphrase is returned once.',
+  category: ToolCategory.NETWORKS,
+  requiresConnection: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      wlanId: {
+        type: 'string',
+        description: 'WLAN ID (either wlanId or ssid is required)'
+      },
+      ssid: {
+        type: 'string',
+        description: 'SSID name (either wlanId or ssid is required)'
+      },
+      length: {
+        type: 'number',
+        description: 'Passphrase length',
+        minimum: 12,
+        maximum: 63,
+        default: 24
+      }
+    },
+    additionalProperties: false
+  },
+  handler: async (params: any): Promise<ToolResult> => {
+    try {
+      const client = params._client as UniFiClient;
+      const validatedParams = await ValidationService.validateRotateWlanPSKParams(params);
+
+      logger.info('Rotating WLAN passphrase', { wlanId: validatedParams.wlanId, ssid: validatedParams.ssid });
+
+      let existingRaw: any;
+      if (validatedParams.wlanId) {
+        existingRaw = await fetchRawWlan(client, validatedParams.wlanId);
+      } else {
+        const matches = (await fetchRawWlans(client)).filter(raw => raw.name === validatedParams.ssid);
+        if (matches.length === 0) {
+          throw new ResourceNotFoundError('WLAN', validatedParams.ssid!);
+        }
+        if (matches.length > 1) {
+          throw new ResourceConflictError(
+            `Several SSIDs are named '${validatedParams.ssid}'; use wlanId instead`,
+            undefined,
+            { wlanIds: matches.map(raw => raw._id) }
+          );
+        }
+        existingRaw = matches[0];
+      }
+
+      const existing = mapWlanConf(existingRaw);
+      if (!['wpa2', 'wpa3', 'wpa2-wpa3'].includes(existing.security)) {
+        throw new ValidationError(
+          `SSID '${existing.name}' uses ${existing.security} security and has no pre-shared key`,
+          'wlanId',
+          existing.id
+        );
+      }
+
+      const passphrase = generatePassphrase(validatedParams.length);
+
+      const response = await client.put(
+        UNIFI_ENDPOINTS.WLAN_DETAILS.replace('{id}', existing.id),
+        { ...existingRaw, x_passphrase: passphrase }
+      );
+
+      if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+        throw new UniFiMCPError('Failed to update WLAN passphrase', ErrorCode.WLAN_UPDATE_FAILED);
+      }
+
+      logger.info('WLAN passphrase rotated', { wlanId: existing.id, name: existing.name });
+
+      return {
+        success: true,
+        data: {
+          wlanId: existing.id,
+          ssid: existing.name,
+          passphrase,
+          rotatedAt: new Date().toISOString(),
+          message: `Passphrase for '${existing.name}' rotated successfully`
+        },
+        warnings: [
+          'The new passphrase is only returned once; store or distribute it now',
+          'Connected clients will be disconnected and must rejoin with the new passphrase'
+        ],
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to rotate WLAN passphrase', error);
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof UniFiMCPError ? error.code : 'WLAN_PSK_ROTATE_ERROR',
+          message: (error as Error).message,
+          details: error instanceof UniFiMCPError ? error.details : undefined
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+};
+
+export {
+  getWlansTool,
+  createWlanTool,
+  updateWlanTool,
+  toggleWlanTool,
+  deleteWlanTool,
+  rotateWlanPSKTool
+};
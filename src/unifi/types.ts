@@ -279,6 +279,159 @@ export interface DetailedNetwork extends Network {
   ipv6InterfaceType?: string;
   ipv6RaEnabled?: boolean;
   dhcpv6Enabled?: boolean;
+  dnsServers?: string[];
+  igmpSnooping?: boolean;
+  guestIsolation?: boolean;
+}
+
+// ================================
+// Wireless Network Types
+// ================================
+
+export type WlanSecurityMode = 'open' | 'wpa2' | 'wpa3' | 'wpa2-wpa3' | 'enterprise' | 'wep';
+
+export interface WlanScheduleEntry {
+  days: string[];
+  startTime: string;
+  endTime: string;
+}
+
+export interface WirelessNetwork {
+  id: string;
+  name: string;
+  enabled: boolean;
+  security: WlanSecurityMode;
+  networkId?: string;
+  networkName?: string;
+  isGuest: boolean;
+  hidden: boolean;
+  clientIsolation: boolean;
+  bands: string[];
+  bandSteering?: string;
+  pmfMode?: string;
+  apGroupIds: string[];
+  schedule: WlanScheduleEntry[];
+}
+
+// ================================
+// Port Forwarding Types
+// ================================
+
+export interface PortForwardTarget {
+  ip: string;
+  mac?: string;
+  name?: string;
+  online: boolean;
+  fixedIp: boolean;
+}
+
+export interface PortForward {
+  id: string;
+  name: string;
+  enabled: boolean;
+  protocol: 'tcp' | 'udp' | 'tcp_udp';
+  externalPort: string;
+  internalIp: string;
+  internalPort: string;
+  sourceRestriction: string;
+  wanInterface: string;
+  logging: boolean;
+  target?: PortForwardTarget;
+}
+
+// ================================
+// Static Routing Types
+// ================================
+
+export interface StaticRoute {
+  id: string;
+  name: string;
+  enabled: boolean;
+  type: 'nexthop-route' | 'interface-route' | 'blackhole';
+  destination: string;
+  nextHop?: string;
+  interface?: string;
+  interfaceName?: string;
+  distance: number;
+}
+
+// ================================
+// Dynamic DNS Types
+// ================================
+
+export interface DynamicDNSEntry {
+  id: string;
+  service: string;
+  hostname: string;
+  login?: string;
+  server?: string;
+  wanInterface: string;
+  hasPassword: boolean;
+}
+
+export interface DynamicDNSStatus {
+  id: string;
+  service: string;
+  hostname: string;
+  wanInterface: string;
+  wanIp: string | null;
+  resolvedIps: string[];
+  status: 'in_sync' | 'stale' | 'unresolved' | 'unknown_wan_ip';
+  error?: string;
+}
+
+// ================================
+// Guest Hotspot Types
+// ================================
+
+export interface HotspotVoucher {
+  id: string;
+  code: string;
+  createTime: Date;
+  durationMinutes: number;
+  quota: number;
+  used: number;
+  status: string;
+  uploadLimitKbps?: number;
+  downloadLimitKbps?: number;
+  byteLimitMB?: number;
+  note?: string;
+  createdBy?: string;
+  expiresAt?: Date;
+}
+
+export interface GuestAuthorization {
+  mac: string;
+  hostname?: string;
+  ip?: string;
+  authorizedBy: string;
+  voucherCode?: string;
+  voucherId?: string;
+  start?: Date;
+  end?: Date;
+  expired: boolean;
+  rxBytes: number;
+  txBytes: number;
+}
+
+// ================================
+// User Group Types
+// ================================
+
+export interface UserGroup {
+  id: string;
+  name: string;
+  downloadLimitKbps: number | null;
+  uploadLimitKbps: number | null;
+  isDefault: boolean;
+  clientCount: number;
+}
+
+export interface UserGroupAssignment {
+  mac: string;
+  name: string;
+  fromGroupId?: string;
+  fromGroupName?: string;
 }
 
 // ================================
@@ -315,6 +468,8 @@ export interface DetailedFirewallRule extends FirewallRule {
   dstNetworkconfId: string;
   dstNetworkconfType: string;
   ruleSet: string;
+  states: Array<'new' | 'established' | 'related' | 'invalid'>;
+  description?: string;
 }
 
 // ================================
@@ -324,6 +479,7 @@ export interface DetailedFirewallRule extends FirewallRule {
 export const FirewallZoneSchema = z.object({
   id: z.string(),
   name: z.string(),
+  key: z.string().optional(),
   description: z.string().optional(),
   predefined: z.boolean().default(false),
   networks: z.array(z.string()),
@@ -343,35 +499,83 @@ export enum PredefinedZone {
   DMZ = 'dmz'
 }
 
+export const ZonePolicyEndpointSchema = z.object({
+  ips: z.array(z.string()).optional(),
+  ipGroupId: z.string().optional(),
+  networkIds: z.array(z.string()).optional(),
+  ports: z.array(z.string()).optional(),
+  portGroupId: z.string().optional()
+});
+
+export type ZonePolicyEndpoint = z.infer<typeof ZonePolicyEndpointSchema>;
+
+export const ZonePolicyScheduleSchema = z.object({
+  mode: z.enum(['always', 'daily', 'weekly']),
+  days: z.array(z.string()).optional(),
+  startTime: z.string().optional(),
+  endTime: z.string().optional()
+});
+
+export type ZonePolicySchedule = z.infer<typeof ZonePolicyScheduleSchema>;
+
 export const ZonePolicySchema = z.object({
   id: z.string(),
+  name: z.string().optional(),
+  description: z.string().optional(),
   sourceZone: z.string(),
   targetZone: z.string(),
   action: z.nativeEnum(FirewallAction),
+  protocol: z.enum(['all', 'tcp', 'udp', 'tcp_udp', 'icmp', 'icmpv6']).default('all'),
+  ipVersion: z.enum(['both', 'ipv4', 'ipv6']).default('both'),
+  source: ZonePolicyEndpointSchema.optional(),
+  destination: ZonePolicyEndpointSchema.optional(),
   applications: z.array(z.string()).optional(),
   ports: z.array(z.string()).optional(),
+  schedule: ZonePolicyScheduleSchema.optional(),
+  connectionStates: z.array(z.enum(['new', 'established', 'related', 'invalid'])).optional(),
   logging: z.boolean().default(false),
   enabled: z.boolean().default(true),
+  predefined: z.boolean().default(false),
   priority: z.number().min(1).max(9999).default(2000)
-});
+}).refine(
+  (policy) => policy.action !== FirewallAction.DROP,
+  { message: 'Zone policies support allow, deny and reject actions only' }
+);
 
 export type ZonePolicy = z.infer<typeof ZonePolicySchema>;
 
+export interface ZoneMatrixCell {
+  defaultAction: 'allow' | 'deny';
+  defaultSource: 'predefined-policy' | 'builtin';
+  policyCount: number;
+  disabledPolicyCount: number;
+  firstPolicies: string[];
+  effective: 'allow' | 'deny' | 'custom';
+}
+
 export interface ZonePolicyMatrix {
   zones: string[];
   policies: Record<string, Record<string, 'allow' | 'deny' | 'custom'>>;
+  cells: Record<string, Record<string, ZoneMatrixCell>>;
 }
 
 export interface SimpleAppBlock {
   id: string;
-  zoneId: string;
-  appCategory: string;
+  name: string;
   enabled: boolean;
-  schedule?: {
-    days: string[];
-    startTime: string;
-    endTime: string;
-  };
+  targetType: 'clients' | 'networks' | 'groups';
+  clientMacs: string[];
+  networkIds: string[];
+  groupIds: string[];
+  appIds: number[];
+  categoryIds: number[];
+  schedule?: ZonePolicySchedule;
+}
+
+export interface DpiCatalogEntry {
+  id: number;
+  name: string;
+  categoryId?: number;
 }
 
 // ================================
@@ -611,7 +815,12 @@ export const ZoneParamsSchema = z.object({
 
 export const NetworkParamsSchema = z.object({
   networkId: z.string().optional(),
-  networkType: z.nativeEnum(NetworkPurpose).optional()
+  networkType: z.nativeEnum(NetworkPurpose).optional(),
+  enabledOnly: z.boolean().default(false),
+  vlanId: z.number().min(1).max(4094).optional(),
+  sortBy: z.enum(['name', 'purpose', 'vlanId', 'subnet']).optional(),
+  sortOrder: z.enum(['asc', 'desc']).default('asc'),
+  limit: z.number().min(1).max(1000).default(100)
 });
 
 export const MonitoringParamsSchema = z.object({
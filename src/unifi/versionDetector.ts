@@ -256,6 +256,23 @@ export class VersionDetector {
     availability['unifi_get_client_details'] = { available: true };
     availability['unifi_block_client'] = { available: true };
     availability['unifi_unblock_client'] = { available: true };
+    availability['unifi_set_client_alias'] = { available: true };
+    availability['unifi_set_client_aliases'] = { available: true };
+    availability['unifi_get_fixed_ips'] = { available: true };
+    availability['unifi_set_fixed_ip'] = { available: true };
+    availability['unifi_clear_fixed_ip'] = { available: true };
+    availability['unifi_get_user_groups'] = { available: true };
+    availability['unifi_create_user_group'] = { available: true };
+    availability['unifi_update_user_group'] = { available: true };
+    availability['unifi_delete_user_group'] = { available: true };
+    availability['unifi_assign_user_group'] = { available: true };
+
+    // Guest hotspot tools (always available)
+    availability['unifi_create_vouchers'] = { available: true };
+    availability['unifi_get_vouchers'] = { available: true };
+    availability['unifi_revoke_voucher'] = { available: true };
+    availability['unifi_get_guest_authorizations'] = { available: true };
+    availability['unifi_export_vouchers'] = { available: true };
 
     // Legacy firewall tools
     if (capabilities.supportsLegacyFirewall) {
@@ -283,12 +300,19 @@ export class VersionDetector {
           reason: 'Available but deprecated. Consider using Zone-Based Firewall tools.'
         })
       };
+      availability['unifi_reorder_firewall_rules'] = {
+        available: true,
+        ...(capabilities.deprecatedEndpoints.length > 0 && {
+          reason: 'Available but deprecated. Consider using Zone-Based Firewall tools.'
+        })
+      };
     } else {
       this.markToolsUnavailable(availability, [
         'unifi_get_firewall_rules',
         'unifi_create_firewall_rule',
         'unifi_update_firewall_rule',
-        'unifi_delete_firewall_rule'
+        'unifi_delete_firewall_rule',
+        'unifi_reorder_firewall_rules'
       ], 'Legacy firewall not supported in this version', 'Use Zone-Based Firewall tools instead');
     }
 
@@ -299,12 +323,20 @@ export class VersionDetector {
         'unifi_create_zone',
         'unifi_update_zone',
         'unifi_delete_zone',
+        'unifi_move_network_to_zone',
         'unifi_get_zone_policies',
         'unifi_create_zone_policy',
         'unifi_update_zone_policy',
+        'unifi_reorder_zone_policies',
+        'unifi_toggle_zone_policy',
         'unifi_delete_zone_policy',
         'unifi_get_zone_matrix',
-        'unifi_block_app_in_zone'
+        'unifi_plan_zbf_migration',
+        'unifi_get_app_blocks',
+        'unifi_search_dpi_apps',
+        'unifi_block_app_in_zone',
+        'unifi_update_app_block',
+        'unifi_delete_app_block'
       ];
 
       zbfTools.forEach(tool => {
@@ -316,20 +348,71 @@ export class VersionDetector {
         'unifi_create_zone',
         'unifi_update_zone',
         'unifi_delete_zone',
+        'unifi_move_network_to_zone',
         'unifi_get_zone_policies',
         'unifi_create_zone_policy',
         'unifi_update_zone_policy',
+        'unifi_reorder_zone_policies',
+        'unifi_toggle_zone_policy',
         'unifi_delete_zone_policy',
         'unifi_get_zone_matrix',
-        'unifi_block_app_in_zone'
+        'unifi_plan_zbf_migration',
+        'unifi_get_app_blocks',
+        'unifi_search_dpi_apps',
+        'unifi_block_app_in_zone',
+        'unifi_update_app_block',
+        'unifi_delete_app_block'
       ], 'Zone-Based Firewall not supported', 'Requires UniFi Network 9.0+ and compatible hardware');
     }
 
+    // Firewall analysis tools (legacy and zone-based)
+    availability['unifi_check_reachability'] = { available: true };
+    availability['unifi_analyze_firewall_rules'] = { available: true };
+    availability['unifi_export_firewall_ruleset'] = {
+      available: capabilities.supportsLegacyFirewall,
+      ...(!capabilities.supportsLegacyFirewall && { reason: 'Exports legacy firewall rule sets only' })
+    };
+    availability['unifi_plan_firewall_document'] = { available: true };
+    availability['unifi_apply_firewall_document'] = { available: true };
+    availability['unifi_get_firewall_templates'] = { available: true };
+    availability['unifi_apply_firewall_template'] = { available: true };
+    availability['unifi_get_firewall_expirations'] = { available: true };
+    availability['unifi_cancel_firewall_expiration'] = { available: true };
+
     // Network management tools (always available)
     availability['unifi_get_networks'] = { available: true };
     availability['unifi_create_network'] = { available: true };
     availability['unifi_update_network'] = { available: true };
     availability['unifi_delete_network'] = { available: true };
+    availability['unifi_analyze_ip_plan'] = { available: true };
+    availability['unifi_get_wlans'] = { available: true };
+    availability['unifi_create_wlan'] = { available: true };
+    availability['unifi_update_wlan'] = { available: true };
+    availability['unifi_toggle_wlan'] = { available: true };
+    availability['unifi_delete_wlan'] = { available: true };
+    availability['unifi_rotate_wlan_psk'] = { available: true };
+    availability['unifi_get_port_forwards'] = { available: true };
+    availability['unifi_create_port_forward'] = { available: true };
+    availability['unifi_update_port_forward'] = { available: true };
+    availability['unifi_toggle_port_forward'] = { available: true };
+    availability['unifi_delete_port_forward'] = { available: true };
+    availability['unifi_get_static_routes'] = { available: true };
+    availability['unifi_create_static_route'] = { available: true };
+    availability['unifi_update_static_route'] = { available: true };
+    availability['unifi_delete_static_route'] = { available: true };
+    availability['unifi_get_ddns'] = { available: true };
+    availability['unifi_create_ddns'] = { available: true };
+    availability['unifi_update_ddns'] = { available: true };
+    availability['unifi_delete_ddns'] = { available: true };
+    availability['unifi_check_ddns_status'] = { available: true };
+
+    // IP and port group tools (always available)
+    availability['unifi_get_ip_groups'] = { available: true };
+    availability['unifi_create_ip_group'] = { available: true };
+    availability['unifi_update_ip_group'] = { available: true };
+    availability['unifi_delete_ip_group'] = { available: true };
+    availability['unifi_add_to_ip_group'] = { available: true };
+    availability['unifi_remove_from_ip_group'] = { available: true };
 
     // Advanced monitoring tools
     if (this.isVersionAtLeast(capabilities.version, VERSION_REQUIREMENTS.ADVANCED_STATS_MINIMUM)) {
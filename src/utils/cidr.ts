@@ -0,0 +1,154 @@
+/**
+ * IPv4 Address and CIDR Arithmetic
+ *
+ * Helpers for subnet math used by network planning and firewall analysis
+ * tools. All addresses are handled as unsigned 32-bit integers.
+ */
+
+// ================================
+// Types
+// ================================
+
+export interface ParsedCIDR {
+  /** Network address in dotted notation (host bits cleared) */
+  network: string;
+  /** Prefix length (0-32) */
+  prefix: number;
+  /** First address of the block as an integer */
+  start: number;
+  /** Last address of the block as an integer */
+  end: number;
+  /** Number of addresses in the block */
+  size: number;
+}
+
+// ================================
+// Conversion
+// ================================
+
+/**
+ * Convert a dotted IPv4 address to an unsigned integer
+ */
+export function ipToNumber(ip: string): number {
+  const octets = ip.trim().split('.');
+  if (octets.length !== 4) {
+    throw new Error(`Invalid IPv4 address: ${ip}`);
+  }
+
+  return octets.reduce((acc, octet) => {
+    const value = Number(octet);
+    if (!/^\d{1,3}$/.test(octet) || value > 255) {
+      throw new Error(`Invalid IPv4 address: ${ip}`);
+    }
+    return ((acc << 8) + value) >>> 0;
+  }, 0);
+}
+
+/**
+ * Convert an unsigned integer to a dotted IPv4 address
+ */
+export function numberToIp(value: number): string {
+  return [24, 16, 8, 0].map(shift => (value >>> shift) & 0xff).join('.');
+}
+
+/**
+ * Get the netmask for a prefix length as an integer
+ */
+export function prefixToMask(prefix: number): number {
+  return prefix === 0 ? 0 : (0xffffffff << (32 - prefix)) >>> 0;
+}
+
+/**
+ * Check whether a string is a plain IPv4 address
+ */
+export function isIPv4(value: string): boolean {
+  try {
+    ipToNumber(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ================================
+// CIDR Parsing
+// ================================
+
+/**
+ * Parse a CIDR block. Host bits are cleared, so "192.168.1.1/24" yields
+ * the 192.168.1.0/24 block. A bare address is treated as a /32.
+ */
+export function parseCIDR(cidr: string): ParsedCIDR {
+  const [address, prefixStr] = cidr.trim().split('/');
+  const prefix = prefixStr === undefined ? 32 : Number(prefixStr);
+
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > 32) {
+    throw new Error(`Invalid CIDR prefix: ${cidr}`);
+  }
+
+  const mask = prefixToMask(prefix);
+  const start = (ipToNumber(address) & mask) >>> 0;
+  const size = 2 ** (32 - prefix);
+
+  return {
+    network: numberToIp(start),
+    prefix,
+    start,
+    end: start + size - 1,
+    size
+  };
+}
+
+/**
+ * Normalize a CIDR block to its network address ("10.0.0.1/8" -> "10.0.0.0/8")
+ */
+export function normalizeCIDR(cidr: string): string {
+  const parsed = parseCIDR(cidr);
+  return `${parsed.network}/${parsed.prefix}`;
+}
+
+// ================================
+// Containment and Overlap
+// ================================
+
+/**
+ * Check whether an address falls inside a CIDR block
+ */
+export function cidrContainsIP(cidr: string, ip: string): boolean {
+  const block = parseCIDR(cidr);
+  const value = ipToNumber(ip);
+  return value >= block.start && value <= block.end;
+}
+
+/**
+ * Check whether the outer block fully contains the inner block
+ */
+export function cidrContains(outer: string, inner: string): boolean {
+  const a = parseCIDR(outer);
+  const b = parseCIDR(inner);
+  return b.start >= a.start && b.end <= a.end;
+}
+
+/**
+ * Check whether two CIDR blocks share any address
+ */
+export function cidrsOverlap(first: string, second: string): boolean {
+  const a = parseCIDR(first);
+  const b = parseCIDR(second);
+  return a.start <= b.end && b.start <= a.end;
+}
+
+/**
+ * Check whether an address lies within an inclusive start/end range
+ */
+export function ipInRange(ip: string, rangeStart: string, rangeEnd: string): boolean {
+  const value = ipToNumber(ip);
+  return value >= ipToNumber(rangeStart) && value <= ipToNumber(rangeEnd);
+}
+
+/**
+ * Count the addresses in an inclusive start/end range
+ */
+export function rangeSize(rangeStart: string, rangeEnd: string): number {
+  return Math.max(0, ipToNumber(rangeEnd) - ipToNumber(rangeStart) + 1);
+}
@@ -45,6 +45,19 @@ export function formatDuration(ms: number): string {
   return `${(ms / 3600000).toFixed(1)}h`;
 }
 
+/**
+ * Parse a compact duration such as "90s", "30m", "1h30m" or "2d" into milliseconds
+ */
+export function parseDuration(value: string): number | null {
+  const match = /^(?:(\d+)d)?(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/.exec(value.trim().toLowerCase());
+  if (!match || match.slice(1).every(part => part === undefined)) {
+    return null;
+  }
+
+  const [days, hours, minutes, seconds] = match.slice(1).map(part => Number(part ?? 0));
+  return (((days * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+}
+
 /**
  * Deep clone an object
  */
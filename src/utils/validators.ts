@@ -9,7 +9,8 @@ import {
   ClientParamsSchema,
   MonitoringParamsSchema,
   FirewallRuleParamsSchema,
-  ZoneParamsSchema
+  ZoneParamsSchema,
+  NetworkParamsSchema
 } from '../unifi/types.js';
 
 /**
@@ -138,21 +139,124 @@ export const CreateZoneParamsSchema = z.object({
   enabled: z.boolean().default(true)
 });
 
-export const CreateZonePolicyParamsSchema = z.object({
+export const UpdateZoneParamsSchema = CreateZoneParamsSchema.partial().extend({
+  zoneId: z.string().min(1)
+});
+
+export const MoveNetworkToZoneParamsSchema = z.object({
+  networkId: z.string().min(1),
+  zoneId: z.string().min(1)
+});
+
+export const ScheduleParamsSchema = z.object({
+  days: z.array(DayOfWeekSchema).min(1),
+  startTime: ScheduleTimeSchema,
+  endTime: ScheduleTimeSchema,
+  timezone: z.string().optional()
+}).refine(
+  (schedule) => {
+    const start = schedule.startTime.split(':').map(Number);
+    const end = schedule.endTime.split(':').map(Number);
+    const startMinutes = start[0] * 60 + start[1];
+    const endMinutes = end[0] * 60 + end[1];
+    return startMinutes < endMinutes;
+  },
+  { message: 'Start time must be before end time' }
+);
+
+export const ZonePolicyEndpointParamsSchema = z.object({
+  ips: z.array(z.union([IPAddressSchema, CIDRSchema])).min(1).optional(),
+  ipGroupId: z.string().min(1).optional(),
+  networkIds: z.array(z.string().min(1)).min(1).optional(),
+  ports: z.array(PortRangeSchema).min(1).optional(),
+  portGroupId: z.string().min(1).optional()
+}).refine(
+  (endpoint) => [endpoint.ips, endpoint.ipGroupId, endpoint.networkIds].filter(v => v !== undefined).length <= 1,
+  { message: 'Use only one of ips, ipGroupId or networkIds per endpoint' }
+).refine(
+  (endpoint) => !(endpoint.ports && endpoint.portGroupId),
+  { message: 'Use either ports or portGroupId, not both' }
+);
+
+export const ZonePolicyConnectionStateSchema = z.enum(['new', 'established', 'related', 'invalid']);
+
+const ZonePolicyFieldsSchema = z.object({
+  name: z.string().min(1).max(128),
+  description: z.string().max(255).optional(),
   sourceZone: z.string().min(1),
   targetZone: z.string().min(1),
   action: z.enum(['allow', 'deny', 'reject']),
+  protocol: z.enum(['all', 'tcp', 'udp', 'tcp_udp', 'icmp', 'icmpv6']).default('all'),
+  ipVersion: z.enum(['both', 'ipv4', 'ipv6']).default('both'),
+  source: ZonePolicyEndpointParamsSchema.optional(),
+  destination: ZonePolicyEndpointParamsSchema.optional(),
   applications: z.array(z.string()).optional(),
   ports: z.array(PortRangeSchema).optional(),
+  schedule: ScheduleParamsSchema.optional(),
+  connectionStates: z.array(ZonePolicyConnectionStateSchema).min(1).optional(),
   logging: z.boolean().default(false),
   enabled: z.boolean().default(true),
-  priority: z.number().min(1).max(9999).default(2000),
-  description: z.string().max(255).optional()
-}).refine(
+  priority: z.number().min(1).max(9999).default(2000)
+});
+
+export const CreateZonePolicyParamsSchema = ZonePolicyFieldsSchema.refine(
   (data) => data.sourceZone !== data.targetZone,
   { message: 'Source and target zones must be different' }
 );
 
+export const UpdateZonePolicyParamsSchema = ZonePolicyFieldsSchema.partial().extend({
+  policyId: z.string().min(1)
+});
+
+export const ReorderZonePoliciesParamsSchema = z.object({
+  policyIds: z.array(z.string().min(1)).min(2).refine(
+    (ids) => new Set(ids).size === ids.length,
+    { message: 'Policy IDs must be unique' }
+  )
+});
+
+export const AppBlockScheduleSchema = z.object({
+  days: z.array(DayOfWeekSchema).min(1).optional(),
+  startTime: ScheduleTimeSchema,
+  endTime: ScheduleTimeSchema
+}).refine(
+  (schedule) => schedule.startTime !== schedule.endTime,
+  { message: 'Start and end time must differ; omit the schedule to block at all times' }
+);
+
+const AppBlockFieldsSchema = z.object({
+  name: z.string().min(1).max(128).optional(),
+  apps: z.array(z.string().min(1).max(64)).max(50).default([]),
+  categories: z.array(z.string().min(1).max(64)).max(20).default([]),
+  clients: z.array(z.string().min(1).max(128)).max(200).optional(),
+  networks: z.array(z.string().min(1)).max(50).optional(),
+  groups: z.array(z.string().min(1)).max(50).optional(),
+  schedule: AppBlockScheduleSchema.optional(),
+  enabled: z.boolean().default(true)
+});
+
+const hasOneTargetType = (params: { clients?: string[] | undefined; networks?: string[] | undefined; groups?: string[] | undefined }) =>
+  [params.clients, params.networks, params.groups].filter(target => target && target.length > 0).length === 1;
+
+export const CreateAppBlockParamsSchema = AppBlockFieldsSchema.refine(
+  (params) => params.apps.length + params.categories.length > 0,
+  { message: 'Specify at least one app or category to block' }
+).refine(
+  hasOneTargetType,
+  { message: 'Target exactly one of clients, networks or groups' }
+);
+
+export const UpdateAppBlockParamsSchema = AppBlockFieldsSchema.partial().extend({
+  blockId: z.string().min(1),
+  removeSchedule: z.boolean().optional()
+}).refine(
+  (params) => [params.clients, params.networks, params.groups].every(target => target === undefined) || hasOneTargetType(params),
+  { message: 'Target exactly one of clients, networks or groups' }
+).refine(
+  (params) => !(params.schedule && params.removeSchedule),
+  { message: 'Use either schedule or removeSchedule, not both' }
+);
+
 export const CreateNetworkParamsSchema = z.object({
   name: z.string().min(1).max(50),
   purpose: z.enum(['corporate', 'guest', 'wan', 'vlan-only', 'vpn']),
@@ -165,32 +269,413 @@ export const CreateNetworkParamsSchema = z.object({
     end: IPAddressSchema
   }).optional(),
   domainName: z.string().max(100).optional(),
+  dnsServers: z.array(IPAddressSchema).max(4).optional(),
+  igmpSnooping: z.boolean().optional(),
+  guestIsolation: z.boolean().optional(),
   enabled: z.boolean().default(true)
 });
 
-export const CreateIPGroupParamsSchema = z.object({
-  name: z.string().min(1).max(50),
-  type: z.enum(['address-group', 'port-group', 'ipv6-address-group']),
-  members: z.array(z.string()).min(1),
-  description: z.string().max(255).optional()
+export const UpdateNetworkParamsSchema = CreateNetworkParamsSchema.partial().extend({
+  networkId: z.string().min(1)
 });
 
-export const ScheduleParamsSchema = z.object({
+export const DeleteNetworkParamsSchema = z.object({
+  networkId: z.string().min(1),
+  force: z.boolean().default(false)
+});
+
+export const AnalyzeIPPlanParamsSchema = z.object({
+  supernet: CIDRSchema.optional(),
+  prefixLength: z.number().int().min(8).max(30).default(24),
+  utilizationThreshold: z.number().min(1).max(100).default(80),
+  suggestionCount: z.number().int().min(1).max(16).default(1)
+});
+
+export const SetFixedIPParamsSchema = z.object({
+  clientId: MACAddressSchema,
+  ip: IPAddressSchema,
+  networkId: z.string().min(1).optional(),
+  name: z.string().min(1).max(128).optional()
+});
+
+export const WlanPassphraseSchema = z.string().refine(
+  (passphrase) => /^[\x20-\x7e]{8,63}$/.test(passphrase) || /^[0-9a-fA-F]{64}$/.test(passphrase),
+  { message: 'Passphrase must be 8-63 printable ASCII characters or 64 hex digits' }
+);
+
+export const WlanScheduleEntrySchema = z.object({
   days: z.array(DayOfWeekSchema).min(1),
   startTime: ScheduleTimeSchema,
-  endTime: ScheduleTimeSchema,
-  timezone: z.string().optional()
+  endTime: ScheduleTimeSchema
 }).refine(
-  (schedule) => {
-    const start = schedule.startTime.split(':').map(Number);
-    const end = schedule.endTime.split(':').map(Number);
-    const startMinutes = start[0] * 60 + start[1];
-    const endMinutes = end[0] * 60 + end[1];
-    return startMinutes < endMinutes;
+  (entry) => entry.startTime !== entry.endTime,
+  { message: 'Start and end time must differ' }
+);
+
+export const CreateWlanParamsSchema = z.object({
+  name: z.string().min(1).max(32),
+  security: z.enum(['open', 'wpa2', 'wpa3', 'wpa2-wpa3']).default('wpa2'),
+  passphrase: WlanPassphraseSchema.optional(),
+  networkId: z.string().min(1),
+  hidden: z.boolean().default(false),
+  clientIsolation: z.boolean().default(false),
+  bands: z.array(z.enum(['2g', '5g', '6g'])).min(1).optional(),
+  bandSteering: z.enum(['off', 'equal', 'prefer_5g']).optional(),
+  apGroupIds: z.array(z.string().min(1)).optional(),
+  schedule: z.array(WlanScheduleEntrySchema).max(16).optional(),
+  enabled: z.boolean().default(true)
+});
+
+export const UpdateWlanParamsSchema = CreateWlanParamsSchema.partial().extend({
+  wlanId: z.string().min(1)
+});
+
+export const RotateWlanPSKParamsSchema = z.object({
+  wlanId: z.string().min(1).optional(),
+  ssid: z.string().min(1).max(32).optional(),
+  length: z.number().int().min(12).max(63).default(24)
+}).refine(
+  (params) => Boolean(params.wlanId || params.ssid),
+  { message: 'Either wlanId or ssid is required' }
+);
+
+export const CreateVouchersParamsSchema = z.object({
+  count: z.number().int().min(1).max(1000).default(1),
+  durationMinutes: z.number().int().min(1).max(525600),
+  quota: z.number().int().min(0).max(1000).default(1),
+  uploadLimitKbps: z.number().int().min(2).max(100000000).optional(),
+  downloadLimitKbps: z.number().int().min(2).max(100000000).optional(),
+  byteLimitMB: z.number().int().min(1).max(1048576).optional(),
+  note: z.string().max(100).optional()
+});
+
+export const ForwardedPortSchema = PortSchema.refine(
+  (port) => PortRangeSchema.safeParse(String(port)).success,
+  { message: 'Port must be between 1 and 65535, or a range such as 8000-8010' }
+);
+
+export const CreatePortForwardParamsSchema = z.object({
+  name: z.string().min(1).max(64),
+  externalPort: ForwardedPortSchema,
+  internalIp: IPAddressSchema,
+  internalPort: ForwardedPortSchema.optional(),
+  protocol: z.enum(['tcp', 'udp', 'tcp_udp']).default('tcp_udp'),
+  sourceRestriction: z.union([IPAddressSchema, CIDRSchema]).optional(),
+  wanInterface: z.enum(['wan', 'wan2', 'both']).default('wan'),
+  logging: z.boolean().default(false),
+  enabled: z.boolean().default(true)
+});
+
+export const UpdatePortForwardParamsSchema = CreatePortForwardParamsSchema.partial().extend({
+  portForwardId: z.string().min(1)
+});
+
+export const CreateStaticRouteParamsSchema = z.object({
+  name: z.string().min(1).max(64),
+  destination: CIDRSchema,
+  type: z.enum(['nexthop-route', 'interface-route', 'blackhole']).default('nexthop-route'),
+  nextHop: IPAddressSchema.optional(),
+  interface: z.string().min(1).optional(),
+  distance: z.number().int().min(1).max(255).default(1),
+  enabled: z.boolean().default(true)
+});
+
+export const UpdateStaticRouteParamsSchema = CreateStaticRouteParamsSchema.partial().extend({
+  routeId: z.string().min(1)
+});
+
+export const HostnameSchema = z.string().refine(
+  (hostname) => {
+    const hostnameRegex = /^(?=.{1,253}$)(\*\.)?([a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z]{2,63}$/;
+    return hostnameRegex.test(hostname);
   },
-  { message: 'Start time must be before end time' }
+  { message: 'Invalid hostname format' }
+);
+
+export const DDNS_SERVICES = [
+  'afraid', 'changeip', 'cloudflare', 'dnspark', 'dslreports', 'duckdns', 'dyndns',
+  'easydns', 'googledomains', 'namecheap', 'noip', 'sitelutions', 'zoneedit', 'custom'
+] as const;
+
+export const CreateDDNSParamsSchema = z.object({
+  service: z.enum(DDNS_SERVICES),
+  hostname: HostnameSchema,
+  login: z.string().min(1).max(128).optional(),
+  password: z.string().min(1).max(256).optional(),
+  server: z.string().min(1).max(253).optional(),
+  wanInterface: z.enum(['wan', 'wan2']).default('wan')
+});
+
+export const UpdateDDNSParamsSchema = CreateDDNSParamsSchema.partial().extend({
+  ddnsId: z.string().min(1)
+});
+
+export const BandwidthLimitSchema = z.number().int().refine(
+  (kbps) => kbps === -1 || (kbps >= 2 && kbps <= 10000000),
+  { message: 'Bandwidth limit must be -1 (unlimited) or between 2 and 10000000 Kbps' }
 );
 
+export const CreateUserGroupParamsSchema = z.object({
+  name: z.string().min(1).max(64),
+  downloadLimitKbps: BandwidthLimitSchema.default(-1),
+  uploadLimitKbps: BandwidthLimitSchema.default(-1)
+});
+
+export const UpdateUserGroupParamsSchema = CreateUserGroupParamsSchema.partial().extend({
+  groupId: z.string().min(1)
+});
+
+export const AssignUserGroupParamsSchema = z.object({
+  groupId: z.string().min(1),
+  macs: z.array(MACAddressSchema).max(500).optional(),
+  hostnames: z.array(z.string().min(1).max(128)).max(500).optional(),
+  filter: z.object({
+    namePattern: z.string().min(1).max(128).optional(),
+    networkId: z.string().min(1).optional(),
+    currentGroupId: z.string().min(1).optional(),
+    vendor: z.string().min(1).max(128).optional(),
+    connectedOnly: z.boolean().optional()
+  }).refine(
+    (filter) => Object.keys(filter).some(key => key !== 'connectedOnly'),
+    { message: 'Filter must contain at least one matching criterion' }
+  ).optional(),
+  dryRun: z.boolean().default(false)
+}).refine(
+  (params) => Boolean(params.macs?.length || params.hostnames?.length || params.filter),
+  { message: 'Specify clients by MAC address, hostname or filter' }
+);
+
+const ClientAliasFieldsSchema = z.object({
+  name: z.string().max(128).optional(),
+  note: z.string().max(1024).optional(),
+  deviceId: z.number().int().min(0).nullable().optional()
+});
+
+const hasAliasChange = (fields: z.infer<typeof ClientAliasFieldsSchema>) =>
+  fields.name !== undefined || fields.note !== undefined || fields.deviceId !== undefined;
+
+export const SetClientAliasParamsSchema = ClientAliasFieldsSchema.extend({
+  clientId: z.string().min(1)
+}).refine(hasAliasChange, { message: 'Specify a name, note or deviceId to set' });
+
+export const ClientAliasEntrySchema = ClientAliasFieldsSchema.extend({
+  mac: MACAddressSchema
+}).strict().refine(hasAliasChange, { message: 'Specify a name, note or deviceId to set' });
+
+export const SetClientAliasesParamsSchema = z.object({
+  entries: z.array(ClientAliasEntrySchema).min(1).max(1000),
+  dryRun: z.boolean().default(false)
+}).superRefine((params, ctx) => {
+  const seen = new Set<string>();
+  params.entries.forEach((entry, index) => {
+    const mac = normalizeMAC(entry.mac);
+    if (seen.has(mac)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `MAC address ${mac} appears more than once; combine its name, note and deviceId in one entry`,
+        path: ['entries', index, 'mac']
+      });
+    }
+    seen.add(mac);
+  });
+});
+
+/**
+ * Expand a compressed IPv6 address ("2001:db8::1") to its eight groups
+ */
+function expandIPv6(address: string): string {
+  if (!address.includes('::')) return address;
+  const [head, tail] = address.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  return [...headGroups, ...Array(Math.max(missing, 0)).fill('0'), ...tailGroups].join(':');
+}
+
+/**
+ * Check a single firewall group member for the group type: IPv4
+ * addresses, CIDRs or ranges for address groups, IPv6 addresses or
+ * prefixes for IPv6 groups, and ports or port ranges for port groups.
+ * Returns a problem description, or undefined when the member is valid.
+ */
+export function firewallGroupMemberIssue(type: string, member: string): string | undefined {
+  const value = member.trim();
+  const isIPv4Address = (address: string) => !address.includes(':') && IPAddressSchema.safeParse(address).success;
+
+  switch (type) {
+    case 'address-group': {
+      if (value.includes('-')) {
+        const [start, end] = value.split('-');
+        return isIPv4Address(start) && isIPv4Address(end) ? undefined : `'${member}' is not a valid IPv4 range`;
+      }
+      if (value.includes('/')) {
+        return CIDRSchema.safeParse(value).success ? undefined : `'${member}' is not a valid IPv4 CIDR`;
+      }
+      return isIPv4Address(value) ? undefined : `'${member}' is not a valid IPv4 address`;
+    }
+    case 'ipv6-address-group': {
+      const [address, prefix] = value.split('/');
+      const prefixValid = prefix === undefined || (/^\d+$/.test(prefix) && Number(prefix) <= 128);
+      return address.includes(':') && prefixValid && IPAddressSchema.safeParse(expandIPv6(address)).success
+        ? undefined
+        : `'${member}' is not a valid IPv6 address or prefix`;
+    }
+    case 'port-group':
+      return PortRangeSchema.safeParse(value).success && /^\d+(-\d+)?$/.test(value)
+        ? undefined
+        : `'${member}' is not a valid port or port range`;
+    default:
+      return `Unknown group type '${type}'`;
+  }
+}
+
+export const FirewallGroupTypeSchema = z.enum(['address-group', 'port-group', 'ipv6-address-group']);
+
+export const CreateIPGroupParamsSchema = z.object({
+  name: z.string().min(1).max(50),
+  type: FirewallGroupTypeSchema,
+  members: z.array(z.string().min(1)).min(1).max(1000),
+  description: z.string().max(255).optional()
+}).superRefine((params, ctx) => {
+  params.members.forEach((member, index) => {
+    const issue = firewallGroupMemberIssue(params.type, member);
+    if (issue) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue, path: ['members', index] });
+    }
+  });
+});
+
+export const UpdateIPGroupParamsSchema = z.object({
+  groupId: z.string().min(1),
+  name: z.string().min(1).max(50).optional(),
+  members: z.array(z.string().min(1)).min(1).max(1000).optional(),
+  description: z.string().max(255).optional()
+});
+
+export const IPGroupMembersParamsSchema = z.object({
+  groupId: z.string().min(1),
+  members: z.array(z.string().min(1)).min(1).max(1000)
+});
+
+const FirewallDocumentGroupSchema = z.object({
+  name: z.string().min(1).max(50),
+  type: FirewallGroupTypeSchema,
+  members: z.array(z.string().min(1)).min(1).max(1000),
+  description: z.string().max(255).optional()
+}).strict().superRefine((group, ctx) => {
+  group.members.forEach((member, index) => {
+    const issue = firewallGroupMemberIssue(group.type, member);
+    if (issue) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue, path: ['members', index] });
+    }
+  });
+});
+
+const FirewallDocumentRuleSideSchema = z.object({
+  address: z.union([IPAddressSchema, CIDRSchema]).optional(),
+  network: z.string().min(1).optional(),
+  networkType: z.enum(['subnet', 'gateway']).default('subnet'),
+  groups: z.array(z.string().min(1)).min(1).max(2).optional(),
+  port: PortRangeSchema.optional()
+}).strict();
+
+const FirewallDocumentRuleSchema = z.object({
+  name: z.string().min(1).max(100),
+  ruleSet: z.enum(['WAN_IN', 'WAN_OUT', 'WAN_LOCAL', 'LAN_IN', 'LAN_OUT', 'LAN_LOCAL', 'GUEST_IN', 'GUEST_OUT', 'GUEST_LOCAL']),
+  index: z.number().int().min(1).max(9999),
+  action: z.enum(['allow', 'drop', 'reject']),
+  protocol: z.enum(['all', 'tcp', 'udp', 'tcp_udp', 'icmp']).default('all'),
+  source: FirewallDocumentRuleSideSchema.optional(),
+  destination: FirewallDocumentRuleSideSchema.optional(),
+  states: z.array(ZonePolicyConnectionStateSchema).optional(),
+  logging: z.boolean().default(false),
+  enabled: z.boolean().default(true),
+  description: z.string().max(255).optional()
+}).strict();
+
+const FirewallDocumentEndpointSchema = z.object({
+  ips: z.array(z.union([IPAddressSchema, CIDRSchema])).min(1).optional(),
+  group: z.string().min(1).optional(),
+  networks: z.array(z.string().min(1)).min(1).optional(),
+  ports: z.array(PortRangeSchema).min(1).optional(),
+  portGroup: z.string().min(1).optional()
+}).strict().refine(
+  (endpoint) => [endpoint.ips, endpoint.group, endpoint.networks].filter(v => v !== undefined).length <= 1,
+  { message: 'Use only one of ips, group or networks per endpoint' }
+).refine(
+  (endpoint) => !(endpoint.ports && endpoint.portGroup),
+  { message: 'Use either ports or portGroup, not both' }
+);
+
+const FirewallDocumentPolicySchema = z.object({
+  name: z.string().min(1).max(128),
+  sourceZone: z.string().min(1),
+  targetZone: z.string().min(1),
+  priority: z.number().int().min(1).max(9999),
+  action: z.enum(['allow', 'deny', 'reject']),
+  protocol: z.enum(['all', 'tcp', 'udp', 'tcp_udp', 'icmp', 'icmpv6']).default('all'),
+  ipVersion: z.enum(['both', 'ipv4', 'ipv6']).default('both'),
+  source: FirewallDocumentEndpointSchema.optional(),
+  destination: FirewallDocumentEndpointSchema.optional(),
+  applications: z.array(z.string().min(1)).min(1).optional(),
+  schedule: ScheduleParamsSchema.optional(),
+  connectionStates: z.array(ZonePolicyConnectionStateSchema).min(1).optional(),
+  logging: z.boolean().default(false),
+  enabled: z.boolean().default(true),
+  description: z.string().max(255).optional()
+}).strict();
+
+const uniqueNames = (items: Array<{ name: string }>) =>
+  new Set(items.map(item => item.name.toLowerCase())).size === items.length;
+
+export const FirewallDocumentSchema = z.object({
+  groups: z.array(FirewallDocumentGroupSchema).optional(),
+  rules: z.array(FirewallDocumentRuleSchema).optional(),
+  policies: z.array(FirewallDocumentPolicySchema).optional()
+}).strict().refine(
+  (document) => uniqueNames(document.rules ?? []) && uniqueNames(document.policies ?? []),
+  { message: 'Rule and policy names must be unique within the document' }
+).refine(
+  (document) => ['address-group', 'port-group', 'ipv6-address-group']
+    .every(type => uniqueNames((document.groups ?? []).filter(group => group.type === type))),
+  { message: 'Group names must be unique per group type within the document' }
+);
+
+const FirewallTemplateParameterSchema = z.object({
+  name: z.string().regex(/^[a-zA-Z][a-zA-Z0-9_]*$/, 'Parameter names must be identifiers'),
+  type: z.enum(['network', 'group', 'zone', 'address', 'port', 'string']),
+  description: z.string().max(255).optional(),
+  default: z.string().min(1).optional()
+}).strict();
+
+export const FirewallTemplateSchema = z.object({
+  name: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'Template names use lowercase letters, digits and dashes').max(64),
+  description: z.string().min(1).max(500),
+  parameters: z.array(FirewallTemplateParameterSchema).default([]),
+  legacy: z.object({
+    groups: z.array(z.record(z.any())).optional(),
+    rules: z.array(z.record(z.any())).min(1)
+  }).strict().optional(),
+  zbf: z.object({
+    groups: z.array(z.record(z.any())).optional(),
+    policies: z.array(z.record(z.any())).min(1)
+  }).strict().optional()
+}).strict().refine(
+  (template) => template.legacy !== undefined || template.zbf !== undefined,
+  { message: 'A template needs a legacy or zbf section' }
+).refine(
+  (template) => new Set(template.parameters?.map(p => p.name)).size === (template.parameters?.length ?? 0),
+  { message: 'Template parameter names must be unique' }
+);
+
+export const LockoutGuardParamsSchema = z.object({
+  graceSeconds: z.number().int().min(5).max(300).default(30),
+  probe: z.object({
+    host: z.string().min(1),
+    port: z.number().int().min(1).max(65535)
+  }).strict().optional()
+}).strict();
+
 export const BulkOperationParamsSchema = z.object({
   operation: z.enum(['restart', 'adopt', 'upgrade', 'block', 'unblock']),
   deviceIds: z.array(z.string()).min(1).max(50),
@@ -253,6 +738,19 @@ export class ValidationService {
     };
   }
 
+  /**
+   * Validate network listing parameters
+   */
+  static async validateNetworkParams(params: unknown): Promise<z.infer<typeof NetworkParamsSchema>> {
+    const result = await this.validate(NetworkParamsSchema, params, 'network management');
+    return {
+      ...result,
+      enabledOnly: result.enabledOnly ?? false,
+      sortOrder: result.sortOrder ?? 'asc',
+      limit: result.limit ?? 100
+    };
+  }
+
   /**
    * Validate firewall rule creation parameters
    */
@@ -267,8 +765,34 @@ export class ValidationService {
   /**
    * Validate zone creation parameters
    */
-  static async validateCreateZoneParams(params: unknown): Promise<z.infer<typeof ZoneParamsSchema>> {
-    return this.validate(ZoneParamsSchema, params, 'zone creation');
+  static async validateCreateZoneParams(params: unknown): Promise<z.infer<typeof CreateZoneParamsSchema>> {
+    const result = await this.validate(CreateZoneParamsSchema, params, 'zone creation');
+    return {
+      ...result,
+      interfaces: result.interfaces ?? [],
+      enabled: result.enabled ?? true
+    };
+  }
+
+  /**
+   * Validate zone query parameters
+   */
+  static async validateZoneParams(params: unknown): Promise<z.infer<typeof ZoneParamsSchema>> {
+    return this.validate(ZoneParamsSchema, params, 'zone query');
+  }
+
+  /**
+   * Validate zone update parameters
+   */
+  static async validateUpdateZoneParams(params: unknown): Promise<z.infer<typeof UpdateZoneParamsSchema>> {
+    return this.validate(UpdateZoneParamsSchema, params, 'zone update');
+  }
+
+  /**
+   * Validate network zone move parameters
+   */
+  static async validateMoveNetworkToZoneParams(params: unknown): Promise<z.infer<typeof MoveNetworkToZoneParamsSchema>> {
+    return this.validate(MoveNetworkToZoneParamsSchema, params, 'network zone move');
   }
 
   /**
@@ -280,10 +804,46 @@ export class ValidationService {
       ...result,
       enabled: result.enabled ?? true,
       priority: result.priority ?? 2000,
-      logging: result.logging ?? false
+      logging: result.logging ?? false,
+      protocol: result.protocol ?? 'all',
+      ipVersion: result.ipVersion ?? 'both'
+    };
+  }
+
+  /**
+   * Validate zone policy update parameters
+   */
+  static async validateUpdateZonePolicyParams(params: unknown): Promise<z.infer<typeof UpdateZonePolicyParamsSchema>> {
+    return this.validate(UpdateZonePolicyParamsSchema, params, 'zone policy update');
+  }
+
+  /**
+   * Validate zone policy reorder parameters
+   */
+  static async validateReorderZonePoliciesParams(params: unknown): Promise<z.infer<typeof ReorderZonePoliciesParamsSchema>> {
+    return this.validate(ReorderZonePoliciesParamsSchema, params, 'zone policy reorder');
+  }
+
+  /**
+   * Validate app block creation parameters
+   */
+  static async validateCreateAppBlockParams(params: unknown): Promise<z.infer<typeof CreateAppBlockParamsSchema>> {
+    const result = await this.validate(CreateAppBlockParamsSchema, params, 'app block creation');
+    return {
+      ...result,
+      apps: result.apps ?? [],
+      categories: result.categories ?? [],
+      enabled: result.enabled ?? true
     };
   }
 
+  /**
+   * Validate app block update parameters
+   */
+  static async validateUpdateAppBlockParams(params: unknown): Promise<z.infer<typeof UpdateAppBlockParamsSchema>> {
+    return this.validate(UpdateAppBlockParamsSchema, params, 'app block update');
+  }
+
   /**
    * Validate network creation parameters
    */
@@ -296,6 +856,195 @@ export class ValidationService {
     };
   }
 
+  /**
+   * Validate network update parameters
+   */
+  static async validateUpdateNetworkParams(params: unknown): Promise<z.infer<typeof UpdateNetworkParamsSchema>> {
+    return this.validate(UpdateNetworkParamsSchema, params, 'network update');
+  }
+
+  /**
+   * Validate network deletion parameters
+   */
+  static async validateDeleteNetworkParams(params: unknown): Promise<z.infer<typeof DeleteNetworkParamsSchema>> {
+    const result = await this.validate(DeleteNetworkParamsSchema, params, 'network deletion');
+    return {
+      ...result,
+      force: result.force ?? false
+    };
+  }
+
+  /**
+   * Validate IP plan analysis parameters
+   */
+  static async validateAnalyzeIPPlanParams(params: unknown): Promise<z.infer<typeof AnalyzeIPPlanParamsSchema>> {
+    const result = await this.validate(AnalyzeIPPlanParamsSchema, params, 'IP plan analysis');
+    return {
+      ...result,
+      prefixLength: result.prefixLength ?? 24,
+      utilizationThreshold: result.utilizationThreshold ?? 80,
+      suggestionCount: result.suggestionCount ?? 1
+    };
+  }
+
+  /**
+   * Validate fixed-IP reservation parameters
+   */
+  static async validateSetFixedIPParams(params: unknown): Promise<z.infer<typeof SetFixedIPParamsSchema>> {
+    return this.validate(SetFixedIPParamsSchema, params, 'fixed IP reservation');
+  }
+
+  /**
+   * Validate WLAN creation parameters
+   */
+  static async validateCreateWlanParams(params: unknown): Promise<z.infer<typeof CreateWlanParamsSchema>> {
+    const result = await this.validate(CreateWlanParamsSchema, params, 'WLAN creation');
+    return {
+      ...result,
+      security: result.security ?? 'wpa2',
+      hidden: result.hidden ?? false,
+      clientIsolation: result.clientIsolation ?? false,
+      enabled: result.enabled ?? true
+    };
+  }
+
+  /**
+   * Validate WLAN update parameters
+   */
+  static async validateUpdateWlanParams(params: unknown): Promise<z.infer<typeof UpdateWlanParamsSchema>> {
+    return this.validate(UpdateWlanParamsSchema, params, 'WLAN update');
+  }
+
+  /**
+   * Validate WLAN passphrase rotation parameters
+   */
+  static async validateRotateWlanPSKParams(params: unknown): Promise<z.infer<typeof RotateWlanPSKParamsSchema>> {
+    const result = await this.validate(RotateWlanPSKParamsSchema, params, 'WLAN passphrase rotation');
+    return {
+      ...result,
+      length: result.length ?? 24
+    };
+  }
+
+  /**
+   * Validate hotspot voucher creation parameters
+   */
+  static async validateCreateVouchersParams(params: unknown): Promise<z.infer<typeof CreateVouchersParamsSchema>> {
+    const result = await this.validate(CreateVouchersParamsSchema, params, 'voucher creation');
+    return {
+      ...result,
+      count: result.count ?? 1,
+      quota: result.quota ?? 1
+    };
+  }
+
+  /**
+   * Validate port forward creation parameters
+   */
+  static async validateCreatePortForwardParams(params: unknown): Promise<z.infer<typeof CreatePortForwardParamsSchema>> {
+    const result = await this.validate(CreatePortForwardParamsSchema, params, 'port forward creation');
+    return {
+      ...result,
+      protocol: result.protocol ?? 'tcp_udp',
+      wanInterface: result.wanInterface ?? 'wan',
+      logging: result.logging ?? false,
+      enabled: result.enabled ?? true
+    };
+  }
+
+  /**
+   * Validate port forward update parameters
+   */
+  static async validateUpdatePortForwardParams(params: unknown): Promise<z.infer<typeof UpdatePortForwardParamsSchema>> {
+    return this.validate(UpdatePortForwardParamsSchema, params, 'port forward update');
+  }
+
+  /**
+   * Validate static route creation parameters
+   */
+  static async validateCreateStaticRouteParams(params: unknown): Promise<z.infer<typeof CreateStaticRouteParamsSchema>> {
+    const result = await this.validate(CreateStaticRouteParamsSchema, params, 'static route creation');
+    return {
+      ...result,
+      type: result.type ?? 'nexthop-route',
+      distance: result.distance ?? 1,
+      enabled: result.enabled ?? true
+    };
+  }
+
+  /**
+   * Validate static route update parameters
+   */
+  static async validateUpdateStaticRouteParams(params: unknown): Promise<z.infer<typeof UpdateStaticRouteParamsSchema>> {
+    return this.validate(UpdateStaticRouteParamsSchema, params, 'static route update');
+  }
+
+  /**
+   * Validate dynamic DNS creation parameters
+   */
+  static async validateCreateDDNSParams(params: unknown): Promise<z.infer<typeof CreateDDNSParamsSchema>> {
+    const result = await this.validate(CreateDDNSParamsSchema, params, 'dynamic DNS creation');
+    return {
+      ...result,
+      wanInterface: result.wanInterface ?? 'wan'
+    };
+  }
+
+  /**
+   * Validate dynamic DNS update parameters
+   */
+  static async validateUpdateDDNSParams(params: unknown): Promise<z.infer<typeof UpdateDDNSParamsSchema>> {
+    return this.validate(UpdateDDNSParamsSchema, params, 'dynamic DNS update');
+  }
+
+  /**
+   * Validate user group creation parameters
+   */
+  static async validateCreateUserGroupParams(params: unknown): Promise<z.infer<typeof CreateUserGroupParamsSchema>> {
+    const result = await this.validate(CreateUserGroupParamsSchema, params, 'user group creation');
+    return {
+      ...result,
+      downloadLimitKbps: result.downloadLimitKbps ?? -1,
+      uploadLimitKbps: result.uploadLimitKbps ?? -1
+    };
+  }
+
+  /**
+   * Validate user group update parameters
+   */
+  static async validateUpdateUserGroupParams(params: unknown): Promise<z.infer<typeof UpdateUserGroupParamsSchema>> {
+    return this.validate(UpdateUserGroupParamsSchema, params, 'user group update');
+  }
+
+  /**
+   * Validate user group assignment parameters
+   */
+  static async validateAssignUserGroupParams(params: unknown): Promise<z.infer<typeof AssignUserGroupParamsSchema>> {
+    const result = await this.validate(AssignUserGroupParamsSchema, params, 'user group assignment');
+    return {
+      ...result,
+      dryRun: result.dryRun ?? false
+    };
+  }
+
+  /**
+   * Validate single client alias parameters
+   */
+  static async validateSetClientAliasParams(params: unknown): Promise<z.infer<typeof SetClientAliasParamsSchema>> {
+    return this.validate(SetClientAliasParamsSchema, params, 'client alias');
+  }
+
+  /**
+   * Validate bulk client alias entries
+   */
+  static async validateSetClientAliasesParams(params: unknown): Promise<z.infer<typeof SetClientAliasesParamsSchema>> {
+    const result = await this.validate(SetClientAliasesParamsSchema, params, 'client aliases');
+    return {
+      ...result,
+      dryRun: result.dryRun ?? false
+    };
+  }
+
   /**
    * Validate IP group creation parameters
    */
@@ -303,6 +1052,45 @@ export class ValidationService {
     return this.validate(CreateIPGroupParamsSchema, params, 'IP group creation');
   }
 
+  /**
+   * Validate IP group update parameters
+   */
+  static async validateUpdateIPGroupParams(params: unknown): Promise<z.infer<typeof UpdateIPGroupParamsSchema>> {
+    return this.validate(UpdateIPGroupParamsSchema, params, 'IP group update');
+  }
+
+  /**
+   * Validate IP group membership change parameters
+   */
+  static async validateIPGroupMembersParams(params: unknown): Promise<z.infer<typeof IPGroupMembersParamsSchema>> {
+    return this.validate(IPGroupMembersParamsSchema, params, 'IP group membership');
+  }
+
+  /**
+   * Validate a firewall-as-code document
+   */
+  static async validateFirewallDocument(document: unknown): Promise<z.input<typeof FirewallDocumentSchema>> {
+    return this.validate(FirewallDocumentSchema, document, 'firewall document');
+  }
+
+  /**
+   * Validate a firewall rule template definition
+   */
+  static async validateFirewallTemplate(template: unknown): Promise<z.input<typeof FirewallTemplateSchema>> {
+    return this.validate(FirewallTemplateSchema, template, 'firewall template');
+  }
+
+  /**
+   * Validate anti-lockout guard options
+   */
+  static async validateLockoutGuardParams(params: unknown): Promise<z.infer<typeof LockoutGuardParamsSchema>> {
+    const result = await this.validate(LockoutGuardParamsSchema, params, 'lockout guard');
+    return {
+      ...result,
+      graceSeconds: result.graceSeconds ?? 30
+    };
+  }
+
   /**
    * Validate schedule parameters
    */